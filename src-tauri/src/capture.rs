@@ -8,7 +8,7 @@ use std::sync::{Arc, Mutex};
 use std::{thread, time::Duration};
 use tauri::Emitter;
 use tauri::{Manager, WebviewUrl, WebviewWindowBuilder};
-use xcap::Monitor;
+use xcap::{Monitor, Window};
 
 #[derive(Debug, Serialize, Deserialize)]
 pub struct SelectionCoords {
@@ -18,6 +18,35 @@ pub struct SelectionCoords {
     pub height: u32,
 }
 
+/// What screenshot mode captures instead of the monitor TalkEcho is on.
+/// Monitors are matched by name and windows by part of their title, so a
+/// saved choice keeps working after a restart.
+#[derive(Debug, Deserialize)]
+#[serde(tag = "kind", rename_all = "camelCase")]
+pub enum CaptureTarget {
+    Monitor { name: String },
+    Window { title: String },
+    WindowUnderCursor,
+}
+
+#[derive(Debug, Serialize)]
+#[serde(rename_all = "camelCase")]
+pub struct CaptureMonitor {
+    pub name: String,
+    pub width: u32,
+    pub height: u32,
+    pub is_primary: bool,
+}
+
+#[derive(Debug, Serialize)]
+#[serde(rename_all = "camelCase")]
+pub struct CaptureWindow {
+    pub title: String,
+    pub app_name: String,
+    pub width: u32,
+    pub height: u32,
+}
+
 #[derive(Debug, Clone)]
 pub struct MonitorInfo {
     pub image: image::RgbaImage,
@@ -262,7 +291,24 @@ pub async fn capture_selected_area(
 }
 
 #[tauri::command]
-pub async fn capture_to_base64(window: tauri::WebviewWindow) -> Result<String, String> {
+pub async fn capture_to_base64(
+    window: tauri::WebviewWindow,
+    target: Option<CaptureTarget>,
+) -> Result<String, String> {
+    if let Some(target) = target {
+        let cursor = window
+            .cursor_position()
+            .ok()
+            .map(|position| (position.x as i32, position.y as i32));
+        let own_app_name = window.app_handle().package_info().name.clone();
+
+        return tauri::async_runtime::spawn_blocking(move || {
+            capture_target(target, cursor, &own_app_name)
+        })
+        .await
+        .map_err(|e| format!("Task panicked: {}", e))?;
+    }
+
     let monitor_fallback = window
         .current_monitor()
         .ok()
@@ -373,19 +419,122 @@ pub async fn capture_to_base64(window: tauri::WebviewWindow) -> Result<String, S
         let image = monitor
             .capture_image()
             .map_err(|e| format!("Failed to capture image: {}", e))?;
-        let mut png_buffer = Vec::new();
-        PngEncoder::new(&mut png_buffer)
-            .write_image(
-                image.as_raw(),
-                image.width(),
-                image.height(),
-                ColorType::Rgba8.into(),
-            )
-            .map_err(|e| format!("Failed to encode to PNG: {}", e))?;
-        let base64_str = base64::engine::general_purpose::STANDARD.encode(png_buffer);
 
-        Ok(base64_str)
+        encode_png_base64(&image)
     })
     .await
     .map_err(|e| format!("Task panicked: {}", e))?
 }
+
+// List monitors for picking a screenshot target
+#[tauri::command]
+pub async fn list_capture_monitors() -> Result<Vec<CaptureMonitor>, String> {
+    let monitors = Monitor::all().map_err(|e| format!("Failed to get monitors: {}", e))?;
+
+    Ok(monitors
+        .iter()
+        .map(|monitor| CaptureMonitor {
+            name: monitor.name().to_string(),
+            width: monitor.width(),
+            height: monitor.height(),
+            is_primary: monitor.is_primary(),
+        })
+        .collect())
+}
+
+// List open windows of other applications for picking a screenshot target
+#[tauri::command]
+pub async fn list_capture_windows(app: tauri::AppHandle) -> Result<Vec<CaptureWindow>, String> {
+    let own_app_name = app.package_info().name.clone();
+
+    Ok(capturable_windows(&own_app_name)?
+        .iter()
+        .map(|window| CaptureWindow {
+            title: window.title().to_string(),
+            app_name: window.app_name().to_string(),
+            width: window.width(),
+            height: window.height(),
+        })
+        .collect())
+}
+
+/// Visible, titled windows that do not belong to TalkEcho, in the z-order
+/// xcap reports them (topmost first)
+fn capturable_windows(own_app_name: &str) -> Result<Vec<Window>, String> {
+    let windows = Window::all().map_err(|e| format!("Failed to get windows: {}", e))?;
+
+    Ok(windows
+        .into_iter()
+        .filter(|window| {
+            !window.is_minimized()
+                && !window.title().is_empty()
+                && window.width() > 0
+                && window.height() > 0
+                && !window.app_name().eq_ignore_ascii_case(own_app_name)
+        })
+        .collect())
+}
+
+fn capture_target(
+    target: CaptureTarget,
+    cursor: Option<(i32, i32)>,
+    own_app_name: &str,
+) -> Result<String, String> {
+    let image = match target {
+        CaptureTarget::Monitor { name } => {
+            let monitors =
+                Monitor::all().map_err(|e| format!("Failed to get monitors: {}", e))?;
+            let monitor = monitors
+                .into_iter()
+                .find(|monitor| monitor.name() == name)
+                .ok_or_else(|| format!("Monitor \"{}\" is not connected", name))?;
+
+            monitor
+                .capture_image()
+                .map_err(|e| format!("Failed to capture monitor: {}", e))?
+        }
+        CaptureTarget::Window { title } => {
+            let needle = title.to_lowercase();
+            let window = capturable_windows(own_app_name)?
+                .into_iter()
+                .find(|window| window.title().to_lowercase().contains(&needle))
+                .ok_or_else(|| format!("No open window matches \"{}\"", title))?;
+
+            window
+                .capture_image()
+                .map_err(|e| format!("Failed to capture window: {}", e))?
+        }
+        CaptureTarget::WindowUnderCursor => {
+            let (x, y) = cursor.ok_or("Failed to get the cursor position")?;
+            let window = capturable_windows(own_app_name)?
+                .into_iter()
+                .find(|window| {
+                    x >= window.x()
+                        && x < window.x().saturating_add(window.width() as i32)
+                        && y >= window.y()
+                        && y < window.y().saturating_add(window.height() as i32)
+                })
+                .ok_or("No window found under the cursor")?;
+
+            window
+                .capture_image()
+                .map_err(|e| format!("Failed to capture window: {}", e))?
+        }
+    };
+
+    encode_png_base64(&image)
+}
+
+fn encode_png_base64(image: &image::RgbaImage) -> Result<String, String> {
+    let mut png_buffer = Vec::new();
+    PngEncoder::new(&mut png_buffer)
+        .write_image(
+            image.as_raw(),
+            image.width(),
+            image.height(),
+            ColorType::Rgba8.into(),
+        )
+        .map_err(|e| format!("Failed to encode to PNG: {}", e))?;
+
+    Ok(base64::engine::general_purpose::STANDARD.encode(png_buffer))
+}
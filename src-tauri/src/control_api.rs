@@ -0,0 +1,486 @@
+// Opt-in automation API on the loopback interface. HTTP requests are handed to
+// the main window, which owns capture, prompts and conversations, and its
+// answer is sent back; WebSocket clients receive the events it publishes.
+use futures_util::{SinkExt, StreamExt};
+use serde::Serialize;
+use serde_json::{json, Value};
+use std::collections::HashMap;
+use std::net::{Ipv4Addr, SocketAddr};
+use std::sync::atomic::{AtomicU64, Ordering};
+use std::sync::{Arc, Mutex};
+use std::time::Duration;
+use tauri::async_runtime::JoinHandle;
+use tauri::{AppHandle, Emitter, State};
+use tokio::io::{AsyncReadExt, AsyncWriteExt};
+use tokio::net::{TcpListener, TcpStream};
+use tokio::sync::{broadcast, oneshot, watch};
+use tokio_tungstenite::tungstenite::handshake::derive_accept_key;
+use tokio_tungstenite::tungstenite::protocol::Role;
+use tokio_tungstenite::tungstenite::Message;
+use tokio_tungstenite::WebSocketStream;
+
+// How long a client gets to send a request, and the main window to answer it
+const REQUEST_TIMEOUT: Duration = Duration::from_secs(15);
+const MAX_REQUEST_BYTES: usize = 64 * 1024;
+const EVENTS_PATH: &str = "/v1/events";
+
+// Requests forwarded to the main window: method, path and action name
+const ROUTES: &[(&str, &str, &str)] = &[
+    ("GET", "/v1/status", "status"),
+    ("POST", "/v1/capture/start", "startCapture"),
+    ("POST", "/v1/capture/stop", "stopCapture"),
+    ("POST", "/v1/prompt", "sendPrompt"),
+    ("GET", "/v1/system-prompts", "listSystemPrompts"),
+    ("POST", "/v1/system-prompts/select", "selectSystemPrompt"),
+];
+
+type PendingRequests = Mutex<HashMap<u64, oneshot::Sender<Result<Value, String>>>>;
+
+struct Server {
+    token: Mutex<String>,
+    events: broadcast::Sender<String>,
+    // Signalled to close the WebSocket connections
+    disconnect: watch::Sender<bool>,
+}
+
+struct RunningServer {
+    port: u16,
+    server: Arc<Server>,
+    task: JoinHandle<()>,
+}
+
+#[derive(Default)]
+pub struct ControlApiState {
+    running: Mutex<Option<RunningServer>>,
+    pending: Arc<PendingRequests>,
+    next_id: Arc<AtomicU64>,
+}
+
+#[derive(Debug, Serialize)]
+#[serde(rename_all = "camelCase")]
+pub struct ControlApiStatus {
+    running: bool,
+    port: Option<u16>,
+}
+
+struct HttpRequest {
+    method: String,
+    path: String,
+    query: HashMap<String, String>,
+    headers: HashMap<String, String>,
+    body: Vec<u8>,
+}
+
+fn stop_running(state: &ControlApiState) {
+    let running = state
+        .running
+        .lock()
+        .unwrap_or_else(|e| e.into_inner())
+        .take();
+    if let Some(running) = running {
+        let _ = running.server.disconnect.send(true);
+        running.task.abort();
+    }
+}
+
+/// Starts (or restarts) the API on 127.0.0.1. Every request must carry the
+/// token, as `Authorization: Bearer <token>` or a `token` query parameter.
+#[tauri::command]
+pub async fn start_control_api(
+    app: AppHandle,
+    state: State<'_, ControlApiState>,
+    port: u16,
+    token: String,
+) -> Result<ControlApiStatus, String> {
+    if token.trim().len() < 16 {
+        return Err("The control API token must be at least 16 characters".to_string());
+    }
+
+    let token = token.trim().to_string();
+
+    // Same port: keep listening and only swap the token, dropping the
+    // WebSocket clients connected with the old one
+    {
+        let running = state.running.lock().unwrap_or_else(|e| e.into_inner());
+        if let Some(running) = running.as_ref().filter(|r| r.port == port) {
+            let mut current = running
+                .server
+                .token
+                .lock()
+                .unwrap_or_else(|e| e.into_inner());
+            if *current != token {
+                *current = token;
+                let _ = running.server.disconnect.send(true);
+            }
+            return Ok(ControlApiStatus {
+                running: true,
+                port: Some(port),
+            });
+        }
+    }
+
+    stop_running(&state);
+
+    let listener = TcpListener::bind(SocketAddr::from((Ipv4Addr::LOCALHOST, port)))
+        .await
+        .map_err(|e| format!("Failed to start the control API on port {}: {}", port, e))?;
+    let port = listener
+        .local_addr()
+        .map_err(|e| format!("Failed to start the control API: {}", e))?
+        .port();
+
+    let (events, _) = broadcast::channel(256);
+    let (disconnect, _) = watch::channel(false);
+    let server = Arc::new(Server {
+        token: Mutex::new(token),
+        events,
+        disconnect,
+    });
+
+    let pending = state.pending.clone();
+    let next_id = state.next_id.clone();
+    let accept_server = server.clone();
+    let task = tauri::async_runtime::spawn(async move {
+        loop {
+            let stream = match listener.accept().await {
+                Ok((stream, _)) => stream,
+                Err(e) => {
+                    eprintln!("Control API failed to accept a connection: {}", e);
+                    continue;
+                }
+            };
+            let app = app.clone();
+            let server = accept_server.clone();
+            let pending = pending.clone();
+            let next_id = next_id.clone();
+            tauri::async_runtime::spawn(async move {
+                handle_connection(stream, app, server, pending, next_id).await;
+            });
+        }
+    });
+
+    *state.running.lock().unwrap_or_else(|e| e.into_inner()) =
+        Some(RunningServer { port, server, task });
+
+    Ok(ControlApiStatus {
+        running: true,
+        port: Some(port),
+    })
+}
+
+#[tauri::command]
+pub fn stop_control_api(state: State<'_, ControlApiState>) -> Result<(), String> {
+    stop_running(&state);
+    Ok(())
+}
+
+#[tauri::command]
+pub fn get_control_api_status(state: State<'_, ControlApiState>) -> ControlApiStatus {
+    let running = state.running.lock().unwrap_or_else(|e| e.into_inner());
+    ControlApiStatus {
+        running: running.is_some(),
+        port: running.as_ref().map(|r| r.port),
+    }
+}
+
+/// Answer from the main window to a forwarded request
+#[tauri::command]
+pub fn control_api_respond(
+    state: State<'_, ControlApiState>,
+    id: u64,
+    result: Option<Value>,
+    error: Option<String>,
+) -> Result<(), String> {
+    let sender = state
+        .pending
+        .lock()
+        .unwrap_or_else(|e| e.into_inner())
+        .remove(&id);
+    if let Some(sender) = sender {
+        let _ = sender.send(match error {
+            Some(error) => Err(error),
+            None => Ok(result.unwrap_or(Value::Null)),
+        });
+    }
+    Ok(())
+}
+
+/// Sends an event to every connected WebSocket client
+#[tauri::command]
+pub fn control_api_publish(state: State<'_, ControlApiState>, event: Value) -> Result<(), String> {
+    let running = state.running.lock().unwrap_or_else(|e| e.into_inner());
+    if let Some(running) = running.as_ref() {
+        // Sending only fails when nobody is subscribed
+        let _ = running.server.events.send(event.to_string());
+    }
+    Ok(())
+}
+
+async fn handle_connection(
+    mut stream: TcpStream,
+    app: AppHandle,
+    server: Arc<Server>,
+    pending: Arc<PendingRequests>,
+    next_id: Arc<AtomicU64>,
+) {
+    // A client that never finishes its request would hold this task forever
+    let request = match tokio::time::timeout(REQUEST_TIMEOUT, read_request(&mut stream))
+        .await
+        .unwrap_or_else(|_| Err((408, "Request timed out".to_string())))
+    {
+        Ok(request) => request,
+        Err((status, message)) => {
+            write_json(
+                &mut stream,
+                status,
+                &json!({ "ok": false, "error": message }),
+            )
+            .await;
+            return;
+        }
+    };
+
+    let token = server
+        .token
+        .lock()
+        .unwrap_or_else(|e| e.into_inner())
+        .clone();
+    if !is_authorized(&request, &token) {
+        let error = json!({ "ok": false, "error": "Missing or invalid token" });
+        write_json(&mut stream, 401, &error).await;
+        return;
+    }
+
+    if request.path == EVENTS_PATH {
+        serve_events(stream, &request, server).await;
+        return;
+    }
+
+    let Some(&(_, _, action)) = ROUTES
+        .iter()
+        .find(|(method, path, _)| *method == request.method && *path == request.path)
+    else {
+        let error = json!({ "ok": false, "error": "Not found" });
+        write_json(&mut stream, 404, &error).await;
+        return;
+    };
+
+    let params = if request.body.is_empty() {
+        Value::Null
+    } else {
+        match serde_json::from_slice::<Value>(&request.body) {
+            Ok(params) => params,
+            Err(e) => {
+                let error = json!({ "ok": false, "error": format!("Invalid JSON body: {}", e) });
+                write_json(&mut stream, 400, &error).await;
+                return;
+            }
+        }
+    };
+
+    let (status, body) = match forward_request(&app, &pending, &next_id, action, params).await {
+        Ok(result) => (200, json!({ "ok": true, "result": result })),
+        Err((status, error)) => (status, json!({ "ok": false, "error": error })),
+    };
+    write_json(&mut stream, status, &body).await;
+}
+
+// Hands the request to the main window and waits for control_api_respond
+async fn forward_request(
+    app: &AppHandle,
+    pending: &PendingRequests,
+    next_id: &AtomicU64,
+    action: &str,
+    params: Value,
+) -> Result<Value, (u16, String)> {
+    let id = next_id.fetch_add(1, Ordering::Relaxed);
+    let (sender, receiver) = oneshot::channel();
+    pending
+        .lock()
+        .unwrap_or_else(|e| e.into_inner())
+        .insert(id, sender);
+
+    let request = json!({ "id": id, "action": action, "params": params });
+    if let Err(e) = app.emit_to("main", "control-api-request", request) {
+        pending
+            .lock()
+            .unwrap_or_else(|e| e.into_inner())
+            .remove(&id);
+        return Err((500, format!("Failed to reach the main window: {}", e)));
+    }
+
+    match tokio::time::timeout(REQUEST_TIMEOUT, receiver).await {
+        Ok(Ok(Ok(result))) => Ok(result),
+        Ok(Ok(Err(error))) => Err((400, error)),
+        _ => {
+            pending
+                .lock()
+                .unwrap_or_else(|e| e.into_inner())
+                .remove(&id);
+            Err((504, "TalkEcho did not answer in time".to_string()))
+        }
+    }
+}
+
+async fn serve_events(mut stream: TcpStream, request: &HttpRequest, server: Arc<Server>) {
+    let is_upgrade = request
+        .headers
+        .get("upgrade")
+        .is_some_and(|value| value.eq_ignore_ascii_case("websocket"));
+    let Some(key) = request
+        .headers
+        .get("sec-websocket-key")
+        .filter(|_| is_upgrade)
+    else {
+        let error = json!({ "ok": false, "error": "Expected a WebSocket upgrade" });
+        write_json(&mut stream, 400, &error).await;
+        return;
+    };
+
+    let handshake = format!(
+        "HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\nSec-WebSocket-Accept: {}\r\n\r\n",
+        derive_accept_key(key.as_bytes())
+    );
+    if stream.write_all(handshake.as_bytes()).await.is_err() {
+        return;
+    }
+
+    let socket = WebSocketStream::from_raw_socket(stream, Role::Server, None).await;
+    let (mut sink, mut source) = socket.split();
+    let mut events = server.events.subscribe();
+    let mut disconnect = server.disconnect.subscribe();
+
+    loop {
+        tokio::select! {
+            _ = disconnect.changed() => {
+                let _ = sink.send(Message::Close(None)).await;
+                break;
+            }
+            event = events.recv() => match event {
+                Ok(event) => {
+                    if sink.send(Message::Text(event)).await.is_err() {
+                        break;
+                    }
+                }
+                // A slow client misses events rather than holding up the rest
+                Err(broadcast::error::RecvError::Lagged(_)) => continue,
+                Err(broadcast::error::RecvError::Closed) => break,
+            },
+            incoming = source.next() => match incoming {
+                Some(Ok(Message::Close(_))) | Some(Err(_)) | None => break,
+                // Pings are answered by tungstenite, anything else is ignored
+                Some(Ok(_)) => continue,
+            },
+        }
+    }
+}
+
+fn is_authorized(request: &HttpRequest, token: &str) -> bool {
+    let provided = request
+        .headers
+        .get("authorization")
+        .and_then(|value| value.strip_prefix("Bearer "))
+        .or_else(|| request.query.get("token").map(String::as_str));
+    provided.is_some_and(|provided| constant_time_eq(provided.trim(), token))
+}
+
+fn constant_time_eq(a: &str, b: &str) -> bool {
+    a.len() == b.len()
+        && a.bytes()
+            .zip(b.bytes())
+            .fold(0u8, |diff, (x, y)| diff | (x ^ y))
+            == 0
+}
+
+// Reads one HTTP/1.1 request; the connection is closed after the response
+async fn read_request(stream: &mut TcpStream) -> Result<HttpRequest, (u16, String)> {
+    let mut buffer = Vec::new();
+    let mut chunk = [0u8; 4096];
+    let head_end = loop {
+        if let Some(position) = buffer.windows(4).position(|w| w == b"\r\n\r\n") {
+            break position;
+        }
+        if buffer.len() > MAX_REQUEST_BYTES {
+            return Err((413, "Request too large".to_string()));
+        }
+        let read = stream
+            .read(&mut chunk)
+            .await
+            .map_err(|e| (400, format!("Failed to read request: {}", e)))?;
+        if read == 0 {
+            return Err((400, "Incomplete request".to_string()));
+        }
+        buffer.extend_from_slice(&chunk[..read]);
+    };
+
+    let head = String::from_utf8_lossy(&buffer[..head_end]).to_string();
+    let mut lines = head.split("\r\n");
+    let mut request_line = lines.next().unwrap_or_default().split_whitespace();
+    let method = request_line.next().unwrap_or_default().to_string();
+    let target = request_line.next().unwrap_or_default();
+
+    let headers: HashMap<String, String> = lines
+        .filter_map(|line| line.split_once(':'))
+        .map(|(name, value)| (name.trim().to_ascii_lowercase(), value.trim().to_string()))
+        .collect();
+
+    let (path, query) = target.split_once('?').unwrap_or((target, ""));
+    // Tokens are generated as hex, so the query is not percent-decoded
+    let query = query
+        .split('&')
+        .filter_map(|pair| pair.split_once('='))
+        .map(|(name, value)| (name.to_string(), value.to_string()))
+        .collect();
+
+    let content_length: usize = headers
+        .get("content-length")
+        .and_then(|value| value.parse().ok())
+        .unwrap_or(0);
+    if content_length > MAX_REQUEST_BYTES {
+        return Err((413, "Request too large".to_string()));
+    }
+
+    let mut body = buffer[head_end + 4..].to_vec();
+    while body.len() < content_length {
+        let read = stream
+            .read(&mut chunk)
+            .await
+            .map_err(|e| (400, format!("Failed to read request: {}", e)))?;
+        if read == 0 {
+            return Err((400, "Incomplete request body".to_string()));
+        }
+        body.extend_from_slice(&chunk[..read]);
+    }
+    body.truncate(content_length);
+
+    Ok(HttpRequest {
+        method,
+        path: path.trim_end_matches('/').to_string(),
+        query,
+        headers,
+        body,
+    })
+}
+
+async fn write_json(stream: &mut TcpStream, status: u16, body: &Value) {
+    let reason = match status {
+        200 => "OK",
+        400 => "Bad Request",
+        401 => "Unauthorized",
+        404 => "Not Found",
+        408 => "Request Timeout",
+        413 => "Payload Too Large",
+        504 => "Gateway Timeout",
+        _ => "Internal Server Error",
+    };
+    let body = body.to_string();
+    let response = format!(
+        "HTTP/1.1 {} {}\r\nContent-Type: application/json\r\nContent-Length: {}\r\nConnection: close\r\n\r\n{}",
+        status,
+        reason,
+        body.len(),
+        body
+    );
+    let _ = stream.write_all(response.as_bytes()).await;
+    let _ = stream.shutdown().await;
+}
@@ -0,0 +1,43 @@
+use std::sync::Mutex;
+use tauri::State;
+
+/// Unlocked database encryption key (base64), shared by all windows until the
+/// database is locked or the app quits. It is never written to disk.
+#[derive(Default)]
+pub struct DatabaseKeyState {
+    key: Mutex<Option<String>>,
+}
+
+#[tauri::command]
+pub fn set_database_session_key(
+    state: State<'_, DatabaseKeyState>,
+    key: String,
+) -> Result<(), String> {
+    let mut guard = state
+        .key
+        .lock()
+        .map_err(|e| format!("Failed to lock key state: {}", e))?;
+    *guard = Some(key);
+    Ok(())
+}
+
+#[tauri::command]
+pub fn get_database_session_key(
+    state: State<'_, DatabaseKeyState>,
+) -> Result<Option<String>, String> {
+    let guard = state
+        .key
+        .lock()
+        .map_err(|e| format!("Failed to lock key state: {}", e))?;
+    Ok(guard.clone())
+}
+
+#[tauri::command]
+pub fn clear_database_session_key(state: State<'_, DatabaseKeyState>) -> Result<(), String> {
+    let mut guard = state
+        .key
+        .lock()
+        .map_err(|e| format!("Failed to lock key state: {}", e))?;
+    *guard = None;
+    Ok(())
+}
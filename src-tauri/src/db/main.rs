@@ -24,5 +24,54 @@ pub fn migrations() -> Vec<Migration> {
             sql: include_str!("migrations/chat-history-add-source.sql"),
             kind: MigrationKind::Up,
         },
+        // Migration 4: Add provider, model and usage columns to messages
+        Migration {
+            version: 4,
+            description: "add_message_usage_columns",
+            sql: include_str!("migrations/chat-history-add-usage.sql"),
+            kind: MigrationKind::Up,
+        },
+        // Migration 5: Add speaker ids to messages and speaker names to conversations
+        Migration {
+            version: 5,
+            description: "add_speaker_diarization_columns",
+            sql: include_str!("migrations/chat-history-add-speakers.sql"),
+            kind: MigrationKind::Up,
+        },
+        // Migration 6: Add FTS5 full-text index over message content
+        Migration {
+            version: 6,
+            description: "add_messages_fts_index",
+            sql: include_str!("migrations/chat-history-add-fts.sql"),
+            kind: MigrationKind::Up,
+        },
+        // Migration 7: Add meeting summary to conversations
+        Migration {
+            version: 7,
+            description: "add_conversation_summary_column",
+            sql: include_str!("migrations/chat-history-add-summary.sql"),
+            kind: MigrationKind::Up,
+        },
+        // Migration 8: Add folders, pinning and tags to conversations
+        Migration {
+            version: 8,
+            description: "add_conversation_organization",
+            sql: include_str!("migrations/chat-history-add-organization.sql"),
+            kind: MigrationKind::Up,
+        },
+        // Migration 9: Add key metadata for conversation encryption at rest
+        Migration {
+            version: 9,
+            description: "add_database_encryption_table",
+            sql: include_str!("migrations/chat-history-add-encryption.sql"),
+            kind: MigrationKind::Up,
+        },
+        // Migration 10: Add context document libraries, documents and chunks
+        Migration {
+            version: 10,
+            description: "create_context_documents_tables",
+            sql: include_str!("migrations/context-documents.sql"),
+            kind: MigrationKind::Up,
+        },
     ]
 }
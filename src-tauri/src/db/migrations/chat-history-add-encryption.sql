@@ -0,0 +1,9 @@
+-- Key metadata for optional encryption of conversation content at rest.
+-- A single row exists while encryption is enabled; the key itself is never stored here.
+CREATE TABLE IF NOT EXISTS database_encryption (
+    id INTEGER PRIMARY KEY CHECK (id = 1),
+    key_source TEXT NOT NULL CHECK(key_source IN ('keychain', 'passphrase')),
+    salt TEXT,
+    verifier TEXT NOT NULL,
+    created_at INTEGER NOT NULL
+);
@@ -0,0 +1,34 @@
+-- Full-text index over message content, kept in sync by triggers.
+-- External content table keyed by the messages rowid; if the rowids ever
+-- change (e.g. after VACUUM) run: INSERT INTO messages_fts(messages_fts) VALUES('rebuild');
+CREATE VIRTUAL TABLE IF NOT EXISTS messages_fts USING fts5(
+    content,
+    content='messages',
+    content_rowid='rowid',
+    tokenize='unicode61 remove_diacritics 2'
+);
+
+CREATE TRIGGER IF NOT EXISTS messages_fts_after_insert
+AFTER INSERT ON messages
+FOR EACH ROW
+BEGIN
+    INSERT INTO messages_fts(rowid, content) VALUES (NEW.rowid, NEW.content);
+END;
+
+CREATE TRIGGER IF NOT EXISTS messages_fts_after_delete
+AFTER DELETE ON messages
+FOR EACH ROW
+BEGIN
+    INSERT INTO messages_fts(messages_fts, rowid, content) VALUES ('delete', OLD.rowid, OLD.content);
+END;
+
+CREATE TRIGGER IF NOT EXISTS messages_fts_after_update
+AFTER UPDATE OF content ON messages
+FOR EACH ROW
+BEGIN
+    INSERT INTO messages_fts(messages_fts, rowid, content) VALUES ('delete', OLD.rowid, OLD.content);
+    INSERT INTO messages_fts(rowid, content) VALUES (NEW.rowid, NEW.content);
+END;
+
+-- Index the messages stored before this migration
+INSERT INTO messages_fts(messages_fts) VALUES ('rebuild');
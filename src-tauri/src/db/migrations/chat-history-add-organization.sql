@@ -0,0 +1,15 @@
+-- Add folders, pinning and tags to conversations
+ALTER TABLE conversations ADD COLUMN folder TEXT;
+ALTER TABLE conversations ADD COLUMN pinned INTEGER NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS conversation_tags (
+    conversation_id TEXT NOT NULL,
+    tag TEXT NOT NULL COLLATE NOCASE,
+    PRIMARY KEY (conversation_id, tag),
+    FOREIGN KEY (conversation_id) REFERENCES conversations(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_conversation_tags_tag ON conversation_tags(tag);
+CREATE INDEX IF NOT EXISTS idx_conversations_folder ON conversations(folder);
+-- Pinned conversations are listed first
+CREATE INDEX IF NOT EXISTS idx_conversations_pinned_updated_at ON conversations(pinned DESC, updated_at DESC);
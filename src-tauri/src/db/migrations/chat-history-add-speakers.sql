@@ -0,0 +1,3 @@
+-- Add per-message speaker ids and per-conversation speaker display names for diarization
+ALTER TABLE messages ADD COLUMN speaker_id TEXT;
+ALTER TABLE conversations ADD COLUMN speaker_names TEXT;
@@ -0,0 +1,2 @@
+-- Add the generated meeting summary (JSON) to conversations
+ALTER TABLE conversations ADD COLUMN summary TEXT;
@@ -0,0 +1,30 @@
+-- Document libraries the audio assistant retrieves context from
+CREATE TABLE IF NOT EXISTS context_libraries (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL,
+    created_at INTEGER NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS context_documents (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    library_id INTEGER NOT NULL,
+    name TEXT NOT NULL,
+    size_bytes INTEGER NOT NULL,
+    -- Embedding engine and model the chunks were embedded with
+    embedding_model TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    FOREIGN KEY (library_id) REFERENCES context_libraries(id) ON DELETE CASCADE
+);
+
+-- Embeddings are little-endian float32 vectors in base64
+CREATE TABLE IF NOT EXISTS context_chunks (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    document_id INTEGER NOT NULL,
+    position INTEGER NOT NULL,
+    content TEXT NOT NULL,
+    embedding TEXT NOT NULL,
+    FOREIGN KEY (document_id) REFERENCES context_documents(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_context_documents_library_id ON context_documents(library_id);
+CREATE INDEX IF NOT EXISTS idx_context_chunks_document_id ON context_chunks(document_id, position);
@@ -1,3 +1,5 @@
+mod key;
 mod main;
 
+pub use key::*;
 pub use main::*;
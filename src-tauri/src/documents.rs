@@ -0,0 +1,77 @@
+// Text extraction for the context document library. Chunking, embeddings
+// and retrieval happen in the frontend; this only turns files into text.
+use base64::{engine::general_purpose, Engine as _};
+use std::io::{Cursor, Read};
+
+fn decode_xml_entities(text: &str) -> String {
+    text.replace("&lt;", "<")
+        .replace("&gt;", ">")
+        .replace("&quot;", "\"")
+        .replace("&apos;", "'")
+        .replace("&amp;", "&")
+}
+
+// Paragraphs, tabs and line breaks of word/document.xml as plain text
+fn docx_text(bytes: &[u8]) -> Result<String, String> {
+    let mut archive = zip::ZipArchive::new(Cursor::new(bytes))
+        .map_err(|e| format!("Failed to open DOCX: {}", e))?;
+    let mut xml = String::new();
+    archive
+        .by_name("word/document.xml")
+        .map_err(|e| format!("Failed to read DOCX: {}", e))?
+        .read_to_string(&mut xml)
+        .map_err(|e| format!("Failed to read DOCX: {}", e))?;
+
+    let mut text = String::with_capacity(xml.len() / 4);
+    let mut rest = xml.as_str();
+    while let Some(start) = rest.find('<') {
+        text.push_str(&decode_xml_entities(&rest[..start]));
+        let Some(end) = rest[start..].find('>') else {
+            break;
+        };
+        let tag = &rest[start + 1..start + end];
+        let name = tag
+            .trim_start_matches('/')
+            .split(|c: char| c.is_whitespace() || c == '/')
+            .next()
+            .unwrap_or("");
+        match name {
+            "w:p" if tag.starts_with('/') => text.push('\n'),
+            "w:tab" => text.push('\t'),
+            "w:br" | "w:cr" => text.push('\n'),
+            _ => {}
+        }
+        rest = &rest[start + end + 1..];
+    }
+    Ok(text)
+}
+
+fn extract_text(file_name: &str, bytes: &[u8]) -> Result<String, String> {
+    let extension = file_name
+        .rsplit_once('.')
+        .map(|(_, ext)| ext.to_lowercase())
+        .unwrap_or_default();
+
+    match extension.as_str() {
+        "pdf" => pdf_extract::extract_text_from_mem(bytes)
+            .map_err(|e| format!("Failed to read PDF: {}", e)),
+        "docx" => docx_text(bytes),
+        "md" | "markdown" | "txt" => Ok(String::from_utf8_lossy(bytes).into_owned()),
+        _ => Err(format!("Unsupported document type: {}", file_name)),
+    }
+}
+
+#[tauri::command]
+pub async fn extract_document_text(
+    file_name: String,
+    data_base64: String,
+) -> Result<String, String> {
+    let bytes = general_purpose::STANDARD
+        .decode(data_base64)
+        .map_err(|e| format!("Failed to decode document: {}", e))?;
+
+    // PDF parsing can take a while for long documents
+    tauri::async_runtime::spawn_blocking(move || extract_text(&file_name, &bytes))
+        .await
+        .map_err(|e| format!("Failed to extract document text: {}", e))?
+}
@@ -2,8 +2,14 @@
 mod activate;
 mod api;
 mod capture;
+mod control_api;
 mod db;
+mod documents;
+mod live_notes;
+mod ocr;
+mod retention;
 mod shortcuts;
+mod whisper;
 mod window;
 use std::sync::{Arc, Mutex};
 use tauri::Manager;
@@ -22,6 +28,7 @@ pub struct AudioState {
     stream_task: Arc<Mutex<Option<JoinHandle<()>>>>,
     vad_config: Arc<Mutex<VadConfig>>,
     is_capturing: Arc<Mutex<bool>>,
+    is_streaming: Arc<Mutex<bool>>,
 }
 
 #[tauri::command]
@@ -40,7 +47,9 @@ pub fn run() {
                 .build(),
         )
         .manage(AudioState::default())
+        .manage(db::DatabaseKeyState::default())
         .manage(CaptureState::default())
+        .manage(control_api::ControlApiState::default())
         .manage(shortcuts::WindowVisibility {
             is_hidden: Mutex::new(false),
         })
@@ -81,6 +90,8 @@ pub fn run() {
             capture::start_screen_capture,
             capture::capture_selected_area,
             capture::close_overlay_window,
+            capture::list_capture_monitors,
+            capture::list_capture_windows,
             shortcuts::check_shortcuts_registered,
             shortcuts::get_registered_shortcuts,
             shortcuts::update_shortcuts,
@@ -103,6 +114,14 @@ pub fn run() {
             api::create_system_prompt,
             api::check_license_status,
             api::get_activity,
+            whisper::get_whisper_models,
+            whisper::download_whisper_model,
+            whisper::delete_whisper_model,
+            whisper::transcribe_audio_local,
+            ocr::get_ocr_languages,
+            ocr::download_ocr_language,
+            ocr::delete_ocr_language,
+            ocr::recognize_image_text,
             speaker::start_system_audio_capture,
             speaker::stop_system_audio_capture,
             speaker::manual_stop_continuous,
@@ -114,6 +133,17 @@ pub fn run() {
             speaker::get_audio_sample_rate,
             speaker::get_input_devices,
             speaker::get_output_devices,
+            db::set_database_session_key,
+            db::get_database_session_key,
+            db::clear_database_session_key,
+            control_api::start_control_api,
+            control_api::stop_control_api,
+            control_api::get_control_api_status,
+            control_api::control_api_respond,
+            control_api::control_api_publish,
+            live_notes::check_live_notes_directory,
+            live_notes::append_live_notes,
+            documents::extract_document_text,
         ])
         .setup(|app| {
             // Setup main window positioning
@@ -196,6 +226,8 @@ pub fn run() {
             if let Err(e) = shortcuts::setup_global_shortcuts(app.handle()) {
                 eprintln!("Failed to setup global shortcuts: {}", e);
             }
+
+            retention::start_retention_scheduler(app.handle());
             Ok(())
         });
 
@@ -0,0 +1,75 @@
+// Live meeting notes: transcript segments are appended to a Markdown file in
+// a folder the user chose, such as an Obsidian vault, while capture runs.
+use std::io::ErrorKind;
+use std::path::{Path, PathBuf};
+use tokio::fs::OpenOptions;
+use tokio::io::AsyncWriteExt;
+
+fn notes_dir(directory: &str) -> Result<PathBuf, String> {
+    let dir = Path::new(directory.trim());
+    if !dir.is_absolute() {
+        return Err("The notes folder must be an absolute path".to_string());
+    }
+    if !dir.is_dir() {
+        return Err(format!(
+            "The notes folder does not exist: {}",
+            dir.display()
+        ));
+    }
+    Ok(dir.to_path_buf())
+}
+
+// File names come from a user template and must stay inside the folder
+fn note_path(directory: &str, file_name: &str) -> Result<PathBuf, String> {
+    let valid = file_name.ends_with(".md")
+        && !file_name.starts_with('.')
+        && !file_name.contains(['/', '\\'])
+        && !file_name.contains("..");
+    if !valid {
+        return Err(format!("Invalid note file name: {}", file_name));
+    }
+    Ok(notes_dir(directory)?.join(file_name))
+}
+
+#[tauri::command]
+pub fn check_live_notes_directory(directory: String) -> Result<(), String> {
+    notes_dir(&directory).map(|_| ())
+}
+
+/// Appends to the note, creating it with `header` (front matter and title)
+/// first when it does not exist yet
+#[tauri::command]
+pub async fn append_live_notes(
+    directory: String,
+    file_name: String,
+    header: String,
+    content: String,
+) -> Result<(), String> {
+    let path = note_path(&directory, &file_name)?;
+
+    let (mut file, is_new) = match OpenOptions::new()
+        .write(true)
+        .create_new(true)
+        .open(&path)
+        .await
+    {
+        Ok(file) => (file, true),
+        Err(e) if e.kind() == ErrorKind::AlreadyExists => {
+            let file = OpenOptions::new()
+                .append(true)
+                .open(&path)
+                .await
+                .map_err(|e| format!("Failed to open note: {}", e))?;
+            (file, false)
+        }
+        Err(e) => return Err(format!("Failed to create note: {}", e)),
+    };
+
+    let text = if is_new { header + &content } else { content };
+    file.write_all(text.as_bytes())
+        .await
+        .map_err(|e| format!("Failed to write note: {}", e))?;
+    file.flush()
+        .await
+        .map_err(|e| format!("Failed to write note: {}", e))
+}
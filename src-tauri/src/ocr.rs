@@ -0,0 +1,173 @@
+// Local text recognition for screenshots: Tesseract runs as a bundled sidecar
+// binary and its language data is downloaded into the app data directory on
+// demand.
+use base64::{engine::general_purpose, Engine as _};
+use serde::Serialize;
+use std::fs;
+use std::path::PathBuf;
+use tauri::{AppHandle, Manager};
+use tauri_plugin_shell::ShellExt;
+
+const LANGUAGE_BASE_URL: &str = "https://github.com/tesseract-ocr/tessdata_fast/raw/main";
+const SIDECAR_NAME: &str = "tesseract";
+
+#[derive(Debug, Serialize, Clone)]
+pub struct OcrLanguageStatus {
+    id: String,
+    downloaded: bool,
+    size_bytes: u64,
+}
+
+fn tessdata_dir(app: &AppHandle) -> Result<PathBuf, String> {
+    let dir = app
+        .path()
+        .app_data_dir()
+        .map_err(|e| format!("Failed to get app data directory: {}", e))?
+        .join("tessdata");
+
+    fs::create_dir_all(&dir)
+        .map_err(|e| format!("Failed to create language data directory: {}", e))?;
+
+    Ok(dir)
+}
+
+// Language ids come from the frontend and end up in a file name
+fn language_path(app: &AppHandle, language: &str) -> Result<PathBuf, String> {
+    let valid = !language.is_empty()
+        && language
+            .chars()
+            .all(|c| c.is_ascii_alphanumeric() || c == '_');
+    if !valid {
+        return Err(format!("Invalid OCR language: {}", language));
+    }
+
+    Ok(tessdata_dir(app)?.join(format!("{}.traineddata", language)))
+}
+
+#[tauri::command]
+pub fn get_ocr_languages(
+    app: AppHandle,
+    languages: Vec<String>,
+) -> Result<Vec<OcrLanguageStatus>, String> {
+    languages
+        .into_iter()
+        .map(|id| {
+            let path = language_path(&app, &id)?;
+            let size_bytes = fs::metadata(&path).map(|m| m.len()).unwrap_or(0);
+            Ok(OcrLanguageStatus {
+                id,
+                downloaded: size_bytes > 0,
+                size_bytes,
+            })
+        })
+        .collect()
+}
+
+#[tauri::command]
+pub async fn download_ocr_language(app: AppHandle, language: String) -> Result<(), String> {
+    let path = language_path(&app, &language)?;
+    let partial_path = path.with_extension("traineddata.part");
+    let url = format!("{}/{}.traineddata", LANGUAGE_BASE_URL, language);
+
+    let response = reqwest::get(&url)
+        .await
+        .map_err(|e| format!("Failed to download language data: {}", e))?;
+    if !response.status().is_success() {
+        return Err(format!(
+            "Failed to download language data: HTTP {}",
+            response.status()
+        ));
+    }
+
+    // The fast models are a few MB, small enough to download in one piece
+    let bytes = response
+        .bytes()
+        .await
+        .map_err(|e| format!("Language data download interrupted: {}", e))?;
+    tokio::fs::write(&partial_path, &bytes)
+        .await
+        .map_err(|e| format!("Failed to write language data: {}", e))?;
+
+    tokio::fs::rename(&partial_path, &path)
+        .await
+        .map_err(|e| format!("Failed to save language data: {}", e))
+}
+
+#[tauri::command]
+pub fn delete_ocr_language(app: AppHandle, language: String) -> Result<(), String> {
+    let path = language_path(&app, &language)?;
+    if path.exists() {
+        fs::remove_file(&path).map_err(|e| format!("Failed to delete language data: {}", e))?;
+    }
+    Ok(())
+}
+
+#[tauri::command]
+pub async fn recognize_image_text(
+    app: AppHandle,
+    image_base64: String,
+    languages: Vec<String>,
+) -> Result<String, String> {
+    if languages.is_empty() {
+        return Err("No OCR language selected. Choose one in the screenshot settings.".to_string());
+    }
+    for language in &languages {
+        if !language_path(&app, language)?.exists() {
+            return Err(format!(
+                "OCR language \"{}\" is not downloaded. Download it in the screenshot settings.",
+                language
+            ));
+        }
+    }
+
+    // Attachments may arrive as data URLs
+    let data = image_base64
+        .split_once("base64,")
+        .map_or(image_base64.as_str(), |(_, data)| data);
+    let image_bytes = general_purpose::STANDARD
+        .decode(data.trim())
+        .map_err(|e| format!("Failed to decode image data: {}", e))?;
+
+    let image_path =
+        std::env::temp_dir().join(format!("talkecho-ocr-{}.png", uuid::Uuid::new_v4()));
+    fs::write(&image_path, image_bytes)
+        .map_err(|e| format!("Failed to write temp image: {}", e))?;
+
+    let tessdata_arg = tessdata_dir(&app)?.to_string_lossy().to_string();
+    let image_arg = image_path.to_string_lossy().to_string();
+    let language_arg = languages.join("+");
+
+    let result = match app.shell().sidecar(SIDECAR_NAME) {
+        Ok(command) => command
+            .args([
+                image_arg.as_str(),
+                "stdout",
+                "--tessdata-dir",
+                tessdata_arg.as_str(),
+                "-l",
+                language_arg.as_str(),
+            ])
+            .output()
+            .await
+            .map_err(|e| format!("Failed to run Tesseract: {}", e)),
+        Err(e) => Err(format!("Tesseract sidecar is not available: {}", e)),
+    };
+
+    let _ = fs::remove_file(&image_path);
+
+    let output = result?;
+    if !output.status.success() {
+        let stderr = String::from_utf8_lossy(&output.stderr);
+        return Err(format!("Tesseract failed: {}", stderr.trim()));
+    }
+
+    // Drop the blank lines Tesseract puts between blocks
+    let text = String::from_utf8_lossy(&output.stdout)
+        .lines()
+        .map(str::trim_end)
+        .filter(|line| !line.trim().is_empty())
+        .collect::<Vec<_>>()
+        .join("\n");
+
+    Ok(text)
+}
@@ -0,0 +1,23 @@
+use std::time::Duration;
+use tauri::{AppHandle, Emitter};
+
+// Gives the main window time to load and register its listener
+const STARTUP_DELAY: Duration = Duration::from_secs(30);
+// Time between purges while the app keeps running
+const PURGE_INTERVAL: Duration = Duration::from_secs(6 * 60 * 60);
+
+/// Asks the main window to apply the retention policy once after startup and
+/// then periodically. The purge itself runs in the webview, which owns the
+/// database connection and the encryption key.
+pub fn start_retention_scheduler(app: &AppHandle) {
+    let app = app.clone();
+    tauri::async_runtime::spawn(async move {
+        tokio::time::sleep(STARTUP_DELAY).await;
+        loop {
+            if let Err(e) = app.emit_to("main", "retention-purge-due", ()) {
+                eprintln!("Failed to emit retention-purge-due event: {}", e);
+            }
+            tokio::time::sleep(PURGE_INTERVAL).await;
+        }
+    });
+}
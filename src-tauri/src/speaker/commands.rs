@@ -1,4 +1,5 @@
 ﻿// TalkEcho AI Speech Detection, and capture system audio (speaker output) as a stream of f32 samples.
+use crate::speaker::streaming::{run_streaming_capture, SttStreamConfig};
 use crate::speaker::{AudioDevice, SpeakerInput};
 use anyhow::Result;
 use base64::{engine::general_purpose::STANDARD as B64, Engine as _};
@@ -49,6 +50,7 @@ pub async fn start_system_audio_capture(
     app: AppHandle,
     vad_config: Option<VadConfig>,
     device_id: Option<String>,
+    stream_config: Option<SttStreamConfig>,
 ) -> Result<(), String> {
     let state = app.state::<crate::AudioState>();
 
@@ -103,13 +105,19 @@ pub async fn start_system_audio_capture(
         .is_capturing
         .lock()
         .map_err(|e| format!("Failed to set capturing state: {}", e))? = true;
+    *state
+        .is_streaming
+        .lock()
+        .map_err(|e| format!("Failed to set streaming state: {}", e))? = stream_config.is_some();
 
     // Emit capture started event
     let _ = app_clone.emit("capture-started", sr);
 
     let state_clone = app.state::<crate::AudioState>();
     let task = tokio::spawn(async move {
-        if vad_config.enabled {
+        if let Some(stream_config) = stream_config {
+            run_streaming_capture(app_clone.clone(), stream, sr, stream_config).await;
+        } else if vad_config.enabled {
             run_vad_capture(app_clone.clone(), stream, sr, vad_config).await;
         } else {
             run_continuous_capture(app_clone.clone(), stream, sr, vad_config).await;
@@ -462,14 +470,33 @@ fn samples_to_wav_b64(sample_rate: u32, mono_f32: &[f32]) -> Result<String, Stri
 pub async fn stop_system_audio_capture(app: AppHandle) -> Result<(), String> {
     let state = app.state::<crate::AudioState>();
 
-    // Abort task in separate scope (Send trait fix)
-    {
+    // Take task in separate scope (Send trait fix)
+    let task = {
         let mut guard = state
             .stream_task
             .lock()
             .map_err(|e| format!("Failed to acquire task lock: {}", e))?;
+        guard.take()
+    };
+    let is_streaming = {
+        let mut guard = state
+            .is_streaming
+            .lock()
+            .map_err(|e| format!("Failed to acquire streaming lock: {}", e))?;
+        std::mem::replace(&mut *guard, false)
+    };
 
-        if let Some(task) = guard.take() {
+    if let Some(mut task) = task {
+        if is_streaming {
+            // Let the streaming session send its close message and flush finals
+            let _ = app.emit("stt-stream-stop", ());
+            if tokio::time::timeout(Duration::from_secs(3), &mut task)
+                .await
+                .is_err()
+            {
+                task.abort();
+            }
+        } else {
             task.abort();
         }
     }
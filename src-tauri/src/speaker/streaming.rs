@@ -0,0 +1,254 @@
+// Streaming STT: push system audio frames into a provider WebSocket session and
+// forward every text message back to the frontend for parsing.
+use base64::{engine::general_purpose::STANDARD as B64, Engine as _};
+use futures_util::{SinkExt, StreamExt};
+use serde::{Deserialize, Serialize};
+use std::collections::HashMap;
+use std::sync::Arc;
+use std::time::Duration;
+use tauri::{AppHandle, Emitter, Listener};
+use tokio::sync::Notify;
+use tokio_tungstenite::tungstenite::client::IntoClientRequest;
+use tokio_tungstenite::tungstenite::http::{HeaderName, HeaderValue, Request};
+use tokio_tungstenite::tungstenite::Message;
+use tracing::{error, warn};
+
+/// How long to keep reading final transcripts after the close message
+const CLOSE_DRAIN_TIMEOUT: Duration = Duration::from_secs(2);
+
+#[derive(Debug, Clone, Copy, Serialize, Deserialize)]
+#[serde(rename_all = "kebab-case")]
+pub enum StreamAudioEncoding {
+    /// Raw little-endian 16-bit PCM in binary frames (Deepgram, AssemblyAI)
+    Pcm16,
+    /// Raw little-endian 32-bit float in binary frames (WhisperLive)
+    F32,
+    /// Base64 16-bit PCM inserted into `audio_message_template` (OpenAI realtime)
+    Pcm16Base64,
+}
+
+// Session settings built by the frontend stream adapter
+#[derive(Debug, Clone, Serialize, Deserialize)]
+pub struct SttStreamConfig {
+    pub url: String,
+    #[serde(default)]
+    pub headers: HashMap<String, String>,
+    pub sample_rate: u32,
+    pub audio_encoding: StreamAudioEncoding,
+    pub audio_message_template: Option<String>,
+    pub init_message: Option<String>,
+    pub close_message: Option<String>,
+    pub frame_ms: Option<u32>,
+}
+
+// Linear interpolation resampler that keeps its phase across frames
+struct LinearResampler {
+    step: f64,
+    pos: f64,
+    prev: Option<f32>,
+}
+
+impl LinearResampler {
+    fn new(from_rate: u32, to_rate: u32) -> Self {
+        Self {
+            step: from_rate as f64 / to_rate as f64,
+            pos: 0.0,
+            prev: None,
+        }
+    }
+
+    fn push(&mut self, sample: f32, out: &mut Vec<f32>) {
+        let prev = match self.prev {
+            Some(prev) => prev,
+            None => {
+                self.prev = Some(sample);
+                return;
+            }
+        };
+
+        while self.pos < 1.0 {
+            out.push(prev + (sample - prev) * self.pos as f32);
+            self.pos += self.step;
+        }
+        self.pos -= 1.0;
+        self.prev = Some(sample);
+    }
+}
+
+fn build_request(config: &SttStreamConfig) -> Result<Request<()>, String> {
+    let mut request = config
+        .url
+        .as_str()
+        .into_client_request()
+        .map_err(|e| format!("Invalid streaming URL: {}", e))?;
+
+    for (key, value) in &config.headers {
+        let name = HeaderName::from_bytes(key.as_bytes())
+            .map_err(|e| format!("Invalid header name {}: {}", key, e))?;
+        let value = HeaderValue::from_str(value)
+            .map_err(|e| format!("Invalid header value for {}: {}", key, e))?;
+        request.headers_mut().insert(name, value);
+    }
+
+    Ok(request)
+}
+
+fn encode_frame(config: &SttStreamConfig, frame: &[f32]) -> Message {
+    match config.audio_encoding {
+        StreamAudioEncoding::F32 => {
+            Message::Binary(frame.iter().flat_map(|s| s.to_le_bytes()).collect())
+        }
+        StreamAudioEncoding::Pcm16 | StreamAudioEncoding::Pcm16Base64 => {
+            let bytes: Vec<u8> = frame
+                .iter()
+                .flat_map(|s| ((s.clamp(-1.0, 1.0) * i16::MAX as f32) as i16).to_le_bytes())
+                .collect();
+
+            if let StreamAudioEncoding::Pcm16 = config.audio_encoding {
+                return Message::Binary(bytes);
+            }
+
+            let audio = B64.encode(bytes);
+            let text = match &config.audio_message_template {
+                Some(template) => template.replace("{{AUDIO}}", &audio),
+                None => audio,
+            };
+            Message::Text(text)
+        }
+    }
+}
+
+// Forward a server message; returns false once the session is over
+fn forward_incoming(
+    app: &AppHandle,
+    incoming: Option<Result<Message, tokio_tungstenite::tungstenite::Error>>,
+) -> bool {
+    match incoming {
+        Some(Ok(Message::Text(text))) => {
+            let _ = app.emit("stt-stream-message", text);
+            true
+        }
+        Some(Ok(Message::Close(frame))) => {
+            if let Some(frame) = frame {
+                if !frame.reason.is_empty() {
+                    warn!("Streaming STT closed: {}", frame.reason);
+                }
+            }
+            false
+        }
+        Some(Ok(_)) => true,
+        Some(Err(e)) => {
+            error!("Streaming STT socket error: {}", e);
+            let _ = app.emit("stt-stream-error", e.to_string());
+            false
+        }
+        None => false,
+    }
+}
+
+pub(crate) async fn run_streaming_capture(
+    app: AppHandle,
+    stream: impl StreamExt<Item = f32> + Unpin,
+    sr: u32,
+    config: SttStreamConfig,
+) {
+    let mut stream = stream;
+
+    let request = match build_request(&config) {
+        Ok(request) => request,
+        Err(e) => {
+            error!("{}", e);
+            let _ = app.emit("stt-stream-error", e);
+            return;
+        }
+    };
+
+    let socket = match tokio_tungstenite::connect_async(request).await {
+        Ok((socket, _)) => socket,
+        Err(e) => {
+            error!("Failed to connect streaming STT: {}", e);
+            let _ = app.emit("stt-stream-error", format!("Failed to connect: {}", e));
+            return;
+        }
+    };
+    let (mut sink, mut source) = socket.split();
+
+    if let Some(init) = &config.init_message {
+        if let Err(e) = sink.send(Message::Text(init.clone())).await {
+            let _ = app.emit("stt-stream-error", format!("Failed to start session: {}", e));
+            return;
+        }
+    }
+
+    let _ = app.emit("stt-stream-open", ());
+
+    // Graceful stop: stop_system_audio_capture emits this and waits for us
+    let stop = Arc::new(Notify::new());
+    let stop_for_listener = stop.clone();
+    let stop_listener = app.listen("stt-stream-stop", move |_| {
+        stop_for_listener.notify_one();
+    });
+
+    let frame_ms = config.frame_ms.unwrap_or(100).clamp(20, 1000);
+    let frame_samples = (config.sample_rate as usize * frame_ms as usize) / 1000;
+    let mut resampler = LinearResampler::new(sr, config.sample_rate);
+    let mut frame: Vec<f32> = Vec::with_capacity(frame_samples * 2);
+    let mut server_closed = false;
+
+    loop {
+        tokio::select! {
+            _ = stop.notified() => break,
+            sample_opt = stream.next() => {
+                match sample_opt {
+                    Some(sample) => {
+                        resampler.push(sample, &mut frame);
+                        if frame.len() >= frame_samples {
+                            let message = encode_frame(&config, &frame);
+                            frame.clear();
+                            if let Err(e) = sink.send(message).await {
+                                error!("Failed to send audio frame: {}", e);
+                                let _ = app.emit("stt-stream-error", e.to_string());
+                                server_closed = true;
+                                break;
+                            }
+                        }
+                    }
+                    None => {
+                        warn!("Audio stream ended unexpectedly");
+                        break;
+                    }
+                }
+            }
+            incoming = source.next() => {
+                if !forward_incoming(&app, incoming) {
+                    server_closed = true;
+                    break;
+                }
+            }
+        }
+    }
+
+    app.unlisten(stop_listener);
+
+    if !server_closed {
+        if !frame.is_empty() {
+            let _ = sink.send(encode_frame(&config, &frame)).await;
+        }
+
+        // Ask the provider to flush pending finals, then read until it closes
+        let close = match &config.close_message {
+            Some(message) => Message::Text(message.clone()),
+            None => Message::Close(None),
+        };
+        if sink.send(close).await.is_ok() {
+            while let Ok(incoming) = tokio::time::timeout(CLOSE_DRAIN_TIMEOUT, source.next()).await {
+                if !forward_incoming(&app, incoming) {
+                    break;
+                }
+            }
+        }
+        let _ = sink.close().await;
+    }
+
+    let _ = app.emit("stt-stream-closed", ());
+}
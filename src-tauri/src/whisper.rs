@@ -0,0 +1,276 @@
+// Offline speech-to-text: whisper.cpp runs as a bundled sidecar binary and
+// ggml models are downloaded into the app data directory on demand.
+use base64::{engine::general_purpose, Engine as _};
+use futures_util::StreamExt;
+use hound::{SampleFormat, WavReader, WavSpec, WavWriter};
+use serde::Serialize;
+use std::fs;
+use std::io::Cursor;
+use std::path::PathBuf;
+use tauri::{AppHandle, Emitter, Manager};
+use tauri_plugin_shell::ShellExt;
+use tokio::io::AsyncWriteExt;
+
+const MODEL_BASE_URL: &str = "https://huggingface.co/ggerganov/whisper.cpp/resolve/main";
+const SIDECAR_NAME: &str = "whisper-cli";
+// whisper.cpp only accepts 16 kHz input
+const WHISPER_SAMPLE_RATE: u32 = 16000;
+
+#[derive(Debug, Serialize, Clone)]
+pub struct WhisperModelStatus {
+    id: String,
+    downloaded: bool,
+    size_bytes: u64,
+}
+
+#[derive(Debug, Serialize, Clone)]
+struct DownloadProgress {
+    model_id: String,
+    downloaded: u64,
+    total: Option<u64>,
+}
+
+fn models_dir(app: &AppHandle) -> Result<PathBuf, String> {
+    let dir = app
+        .path()
+        .app_data_dir()
+        .map_err(|e| format!("Failed to get app data directory: {}", e))?
+        .join("whisper-models");
+
+    fs::create_dir_all(&dir).map_err(|e| format!("Failed to create models directory: {}", e))?;
+
+    Ok(dir)
+}
+
+// Model ids come from the frontend and end up in a file name
+fn model_path(app: &AppHandle, model_id: &str) -> Result<PathBuf, String> {
+    let valid = !model_id.is_empty()
+        && model_id
+            .chars()
+            .all(|c| c.is_ascii_alphanumeric() || c == '-' || c == '.' || c == '_')
+        && !model_id.contains("..");
+    if !valid {
+        return Err(format!("Invalid model id: {}", model_id));
+    }
+
+    Ok(models_dir(app)?.join(format!("ggml-{}.bin", model_id)))
+}
+
+// Decode any PCM WAV into 16 kHz mono 16-bit, the format whisper.cpp expects
+fn to_whisper_wav(audio_bytes: &[u8]) -> Result<Vec<u8>, String> {
+    let mut reader =
+        WavReader::new(Cursor::new(audio_bytes)).map_err(|e| format!("Invalid WAV audio: {}", e))?;
+    let spec = reader.spec();
+    let channels = spec.channels.max(1) as usize;
+
+    let interleaved: Vec<f32> = match spec.sample_format {
+        SampleFormat::Float => reader.samples::<f32>().filter_map(Result::ok).collect(),
+        SampleFormat::Int => {
+            let scale = (1i64 << (spec.bits_per_sample.saturating_sub(1))) as f32;
+            reader
+                .samples::<i32>()
+                .filter_map(Result::ok)
+                .map(|s| s as f32 / scale)
+                .collect()
+        }
+    };
+
+    let mono: Vec<f32> = interleaved
+        .chunks(channels)
+        .map(|frame| frame.iter().sum::<f32>() / frame.len() as f32)
+        .collect();
+    if mono.is_empty() {
+        return Err("Empty audio buffer".to_string());
+    }
+
+    let resampled: Vec<f32> = if spec.sample_rate == WHISPER_SAMPLE_RATE {
+        mono
+    } else {
+        let step = spec.sample_rate as f64 / WHISPER_SAMPLE_RATE as f64;
+        let out_len = (mono.len() as f64 / step) as usize;
+        (0..out_len)
+            .map(|i| {
+                let pos = i as f64 * step;
+                let idx = pos as usize;
+                let frac = (pos - idx as f64) as f32;
+                let a = mono[idx];
+                let b = *mono.get(idx + 1).unwrap_or(&a);
+                a + (b - a) * frac
+            })
+            .collect()
+    };
+
+    let mut cursor = Cursor::new(Vec::new());
+    let out_spec = WavSpec {
+        channels: 1,
+        sample_rate: WHISPER_SAMPLE_RATE,
+        bits_per_sample: 16,
+        sample_format: SampleFormat::Int,
+    };
+    let mut writer = WavWriter::new(&mut cursor, out_spec).map_err(|e| e.to_string())?;
+    for s in resampled {
+        writer
+            .write_sample((s.clamp(-1.0, 1.0) * i16::MAX as f32) as i16)
+            .map_err(|e| e.to_string())?;
+    }
+    writer.finalize().map_err(|e| e.to_string())?;
+
+    Ok(cursor.into_inner())
+}
+
+#[tauri::command]
+pub fn get_whisper_models(
+    app: AppHandle,
+    model_ids: Vec<String>,
+) -> Result<Vec<WhisperModelStatus>, String> {
+    model_ids
+        .into_iter()
+        .map(|id| {
+            let path = model_path(&app, &id)?;
+            let size_bytes = fs::metadata(&path).map(|m| m.len()).unwrap_or(0);
+            Ok(WhisperModelStatus {
+                id,
+                downloaded: size_bytes > 0,
+                size_bytes,
+            })
+        })
+        .collect()
+}
+
+#[tauri::command]
+pub async fn download_whisper_model(app: AppHandle, model_id: String) -> Result<(), String> {
+    let path = model_path(&app, &model_id)?;
+    let partial_path = path.with_extension("bin.part");
+    let url = format!("{}/ggml-{}.bin", MODEL_BASE_URL, model_id);
+
+    let response = reqwest::get(&url)
+        .await
+        .map_err(|e| format!("Failed to download model: {}", e))?;
+    if !response.status().is_success() {
+        return Err(format!("Failed to download model: HTTP {}", response.status()));
+    }
+
+    let total = response.content_length();
+    let mut file = tokio::fs::File::create(&partial_path)
+        .await
+        .map_err(|e| format!("Failed to create model file: {}", e))?;
+    let mut downloaded: u64 = 0;
+    let mut last_emitted: u64 = 0;
+    let mut stream = response.bytes_stream();
+
+    while let Some(chunk) = stream.next().await {
+        let chunk = match chunk {
+            Ok(chunk) => chunk,
+            Err(e) => {
+                let _ = tokio::fs::remove_file(&partial_path).await;
+                return Err(format!("Model download interrupted: {}", e));
+            }
+        };
+        if let Err(e) = file.write_all(&chunk).await {
+            let _ = tokio::fs::remove_file(&partial_path).await;
+            return Err(format!("Failed to write model file: {}", e));
+        }
+
+        downloaded += chunk.len() as u64;
+        // Throttle progress events to roughly every 2 MB
+        if downloaded - last_emitted >= 2 * 1024 * 1024 || Some(downloaded) == total {
+            last_emitted = downloaded;
+            let _ = app.emit(
+                "whisper-model-download-progress",
+                DownloadProgress {
+                    model_id: model_id.clone(),
+                    downloaded,
+                    total,
+                },
+            );
+        }
+    }
+
+    file.flush()
+        .await
+        .map_err(|e| format!("Failed to write model file: {}", e))?;
+    drop(file);
+
+    tokio::fs::rename(&partial_path, &path)
+        .await
+        .map_err(|e| format!("Failed to save model: {}", e))
+}
+
+#[tauri::command]
+pub fn delete_whisper_model(app: AppHandle, model_id: String) -> Result<(), String> {
+    let path = model_path(&app, &model_id)?;
+    if path.exists() {
+        fs::remove_file(&path).map_err(|e| format!("Failed to delete model: {}", e))?;
+    }
+    Ok(())
+}
+
+#[tauri::command]
+pub async fn transcribe_audio_local(
+    app: AppHandle,
+    audio_base64: String,
+    model_id: String,
+    language: Option<String>,
+) -> Result<String, String> {
+    let model = model_path(&app, &model_id)?;
+    if !model.exists() {
+        return Err(format!(
+            "Whisper model \"{}\" is not downloaded. Download it in the STT settings.",
+            model_id
+        ));
+    }
+
+    let audio_bytes = general_purpose::STANDARD
+        .decode(audio_base64.trim())
+        .map_err(|e| format!("Failed to decode audio data: {}", e))?;
+    let wav = to_whisper_wav(&audio_bytes)?;
+
+    let wav_path = std::env::temp_dir().join(format!("talkecho-{}.wav", uuid::Uuid::new_v4()));
+    fs::write(&wav_path, wav).map_err(|e| format!("Failed to write temp audio: {}", e))?;
+
+    let threads = std::thread::available_parallelism()
+        .map(|n| n.get().min(8))
+        .unwrap_or(4)
+        .to_string();
+    let language = language.unwrap_or_else(|| "auto".to_string());
+    let model_arg = model.to_string_lossy().to_string();
+    let wav_arg = wav_path.to_string_lossy().to_string();
+
+    let result = match app.shell().sidecar(SIDECAR_NAME) {
+        Ok(command) => command
+            .args([
+                "-m",
+                model_arg.as_str(),
+                "-f",
+                wav_arg.as_str(),
+                "-l",
+                language.as_str(),
+                "-t",
+                threads.as_str(),
+                "--no-timestamps",
+                "--no-prints",
+            ])
+            .output()
+            .await
+            .map_err(|e| format!("Failed to run whisper.cpp: {}", e)),
+        Err(e) => Err(format!("whisper.cpp sidecar is not available: {}", e)),
+    };
+
+    let _ = fs::remove_file(&wav_path);
+
+    let output = result?;
+    if !output.status.success() {
+        let stderr = String::from_utf8_lossy(&output.stderr);
+        return Err(format!("whisper.cpp failed: {}", stderr.trim()));
+    }
+
+    // One line per segment; join them into a single transcript
+    let transcription = String::from_utf8_lossy(&output.stdout)
+        .lines()
+        .map(str::trim)
+        .filter(|line| !line.is_empty())
+        .collect::<Vec<_>>()
+        .join(" ");
+
+    Ok(transcription)
+}
@@ -2,15 +2,44 @@ import { Button } from "@/components";
 import { cn } from "@/lib/utils";
 import { useLocation, useNavigate } from "react-router-dom";
 import { openUrl } from "@tauri-apps/plugin-opener";
-import { useMenuItems, useVersion } from "@/hooks";
+import { useConversationGroups, useMenuItems, useVersion } from "@/hooks";
+import { FolderIcon, PinIcon, TagIcon } from "lucide-react";
 import talkechoLogo from "../../images/talkecho.png";
 
 export const Sidebar = () => {
   const { version, isLoading } = useVersion();
   const { menu, footerLinks, footerItems } = useMenuItems();
+  const { groups } = useConversationGroups();
 
   const navigate = useNavigate();
-  const activeRoute = useLocation().pathname;
+  const location = useLocation();
+  const activeRoute = location.pathname;
+
+  // Chat history shortcuts: pinned conversations, folders and tags
+  const chatLinks = [
+    ...(groups.pinned > 0
+      ? [
+          {
+            icon: PinIcon,
+            label: "Pinned",
+            query: "pinned=1",
+            count: groups.pinned,
+          },
+        ]
+      : []),
+    ...groups.folders.map((folder) => ({
+      icon: FolderIcon,
+      label: folder.name,
+      query: new URLSearchParams({ folder: folder.name }).toString(),
+      count: folder.count,
+    })),
+    ...groups.tags.map((tag) => ({
+      icon: TagIcon,
+      label: tag.name,
+      query: new URLSearchParams({ tag: tag.name }).toString(),
+      count: tag.count,
+    })),
+  ];
   return (
     <aside className="flex w-56 flex-col select-none pt-2">
       {/* Logo */}
@@ -36,7 +65,7 @@ export const Sidebar = () => {
       </div>
 
       {/* Navigation */}
-      <nav className="flex-1 space-y-1 px-3 py-6">
+      <nav className="flex-1 space-y-1 px-3 py-6 overflow-y-auto">
         {menu.map((item, index) => (
           <button
             onClick={() => navigate(item.href)}
@@ -59,6 +88,35 @@ export const Sidebar = () => {
             ) : null}
           </button>
         ))}
+
+        {chatLinks.length > 0 && (
+          <div className="pt-4 space-y-1">
+            <p className="px-3 pb-1 text-[10px] lg:text-xs font-medium text-muted-foreground">
+              Conversations
+            </p>
+            {chatLinks.map((item) => (
+              <button
+                key={item.query}
+                onClick={() => navigate(`/chats?${item.query}`)}
+                className={cn(
+                  "flex w-full items-center justify-between gap-3 rounded-xl px-3 py-1.5 text-xs lg:text-sm text-sidebar-foreground/70 transition-all duration-300 hover:bg-sidebar-accent hover:text-sidebar-accent-foreground",
+                  activeRoute === "/chats" &&
+                    location.search === `?${item.query}`
+                    ? "font-medium bg-sidebar-accent text-sidebar-accent-foreground"
+                    : ""
+                )}
+              >
+                <div className="flex items-center gap-3 min-w-0">
+                  <item.icon className="size-3 lg:size-4 shrink-0" />
+                  <span className="truncate">{item.label}</span>
+                </div>
+                <span className="text-[10px] text-muted-foreground">
+                  {item.count}
+                </span>
+              </button>
+            ))}
+          </div>
+        )}
       </nav>
 
       <div className="flex flex-col space-y-1 px-3  pb-3">
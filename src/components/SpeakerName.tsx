@@ -0,0 +1,68 @@
+import { useState } from "react";
+import { getSpeakerName } from "@/lib/functions";
+import { cn } from "@/lib/utils";
+
+interface SpeakerNameProps {
+  speakerId: string;
+  speakerNames?: Record<string, string>;
+  onRename?: (speakerId: string, name: string) => void;
+  className?: string;
+}
+
+/**
+ * Diarized speaker label; click to rename when `onRename` is given
+ */
+export const SpeakerName = ({
+  speakerId,
+  speakerNames,
+  onRename,
+  className,
+}: SpeakerNameProps) => {
+  const [editing, setEditing] = useState(false);
+  const [value, setValue] = useState("");
+  const name = getSpeakerName(speakerId, speakerNames);
+
+  const commit = () => {
+    setEditing(false);
+    if (value.trim() && value.trim() !== name) {
+      onRename?.(speakerId, value);
+    }
+  };
+
+  if (editing) {
+    return (
+      <input
+        autoFocus
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") commit();
+          if (e.key === "Escape") setEditing(false);
+        }}
+        className={cn(
+          "text-[10px] font-semibold bg-transparent border-b border-primary/50 outline-none w-28",
+          className
+        )}
+      />
+    );
+  }
+
+  return (
+    <span
+      title={onRename ? "Click to rename speaker" : undefined}
+      onClick={() => {
+        if (!onRename) return;
+        setValue(name);
+        setEditing(true);
+      }}
+      className={cn(
+        "text-[10px] font-semibold text-muted-foreground",
+        onRename && "cursor-pointer hover:text-foreground",
+        className
+      )}
+    >
+      {name}
+    </span>
+  );
+};
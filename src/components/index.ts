@@ -11,3 +11,4 @@ export * from "./Sidebar";
 export * from "./Empty";
 export * from "./Markdown/copy-button";
 export * from "./Icons";
+export * from "./SpeakerName";
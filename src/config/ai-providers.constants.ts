@@ -1,4 +1,19 @@
-export const AI_PROVIDERS = [
+import { ProviderAdapterId, TYPE_PROVIDER } from "@/types";
+
+// Request formats selectable for custom AI providers ("curl" = template only)
+export const PROVIDER_ADAPTER_OPTIONS: {
+  label: string;
+  value: ProviderAdapterId | "curl";
+}[] = [
+  { label: "Curl template", value: "curl" },
+  { label: "OpenAI compatible", value: "openai" },
+  { label: "Anthropic Messages", value: "anthropic" },
+  { label: "Gemini native", value: "gemini" },
+  { label: "Cohere v2", value: "cohere" },
+  { label: "Ollama native", value: "ollama" },
+];
+
+export const AI_PROVIDERS: TYPE_PROVIDER[] = [
   {
     id: "openai",
     curl: `curl https://api.openai.com/v1/chat/completions \\
@@ -10,6 +25,7 @@ export const AI_PROVIDERS = [
   }'`,
     responseContentPath: "choices[0].message.content",
     streaming: true,
+    adapter: "openai",
   },
   {
     id: "claude",
@@ -26,6 +42,7 @@ export const AI_PROVIDERS = [
   }'`,
     responseContentPath: "content[0].text",
     streaming: true,
+    adapter: "anthropic",
   },
   {
     id: "grok",
@@ -38,6 +55,7 @@ export const AI_PROVIDERS = [
   }'`,
     responseContentPath: "choices[0].message.content",
     streaming: true,
+    adapter: "openai",
   },
   {
     id: "gemini",
@@ -50,6 +68,7 @@ export const AI_PROVIDERS = [
   }'}`,
     responseContentPath: "choices[0].message.content",
     streaming: true,
+    adapter: "openai",
   },
   {
     id: "mistral",
@@ -62,6 +81,7 @@ export const AI_PROVIDERS = [
   }'`,
     responseContentPath: "choices[0].message.content",
     streaming: true,
+    adapter: "openai",
   },
   {
     id: "cohere",
@@ -75,6 +95,7 @@ export const AI_PROVIDERS = [
     }'`,
     responseContentPath: "message.content[0].text",
     streaming: true,
+    adapter: "cohere",
   },
   {
     id: "groq",
@@ -93,6 +114,7 @@ export const AI_PROVIDERS = [
     }'`,
     responseContentPath: "choices[0].message.content",
     streaming: true,
+    adapter: "openai",
   },
   {
     id: "perplexity",
@@ -105,6 +127,7 @@ export const AI_PROVIDERS = [
   }'`,
     responseContentPath: "choices[0].message.content",
     streaming: true,
+    adapter: "openai",
   },
   {
     id: "openrouter",
@@ -117,6 +140,7 @@ export const AI_PROVIDERS = [
   }'`,
     responseContentPath: "choices[0].message.content",
     streaming: true,
+    adapter: "openai",
   },
   {
     id: "ollama",
@@ -129,5 +153,31 @@ export const AI_PROVIDERS = [
   }'`,
     responseContentPath: "choices[0].message.content",
     streaming: true,
+    adapter: "openai",
+  },
+  {
+    id: "gemini-native",
+    curl: `curl "https://generativelanguage.googleapis.com/v1beta/models/{{MODEL}}:generateContent" \\
+  -H "x-goog-api-key: {{API_KEY}}" \\
+  -H "Content-Type: application/json" \\
+  -d '{
+    "systemInstruction": {"parts": [{"text": "{{SYSTEM_PROMPT}}"}]},
+    "contents": [{"role": "user", "parts": [{"text": "{{TEXT}}"}, {"inline_data": {"mime_type": "image/png", "data": "{{IMAGE}}"}}]}]
+  }'`,
+    responseContentPath: "candidates[0].content.parts[0].text",
+    streaming: true,
+    adapter: "gemini",
+  },
+  {
+    id: "ollama-native",
+    curl: `curl -X POST http://localhost:11434/api/chat \\
+    -H "Content-Type: application/json" \\
+    -d '{
+    "model": "{{MODEL}}",
+    "messages": [{"role": "system", "content": "{{SYSTEM_PROMPT}}"}, {"role": "user", "content": "{{TEXT}}", "images": ["{{IMAGE}}"]}]
+  }'`,
+    responseContentPath: "message.content",
+    streaming: true,
+    adapter: "ollama",
   },
 ];
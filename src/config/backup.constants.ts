@@ -0,0 +1,41 @@
+import { STORAGE_KEYS } from "./constants";
+
+export const BACKUP_FORMAT = "talkecho-backup";
+export const BACKUP_VERSION = 1;
+
+// Settings that only make sense on the machine they were made on
+const MACHINE_STORAGE_KEYS: string[] = [
+  STORAGE_KEYS.AUTOSTART_INITIALIZED,
+  STORAGE_KEYS.SELECTED_AUDIO_INPUT_DEVICE,
+  STORAGE_KEYS.SELECTED_AUDIO_OUTPUT_DEVICE,
+  STORAGE_KEYS.WHISPER_MODEL,
+  STORAGE_KEYS.RETENTION_LAST_PURGE,
+  STORAGE_KEYS.WEBHOOK_DELIVERIES,
+];
+
+// localStorage keys included in a backup
+export const BACKUP_STORAGE_KEYS: string[] = [
+  ...Object.values(STORAGE_KEYS).filter(
+    (key) => !MACHINE_STORAGE_KEYS.includes(key)
+  ),
+  "vad_config",
+];
+
+// Settings holding API keys; fields named like credentials are blanked
+export const SECRET_STORAGE_KEYS: string[] = [
+  STORAGE_KEYS.SELECTED_AI_PROVIDER,
+  STORAGE_KEYS.SELECTED_STT_PROVIDER,
+  STORAGE_KEYS.AI_PROVIDER_VARIABLES_BY_ID,
+  STORAGE_KEYS.STT_PROVIDER_VARIABLES_BY_ID,
+  STORAGE_KEYS.TRANSLATION_SETTINGS,
+  STORAGE_KEYS.CONTROL_API_SETTINGS,
+  STORAGE_KEYS.DOCUMENT_CONTEXT_SETTINGS,
+];
+
+// Settings holding lists that are merged with the existing list on restore
+export const MERGED_LIST_STORAGE_KEYS: string[] = [
+  STORAGE_KEYS.CUSTOM_AI_PROVIDERS,
+  STORAGE_KEYS.CUSTOM_SPEECH_PROVIDERS,
+  STORAGE_KEYS.SYSTEM_AUDIO_QUICK_ACTIONS,
+  STORAGE_KEYS.PRICING_TABLE,
+];
@@ -5,6 +5,11 @@ export const STORAGE_KEYS = {
   SYSTEM_PROMPT: "system_prompt",
   SELECTED_SYSTEM_PROMPT_ID: "selected_system_prompt_id",
   SCREENSHOT_CONFIG: "screenshot_config",
+  SCREENSHOT_PROMPT_TARGETS: "screenshot_prompt_targets",
+  OCR_SETTINGS: "ocr_settings",
+  CONTROL_API_SETTINGS: "control_api_settings",
+  WEBHOOK_SETTINGS: "webhook_settings",
+  WEBHOOK_DELIVERIES: "webhook_deliveries",
   // add curl_ prefix because we are using curl to store the providers
   CUSTOM_AI_PROVIDERS: "curl_custom_ai_providers",
   CUSTOM_SPEECH_PROVIDERS: "curl_custom_speech_providers",
@@ -15,6 +20,16 @@ export const STORAGE_KEYS = {
   SYSTEM_AUDIO_CONTEXT: "system_audio_context",
   SYSTEM_AUDIO_QUICK_ACTIONS: "system_audio_quick_actions",
   SYSTEM_AUDIO_INCLUDE_MICROPHONE: "system_audio_include_microphone",
+  SYSTEM_AUDIO_DIARIZATION: "system_audio_diarization",
+  SUBTITLE_SETTINGS: "subtitle_settings",
+  TRANSLATION_SETTINGS: "translation_settings",
+  MEETING_SUMMARY_SETTINGS: "meeting_summary_settings",
+  LIVE_NOTES_SETTINGS: "live_notes_settings",
+  DOCUMENT_CONTEXT_SETTINGS: "document_context_settings",
+  MEETING_PROFILES: "meeting_profiles",
+  RETENTION_SETTINGS: "retention_settings",
+  RETENTION_LAST_PURGE: "retention_last_purge",
+  AI_FAILOVER_SETTINGS: "ai_failover_settings",
   CUSTOMIZABLE: "customizable",
   TALKECHO_API_ENABLED: "talkecho_api_enabled",
   SHORTCUTS: "shortcuts",
@@ -25,6 +40,8 @@ export const STORAGE_KEYS = {
   RESPONSE_SETTINGS: "response_settings",
   SUPPORTS_IMAGES: "supports_images",
   STT_LANGUAGE: "stt_language",
+  PRICING_TABLE: "pricing_table",
+  WHISPER_MODEL: "whisper_model",
 } as const;
 
 // Max number of files that can be attached to a message
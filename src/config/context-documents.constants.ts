@@ -0,0 +1,39 @@
+import { DocumentContextSettings, EmbeddingEngine } from "@/types";
+
+export const DEFAULT_DOCUMENT_CONTEXT_SETTINGS: DocumentContextSettings = {
+  enabled: false,
+  libraryId: null,
+  embeddingEngine: "local",
+  embeddingUrl: "https://api.openai.com/v1",
+  embeddingModel: "text-embedding-3-small",
+  embeddingApiKey: "",
+  topK: 4,
+  minScore: 0.2,
+};
+
+export const EMBEDDING_ENGINE_OPTIONS: {
+  label: string;
+  value: EmbeddingEngine;
+}[] = [
+  { label: "Built-in keyword matching (offline)", value: "local" },
+  { label: "Embeddings endpoint (OpenAI, Ollama, ...)", value: "openai" },
+];
+
+export const CONTEXT_DOCUMENT_EXTENSIONS = [
+  ".pdf",
+  ".docx",
+  ".md",
+  ".markdown",
+  ".txt",
+];
+
+// Target chunk length in characters, and how much of the previous chunk
+// is repeated at the start of the next
+export const CONTEXT_CHUNK_CHARS = 1000;
+export const CONTEXT_CHUNK_OVERLAP_CHARS = 150;
+// Excerpts added to one prompt are cut off beyond this
+export const MAX_DOCUMENT_CONTEXT_CHARS = 6000;
+// Dimensions of the built-in hashed bag-of-words embedding
+export const LOCAL_EMBEDDING_DIMENSIONS = 1024;
+// Texts per request to an embeddings endpoint
+export const EMBEDDING_BATCH_SIZE = 64;
@@ -0,0 +1,7 @@
+import { ControlApiSettings } from "@/types";
+
+export const DEFAULT_CONTROL_API_SETTINGS: ControlApiSettings = {
+  enabled: false,
+  port: 47823,
+  token: "",
+};
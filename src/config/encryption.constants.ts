@@ -0,0 +1,9 @@
+import { DatabaseKeySource } from "@/types";
+
+export const DATABASE_KEY_SOURCE_OPTIONS: {
+  label: string;
+  value: DatabaseKeySource;
+}[] = [
+  { label: "System keychain (unlocks automatically)", value: "keychain" },
+  { label: "Passphrase (asked on every start)", value: "passphrase" },
+];
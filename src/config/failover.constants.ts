@@ -0,0 +1,14 @@
+import { FailoverSettings } from "@/types";
+
+export const DEFAULT_FAILOVER_SETTINGS: FailoverSettings = {
+  enabled: false,
+  fallbacks: [],
+  timeoutSeconds: 0,
+  maxRetries: 2,
+};
+
+// Backoff for retries without a Retry-After header: 1s, 2s, 4s, ...
+export const RETRY_BASE_DELAY_MS = 1000;
+// Longer Retry-After waits move on to the next provider, or are capped when
+// there is none
+export const MAX_RETRY_DELAY_MS = 30_000;
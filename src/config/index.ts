@@ -2,3 +2,18 @@ export * from "./constants";
 export * from "./ai-providers.constants";
 export * from "./stt.constants";
 export * from "./shortcuts";
+export * from "./pricing.constants";
+export * from "./subtitle.constants";
+export * from "./translation.constants";
+export * from "./summary.constants";
+export * from "./encryption.constants";
+export * from "./retention.constants";
+export * from "./backup.constants";
+export * from "./failover.constants";
+export * from "./screenshot.constants";
+export * from "./ocr.constants";
+export * from "./control-api.constants";
+export * from "./live-notes.constants";
+export * from "./webhook.constants";
+export * from "./context-documents.constants";
+export * from "./meeting-profile.constants";
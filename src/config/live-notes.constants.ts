@@ -0,0 +1,11 @@
+import { LiveNotesSettings } from "@/types";
+
+export const DEFAULT_LIVE_NOTES_FILE_NAME = "{date} {title}";
+
+export const DEFAULT_LIVE_NOTES_SETTINGS: LiveNotesSettings = {
+  enabled: false,
+  directory: "",
+  fileNameTemplate: DEFAULT_LIVE_NOTES_FILE_NAME,
+  includeResponses: true,
+  tags: "meeting",
+};
@@ -0,0 +1,6 @@
+import { MeetingProfileSettings } from "@/types";
+
+export const DEFAULT_MEETING_PROFILE_SETTINGS: MeetingProfileSettings = {
+  profiles: [],
+  activeProfileId: null,
+};
@@ -0,0 +1,28 @@
+import { OcrLanguageOption, OcrSettings } from "@/types";
+
+// Tesseract languages offered for download (ids match <id>.traineddata)
+export const OCR_LANGUAGES: OcrLanguageOption[] = [
+  { id: "eng", label: "English" },
+  { id: "deu", label: "German" },
+  { id: "fra", label: "French" },
+  { id: "spa", label: "Spanish" },
+  { id: "ita", label: "Italian" },
+  { id: "por", label: "Portuguese" },
+  { id: "nld", label: "Dutch" },
+  { id: "pol", label: "Polish" },
+  { id: "rus", label: "Russian" },
+  { id: "ukr", label: "Ukrainian" },
+  { id: "tur", label: "Turkish" },
+  { id: "ara", label: "Arabic" },
+  { id: "hin", label: "Hindi" },
+  { id: "jpn", label: "Japanese" },
+  { id: "kor", label: "Korean" },
+  { id: "chi_sim", label: "Chinese (Simplified)" },
+  { id: "chi_tra", label: "Chinese (Traditional)" },
+];
+
+export const DEFAULT_OCR_SETTINGS: OcrSettings = {
+  enabled: false,
+  includeImage: true,
+  languages: ["eng"],
+};
@@ -0,0 +1,88 @@
+import { PricingEntry } from "@/types";
+
+/**
+ * Starting prices (USD) for the bundled providers. Users edit these in
+ * settings; provider pricing changes too often to treat them as exact.
+ */
+export const DEFAULT_PRICING_TABLE: PricingEntry[] = [
+  {
+    id: "openai-gpt-4o-mini",
+    provider: "openai",
+    model: "gpt-4o-mini",
+    inputPerMillion: 0.15,
+    outputPerMillion: 0.6,
+    audioPerMinute: 0,
+  },
+  {
+    id: "openai-gpt-4o",
+    provider: "openai",
+    model: "gpt-4o",
+    inputPerMillion: 2.5,
+    outputPerMillion: 10,
+    audioPerMinute: 0,
+  },
+  {
+    id: "claude-3-5-haiku",
+    provider: "claude",
+    model: "claude-3-5-haiku-latest",
+    inputPerMillion: 0.8,
+    outputPerMillion: 4,
+    audioPerMinute: 0,
+  },
+  {
+    id: "gemini-2-0-flash",
+    provider: "gemini",
+    model: "gemini-2.0-flash",
+    inputPerMillion: 0.1,
+    outputPerMillion: 0.4,
+    audioPerMinute: 0,
+  },
+  {
+    id: "gemini-native-2-0-flash",
+    provider: "gemini-native",
+    model: "gemini-2.0-flash",
+    inputPerMillion: 0.1,
+    outputPerMillion: 0.4,
+    audioPerMinute: 0,
+  },
+  {
+    id: "ollama-local",
+    provider: "ollama",
+    model: "*",
+    inputPerMillion: 0,
+    outputPerMillion: 0,
+    audioPerMinute: 0,
+  },
+  {
+    id: "ollama-native-local",
+    provider: "ollama-native",
+    model: "*",
+    inputPerMillion: 0,
+    outputPerMillion: 0,
+    audioPerMinute: 0,
+  },
+  {
+    id: "whisper-local",
+    provider: "whisper-local",
+    model: "*",
+    inputPerMillion: 0,
+    outputPerMillion: 0,
+    audioPerMinute: 0,
+  },
+  {
+    id: "openai-whisper-1",
+    provider: "openai-whisper",
+    model: "whisper-1",
+    inputPerMillion: 0,
+    outputPerMillion: 0,
+    audioPerMinute: 0.006,
+  },
+  {
+    id: "groq-whisper-large-v3",
+    provider: "groq",
+    model: "whisper-large-v3",
+    inputPerMillion: 0,
+    outputPerMillion: 0,
+    audioPerMinute: 0.00185,
+  },
+];
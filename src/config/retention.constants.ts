@@ -0,0 +1,9 @@
+import { RetentionSettings } from "@/types";
+
+export const DEFAULT_RETENTION_SETTINGS: RetentionSettings = {
+  enabled: false,
+  deleteConversationsAfterDays: null,
+  deleteTranscriptsAfterDays: null,
+  purgeAttachmentsAfterDays: null,
+  excludePinned: true,
+};
@@ -0,0 +1,6 @@
+import { ScreenshotTarget } from "@/types";
+
+// The monitor TalkEcho is on, as before targets could be chosen
+export const DEFAULT_SCREENSHOT_TARGET: ScreenshotTarget = {
+  kind: "activeMonitor",
+};
@@ -71,5 +71,25 @@ export const DEFAULT_SHORTCUT_ACTIONS: ShortcutAction[] = [
       linux: "ctrl+shift+s",
     },
   },
+  {
+    id: "screenshot_window_under_cursor",
+    name: "Screenshot Window Under Cursor",
+    description: "Capture the application window under the mouse cursor",
+    defaultKey: {
+      macos: "cmd+shift+x",
+      windows: "ctrl+shift+x",
+      linux: "ctrl+shift+x",
+    },
+  },
+  {
+    id: "switch_meeting_profile",
+    name: "Switch Meeting Profile",
+    description: "Apply the next meeting profile",
+    defaultKey: {
+      macos: "cmd+shift+j",
+      windows: "ctrl+shift+j",
+      linux: "ctrl+shift+j",
+    },
+  },
 ];
 
@@ -1,4 +1,46 @@
+import { SttStreamAdapterId, WhisperModelOption } from "@/types";
+
+// Streaming protocols selectable for custom STT providers ("none" = upload per utterance)
+export const STT_STREAM_ADAPTER_OPTIONS: {
+  label: string;
+  value: SttStreamAdapterId | "none";
+}[] = [
+  { label: "None (upload audio)", value: "none" },
+  { label: "Deepgram live", value: "deepgram" },
+  { label: "AssemblyAI realtime v3", value: "assemblyai" },
+  { label: "OpenAI realtime", value: "openai-realtime" },
+  { label: "WhisperLive server", value: "whisper-live" },
+];
+
+// Poll timing used when a provider leaves a field empty
+export const DEFAULT_STT_POLLING = {
+  timeoutSeconds: 120,
+  intervalSeconds: 1,
+  backoffFactor: 1.5,
+  maxIntervalSeconds: 10,
+};
+
+// ggml models for the offline whisper.cpp engine (ids match ggml-<id>.bin)
+export const WHISPER_MODELS: WhisperModelOption[] = [
+  { id: "tiny", label: "Tiny (multilingual)", sizeMb: 75 },
+  { id: "base", label: "Base (multilingual)", sizeMb: 142 },
+  { id: "base.en", label: "Base (English only)", sizeMb: 142 },
+  { id: "small", label: "Small (multilingual)", sizeMb: 466 },
+  { id: "medium", label: "Medium (multilingual)", sizeMb: 1500 },
+  { id: "large-v3-turbo", label: "Large v3 Turbo (multilingual)", sizeMb: 1620 },
+];
+
+export const DEFAULT_WHISPER_MODEL = "base";
+
 export const SPEECH_TO_TEXT_PROVIDERS = [
+  {
+    id: "whisper-local",
+    name: "Local Whisper (offline, whisper.cpp)",
+    curl: `curl -X POST "sidecar://whisper-cpp"`,
+    responseContentPath: "text",
+    streaming: false,
+    localEngine: "whisper-cpp" as const,
+  },
   {
     id: "openai-whisper",
     name: "OpenAI Whisper",
@@ -81,8 +123,16 @@ export const SPEECH_TO_TEXT_PROVIDERS = [
       -H "Authorization: Bearer {{API_KEY}}" \\
       -F "data_file={{AUDIO}}" \\
       -F 'config={"type": "transcription", "transcription_config": {"language": "{{LANGUAGE}}"}}'`,
-    responseContentPath: "job.id",
+    responseContentPath: "id",
     streaming: false,
+    polling: {
+      url: "https://asr.api.speechmatics.com/v2/jobs/{{JOB_ID}}",
+      statusPath: "job.status",
+      completedValue: "done",
+      failedValue: "rejected",
+      transcriptUrl:
+        "https://asr.api.speechmatics.com/v2/jobs/{{JOB_ID}}/transcript?format=txt",
+    },
   },
   {
     id: "rev-ai-stt",
@@ -94,6 +144,14 @@ export const SPEECH_TO_TEXT_PROVIDERS = [
       -F "language={{LANGUAGE}}"`,
     responseContentPath: "id",
     streaming: false,
+    polling: {
+      url: "https://api.rev.ai/speechtotext/v1/jobs/{{JOB_ID}}",
+      statusPath: "status",
+      completedValue: "transcribed",
+      failedValue: "failed",
+      transcriptUrl:
+        "https://api.rev.ai/speechtotext/v1/jobs/{{JOB_ID}}/transcript",
+    },
   },
   {
     id: "ibm-watson-stt",
@@ -105,4 +163,41 @@ export const SPEECH_TO_TEXT_PROVIDERS = [
     responseContentPath: "results[0].alternatives[0].transcript",
     streaming: false,
   },
+  {
+    id: "deepgram-live",
+    name: "Deepgram Live (Streaming)",
+    curl: `curl "wss://api.deepgram.com/v1/listen?model={{MODEL}}&language={{LANGUAGE}}&smart_format=true&diarize=true" \\
+      -H "Authorization: Token {{API_KEY}}"`,
+    responseContentPath: "channel.alternatives[0].transcript",
+    streaming: true,
+    streamAdapter: "deepgram" as const,
+  },
+  {
+    id: "assemblyai-realtime",
+    name: "AssemblyAI Realtime (Streaming)",
+    curl: `curl "wss://streaming.assemblyai.com/v3/ws" \\
+      -H "Authorization: {{API_KEY}}"`,
+    responseContentPath: "transcript",
+    streaming: true,
+    streamAdapter: "assemblyai" as const,
+  },
+  {
+    id: "openai-realtime-stt",
+    name: "OpenAI Realtime Transcription (Streaming)",
+    curl: `curl "wss://api.openai.com/v1/realtime?intent=transcription" \\
+      -H "Authorization: Bearer {{API_KEY}}" \\
+      -d '{"input_audio_transcription": {"model": "{{MODEL}}", "language": "{{LANGUAGE}}"}}'`,
+    responseContentPath: "transcript",
+    streaming: true,
+    streamAdapter: "openai-realtime" as const,
+  },
+  {
+    id: "whisper-live-local",
+    name: "Local Whisper Server (WhisperLive, Streaming)",
+    curl: `curl "ws://127.0.0.1:9090" \\
+      -d '{"language": "{{LANGUAGE}}", "model": "{{MODEL}}"}'`,
+    responseContentPath: "segments",
+    streaming: true,
+    streamAdapter: "whisper-live" as const,
+  },
 ];
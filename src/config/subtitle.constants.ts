@@ -0,0 +1,11 @@
+import { SubtitleSettings } from "@/types";
+
+export const DEFAULT_SUBTITLE_SETTINGS: SubtitleSettings = {
+  enabled: false,
+  fontSize: 18,
+  lineCount: 2,
+  fadeSeconds: 12,
+};
+
+export const SUBTITLE_FONT_SIZE_RANGE = { min: 12, max: 40 };
+export const SUBTITLE_LINE_COUNT_RANGE = { min: 1, max: 6 };
@@ -0,0 +1,19 @@
+import { MeetingSummarySettings } from "@/types";
+
+export const DEFAULT_MEETING_SUMMARY_PROMPT = `You summarize meeting transcripts for the people who attended.
+
+- Write a short overview (3-6 sentences) of what was discussed and concluded.
+- List every concrete action item, with the owner and due date when they were mentioned.
+- List the decisions that were made.
+- List questions that were raised but not answered.
+
+Be factual and only use information from the transcript. Write in the language of the transcript.`;
+
+export const DEFAULT_MEETING_SUMMARY_SETTINGS: MeetingSummarySettings = {
+  enabled: false,
+  prompt: DEFAULT_MEETING_SUMMARY_PROMPT,
+  minSegments: 4,
+};
+
+// Transcript characters per request; longer meetings are summarized in parts first
+export const SUMMARY_CHUNK_CHARS = 12000;
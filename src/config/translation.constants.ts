@@ -0,0 +1,58 @@
+import { TranslationBackendId, TranslationSettings } from "@/types";
+
+export const TRANSLATION_BACKEND_OPTIONS: {
+  label: string;
+  value: TranslationBackendId;
+}[] = [
+  { label: "AI Provider (LLM prompt)", value: "llm" },
+  { label: "DeepL", value: "deepl" },
+  { label: "LibreTranslate (local)", value: "libretranslate" },
+];
+
+export const DEFAULT_TRANSLATION_SETTINGS: TranslationSettings = {
+  backend: "llm",
+  sourceLanguage: "auto",
+  targetLanguage: "english",
+  glossary: [],
+  contextSegments: 3,
+  deeplApiKey: "",
+  libreTranslateUrl: "http://localhost:5000",
+};
+
+export const TRANSLATION_CONTEXT_RANGE = { min: 0, max: 10 };
+
+export const DEEPL_FREE_ENDPOINT = "https://api-free.deepl.com";
+export const DEEPL_PRO_ENDPOINT = "https://api.deepl.com";
+
+// ISO 639-1 codes of the LANGUAGES ids, as used by translation APIs
+export const TRANSLATION_LANGUAGE_CODES: Record<string, string> = {
+  english: "en",
+  spanish: "es",
+  french: "fr",
+  german: "de",
+  italian: "it",
+  portuguese: "pt",
+  dutch: "nl",
+  russian: "ru",
+  chinese: "zh",
+  japanese: "ja",
+  korean: "ko",
+  arabic: "ar",
+  turkish: "tr",
+  polish: "pl",
+  swedish: "sv",
+  norwegian: "nb",
+  danish: "da",
+  finnish: "fi",
+  greek: "el",
+  czech: "cs",
+  hungarian: "hu",
+  romanian: "ro",
+  ukrainian: "uk",
+  vietnamese: "vi",
+  thai: "th",
+  indonesian: "id",
+  malay: "ms",
+  hebrew: "he",
+  filipino: "tl",
+};
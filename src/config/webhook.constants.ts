@@ -0,0 +1,64 @@
+import { WebhookEventType, WebhookSettings } from "@/types";
+
+export const WEBHOOK_EVENTS: {
+  id: WebhookEventType;
+  label: string;
+  description: string;
+}[] = [
+  {
+    id: "session.started",
+    label: "Session started",
+    description: "System audio capture started",
+  },
+  {
+    id: "session.stopped",
+    label: "Session stopped",
+    description: "System audio capture stopped",
+  },
+  {
+    id: "transcript",
+    label: "Transcript",
+    description: "Each transcribed segment",
+  },
+  {
+    id: "response",
+    label: "AI response",
+    description: "Each finished AI response",
+  },
+  {
+    id: "summary",
+    label: "Meeting summary",
+    description: "The post-meeting summary",
+  },
+];
+
+// Variables available in payload templates, besides {{PAYLOAD}}
+export const WEBHOOK_TEMPLATE_VARIABLES = [
+  "EVENT",
+  "TIMESTAMP",
+  "CONVERSATION_ID",
+  "CONVERSATION_TITLE",
+  "TEXT",
+  "SOURCE",
+  "SPEAKER",
+  "PROMPT",
+  "RESPONSE",
+  "PROVIDER",
+  "SUMMARY",
+  "ACTION_ITEMS",
+];
+
+export const DEFAULT_WEBHOOK_PAYLOAD_TEMPLATE = "{{PAYLOAD}}";
+
+export const DEFAULT_WEBHOOK_SETTINGS: WebhookSettings = {
+  webhooks: [],
+  maxAttempts: 5,
+};
+
+// Waits before the 2nd, 3rd, ... attempt; the last one repeats
+export const WEBHOOK_RETRY_DELAYS_MS = [
+  10_000, 30_000, 120_000, 600_000, 1_800_000,
+];
+export const WEBHOOK_REQUEST_TIMEOUT_MS = 10_000;
+// Oldest finished deliveries are dropped beyond this
+export const WEBHOOK_DELIVERY_LOG_LIMIT = 100;
@@ -1,11 +1,21 @@
 ﻿import {
   AI_PROVIDERS,
+  DEFAULT_SCREENSHOT_TARGET,
   DEFAULT_SYSTEM_PROMPT,
   SPEECH_TO_TEXT_PROVIDERS,
   STORAGE_KEYS,
 } from "@/config";
 import { getPlatform, safeLocalStorage, trackAppStart } from "@/lib";
-import { getShortcutsConfig } from "@/lib/storage";
+import {
+  getOcrSettings,
+  getShortcutsConfig,
+  migrateDocumentContextSecrets,
+  migrateProviderSecrets,
+  ProviderKind,
+  protectProviderVariables,
+  resolveProviderVariables,
+  SECRET_SAVE_DEBOUNCE_MS,
+} from "@/lib/storage";
 import {
   getCustomizableState,
   setCustomizableState,
@@ -125,16 +135,59 @@ const getProviderVariablesById = (storageKey: string): ProviderVariablesById =>
   return parseProviderVariablesById(safeLocalStorage.getItem(storageKey));
 };
 
-const setProviderVariablesById = (
+// Updates one provider's entry, read fresh so other entries saved meanwhile
+// are kept. `variables` must already hold keyring references.
+const storeProviderVariables = (
   storageKey: string,
-  variablesById: ProviderVariablesById
+  providerId: string,
+  variables: Record<string, string>
 ) => {
+  const variablesById = getProviderVariablesById(storageKey);
+  variablesById[providerId] = variables;
   safeLocalStorage.setItem(
     storageKey,
     JSON.stringify(sanitizeProviderVariablesById(variablesById))
   );
 };
 
+// Secret variables are saved to the keyring; localStorage only keeps references
+const saveProviderVariables = async (
+  kind: ProviderKind,
+  storageKey: string,
+  providerId: string,
+  variables: Record<string, string>
+) => {
+  storeProviderVariables(
+    storageKey,
+    providerId,
+    await protectProviderVariables(
+      kind,
+      providerId,
+      sanitizeProviderVariables(variables)
+    )
+  );
+};
+
+// Saves the selected provider and its entry in the per-provider variables
+// with one keyring write per secret
+const saveSelectedProvider = async (
+  kind: ProviderKind,
+  selectedKey: string,
+  variablesByIdKey: string,
+  selected: { provider: string; variables: Record<string, string> }
+) => {
+  const variables = await protectProviderVariables(
+    kind,
+    selected.provider,
+    sanitizeProviderVariables(selected.variables)
+  );
+  safeLocalStorage.setItem(
+    selectedKey,
+    JSON.stringify({ ...selected, variables })
+  );
+  storeProviderVariables(variablesByIdKey, selected.provider, variables);
+};
+
 // Create the context
 const AppContext = createContext<IContextType | undefined>(undefined);
 
@@ -188,7 +241,12 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
       mode: "manual",
       autoPrompt: "Analyze this screenshot and provide insights",
       enabled: true,
+      target: DEFAULT_SCREENSHOT_TARGET,
     });
+  // Screenshots are read locally, so text-only providers can take them too
+  const [screenshotOcrEnabled, setScreenshotOcrEnabled] = useState<boolean>(
+    () => getOcrSettings().enabled
+  );
 
   // Unified Customizable State
   const [customizable, setCustomizable] = useState<CustomizableState>(
@@ -249,6 +307,9 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
               parsed.autoPrompt ||
               "Analyze this screenshot and provide insights",
             enabled: parsed.enabled !== undefined ? parsed.enabled : false,
+            target: parsed.target?.kind
+              ? parsed.target
+              : DEFAULT_SCREENSHOT_TARGET,
           });
         }
       } catch {
@@ -256,6 +317,8 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
       }
     }
 
+    setScreenshotOcrEnabled(getOcrSettings().enabled);
+
     // Load custom AI providers
     const savedAi = safeLocalStorage.getItem(STORAGE_KEYS.CUSTOM_AI_PROVIDERS);
     let aiList: TYPE_PROVIDER[] = [];
@@ -274,20 +337,26 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
     }
     setCustomSttProviders(sttList);
 
-    // Load selected AI provider
+    // Load selected AI provider, reading its API keys from the keyring
     const savedSelectedAi = safeLocalStorage.getItem(
       STORAGE_KEYS.SELECTED_AI_PROVIDER
     );
     if (savedSelectedAi) {
-      setSelectedAIProvider(JSON.parse(savedSelectedAi));
+      const parsed = JSON.parse(savedSelectedAi);
+      resolveProviderVariables(parsed.variables ?? {}).then((variables) =>
+        setSelectedAIProvider({ ...parsed, variables })
+      );
     }
 
-    // Load selected STT provider
+    // Load selected STT provider, reading its API keys from the keyring
     const savedSelectedStt = safeLocalStorage.getItem(
       STORAGE_KEYS.SELECTED_STT_PROVIDER
     );
     if (savedSelectedStt) {
-      setSelectedSttProvider(JSON.parse(savedSelectedStt));
+      const parsed = JSON.parse(savedSelectedStt);
+      resolveProviderVariables(parsed.variables ?? {}).then((variables) =>
+        setSelectedSttProvider({ ...parsed, variables })
+      );
     }
 
     // Load STT language
@@ -378,6 +447,13 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
     // Load data
     loadData();
     initializeApp();
+    // Move API keys saved in plain text by earlier versions to the keyring
+    migrateProviderSecrets().catch((error) =>
+      console.error("Failed to migrate provider secrets:", error)
+    );
+    migrateDocumentContextSecrets().catch((error) =>
+      console.error("Failed to migrate the embeddings API key:", error)
+    );
   }, []);
 
   // Handle customizable settings on state changes
@@ -467,6 +543,7 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
         e.key === STORAGE_KEYS.SELECTED_STT_PROVIDER ||
         e.key === STORAGE_KEYS.SYSTEM_PROMPT ||
         e.key === STORAGE_KEYS.SCREENSHOT_CONFIG ||
+        e.key === STORAGE_KEYS.OCR_SETTINGS ||
         e.key === STORAGE_KEYS.CUSTOMIZABLE ||
         e.key === STORAGE_KEYS.STT_LANGUAGE
       ) {
@@ -477,24 +554,38 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
     return () => window.removeEventListener("storage", handleStorageChange);
   }, []);
 
-  // Sync selected AI to localStorage (only after initial load)
+  // Sync selected AI to localStorage (only after initial load), once typing
+  // in a key field pauses since API keys go to the keyring
   useEffect(() => {
-    if (isDataLoaded && selectedAIProvider.provider) {
-      safeLocalStorage.setItem(
+    if (!isDataLoaded || !selectedAIProvider.provider) return;
+    const timeout = setTimeout(() => {
+      saveSelectedProvider(
+        "ai",
         STORAGE_KEYS.SELECTED_AI_PROVIDER,
-        JSON.stringify(selectedAIProvider)
+        STORAGE_KEYS.AI_PROVIDER_VARIABLES_BY_ID,
+        selectedAIProvider
+      ).catch((error) =>
+        console.error("Failed to save provider variables:", error)
       );
-    }
+    }, SECRET_SAVE_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
   }, [selectedAIProvider, isDataLoaded]);
 
-  // Sync selected STT to localStorage (only after initial load)
+  // Sync selected STT to localStorage (only after initial load), once typing
+  // in a key field pauses since API keys go to the keyring
   useEffect(() => {
-    if (isDataLoaded && selectedSttProvider.provider) {
-      safeLocalStorage.setItem(
+    if (!isDataLoaded || !selectedSttProvider.provider) return;
+    const timeout = setTimeout(() => {
+      saveSelectedProvider(
+        "stt",
         STORAGE_KEYS.SELECTED_STT_PROVIDER,
-        JSON.stringify(selectedSttProvider)
+        STORAGE_KEYS.STT_PROVIDER_VARIABLES_BY_ID,
+        selectedSttProvider
+      ).catch((error) =>
+        console.error("Failed to save provider variables:", error)
       );
-    }
+    }, SECRET_SAVE_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
   }, [selectedSttProvider, isDataLoaded]);
 
   // Sync STT language to localStorage
@@ -529,7 +620,7 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
   ];
 
   const supportsImages = useMemo(() => {
-    if (talkEchoApiEnabled) return true;
+    if (talkEchoApiEnabled || screenshotOcrEnabled) return true;
 
     const provider = allAiProviders.find(
       (p) => p.id === selectedAIProvider.provider
@@ -537,7 +628,12 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
     if (!provider?.curl) return true;
 
     return provider.curl.includes("{{IMAGE}}");
-  }, [talkEchoApiEnabled, allAiProviders, selectedAIProvider.provider]);
+  }, [
+    talkEchoApiEnabled,
+    screenshotOcrEnabled,
+    allAiProviders,
+    selectedAIProvider.provider,
+  ]);
 
   // Computed all STT providers
   const allSttProviders: TYPE_PROVIDER[] = [
@@ -545,7 +641,7 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
     ...customSttProviders,
   ];
 
-  const onSetSelectedAIProvider = ({
+  const onSetSelectedAIProvider = async ({
     provider,
     variables,
   }: {
@@ -560,30 +656,35 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
     const isSwitching = provider !== selectedAIProvider.provider;
     const variablesByIdKey = STORAGE_KEYS.AI_PROVIDER_VARIABLES_BY_ID;
 
-    let variablesById = getProviderVariablesById(variablesByIdKey);
-
-    // Save current provider variables before switching
+    // Save current provider variables before switching; the selected
+    // provider's are saved by the sync effect
     if (isSwitching && selectedAIProvider.provider) {
-      variablesById[selectedAIProvider.provider] = selectedAIProvider.variables;
+      saveProviderVariables(
+        "ai",
+        variablesByIdKey,
+        selectedAIProvider.provider,
+        selectedAIProvider.variables
+      ).catch((error) =>
+        console.error("Failed to save provider variables:", error)
+      );
     }
 
     const shouldRestore =
       isSwitching && Object.keys(variables || {}).length === 0;
+    // Only switching waits for the keyring, so typing stays synchronous
     const nextVariables = sanitizeProviderVariables(
-      shouldRestore ? variablesById[provider] : variables
+      shouldRestore
+        ? await resolveProviderVariables(
+            getProviderVariablesById(variablesByIdKey)[provider] ?? {}
+          )
+        : variables
     );
 
-    // Persist the latest variables for the selected provider
-    if (provider) {
-      variablesById[provider] = nextVariables;
-      setProviderVariablesById(variablesByIdKey, variablesById);
-    }
-
     setSelectedAIProvider((prev) => ({ ...prev, provider, variables: nextVariables }));
   };
 
   // Setter for selected STT with validation
-  const onSetSelectedSttProvider = ({
+  const onSetSelectedSttProvider = async ({
     provider,
     variables,
   }: {
@@ -598,25 +699,30 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
     const isSwitching = provider !== selectedSttProvider.provider;
     const variablesByIdKey = STORAGE_KEYS.STT_PROVIDER_VARIABLES_BY_ID;
 
-    let variablesById = getProviderVariablesById(variablesByIdKey);
-
-    // Save current provider variables before switching
+    // Save current provider variables before switching; the selected
+    // provider's are saved by the sync effect
     if (isSwitching && selectedSttProvider.provider) {
-      variablesById[selectedSttProvider.provider] = selectedSttProvider.variables;
+      saveProviderVariables(
+        "stt",
+        variablesByIdKey,
+        selectedSttProvider.provider,
+        selectedSttProvider.variables
+      ).catch((error) =>
+        console.error("Failed to save provider variables:", error)
+      );
     }
 
     const shouldRestore =
       isSwitching && Object.keys(variables || {}).length === 0;
+    // Only switching waits for the keyring, so typing stays synchronous
     const nextVariables = sanitizeProviderVariables(
-      shouldRestore ? variablesById[provider] : variables
+      shouldRestore
+        ? await resolveProviderVariables(
+            getProviderVariablesById(variablesByIdKey)[provider] ?? {}
+          )
+        : variables
     );
 
-    // Persist the latest variables for the selected provider
-    if (provider) {
-      variablesById[provider] = nextVariables;
-      setProviderVariablesById(variablesByIdKey, variablesById);
-    }
-
     setSelectedSttProvider((prev) => ({ ...prev, provider, variables: nextVariables }));
   };
 
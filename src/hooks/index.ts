@@ -9,6 +9,14 @@ export * from "./useGlobalShortcuts";
 export * from "./useShortcuts";
 export * from "./useAudioOverlay";
 export * from "./useHistory";
+export * from "./useInfiniteScroll";
+export * from "./useConversationGroups";
+export * from "./useDatabaseEncryption";
+export * from "./useRetentionPolicy";
+export * from "./useControlApi";
+export * from "./useLiveNotes";
+export * from "./useWebhooks";
+export * from "./useMeetingProfiles";
 export * from "./useCopyToClipboard";
 export * from "./useTitles";
 export * from "./useSystemPrompts";
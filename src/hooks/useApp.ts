@@ -1,5 +1,13 @@
 import { useEffect, useState } from "react";
-import { useTitles, useAudioOverlay } from "@/hooks";
+import {
+  useTitles,
+  useAudioOverlay,
+  useRetentionPolicy,
+  useControlApi,
+  useLiveNotes,
+  useWebhooks,
+  useMeetingProfiles,
+} from "@/hooks";
 import { listen } from "@tauri-apps/api/event";
 import { safeLocalStorage, migrateLocalStorageToSQLite } from "@/lib";
 import { getShortcutsConfig } from "@/lib/storage";
@@ -10,6 +18,22 @@ export const useApp = () => {
   const [isHidden, setIsHidden] = useState(false);
   // Initialize title management
   useTitles();
+  // Purge old chat history when the scheduler asks for it
+  useRetentionPolicy();
+  // Serve the automation API when it is enabled
+  useControlApi(systemAudio);
+  // Mirror the transcript into a Markdown note
+  useLiveNotes(systemAudio);
+  // Send meeting events to the configured webhooks
+  useWebhooks(systemAudio);
+  // Switch prompt, providers, language and context together
+  const meetingProfiles = useMeetingProfiles();
+  const { registerCustomShortcutCallback } = systemAudio;
+  const { applyNextProfile } = meetingProfiles;
+
+  useEffect(() => {
+    registerCustomShortcutCallback("switch_meeting_profile", applyNextProfile);
+  }, [registerCustomShortcutCallback, applyNextProfile]);
 
   // Initialize shortcuts from localStorage on app startup
   useEffect(() => {
@@ -153,5 +177,6 @@ export const useApp = () => {
     handleSelectConversation,
     handleNewConversation,
     systemAudio,
+    meetingProfiles,
   };
 };
@@ -3,7 +3,20 @@ import { useWindowResize, useGlobalShortcuts } from ".";
 import { invoke } from "@tauri-apps/api/core";
 import { listen } from "@tauri-apps/api/event";
 import { useApp } from "@/contexts";
-import { fetchSTT, fetchAIResponse } from "@/lib/functions";
+import {
+  fetchSTT,
+  fetchAIResponse,
+  buildMessageUsage,
+  buildSttStreamConfig,
+  createTranscriptAssembler,
+  createSttStreamParser,
+  getSttTimeoutMs,
+  createSpeakerTracker,
+  decodeWavSamples,
+  computeVoiceEmbedding,
+  toSpeakerId,
+  generateMeetingSummary,
+} from "@/lib/functions";
 import { MicVAD } from "@ricky0123/vad-web";
 import {
   DEFAULT_QUICK_ACTIONS,
@@ -18,11 +31,28 @@ import {
   CONVERSATION_SAVE_DEBOUNCE_MS,
   generateConversationId,
   generateMessageId,
+  getSubtitleSettings,
+  getTranslationSettings,
+  createTranslationSession,
+  type TranslationSession,
+  getMeetingSummarySettings,
+  updateConversationSummary,
+  withDocumentContext,
+  DatabaseLockedError,
 } from "@/lib";
 import type {
   Message as CompletionMessage,
   ChatConversation as CompletionConversation,
 } from "@/types/completion";
+import type {
+  AIProviderAnswer,
+  MeetingProfile,
+  MeetingSummary,
+  MessageUsage,
+  SttStreamEvent,
+  SubtitleLine,
+  SubtitleSettings,
+} from "@/types";
 import { floatArrayToWav } from "@/lib/utils";
 
 // VAD Configuration interface matching Rust
@@ -79,6 +109,13 @@ export const LEGACY_DEFAULT_VAD_CONFIG: VadConfig = {
   max_recording_duration_secs: 180,
 };
 
+// Caption pairs kept in memory for the subtitle band (older ones are only in history)
+const MAX_SUBTITLE_LINES = 20;
+
+// Appended to the locked database error while refused saves wait for an unlock
+const LOCKED_SAVE_NOTE =
+  "The conversation is kept here and saved once it is unlocked.";
+
 const approxEqual = (a: number, b: number, epsilon = 1e-6) =>
   Math.abs(a - b) <= epsilon;
 
@@ -100,6 +137,8 @@ interface ChatMessage {
   content: string;
   timestamp: number;
   source?: "system_audio" | "microphone" | "manual"; // audio source
+  usage?: MessageUsage;
+  speakerId?: string; // diarized speaker of system audio
 }
 
 // Conversation interface (reusing from useCompletion)
@@ -109,6 +148,8 @@ export interface ChatConversation {
   messages: ChatMessage[];
   createdAt: number;
   updatedAt: number;
+  speakerNames?: Record<string, string>;
+  summary?: MeetingSummary;
 }
 
 export type useAudioOverlayType = ReturnType<typeof useAudioOverlay>;
@@ -130,7 +171,11 @@ export function useAudioOverlay() {
   const [isProcessing, setIsProcessing] = useState(false);
   const [isAIProcessing, setIsAIProcessing] = useState(false);
   const [lastTranscription, setLastTranscription] = useState<string>("");
+  const [liveCaption, setLiveCaption] = useState<string>(""); // streaming STT partials
   const [lastAIResponse, setLastAIResponse] = useState<string>("");
+  // Provider behind lastAIResponse, which differs from the selected one after a failover
+  const [lastAIProvider, setLastAIProvider] =
+    useState<AIProviderAnswer | null>(null);
   const [error, setError] = useState<string>("");
   const [setupRequired, setSetupRequired] = useState<boolean>(false);
   const [quickActions, setQuickActions] = useState<string[]>([]);
@@ -177,6 +222,8 @@ export function useAudioOverlay() {
         content: msg.content,
         timestamp: msg.timestamp,
         source: msg.source === "microphone" ? "microphone" : "system_audio",
+        usage: msg.usage,
+        speakerId: msg.speakerId,
       })),
     };
   }, [conversation]);
@@ -197,11 +244,70 @@ export function useAudioOverlay() {
   const abortControllerRef = useRef<AbortController | null>(null);
   const saveTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const isSavingRef = useRef<boolean>(false);
+  // Saves refused by the locked database, by conversation, until it is unlocked
+  const lockedSavesRef = useRef<Map<string, CompletionConversation>>(new Map());
   const scrollAreaRef = useRef<HTMLDivElement>(null);
 
   // Ref to hold the microphone processing function to avoid closure issues
   const processMicrophoneAudioRef = useRef<((audio: Float32Array) => Promise<void>) | null>(null);
 
+  // Streaming STT session state (parser and assembler are per session)
+  const streamParserRef = useRef<((data: string) => SttStreamEvent[]) | null>(
+    null
+  );
+  const transcriptAssemblerRef = useRef<ReturnType<
+    typeof createTranscriptAssembler
+  > | null>(null);
+  const streamStoppingRef = useRef<boolean>(false);
+  const handleStreamUtteranceRef = useRef<
+    ((utterance: string, speaker?: string) => Promise<void>) | null
+  >(null);
+
+  // Ends the streaming session state; text committed without an end of turn
+  // still goes through the usual utterance handling
+  const flushStreamTranscript = useCallback(async () => {
+    const pending = transcriptAssemblerRef.current?.flush();
+    streamParserRef.current = null;
+    transcriptAssemblerRef.current = null;
+    if (pending?.utterance) {
+      await handleStreamUtteranceRef.current?.(
+        pending.utterance,
+        pending.speaker
+      );
+    }
+  }, []);
+
+  // Subtitle mode: transcripts are translated into a caption band instead of chat turns
+  const [subtitleSettings, setSubtitleSettingsState] =
+    useState<SubtitleSettings>(getSubtitleSettings);
+  const [subtitleLines, setSubtitleLines] = useState<SubtitleLine[]>([]);
+  const subtitleSettingsRef = useRef(subtitleSettings);
+  useEffect(() => {
+    subtitleSettingsRef.current = subtitleSettings;
+  }, [subtitleSettings]);
+  // Rolling translation context lives for one capture session
+  const translationSessionRef = useRef<TranslationSession | null>(null);
+  const processSubtitleSegmentRef = useRef<
+    | ((
+        transcription: string,
+        sttUsage?: MessageUsage,
+        speakerId?: string
+      ) => Promise<void>)
+    | null
+  >(null);
+
+  // Post-meeting summary, generated after stopCapture
+  const [isSummarizing, setIsSummarizing] = useState<boolean>(false);
+  // Set by stopCapture; the summary starts on the next render so that it
+  // sees the utterance flushed at the stop
+  const [summaryRequested, setSummaryRequested] = useState<boolean>(false);
+
+  // Speaker diarization for system audio (tracker is per capture session)
+  const diarizationEnabledRef = useRef<boolean>(false);
+  const speakerTrackerRef = useRef<ReturnType<
+    typeof createSpeakerTracker
+  > | null>(null);
+
   // Microphone VAD for dual-track mode
   const audioConstraints: MediaTrackConstraints = useMemo(
     () =>
@@ -464,6 +570,29 @@ export function useAudioOverlay() {
     }
   }, []);
 
+  // Take over the context and quick actions of an applied meeting profile
+  useEffect(() => {
+    let unlisten: (() => void) | undefined;
+
+    listen<{ profile: MeetingProfile }>("meetingProfileApplied", (event) => {
+      const { profile } = event.payload ?? {};
+      if (!profile) return;
+      setUseSystemPrompt(profile.audioContext.useSystemPrompt);
+      setContextContent(profile.audioContext.contextContent);
+      setQuickActions(profile.quickActions);
+    })
+      .then((fn) => {
+        unlisten = fn;
+      })
+      .catch((error) => {
+        console.error("Failed to listen for meetingProfileApplied:", error);
+      });
+
+    return () => {
+      if (unlisten) unlisten();
+    };
+  }, []);
+
   // Handle continuous recording progress events AND error events
   useEffect(() => {
     let progressUnlisten: (() => void) | undefined;
@@ -542,6 +671,18 @@ export function useAudioOverlay() {
             }
             const audioBlob = new Blob([bytes], { type: "audio/wav" });
 
+            // Local clustering keeps speaker ids stable across segments
+            let speakerId: string | undefined;
+            if (diarizationEnabledRef.current && speakerTrackerRef.current) {
+              const decoded = decodeWavSamples(bytes.buffer);
+              const embedding = decoded
+                ? computeVoiceEmbedding(decoded.samples, decoded.sampleRate)
+                : null;
+              if (embedding) {
+                speakerId = speakerTrackerRef.current.identify(embedding);
+              }
+            }
+
             const useTalkEchoAPI = await shouldUseTalkEchoAPI();
             if (!selectedSttProvider.provider && !useTalkEchoAPI) {
               setError("No speech provider selected.");
@@ -559,18 +700,29 @@ export function useAudioOverlay() {
 
             setIsProcessing(true);
 
-            // Add timeout wrapper for STT request (30 seconds)
+            let sttUsage: MessageUsage | undefined;
+
+            // Add timeout wrapper for STT request (30 seconds, longer for polled jobs)
             const sttPromise = fetchSTT({
               provider: providerConfig,
               selectedProvider: selectedSttProvider,
               audio: audioBlob,
               language: sttLanguage,
+              onUsage: (usage) => {
+                sttUsage = buildMessageUsage(selectedSttProvider, usage);
+              },
             });
 
+            const sttTimeoutMs = getSttTimeoutMs(providerConfig);
             const timeoutPromise = new Promise<string>((_, reject) => {
               setTimeout(
-                () => reject(new Error("Speech transcription timed out (30s)")),
-                30000
+                () =>
+                  reject(
+                    new Error(
+                      `Speech transcription timed out (${sttTimeoutMs / 1000}s)`
+                    )
+                  ),
+                sttTimeoutMs
               );
             });
 
@@ -590,12 +742,23 @@ export function useAudioOverlay() {
 
                 const previousMessages = buildConversationHistory();
 
+                if (subtitleSettingsRef.current.enabled) {
+                  await processSubtitleSegmentRef.current?.(
+                    transcription,
+                    sttUsage,
+                    speakerId
+                  );
+                  return;
+                }
+
                 // Real-time STT: auto-triggered, stateless (no history needed)
                 await processWithAI(
                   transcription,
                   effectiveSystemPrompt,
                   previousMessages,
-                  "system_audio"  // Auto-detect: STT source = no history
+                  "system_audio",  // Auto-detect: STT source = no history
+                  sttUsage,
+                  speakerId
                 );
               } else {
                 setError("Received empty transcription");
@@ -630,6 +793,65 @@ export function useAudioOverlay() {
     includeMicrophone,
   ]);
 
+  // Streaming STT: provider messages become live captions, end of turn triggers AI
+  useEffect(() => {
+    let messageUnlisten: (() => void) | undefined;
+    let errorUnlisten: (() => void) | undefined;
+    let closedUnlisten: (() => void) | undefined;
+
+    const setupStreamListeners = async () => {
+      try {
+        messageUnlisten = await listen<string>(
+          "stt-stream-message",
+          (event) => {
+            const parser = streamParserRef.current;
+            const assembler = transcriptAssemblerRef.current;
+            if (!parser || !assembler) return;
+
+            for (const streamEvent of parser(event.payload)) {
+              if (streamEvent.error) {
+                setError(streamEvent.error);
+                continue;
+              }
+
+              const { caption, utterance, speaker } =
+                assembler.apply(streamEvent);
+              setLiveCaption(caption);
+              if (utterance) {
+                handleStreamUtteranceRef.current?.(utterance, speaker);
+              }
+            }
+          }
+        );
+
+        errorUnlisten = await listen<string>("stt-stream-error", (event) => {
+          console.error("Streaming STT error:", event.payload);
+          setError(`Streaming transcription error: ${event.payload}`);
+          setIsPopoverOpen(true);
+        });
+
+        closedUnlisten = await listen("stt-stream-closed", () => {
+          setLiveCaption("");
+          void flushStreamTranscript();
+          if (!streamStoppingRef.current) {
+            setError("Streaming transcription disconnected.");
+            setIsPopoverOpen(true);
+          }
+        });
+      } catch (err) {
+        console.error("Failed to setup streaming STT listeners:", err);
+      }
+    };
+
+    setupStreamListeners();
+
+    return () => {
+      if (messageUnlisten) messageUnlisten();
+      if (errorUnlisten) errorUnlisten();
+      if (closedUnlisten) closedUnlisten();
+    };
+  }, [flushStreamTranscript]);
+
   // Context management functions
   const saveContextSettings = useCallback(
     (usePrompt: boolean, content: string) => {
@@ -790,11 +1012,15 @@ export function useAudioOverlay() {
         }
 
         // STT transcription
+        let sttUsage: MessageUsage | undefined;
         const transcription = await fetchSTT({
           provider: providerConfig,
           selectedProvider: selectedSttProvider,
           audio: audioBlob,
           language: sttLanguage,
+          onUsage: (usage) => {
+            sttUsage = buildMessageUsage(selectedSttProvider, usage);
+          },
         });
 
         if (!transcription.trim()) {
@@ -821,6 +1047,8 @@ export function useAudioOverlay() {
         }
 
         let fullResponse = "";
+        let aiUsage: MessageUsage | undefined;
+        let answeredBy: AIProviderAnswer | undefined;
         try {
           for await (const chunk of fetchAIResponse({
             provider: useTalkEchoAPI ? undefined : aiProvider,
@@ -829,6 +1057,15 @@ export function useAudioOverlay() {
             history: [], // No history for independent translation
             userMessage: transcription,
             imagesBase64: [],
+            onUsage: (tokens) => {
+              aiUsage = buildMessageUsage(
+                answeredBy ?? selectedAIProvider,
+                tokens
+              );
+            },
+            onProvider: (answer) => {
+              answeredBy = answer;
+            },
           })) {
             fullResponse += chunk;
           }
@@ -849,6 +1086,7 @@ export function useAudioOverlay() {
               content: transcription,
               timestamp,
               source: "microphone" as const,
+              usage: sttUsage,
             },
             ...(fullResponse
               ? [
@@ -858,6 +1096,7 @@ export function useAudioOverlay() {
                     content: fullResponse,
                     timestamp: timestamp + 1,
                     source: "microphone" as const,
+                    usage: aiUsage,
                   },
                 ]
               : []),
@@ -896,7 +1135,9 @@ export function useAudioOverlay() {
       transcription: string,
       prompt: string,
       previousMessages: CompletionMessage[],
-      source: ChatMessage["source"] = "system_audio"
+      source: ChatMessage["source"] = "system_audio",
+      sttUsage?: MessageUsage,
+      speakerId?: string
     ) => {
       if (abortControllerRef.current) {
         abortControllerRef.current.abort();
@@ -907,6 +1148,7 @@ export function useAudioOverlay() {
       try {
         setIsAIProcessing(true);
         setLastAIResponse("");
+        setLastAIProvider(null);
         setError("");
 
         let fullResponse = "";
@@ -930,14 +1172,30 @@ export function useAudioOverlay() {
         const history: CompletionMessage[] =
           source === "manual" ? previousMessages : [];
 
+        let aiUsage: MessageUsage | undefined;
+        let answeredBy: AIProviderAnswer | undefined;
+
+        // Excerpts from the selected document library about this segment
+        const systemPrompt = await withDocumentContext(prompt, transcription);
+
         try {
           for await (const chunk of fetchAIResponse({
             provider: useTalkEchoAPI ? undefined : provider,
             selectedProvider: selectedAIProvider,
-            systemPrompt: prompt,
+            systemPrompt,
             history,
             userMessage: transcription,
             imagesBase64: [],
+            onUsage: (tokens) => {
+              aiUsage = buildMessageUsage(
+                answeredBy ?? selectedAIProvider,
+                tokens
+              );
+            },
+            onProvider: (answer) => {
+              answeredBy = answer;
+              setLastAIProvider(answer);
+            },
           })) {
             fullResponse += chunk;
             setLastAIResponse((prev) => prev + chunk);
@@ -957,6 +1215,8 @@ export function useAudioOverlay() {
                 content: transcription,
                 timestamp,
                 source: source ?? "system_audio",
+                usage: sttUsage,
+                speakerId,
               },
               {
                 id: generateMessageId("assistant", timestamp + 1),
@@ -964,6 +1224,7 @@ export function useAudioOverlay() {
                 content: fullResponse,
                 timestamp: timestamp + 1,
                 source: source ?? "system_audio",
+                usage: aiUsage,
               },
               ...prev.messages,
             ],
@@ -981,6 +1242,229 @@ export function useAudioOverlay() {
     [selectedAIProvider, allAiProviders, conversation.messages]
   );
 
+  // Subtitle mode: translate one segment into the caption band and keep the
+  // pair in the conversation history, without running a chat-style AI turn
+  const processSubtitleSegment = useCallback(
+    async (
+      transcription: string,
+      sttUsage?: MessageUsage,
+      speakerId?: string
+    ) => {
+      const timestamp = Date.now();
+      const lineId = generateMessageId("user", timestamp);
+      const updateLine = (updates: Partial<SubtitleLine>) =>
+        setSubtitleLines((prev) =>
+          prev.map((line) =>
+            line.id === lineId ? { ...line, ...updates } : line
+          )
+        );
+
+      setSubtitleLines((prev) =>
+        [
+          ...prev,
+          {
+            id: lineId,
+            source: transcription,
+            translation: "",
+            timestamp,
+            speakerId,
+            isTranslating: true,
+          },
+        ].slice(-MAX_SUBTITLE_LINES)
+      );
+
+      if (!translationSessionRef.current) {
+        translationSessionRef.current = createTranslationSession(
+          getTranslationSettings()
+        );
+      }
+      const session = translationSessionRef.current;
+
+      let translation = "";
+      let aiUsage: MessageUsage | undefined;
+      let answeredBy: AIProviderAnswer | undefined;
+
+      try {
+        const useLLM = session.settings.backend === "llm";
+        const useTalkEchoAPI = useLLM && (await shouldUseTalkEchoAPI());
+        const provider = allAiProviders.find(
+          (p) => p.id === selectedAIProvider.provider
+        );
+        if (useLLM && !provider && !useTalkEchoAPI) {
+          throw new Error("No AI provider selected.");
+        }
+
+        translation = await session.translate(transcription, {
+          llm: {
+            provider: useTalkEchoAPI ? undefined : provider,
+            selectedProvider: selectedAIProvider,
+          },
+          onChunk: (partial) => updateLine({ translation: partial }),
+          onUsage: (tokens) => {
+            aiUsage = buildMessageUsage(
+              answeredBy ?? selectedAIProvider,
+              tokens
+            );
+          },
+          onProvider: (answer) => {
+            answeredBy = answer;
+          },
+        });
+        updateLine({ translation });
+      } catch (err: any) {
+        setError(err?.message || "Failed to translate segment");
+      } finally {
+        updateLine({ isTranslating: false });
+      }
+
+      setConversation((prev) => ({
+        ...prev,
+        messages: [
+          {
+            id: lineId,
+            role: "user" as const,
+            content: transcription,
+            timestamp,
+            source: "system_audio" as const,
+            usage: sttUsage,
+            speakerId,
+          },
+          ...(translation
+            ? [
+                {
+                  id: generateMessageId("assistant", timestamp + 1),
+                  role: "assistant" as const,
+                  content: translation,
+                  timestamp: timestamp + 1,
+                  source: "system_audio" as const,
+                  usage: aiUsage,
+                },
+              ]
+            : []),
+          ...prev.messages,
+        ],
+        updatedAt: Date.now(),
+        title: prev.title || generateConversationTitle(transcription),
+      }));
+    },
+    [selectedAIProvider, allAiProviders]
+  );
+
+  useEffect(() => {
+    processSubtitleSegmentRef.current = processSubtitleSegment;
+  }, [processSubtitleSegment]);
+
+  // Summarize the meeting in the background once capture stops
+  const summarizeOnStop = useCallback(async () => {
+    const settings = getMeetingSummarySettings();
+    const transcriptCount = conversation.messages.filter(
+      (msg) => msg.role === "user" && msg.source !== "manual"
+    ).length;
+    if (
+      !settings.enabled ||
+      !conversation.id ||
+      transcriptCount < settings.minSegments ||
+      // Nothing new since the last summary
+      (conversation.summary &&
+        conversation.summary.generatedAt >= conversation.updatedAt)
+    ) {
+      return;
+    }
+
+    const useTalkEchoAPI = await shouldUseTalkEchoAPI();
+    const provider = allAiProviders.find(
+      (p) => p.id === selectedAIProvider.provider
+    );
+    if (!provider && !useTalkEchoAPI) return;
+
+    // Manual prompts are questions to the AI, not part of the meeting
+    const meeting = convertConversationForSave();
+    const manualIds = new Set(
+      conversation.messages
+        .filter((msg) => msg.source === "manual")
+        .map((msg) => msg.id)
+    );
+    meeting.messages = meeting.messages.filter(
+      (msg) => !manualIds.has(msg.id)
+    );
+
+    setIsSummarizing(true);
+    try {
+      const summary = await generateMeetingSummary({
+        conversation: meeting,
+        provider: useTalkEchoAPI ? undefined : provider,
+        selectedProvider: selectedAIProvider,
+        prompt: settings.prompt,
+      });
+
+      setConversation((prev) =>
+        prev.id === meeting.id ? { ...prev, summary } : prev
+      );
+      await updateConversationSummary(meeting.id, summary);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : String(err);
+      setError(`Failed to summarize meeting: ${errorMessage}`);
+      console.error("Meeting summary error:", err);
+    } finally {
+      setIsSummarizing(false);
+    }
+  }, [
+    conversation,
+    selectedAIProvider,
+    allAiProviders,
+    convertConversationForSave,
+  ]);
+
+  useEffect(() => {
+    if (!summaryRequested) return;
+    setSummaryRequested(false);
+    // Not awaited: the summary shows up in the conversation when ready
+    void summarizeOnStop();
+  }, [summaryRequested, summarizeOnStop]);
+
+  // Pick up translation engine changes for the next segment
+  useEffect(() => {
+    let unlisten: (() => void) | undefined;
+
+    listen("translationSettingsChanged", () => {
+      translationSessionRef.current = null;
+    })
+      .then((fn) => {
+        unlisten = fn;
+      })
+      .catch((error) => {
+        console.error("Failed to listen for translationSettingsChanged:", error);
+      });
+
+    return () => {
+      if (unlisten) unlisten();
+    };
+  }, []);
+
+  // Keep subtitle settings in sync with the settings page (across windows)
+  useEffect(() => {
+    let unlisten: (() => void) | undefined;
+
+    listen<{ settings: SubtitleSettings }>(
+      "subtitleSettingsChanged",
+      (event) => {
+        if (event.payload?.settings) {
+          setSubtitleSettingsState(event.payload.settings);
+        }
+      }
+    )
+      .then((fn) => {
+        unlisten = fn;
+      })
+      .catch((error) => {
+        console.error("Failed to listen for subtitleSettingsChanged:", error);
+      });
+
+    return () => {
+      if (unlisten) unlisten();
+    };
+  }, []);
+
   const sendManualPrompt = useCallback(
     async (promptText: string) => {
       const trimmed = promptText.trim();
@@ -999,6 +1483,51 @@ export function useAudioOverlay() {
     [buildConversationHistory, processWithAI]
   );
 
+  // Latest handler for utterances finalized by a streaming STT session
+  useEffect(() => {
+    handleStreamUtteranceRef.current = async (
+      utterance: string,
+      speaker?: string
+    ) => {
+      setLastTranscription(utterance);
+      setError("");
+
+      const speakerId =
+        diarizationEnabledRef.current && speaker !== undefined
+          ? toSpeakerId(speaker)
+          : undefined;
+
+      if (subtitleSettingsRef.current.enabled) {
+        await processSubtitleSegmentRef.current?.(
+          utterance,
+          undefined,
+          speakerId
+        );
+        return;
+      }
+
+      const effectiveSystemPrompt = useSystemPrompt
+        ? systemPrompt || DEFAULT_SYSTEM_PROMPT
+        : contextContent || DEFAULT_SYSTEM_PROMPT;
+
+      // Streaming providers label speakers consistently for the whole session
+      await processWithAI(
+        utterance,
+        effectiveSystemPrompt,
+        buildConversationHistory(),
+        "system_audio",
+        undefined,
+        speakerId
+      );
+    };
+  }, [
+    processWithAI,
+    buildConversationHistory,
+    useSystemPrompt,
+    systemPrompt,
+    contextContent,
+  ]);
+
   const startCapture = useCallback(async () => {
     try {
       setError("");
@@ -1010,7 +1539,31 @@ export function useAudioOverlay() {
         return;
       }
 
-      const isContinuous = !vadConfig.enabled;
+      // Streaming providers transcribe as audio arrives, so VAD/continuous are skipped
+      const useTalkEchoAPI = await shouldUseTalkEchoAPI();
+      const sttProviderConfig = allSttProviders.find(
+        (p) => p.id === selectedSttProvider.provider
+      );
+      const streamConfig = useTalkEchoAPI
+        ? null
+        : buildSttStreamConfig({
+            provider: sttProviderConfig,
+            selectedProvider: selectedSttProvider,
+            language: sttLanguage,
+          });
+
+      const isContinuous = !streamConfig && !vadConfig.enabled;
+
+      diarizationEnabledRef.current =
+        safeLocalStorage.getItem(STORAGE_KEYS.SYSTEM_AUDIO_DIARIZATION) ===
+        "true";
+      speakerTrackerRef.current = diarizationEnabledRef.current
+        ? createSpeakerTracker()
+        : null;
+      setSubtitleLines([]);
+      translationSessionRef.current = createTranslationSession(
+        getTranslationSettings()
+      );
 
       // Set up conversation
       const conversationId = generateConversationId("sysaudio");
@@ -1018,7 +1571,7 @@ export function useAudioOverlay() {
         id: conversationId,
         title: "",
         messages: [],
-        createdAt: 0,
+        createdAt: Date.now(),
         updatedAt: 0,
       });
 
@@ -1042,17 +1595,33 @@ export function useAudioOverlay() {
           ? selectedAudioDevices.output
           : null;
 
-      // Start capture with VAD config
+      if (streamConfig) {
+        streamParserRef.current = createSttStreamParser(sttProviderConfig);
+        transcriptAssemblerRef.current = createTranscriptAssembler();
+        streamStoppingRef.current = false;
+        setLiveCaption("");
+      }
+
+      // Start capture with VAD config (or the streaming session)
       await invoke<string>("start_system_audio_capture", {
         vadConfig: vadConfig,
         deviceId: deviceId,
+        streamConfig: streamConfig,
       });
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : String(err);
       setError(errorMessage);
       setIsPopoverOpen(true);
     }
-  }, [vadConfig, selectedAudioDevices.output, includeMicrophone, selectedAudioDevices.input]);
+  }, [
+    vadConfig,
+    selectedAudioDevices.output,
+    includeMicrophone,
+    selectedAudioDevices.input,
+    allSttProviders,
+    selectedSttProvider,
+    sttLanguage,
+  ]);
 
   const stopCapture = useCallback(async () => {
     try {
@@ -1062,9 +1631,13 @@ export function useAudioOverlay() {
         abortControllerRef.current = null;
       }
 
-      // Stop the audio capture
+      // Stop the audio capture (streaming sessions close gracefully first)
+      streamStoppingRef.current = true;
       await invoke<string>("stop_system_audio_capture");
 
+      // The last streamed utterance is answered before the state is reset
+      await flushStreamTranscript();
+
       // Reset ALL states
       setCapturing(false);
       setIsProcessing(false);
@@ -1073,14 +1646,17 @@ export function useAudioOverlay() {
       setIsRecordingInContinuousMode(false);
       setRecordingProgress(0);
       setLastTranscription("");
+      setLiveCaption("");
       setLastAIResponse("");
+      setLastAIProvider(null);
       setError("");
+      setSummaryRequested(true);
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : String(err);
       setError(`Failed to stop capture: ${errorMessage}`);
       console.error("Stop capture error:", err);
     }
-  }, []);
+  }, [flushStreamTranscript]);
 
   // Manual stop for continuous recording
   const manualStopAndSend = useCallback(async () => {
@@ -1225,11 +1801,16 @@ export function useAudioOverlay() {
         return;
       }
 
+      const conversationForSave = convertConversationForSave();
       try {
         isSavingRef.current = true;
-        const conversationForSave = convertConversationForSave();
         await saveConversation(conversationForSave);
+        lockedSavesRef.current.delete(conversationForSave.id);
       } catch (error) {
+        if (error instanceof DatabaseLockedError) {
+          lockedSavesRef.current.set(conversationForSave.id, conversationForSave);
+          setError(`${error.message} ${LOCKED_SAVE_NOTE}`);
+        }
         console.error("Failed to save system audio conversation:", error);
       } finally {
         isSavingRef.current = false;
@@ -1250,16 +1831,50 @@ export function useAudioOverlay() {
     convertConversationForSave,
   ]);
 
+  // Save what the locked database refused once any window unlocks it
+  useEffect(() => {
+    const unlistenPromise = listen<{ locked: boolean }>(
+      "databaseLockChanged",
+      async (event) => {
+        if (event.payload.locked) return;
+
+        for (const [id, pending] of lockedSavesRef.current) {
+          try {
+            await saveConversation(pending);
+            lockedSavesRef.current.delete(id);
+          } catch (error) {
+            console.error("Failed to save system audio conversation:", error);
+          }
+        }
+        if (lockedSavesRef.current.size === 0) {
+          setError((prev) => (prev.endsWith(LOCKED_SAVE_NOTE) ? "" : prev));
+        }
+      }
+    );
+    return () => {
+      unlistenPromise.then((unlisten) => unlisten());
+    };
+  }, []);
+
+  // Rename a diarized speaker in the current conversation
+  const renameSpeaker = useCallback((speakerId: string, name: string) => {
+    setConversation((prev) => ({
+      ...prev,
+      speakerNames: { ...prev.speakerNames, [speakerId]: name.trim() },
+    }));
+  }, []);
+
   const startNewConversation = useCallback(() => {
     setConversation({
       id: generateConversationId("sysaudio"),
       title: "",
       messages: [],
-      createdAt: 0,
+      createdAt: Date.now(),
       updatedAt: 0,
     });
     setLastTranscription("");
     setLastAIResponse("");
+    setLastAIProvider(null);
     setError("");
     setSetupRequired(false);
     setIsProcessing(false);
@@ -1395,7 +2010,9 @@ export function useAudioOverlay() {
     isProcessing,
     isAIProcessing,
     lastTranscription,
+    liveCaption,
     lastAIResponse,
+    lastAIProvider,
     error,
     setupRequired,
     startCapture,
@@ -1417,6 +2034,12 @@ export function useAudioOverlay() {
     contextContent,
     setContextContent: updateContextContent,
     startNewConversation,
+    renameSpeaker,
+    // Subtitle mode
+    subtitleSettings,
+    subtitleLines,
+    // Meeting summary
+    isSummarizing,
     // Window resize
     resizeWindow,
     quickActions,
@@ -1446,5 +2069,8 @@ export function useAudioOverlay() {
     setIncludeMicrophone: updateIncludeMicrophone,
     isMicProcessing,
     micVAD,
+    // Shortcuts handled outside the overlay, e.g. meeting profiles
+    registerCustomShortcutCallback:
+      globalShortcuts.registerCustomShortcutCallback,
   };
 }
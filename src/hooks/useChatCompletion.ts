@@ -10,7 +10,11 @@ import {
   MESSAGE_ID_OFFSET,
   generateMessageId,
   generateRequestId,
+  buildMessageUsage,
+  captureScreenshotTarget,
+  resolveScreenshotTarget,
 } from "@/lib";
+import { AIProviderAnswer, MessageUsage } from "@/types";
 import { invoke } from "@tauri-apps/api/core";
 import { listen } from "@tauri-apps/api/event";
 
@@ -28,6 +32,7 @@ interface ChatMessage {
   role: "user" | "assistant" | "system";
   content: string;
   timestamp: number;
+  usage?: MessageUsage;
 }
 
 interface ChatConversation {
@@ -219,6 +224,8 @@ export const useChatCompletion = (
         setTimeout(scrollToBottom, 100);
 
         let fullResponse = "";
+        let usage: MessageUsage | undefined;
+        let answeredBy: AIProviderAnswer | undefined;
 
         try {
           // Use the fetchAIResponse function with signal
@@ -230,6 +237,18 @@ export const useChatCompletion = (
             userMessage: input,
             imagesBase64,
             signal,
+            onUsage: (tokens) => {
+              usage = buildMessageUsage(
+                answeredBy ?? selectedAIProvider,
+                tokens
+              );
+            },
+            onProvider: (answer) => {
+              answeredBy = answer;
+            },
+            onWarning: (warning) => {
+              setState((prev) => ({ ...prev, error: warning }));
+            },
           })) {
             // Only update if this is still the current request
             if (currentRequestIdRef.current !== requestId) {
@@ -308,6 +327,7 @@ export const useChatCompletion = (
             role: "assistant",
             content: fullResponse,
             timestamp: timestamp + MESSAGE_ID_OFFSET,
+            usage,
           };
 
           const newMessages = [
@@ -575,7 +595,9 @@ export const useChatCompletion = (
       }
 
       if (config.enabled) {
-        const base64 = await invoke("capture_to_base64");
+        const base64 = await captureScreenshotTarget(
+          resolveScreenshotTarget(config)
+        );
 
         if (config.mode === "auto") {
           // Auto mode: Submit directly to AI with the configured prompt
@@ -604,7 +626,11 @@ export const useChatCompletion = (
     } catch (error) {
       setState((prev) => ({
         ...prev,
-        error: "Failed to capture screenshot. Please try again.",
+        // Targeted captures explain what was not found
+        error:
+          typeof error === "string"
+            ? error
+            : "Failed to capture screenshot. Please try again.",
       }));
       isProcessingScreenshotRef.current = false;
       screenshotInitiatedByThisContext.current = false;
@@ -14,7 +14,11 @@ import {
   generateMessageId,
   generateRequestId,
   getResponseSettings,
+  buildMessageUsage,
+  captureScreenshotTarget,
+  resolveScreenshotTarget,
 } from "@/lib";
+import { AIProviderAnswer, MessageUsage, ScreenshotTarget } from "@/types";
 import { invoke } from "@tauri-apps/api/core";
 import { listen } from "@tauri-apps/api/event";
 
@@ -32,6 +36,7 @@ interface ChatMessage {
   role: "user" | "assistant" | "system";
   content: string;
   timestamp: number;
+  usage?: MessageUsage;
 }
 
 interface ChatConversation {
@@ -208,6 +213,9 @@ export const useCompletion = () => {
           response: "",
         }));
 
+        let usage: MessageUsage | undefined;
+        let answeredBy: AIProviderAnswer | undefined;
+
         try {
           // Use the fetchAIResponse function with signal
           for await (const chunk of fetchAIResponse({
@@ -218,6 +226,18 @@ export const useCompletion = () => {
             userMessage: input,
             imagesBase64,
             signal,
+            onUsage: (tokens) => {
+              usage = buildMessageUsage(
+                answeredBy ?? selectedAIProvider,
+                tokens
+              );
+            },
+            onProvider: (answer) => {
+              answeredBy = answer;
+            },
+            onWarning: (warning) => {
+              setState((prev) => ({ ...prev, error: warning }));
+            },
           })) {
             // Only update if this is still the current request
             if (currentRequestIdRef.current !== requestId) {
@@ -264,7 +284,8 @@ export const useCompletion = () => {
           await saveCurrentConversation(
             input,
             fullResponse,
-            state.attachedFiles
+            state.attachedFiles,
+            usage
           );
           // Clear input and attached files after saving
           setState((prev) => ({
@@ -363,7 +384,8 @@ export const useCompletion = () => {
     async (
       userMessage: string,
       assistantResponse: string,
-      _attachedFiles: AttachedFile[]
+      _attachedFiles: AttachedFile[],
+      usage?: MessageUsage
     ) => {
       // Validate inputs
       if (!userMessage || !assistantResponse) {
@@ -387,6 +409,7 @@ export const useCompletion = () => {
         role: "assistant",
         content: assistantResponse,
         timestamp: timestamp + MESSAGE_ID_OFFSET,
+        usage,
       };
 
       const newMessages = [...state.conversationHistory, userMsg, assistantMsg];
@@ -612,6 +635,9 @@ export const useCompletion = () => {
               response: "",
             }));
 
+            let usage: MessageUsage | undefined;
+            let answeredBy: AIProviderAnswer | undefined;
+
             // Use the fetchAIResponse function with image and signal
             for await (const chunk of fetchAIResponse({
               provider: useTalkEchoAPI ? undefined : provider,
@@ -621,6 +647,18 @@ export const useCompletion = () => {
               userMessage: prompt,
               imagesBase64: [base64],
               signal,
+              onUsage: (tokens) => {
+                usage = buildMessageUsage(
+                  answeredBy ?? selectedAIProvider,
+                  tokens
+                );
+              },
+              onProvider: (answer) => {
+                answeredBy = answer;
+              },
+              onWarning: (warning) => {
+                setState((prev) => ({ ...prev, error: warning }));
+              },
             })) {
               // Only update if this is still the current request
               if (currentRequestIdRef.current !== requestId || signal.aborted) {
@@ -648,9 +686,12 @@ export const useCompletion = () => {
 
             // Save the conversation after successful completion
             if (fullResponse) {
-              await saveCurrentConversation(prompt, fullResponse, [
-                attachedFile,
-              ]);
+              await saveCurrentConversation(
+                prompt,
+                fullResponse,
+                [attachedFile],
+                usage
+              );
               // Clear input after saving
               setState((prev) => ({
                 ...prev,
@@ -845,76 +886,97 @@ export const useCompletion = () => {
     return () => window.removeEventListener("keydown", handleToggleShortcut);
   }, [isPopoverOpen]);
 
-  const captureScreenshot = useCallback(async () => {
-    if (!handleScreenshotSubmit) return;
+  // A target override always captures directly, even in selection mode
+  const runScreenshotCapture = useCallback(
+    async (targetOverride?: ScreenshotTarget) => {
+      if (!handleScreenshotSubmit) return;
 
-    const config = screenshotConfigRef.current;
-    screenshotInitiatedByThisContext.current = true;
-    setIsScreenshotLoading(true);
+      const config = screenshotConfigRef.current;
+      const capturesDirectly = config.enabled || !!targetOverride;
+      screenshotInitiatedByThisContext.current = true;
+      setIsScreenshotLoading(true);
 
-    try {
-      // Check screen recording permission on macOS
-      const platform = navigator.platform.toLowerCase();
-      if (platform.includes("mac") && !hasCheckedPermissionRef.current) {
-        const {
-          checkScreenRecordingPermission,
-          requestScreenRecordingPermission,
-        } = await import("tauri-plugin-macos-permissions-api");
+      try {
+        // Check screen recording permission on macOS
+        const platform = navigator.platform.toLowerCase();
+        if (platform.includes("mac") && !hasCheckedPermissionRef.current) {
+          const {
+            checkScreenRecordingPermission,
+            requestScreenRecordingPermission,
+          } = await import("tauri-plugin-macos-permissions-api");
 
-        const hasPermission = await checkScreenRecordingPermission();
+          const hasPermission = await checkScreenRecordingPermission();
 
-        if (!hasPermission) {
-          // Request permission
-          await requestScreenRecordingPermission();
+          if (!hasPermission) {
+            // Request permission
+            await requestScreenRecordingPermission();
 
-          // Wait a moment and check again
-          await new Promise((resolve) => setTimeout(resolve, 2000));
+            // Wait a moment and check again
+            await new Promise((resolve) => setTimeout(resolve, 2000));
 
-          const hasPermissionNow = await checkScreenRecordingPermission();
+            const hasPermissionNow = await checkScreenRecordingPermission();
 
-          if (!hasPermissionNow) {
-            setState((prev) => ({
-              ...prev,
-              error:
-                "Screen Recording permission required. Please enable it by going to System Settings > Privacy & Security > Screen & System Audio Recording. If you don't see TalkEcho in the list, click the '+' button to add it. If it's already listed, make sure it's enabled. Then restart the app.",
-            }));
-            setIsScreenshotLoading(false);
-            screenshotInitiatedByThisContext.current = false;
-            return;
+            if (!hasPermissionNow) {
+              setState((prev) => ({
+                ...prev,
+                error:
+                  "Screen Recording permission required. Please enable it by going to System Settings > Privacy & Security > Screen & System Audio Recording. If you don't see TalkEcho in the list, click the '+' button to add it. If it's already listed, make sure it's enabled. Then restart the app.",
+              }));
+              setIsScreenshotLoading(false);
+              screenshotInitiatedByThisContext.current = false;
+              return;
+            }
           }
+          hasCheckedPermissionRef.current = true;
         }
-        hasCheckedPermissionRef.current = true;
-      }
 
-      if (config.enabled) {
-        const base64 = await invoke("capture_to_base64");
+        if (capturesDirectly) {
+          const base64 = await captureScreenshotTarget(
+            targetOverride ?? resolveScreenshotTarget(config)
+          );
 
-        if (config.mode === "auto") {
-          // Auto mode: Submit directly to AI with the configured prompt
-          await handleScreenshotSubmit(base64 as string, config.autoPrompt);
-        } else if (config.mode === "manual") {
-          // Manual mode: Add to attached files without prompt
-          await handleScreenshotSubmit(base64 as string);
+          if (config.mode === "auto") {
+            // Auto mode: Submit directly to AI with the configured prompt
+            await handleScreenshotSubmit(base64 as string, config.autoPrompt);
+          } else if (config.mode === "manual") {
+            // Manual mode: Add to attached files without prompt
+            await handleScreenshotSubmit(base64 as string);
+          }
+          screenshotInitiatedByThisContext.current = false;
+        } else {
+          // Selection Mode: Open overlay to select an area
+          isProcessingScreenshotRef.current = false;
+          await invoke("start_screen_capture");
         }
-        screenshotInitiatedByThisContext.current = false;
-      } else {
-        // Selection Mode: Open overlay to select an area
+      } catch (error) {
+        setState((prev) => ({
+          ...prev,
+          // Targeted captures explain what was not found
+          error:
+            typeof error === "string"
+              ? error
+              : "Failed to capture screenshot. Please try again.",
+        }));
         isProcessingScreenshotRef.current = false;
-        await invoke("start_screen_capture");
-      }
-    } catch (error) {
-      setState((prev) => ({
-        ...prev,
-        error: "Failed to capture screenshot. Please try again.",
-      }));
-      isProcessingScreenshotRef.current = false;
-      screenshotInitiatedByThisContext.current = false;
-    } finally {
-      if (config.enabled) {
-        setIsScreenshotLoading(false);
+        screenshotInitiatedByThisContext.current = false;
+      } finally {
+        if (capturesDirectly) {
+          setIsScreenshotLoading(false);
+        }
       }
-    }
-  }, [handleScreenshotSubmit]);
+    },
+    [handleScreenshotSubmit]
+  );
+
+  const captureScreenshot = useCallback(
+    () => runScreenshotCapture(),
+    [runScreenshotCapture]
+  );
+
+  const captureWindowUnderCursor = useCallback(
+    () => runScreenshotCapture({ kind: "windowUnderCursor" }),
+    [runScreenshotCapture]
+  );
 
   useEffect(() => {
     let unlisten: any;
@@ -995,12 +1057,18 @@ export const useCompletion = () => {
     globalShortcuts.registerAudioCallback(toggleRecording);
     globalShortcuts.registerInputRef(inputRef.current);
     globalShortcuts.registerScreenshotCallback(captureScreenshot);
+    globalShortcuts.registerCustomShortcutCallback(
+      "screenshot_window_under_cursor",
+      captureWindowUnderCursor
+    );
   }, [
     globalShortcuts.registerAudioCallback,
     globalShortcuts.registerInputRef,
     globalShortcuts.registerScreenshotCallback,
+    globalShortcuts.registerCustomShortcutCallback,
     toggleRecording,
     captureScreenshot,
+    captureWindowUnderCursor,
     inputRef,
   ]);
 
@@ -0,0 +1,178 @@
+import { useEffect, useRef } from "react";
+import { getCurrentWebviewWindow } from "@tauri-apps/api/webviewWindow";
+import { STORAGE_KEYS } from "@/config";
+import { useApp } from "@/contexts";
+import {
+  getAllSystemPrompts,
+  getControlApiSettings,
+  publishControlApiEvent,
+  respondToControlApiRequest,
+  safeLocalStorage,
+  startControlApi,
+} from "@/lib";
+import { ControlApiRequest } from "@/types";
+import type { useAudioOverlayType } from "./useAudioOverlay";
+
+const getSelectedSystemPromptId = () => {
+  const stored = safeLocalStorage.getItem(
+    STORAGE_KEYS.SELECTED_SYSTEM_PROMPT_ID
+  );
+  return stored ? Number(stored) : null;
+};
+
+/**
+ * Serves the loopback control API from the main window: starts it on launch
+ * when enabled, answers the requests it forwards and publishes capture,
+ * transcript and response events to its WebSocket clients.
+ */
+export function useControlApi(systemAudio: useAudioOverlayType) {
+  const { setSystemPrompt } = useApp();
+  const systemAudioRef = useRef(systemAudio);
+  useEffect(() => {
+    systemAudioRef.current = systemAudio;
+  }, [systemAudio]);
+
+  useEffect(() => {
+    const settings = getControlApiSettings();
+    if (!settings.enabled || !settings.token) return;
+
+    startControlApi(settings).catch((error) => {
+      console.error("Failed to start the control API:", error);
+    });
+  }, []);
+
+  useEffect(() => {
+    const handleRequest = async ({ action, params }: ControlApiRequest) => {
+      const audio = systemAudioRef.current;
+
+      switch (action) {
+        case "status": {
+          const selectedId = getSelectedSystemPromptId();
+          const prompts = await getAllSystemPrompts();
+          const selected = prompts.find((p) => p.id === selectedId);
+          return {
+            capturing: audio.capturing,
+            isAIProcessing: audio.isAIProcessing,
+            systemPrompt: selected
+              ? { id: selected.id, name: selected.name }
+              : null,
+            lastTranscript: audio.lastTranscription,
+            lastResponse: audio.lastAIResponse,
+          };
+        }
+        case "startCapture":
+          if (!audio.capturing) await audio.startCapture();
+          return { requested: true };
+        case "stopCapture":
+          if (audio.capturing) await audio.stopCapture();
+          return { requested: true };
+        case "sendPrompt": {
+          const text = typeof params?.text === "string" ? params.text : "";
+          if (!text.trim()) throw new Error("Missing prompt text");
+          // The answer is streamed to the WebSocket clients
+          audio.openConversationPopover();
+          audio.sendManualPrompt(text);
+          return { accepted: true };
+        }
+        case "listSystemPrompts": {
+          const prompts = await getAllSystemPrompts();
+          return {
+            selectedId: getSelectedSystemPromptId(),
+            prompts: prompts.map(({ id, name, prompt }) => ({
+              id,
+              name,
+              prompt,
+            })),
+          };
+        }
+        case "selectSystemPrompt": {
+          const prompts = await getAllSystemPrompts();
+          const prompt = prompts.find((p) =>
+            params?.id !== undefined
+              ? p.id === Number(params.id)
+              : p.name === params?.name
+          );
+          if (!prompt) throw new Error("System prompt not found");
+
+          setSystemPrompt(prompt.prompt);
+          safeLocalStorage.setItem(STORAGE_KEYS.SYSTEM_PROMPT, prompt.prompt);
+          safeLocalStorage.setItem(
+            STORAGE_KEYS.SELECTED_SYSTEM_PROMPT_ID,
+            prompt.id.toString()
+          );
+          publishControlApiEvent({
+            type: "systemPrompt",
+            id: prompt.id,
+            name: prompt.name,
+          });
+          return { id: prompt.id, name: prompt.name };
+        }
+        default:
+          throw new Error(`Unknown action: ${action}`);
+      }
+    };
+
+    const unlistenPromise = getCurrentWebviewWindow().listen<ControlApiRequest>(
+      "control-api-request",
+      async (event) => {
+        const { id } = event.payload;
+        try {
+          const result = await handleRequest(event.payload);
+          await respondToControlApiRequest(id, { result });
+        } catch (error) {
+          await respondToControlApiRequest(id, {
+            error: error instanceof Error ? error.message : String(error),
+          }).catch(() => {});
+        }
+      }
+    );
+
+    return () => {
+      unlistenPromise.then((unlisten) => unlisten());
+    };
+  }, [setSystemPrompt]);
+
+  const { capturing, lastTranscription, error, isAIProcessing } = systemAudio;
+
+  useEffect(() => {
+    publishControlApiEvent({ type: "capture", capturing });
+  }, [capturing]);
+
+  useEffect(() => {
+    if (!lastTranscription) return;
+    publishControlApiEvent({ type: "transcript", text: lastTranscription });
+  }, [lastTranscription]);
+
+  useEffect(() => {
+    if (!error) return;
+    publishControlApiEvent({ type: "error", message: error });
+  }, [error]);
+
+  // A finished answer is the newest user/assistant pair of the conversation;
+  // the pair present when processing started is not sent again. Only the end
+  // of processing matters, so the conversation is read through the ref.
+  const latestPairIdRef = useRef<string | undefined>(undefined);
+  useEffect(() => {
+    const [userMessage, assistantMessage] =
+      systemAudioRef.current.conversation.messages;
+    if (isAIProcessing) {
+      latestPairIdRef.current = userMessage?.id;
+      return;
+    }
+    if (
+      userMessage?.role !== "user" ||
+      assistantMessage?.role !== "assistant" ||
+      userMessage.id === latestPairIdRef.current
+    ) {
+      return;
+    }
+
+    latestPairIdRef.current = userMessage.id;
+    publishControlApiEvent({
+      type: "response",
+      prompt: userMessage.content,
+      text: assistantMessage.content,
+      provider: systemAudioRef.current.lastAIProvider?.provider,
+    });
+  }, [isAIProcessing]);
+}
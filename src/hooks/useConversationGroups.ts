@@ -0,0 +1,34 @@
+import { useCallback, useEffect, useState } from "react";
+import { getConversationGroups } from "@/lib";
+import { ConversationGroups } from "@/types";
+
+const EMPTY_GROUPS: ConversationGroups = { pinned: 0, folders: [], tags: [] };
+
+/**
+ * Folders, tags and pinned count of the chat history, reloaded whenever a
+ * conversation is organized or deleted.
+ */
+export function useConversationGroups() {
+  const [groups, setGroups] = useState<ConversationGroups>(EMPTY_GROUPS);
+
+  const refreshGroups = useCallback(async () => {
+    try {
+      setGroups(await getConversationGroups());
+    } catch (error) {
+      console.error("Failed to load conversation groups:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshGroups();
+
+    window.addEventListener("conversationOrganized", refreshGroups);
+    window.addEventListener("conversationDeleted", refreshGroups);
+    return () => {
+      window.removeEventListener("conversationOrganized", refreshGroups);
+      window.removeEventListener("conversationDeleted", refreshGroups);
+    };
+  }, [refreshGroups]);
+
+  return { groups, refreshGroups };
+}
@@ -102,6 +102,8 @@ export function useCustomAiProviders() {
           curl: formData.curl,
           streaming: formData.streaming,
           responseContentPath: formData.responseContentPath,
+          responseUsagePath: formData.responseUsagePath?.trim() || undefined,
+          adapter: formData.adapter,
         });
 
         if (success) {
@@ -122,6 +124,8 @@ export function useCustomAiProviders() {
           curl: formData.curl,
           streaming: formData.streaming,
           responseContentPath: formData.responseContentPath,
+          responseUsagePath: formData.responseUsagePath?.trim() || undefined,
+          adapter: formData.adapter,
         };
 
         const saved = addCustomAiProvider(newProvider);
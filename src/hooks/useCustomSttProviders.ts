@@ -79,7 +79,9 @@ export function useCustomSttProviders() {
     if (!formData.curl.trim()) {
       newErrors.curl = "Curl command is required";
     } else {
-      const hasAudioVar = formData.curl.includes("{{AUDIO}}");
+      // Streaming sessions send audio over the socket, not through the template
+      const hasAudioVar =
+        !!formData.streamAdapter || formData.curl.includes("{{AUDIO}}");
 
       if (!hasAudioVar) {
         newErrors.curl = "cURL command must contain {{AUDIO}}.";
@@ -91,10 +93,29 @@ export function useCustomSttProviders() {
       }
     }
 
-    if (!formData.responseContentPath?.trim()) {
+    if (!formData.streamAdapter && !formData.responseContentPath?.trim()) {
       newErrors.responseContentPath = "Response content path is required";
     }
 
+    if (formData.polling) {
+      const polling = formData.polling;
+      if (!polling.url?.trim()) {
+        newErrors.pollUrl = "Poll URL is required";
+      } else if (!polling.url.includes("{{JOB_ID}}")) {
+        newErrors.pollUrl = "Poll URL must contain {{JOB_ID}}";
+      }
+      if (!polling.statusPath?.trim()) {
+        newErrors.pollStatusPath = "Status path is required";
+      }
+      if (!polling.completedValue?.trim()) {
+        newErrors.pollCompletedValue = "Completion value is required";
+      }
+      if (!polling.transcriptUrl?.trim() && !polling.transcriptPath?.trim()) {
+        newErrors.pollTranscriptPath =
+          "Transcript path is required when no transcript URL is set";
+      }
+    }
+
     setErrors(newErrors);
 
     if (Object.keys(newErrors).length > 0) {
@@ -106,8 +127,10 @@ export function useCustomSttProviders() {
         // Update existing provider
         const success = updateCustomSttProvider(editingProvider, {
           curl: formData.curl,
-          streaming: false, // Streaming is not supported for STT providers. it will be fixed in the future.
+          streaming: !!formData.streamAdapter,
+          streamAdapter: formData.streamAdapter,
           responseContentPath: formData.responseContentPath,
+          polling: formData.polling,
         });
 
         if (success) {
@@ -126,8 +149,10 @@ export function useCustomSttProviders() {
         // Create new provider
         const newProvider = {
           curl: formData.curl,
-          streaming: false, // Streaming is not supported for STT providers. it will be fixed in the future.
+          streaming: !!formData.streamAdapter,
+          streamAdapter: formData.streamAdapter,
           responseContentPath: formData.responseContentPath,
+          polling: formData.polling,
         };
 
         const saved = addCustomSttProvider(newProvider);
@@ -0,0 +1,31 @@
+import { useCallback, useEffect, useState } from "react";
+import { listen } from "@tauri-apps/api/event";
+import { getDatabaseEncryptionStatus } from "@/lib";
+import { DatabaseEncryptionStatus } from "@/types";
+
+/**
+ * Encryption status of the conversation database, reloaded whenever any
+ * window locks or unlocks it.
+ */
+export function useDatabaseEncryption() {
+  const [status, setStatus] = useState<DatabaseEncryptionStatus | null>(null);
+
+  const refreshStatus = useCallback(async () => {
+    try {
+      setStatus(await getDatabaseEncryptionStatus());
+    } catch (error) {
+      console.error("Failed to load database encryption status:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshStatus();
+
+    const unlistenPromise = listen("databaseLockChanged", refreshStatus);
+    return () => {
+      unlistenPromise.then((unlisten) => unlisten());
+    };
+  }, [refreshStatus]);
+
+  return { status, refreshStatus };
+}
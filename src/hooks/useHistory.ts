@@ -1,16 +1,31 @@
-﻿import { useState, useEffect, useCallback } from "react";
+﻿import { useState, useEffect, useCallback, useRef } from "react";
+import { listen } from "@tauri-apps/api/event";
 import {
-  getAllConversations,
+  getConversationsPage,
+  getConversationById,
   deleteConversation,
+  organizeConversation,
   DOWNLOAD_SUCCESS_DISPLAY_MS,
+  exportConversation,
+  searchMessages,
+  SEARCH_DEBOUNCE_MS,
 } from "@/lib";
-import { ChatConversation } from "@/types/completion";
+import {
+  ChatConversation,
+  ConversationCursor,
+  ConversationFilters,
+  ConversationOrganization,
+  ConversationSummary,
+  MessageSearchFilters,
+  MessageSearchResult,
+} from "@/types/completion";
+import { TranscriptExportOptions } from "@/types";
 
 export type UseHistoryType = ReturnType<typeof useHistory>;
 
 export interface UseHistoryReturn {
   // State
-  conversations: ChatConversation[];
+  conversations: ConversationSummary[];
   selectedConversationId: string | null;
   viewingConversation: ChatConversation | null;
   downloadedConversations: Set<string>;
@@ -21,8 +36,9 @@ export interface UseHistoryReturn {
   // Actions
   handleViewConversation: (conversation: ChatConversation) => void;
   handleDownloadConversation: (
-    conversation: ChatConversation,
-    e: React.MouseEvent
+    conversation: ChatConversation | ConversationSummary,
+    e: React.MouseEvent,
+    options?: TranscriptExportOptions
   ) => void;
   handleDeleteConfirm: (conversationId: string) => void;
   confirmDelete: () => void;
@@ -30,19 +46,48 @@ export interface UseHistoryReturn {
   handleAttachToOverlay: (conversationId: string) => void;
   handleDownload: (
     conversation: ChatConversation | null,
-    e: React.MouseEvent
+    e: React.MouseEvent,
+    options?: TranscriptExportOptions
   ) => void;
+  handleOrganizeConversation: (
+    conversationId: string,
+    changes: ConversationOrganization
+  ) => Promise<void>;
+  conversationFilters: ConversationFilters;
+  setConversationFilters: React.Dispatch<
+    React.SetStateAction<ConversationFilters>
+  >;
   search: string;
   setSearch: React.Dispatch<React.SetStateAction<string>>;
+  searchFilters: MessageSearchFilters;
+  setSearchFilters: React.Dispatch<React.SetStateAction<MessageSearchFilters>>;
+  searchResults: MessageSearchResult[];
+  isSearching: boolean;
   // Utilities
   refreshConversations: () => void;
+  loadMoreConversations: () => void;
+  hasMoreConversations: boolean;
   isLoading: boolean;
+  isLoadingMore: boolean;
 }
 
 export function useHistory(): UseHistoryReturn {
   const [isLoading, setIsLoading] = useState(false);
-  const [conversations, setConversations] = useState<ChatConversation[]>([]);
+  const [conversations, setConversations] = useState<ConversationSummary[]>(
+    []
+  );
+  const [nextCursor, setNextCursor] = useState<ConversationCursor>();
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [conversationFilters, setConversationFilters] =
+    useState<ConversationFilters>({});
+  // Guards against the scroll sentinel requesting the same page twice
+  const loadingMoreRef = useRef(false);
   const [search, setSearch] = useState("");
+  const [searchFilters, setSearchFilters] = useState<MessageSearchFilters>({});
+  const [searchResults, setSearchResults] = useState<MessageSearchResult[]>(
+    []
+  );
+  const [isSearching, setIsSearching] = useState(false);
   const [selectedConversationId, setSelectedConversationId] = useState<
     string | null
   >(null);
@@ -57,32 +102,102 @@ export function useHistory(): UseHistoryReturn {
   const [isDownloaded, setIsDownloaded] = useState(false);
   const [isAttached, setIsAttached] = useState(false);
 
-  // Function to refresh conversations
+  // Function to refresh conversations (reloads the first page)
   const refreshConversations = useCallback(async () => {
     try {
       setIsLoading(true);
-      const loadedConversations = await getAllConversations();
-      setConversations(loadedConversations);
+      const page = await getConversationsPage({
+        includePreview: true,
+        filters: conversationFilters,
+      });
+      setConversations(page.conversations);
+      setNextCursor(page.nextCursor);
     } catch (error) {
       console.error("Failed to load conversations:", error);
       setConversations([]);
+      setNextCursor(undefined);
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [conversationFilters]);
+
+  // Append the next page when the list is scrolled to the end
+  const loadMoreConversations = useCallback(async () => {
+    if (!nextCursor || loadingMoreRef.current) return;
+
+    loadingMoreRef.current = true;
+    setIsLoadingMore(true);
+    try {
+      const page = await getConversationsPage({
+        cursor: nextCursor,
+        includePreview: true,
+        filters: conversationFilters,
+      });
+      setConversations((prev) => {
+        const seen = new Set(prev.map((c) => c.id));
+        return [
+          ...prev,
+          ...page.conversations.filter((c) => !seen.has(c.id)),
+        ];
+      });
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      console.error("Failed to load more conversations:", error);
+    } finally {
+      loadingMoreRef.current = false;
+      setIsLoadingMore(false);
+    }
+  }, [nextCursor, conversationFilters]);
 
   // Load conversations when component mounts or popover opens
   useEffect(() => {
     refreshConversations();
   }, [refreshConversations]);
 
+  // Reload after a retention purge removed old conversations
+  useEffect(() => {
+    const unlistenPromise = listen("retentionPurged", refreshConversations);
+    return () => {
+      unlistenPromise.then((unlisten) => unlisten());
+    };
+  }, [refreshConversations]);
+
+  // Full-text search over messages, debounced while typing
+  useEffect(() => {
+    if (!search.trim()) {
+      setSearchResults([]);
+      setIsSearching(false);
+      return;
+    }
+
+    let cancelled = false;
+    setIsSearching(true);
+    const timer = setTimeout(async () => {
+      try {
+        const results = await searchMessages(search, searchFilters);
+        if (!cancelled) setSearchResults(results);
+      } catch (error) {
+        console.error("Failed to search conversations:", error);
+        if (!cancelled) setSearchResults([]);
+      } finally {
+        if (!cancelled) setIsSearching(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [search, searchFilters]);
+
   const handleViewConversation = (conversation: ChatConversation) => {
     setViewingConversation(conversation);
   };
 
-  const handleDownloadConversation = (
-    conversation: ChatConversation,
-    e: React.MouseEvent
+  const handleDownloadConversation = async (
+    conversation: ChatConversation | ConversationSummary,
+    e: React.MouseEvent,
+    options: TranscriptExportOptions = { format: "markdown" }
   ) => {
     e.stopPropagation();
 
@@ -90,19 +205,30 @@ export function useHistory(): UseHistoryReturn {
     setDownloadedConversations((prev) => new Set(prev).add(conversation.id));
 
     try {
-      // Convert conversation to markdown format
-      const markdown = generateConversationMarkdown(conversation);
-
-      // Create and download the file
-      const blob = new Blob([markdown], { type: "text/markdown" });
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement("a");
-      link.href = url;
-      link.download = generateFilename(conversation.title);
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      URL.revokeObjectURL(url);
+      // History lists only hold summaries; load the messages on demand
+      const fullConversation =
+        "messages" in conversation
+          ? conversation
+          : await getConversationById(conversation.id);
+      if (!fullConversation) {
+        throw new Error("Conversation not found");
+      }
+
+      // Convert conversation to the requested format (one file per track)
+      const files = exportConversation(fullConversation, options);
+
+      // Create and download the files
+      for (const file of files) {
+        const blob = new Blob([file.content], { type: file.mimeType });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement("a");
+        link.href = url;
+        link.download = file.filename;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        URL.revokeObjectURL(url);
+      }
     } catch (error) {
       console.error("Failed to download conversation:", error);
       // Remove from success state if download failed
@@ -154,6 +280,27 @@ export function useHistory(): UseHistoryReturn {
     setDeleteConfirm(null);
   };
 
+  const handleOrganizeConversation = async (
+    conversationId: string,
+    changes: ConversationOrganization
+  ) => {
+    try {
+      await organizeConversation(conversationId, changes);
+      // Pinning and folder or tag changes can move it in or out of the list
+      await refreshConversations();
+
+      // Emit event so the sidebar folders and tags stay current
+      window.dispatchEvent(
+        new CustomEvent("conversationOrganized", {
+          detail: conversationId,
+        })
+      );
+    } catch (error) {
+      console.error("Failed to organize conversation:", error);
+      throw error;
+    }
+  };
+
   const handleAttachToOverlay = (conversationId: string) => {
     // Use localStorage to communicate between windows
     localStorage.setItem(
@@ -168,10 +315,11 @@ export function useHistory(): UseHistoryReturn {
 
   const handleDownload = (
     conversation: ChatConversation | null,
-    e: React.MouseEvent
+    e: React.MouseEvent,
+    options?: TranscriptExportOptions
   ) => {
     if (conversation) {
-      handleDownloadConversation(conversation, e);
+      handleDownloadConversation(conversation, e, options);
       setIsDownloaded(true);
       setTimeout(() => {
         setIsDownloaded(false);
@@ -179,36 +327,6 @@ export function useHistory(): UseHistoryReturn {
     }
   };
 
-  // Helper functions
-  const generateConversationMarkdown = (
-    conversation: ChatConversation
-  ): string => {
-    let markdown = `# ${conversation.title}\n\n`;
-    markdown += `**Created:** ${new Date(
-      conversation.createdAt
-    ).toLocaleString()}\n`;
-    markdown += `**Updated:** ${new Date(
-      conversation.updatedAt
-    ).toLocaleString()}\n`;
-    markdown += `**Messages:** ${conversation.messages.length}\n\n---\n\n`;
-
-    conversation.messages.forEach((message, index) => {
-      const roleLabel = message.role.toUpperCase();
-      markdown += `## ${roleLabel}: ${message.content}\n`;
-
-      if (index < conversation.messages.length - 1) {
-        markdown += "\n";
-      }
-    });
-
-    return markdown;
-  };
-
-  const generateFilename = (title: string): string => {
-    const sanitizedTitle = title.replace(/[^a-z0-9]/gi, "_").toLowerCase();
-    return `${sanitizedTitle.substring(0, 16)}.md`;
-  };
-
   return {
     // State
     conversations,
@@ -227,11 +345,21 @@ export function useHistory(): UseHistoryReturn {
     cancelDelete,
     handleAttachToOverlay,
     handleDownload,
+    handleOrganizeConversation,
+    conversationFilters,
+    setConversationFilters,
     // Utilities
     refreshConversations,
+    loadMoreConversations,
+    hasMoreConversations: !!nextCursor,
     search,
     setSearch,
+    searchFilters,
+    setSearchFilters,
+    searchResults,
+    isSearching,
     isLoading,
+    isLoadingMore,
   };
 }
 
@@ -0,0 +1,43 @@
+import { useEffect, useRef } from "react";
+
+type UseInfiniteScrollProps = {
+  onLoadMore: () => void;
+  hasMore: boolean;
+  isLoading?: boolean;
+  /** Start loading this far before the sentinel becomes visible */
+  rootMargin?: string;
+};
+
+/**
+ * Calls `onLoadMore` whenever the returned sentinel ref scrolls into view.
+ * Render the sentinel after the last item of the list.
+ */
+export function useInfiniteScroll<T extends HTMLElement = HTMLDivElement>({
+  onLoadMore,
+  hasMore,
+  isLoading = false,
+  rootMargin = "200px",
+}: UseInfiniteScrollProps) {
+  const sentinelRef = useRef<T | null>(null);
+  const onLoadMoreRef = useRef(onLoadMore);
+  onLoadMoreRef.current = onLoadMore;
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore || isLoading) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          onLoadMoreRef.current();
+        }
+      },
+      { rootMargin }
+    );
+    observer.observe(sentinel);
+
+    return () => observer.disconnect();
+  }, [hasMore, isLoading, rootMargin]);
+
+  return sentinelRef;
+}
@@ -0,0 +1,63 @@
+import { useEffect, useRef } from "react";
+import {
+  appendLiveNote,
+  getLiveNotesSettings,
+  renderLiveNoteEntries,
+  renderLiveNoteFileName,
+} from "@/lib";
+import type { useAudioOverlayType } from "./useAudioOverlay";
+
+/**
+ * Mirrors the transcript into a Markdown note while the meeting runs. Only
+ * messages that arrive while the notes are enabled are written; each
+ * conversation keeps the file name it was first written to.
+ */
+export function useLiveNotes(systemAudio: useAudioOverlayType) {
+  const { conversation } = systemAudio;
+  const writtenUntilRef = useRef(Date.now());
+  const fileNamesRef = useRef(new Map<string, string>());
+  // Appends run one after another so entries keep their order
+  const queueRef = useRef<Promise<void>>(Promise.resolve());
+
+  useEffect(() => {
+    const settings = getLiveNotesSettings();
+    if (!settings.enabled || !settings.directory.trim()) {
+      writtenUntilRef.current = Date.now();
+      return;
+    }
+
+    const newMessages = conversation.messages.filter(
+      (message) => message.timestamp > writtenUntilRef.current
+    );
+    if (newMessages.length === 0) return;
+
+    writtenUntilRef.current = Math.max(
+      ...newMessages.map((message) => message.timestamp)
+    );
+
+    const content = renderLiveNoteEntries(
+      newMessages,
+      conversation,
+      settings.includeResponses
+    );
+    if (!content) return;
+
+    let fileName = fileNamesRef.current.get(conversation.id);
+    if (!fileName) {
+      fileName = renderLiveNoteFileName(
+        settings.fileNameTemplate,
+        conversation
+      );
+      fileNamesRef.current.set(conversation.id, fileName);
+    }
+
+    const target = fileName;
+    queueRef.current = queueRef.current.then(() =>
+      appendLiveNote(settings, conversation, target, content).catch(
+        (error) => {
+          console.error("Failed to append to live notes:", error);
+        }
+      )
+    );
+  }, [conversation]);
+}
@@ -0,0 +1,220 @@
+import { useCallback, useEffect, useState } from "react";
+import { emit, listen } from "@tauri-apps/api/event";
+import { STORAGE_KEYS } from "@/config";
+import { useApp } from "@/contexts";
+import {
+  captureMeetingProfile,
+  getMeetingProfileSettings,
+  setMeetingProfileSettings,
+  writeMeetingProfile,
+} from "@/lib";
+import { MeetingProfile, MeetingProfileSettings } from "@/types";
+
+/**
+ * Named bundles of system prompt, providers, STT language, response settings,
+ * quick actions and audio context. Applying a profile updates this window
+ * through the app context; the other windows follow the storage changes and
+ * the `meetingProfileApplied` event.
+ */
+export const useMeetingProfiles = () => {
+  const {
+    systemPrompt,
+    setSystemPrompt,
+    selectedAIProvider,
+    onSetSelectedAIProvider,
+    selectedSttProvider,
+    onSetSelectedSttProvider,
+    sttLanguage,
+    onSetSttLanguage,
+  } = useApp();
+  const [settings, setSettings] = useState<MeetingProfileSettings>(
+    getMeetingProfileSettings
+  );
+  const [isApplying, setIsApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Profiles are edited and applied from both the overlay and the dashboard
+  useEffect(() => {
+    const reload = () => setSettings(getMeetingProfileSettings());
+    const handleStorageChange = (e: StorageEvent) => {
+      if (e.key === STORAGE_KEYS.MEETING_PROFILES) reload();
+    };
+
+    window.addEventListener("storage", handleStorageChange);
+    const unlistenPromise = listen("meetingProfileApplied", reload);
+    return () => {
+      window.removeEventListener("storage", handleStorageChange);
+      unlistenPromise.then((unlisten) => unlisten());
+    };
+  }, []);
+
+  /**
+   * Update the stored profiles; reads them fresh so that a change made in
+   * another window is not overwritten
+   */
+  const updateSettings = useCallback(
+    (update: (current: MeetingProfileSettings) => MeetingProfileSettings) => {
+      const next = update(getMeetingProfileSettings());
+      setSettings(next);
+      setMeetingProfileSettings(next);
+    },
+    []
+  );
+
+  const captureCurrent = useCallback(
+    (id: string, name: string) =>
+      captureMeetingProfile({
+        id,
+        name,
+        systemPrompt,
+        aiProvider: selectedAIProvider.provider,
+        sttProvider: selectedSttProvider.provider,
+        sttLanguage,
+      }),
+    [
+      systemPrompt,
+      selectedAIProvider.provider,
+      selectedSttProvider.provider,
+      sttLanguage,
+    ]
+  );
+
+  /**
+   * Save the current settings as a new, active profile
+   */
+  const saveCurrentAsProfile = useCallback(
+    (name: string): MeetingProfile => {
+      const profile = captureCurrent(crypto.randomUUID(), name);
+      updateSettings((current) => ({
+        profiles: [...current.profiles, profile],
+        activeProfileId: profile.id,
+      }));
+      return profile;
+    },
+    [captureCurrent, updateSettings]
+  );
+
+  /**
+   * Replace what a profile holds with the current settings
+   */
+  const overwriteProfile = useCallback(
+    (id: string) => {
+      updateSettings((current) => ({
+        ...current,
+        profiles: current.profiles.map((profile) =>
+          profile.id === id ? captureCurrent(id, profile.name) : profile
+        ),
+      }));
+    },
+    [captureCurrent, updateSettings]
+  );
+
+  const renameProfile = useCallback(
+    (id: string, name: string) => {
+      updateSettings((current) => ({
+        ...current,
+        profiles: current.profiles.map((profile) =>
+          profile.id === id ? { ...profile, name } : profile
+        ),
+      }));
+    },
+    [updateSettings]
+  );
+
+  const deleteProfile = useCallback(
+    (id: string) => {
+      updateSettings((current) => ({
+        profiles: current.profiles.filter((profile) => profile.id !== id),
+        activeProfileId:
+          current.activeProfileId === id ? null : current.activeProfileId,
+      }));
+    },
+    [updateSettings]
+  );
+
+  /**
+   * Switch everything a profile holds at once
+   */
+  const applyProfile = useCallback(
+    async (id: string) => {
+      const profile = getMeetingProfileSettings().profiles.find(
+        (p) => p.id === id
+      );
+      if (!profile) return;
+
+      setError(null);
+      setIsApplying(true);
+      try {
+        setSystemPrompt(await writeMeetingProfile(profile));
+        if (profile.sttLanguage) {
+          onSetSttLanguage(profile.sttLanguage);
+        }
+        // Switching restores the API keys saved for the provider; selecting
+        // the current one again with empty variables would clear them
+        if (
+          profile.aiProvider &&
+          profile.aiProvider !== selectedAIProvider.provider
+        ) {
+          await onSetSelectedAIProvider({
+            provider: profile.aiProvider,
+            variables: {},
+          });
+        }
+        if (
+          profile.sttProvider &&
+          profile.sttProvider !== selectedSttProvider.provider
+        ) {
+          await onSetSelectedSttProvider({
+            provider: profile.sttProvider,
+            variables: {},
+          });
+        }
+
+        updateSettings((current) => ({ ...current, activeProfileId: id }));
+        await emit("meetingProfileApplied", { profile });
+      } catch (err) {
+        const errorMessage =
+          err instanceof Error ? err.message : "Failed to apply profile";
+        setError(errorMessage);
+        console.error("Error applying meeting profile:", err);
+      } finally {
+        setIsApplying(false);
+      }
+    },
+    [
+      setSystemPrompt,
+      onSetSttLanguage,
+      selectedAIProvider.provider,
+      onSetSelectedAIProvider,
+      selectedSttProvider.provider,
+      onSetSelectedSttProvider,
+      updateSettings,
+    ]
+  );
+
+  /**
+   * Apply the profile after the active one, for the shortcut
+   */
+  const applyNextProfile = useCallback(() => {
+    const { profiles, activeProfileId } = getMeetingProfileSettings();
+    if (!profiles.length) return;
+
+    const index = profiles.findIndex((p) => p.id === activeProfileId);
+    applyProfile(profiles[(index + 1) % profiles.length].id);
+  }, [applyProfile]);
+
+  return {
+    profiles: settings.profiles,
+    activeProfileId: settings.activeProfileId,
+    isApplying,
+    error,
+    saveCurrentAsProfile,
+    overwriteProfile,
+    renameProfile,
+    deleteProfile,
+    applyProfile,
+    applyNextProfile,
+  };
+};
+
+export type useMeetingProfilesType = ReturnType<typeof useMeetingProfiles>;
@@ -0,0 +1,30 @@
+import { useEffect } from "react";
+import { getCurrentWebviewWindow } from "@tauri-apps/api/webviewWindow";
+import { getRetentionSettings, runRetentionPurge } from "@/lib";
+
+/**
+ * Applies the retention policy whenever the Rust scheduler asks for it, on
+ * startup and periodically. The event only reaches the main window, so the
+ * purge runs once even with the dashboard open.
+ */
+export function useRetentionPolicy() {
+  useEffect(() => {
+    const unlistenPromise = getCurrentWebviewWindow().listen(
+      "retention-purge-due",
+      async () => {
+        const settings = getRetentionSettings();
+        if (!settings.enabled) return;
+
+        try {
+          await runRetentionPurge(settings);
+        } catch (error) {
+          console.error("Scheduled retention purge failed:", error);
+        }
+      }
+    );
+
+    return () => {
+      unlistenPromise.then((unlisten) => unlisten());
+    };
+  }, []);
+}
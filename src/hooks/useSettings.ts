@@ -6,6 +6,7 @@ import {
   deleteAllConversations,
 } from "@/lib";
 import { STORAGE_KEYS } from "@/config";
+import { ScreenshotTarget } from "@/types";
 
 export const useSettings = () => {
   const {
@@ -63,6 +64,15 @@ export const useSettings = () => {
     );
   };
 
+  const handleScreenshotTargetChange = (target: ScreenshotTarget) => {
+    const newConfig = { ...screenshotConfiguration, target };
+    setScreenshotConfiguration(newConfig);
+    safeLocalStorage.setItem(
+      STORAGE_KEYS.SCREENSHOT_CONFIG,
+      JSON.stringify(newConfig)
+    );
+  };
+
   useEffect(() => {
     if (selectedAIProvider.provider) {
       const provider = allAiProviders.find(
@@ -102,6 +112,7 @@ export const useSettings = () => {
     handleScreenshotModeChange,
     handleScreenshotPromptChange,
     handleScreenshotEnabledChange,
+    handleScreenshotTargetChange,
     allAiProviders,
     allSttProviders,
     selectedAIProvider,
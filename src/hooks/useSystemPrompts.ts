@@ -1,4 +1,5 @@
 import { useCallback, useEffect, useState } from "react";
+import { listen } from "@tauri-apps/api/event";
 import {
   createSystemPrompt,
   getAllSystemPrompts,
@@ -131,6 +132,19 @@ export const useSystemPrompts = () => {
     fetchPrompts();
   }, [fetchPrompts]);
 
+  // A meeting profile may select another prompt
+  useEffect(() => {
+    const unlistenPromise = listen("meetingProfileApplied", () => {
+      const stored = safeLocalStorage.getItem(
+        STORAGE_KEYS.SELECTED_SYSTEM_PROMPT_ID
+      );
+      setSelectedPromptId(stored ? Number(stored) : null);
+    });
+    return () => {
+      unlistenPromise.then((unlisten) => unlisten());
+    };
+  }, []);
+
   /**
    * Load selected prompt on mount and when prompts change
    */
@@ -0,0 +1,121 @@
+import { useEffect, useRef } from "react";
+import { STORAGE_KEYS } from "@/config";
+import {
+  createWebhookEvent,
+  getSpeakerName,
+  processWebhookQueue,
+  queueWebhookEvent,
+} from "@/lib";
+import type { useAudioOverlayType } from "./useAudioOverlay";
+
+// Retries that come due are sent on this interval
+const QUEUE_INTERVAL_MS = 10_000;
+
+/**
+ * Sends session, transcript, response and summary events to the configured
+ * webhooks from the main window and works through the retry queue. Only
+ * messages and summaries created after launch are sent.
+ */
+export function useWebhooks(systemAudio: useAudioOverlayType) {
+  const { capturing, conversation } = systemAudio;
+  const systemAudioRef = useRef(systemAudio);
+  useEffect(() => {
+    systemAudioRef.current = systemAudio;
+  }, [systemAudio]);
+
+  useEffect(() => {
+    void processWebhookQueue();
+    const interval = setInterval(() => {
+      void processWebhookQueue();
+    }, QUEUE_INTERVAL_MS);
+
+    // Tests and manual retries are queued from the dashboard
+    const handleStorageChange = (e: StorageEvent) => {
+      if (e.key === STORAGE_KEYS.WEBHOOK_DELIVERIES) {
+        void processWebhookQueue();
+      }
+    };
+    window.addEventListener("storage", handleStorageChange);
+
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener("storage", handleStorageChange);
+    };
+  }, []);
+
+  const wasCapturingRef = useRef(capturing);
+  useEffect(() => {
+    if (capturing === wasCapturingRef.current) return;
+    wasCapturingRef.current = capturing;
+
+    const { conversation } = systemAudioRef.current;
+    queueWebhookEvent(
+      createWebhookEvent(
+        capturing ? "session.started" : "session.stopped",
+        conversation,
+        capturing
+          ? {}
+          : {
+              transcriptSegments: conversation.messages.filter(
+                (m) => m.role === "user" && m.source !== "manual"
+              ).length,
+            }
+      )
+    );
+  }, [capturing]);
+
+  const sentUntilRef = useRef(Date.now());
+  useEffect(() => {
+    const newMessages = conversation.messages
+      .filter((message) => message.timestamp > sentUntilRef.current)
+      .sort((a, b) => a.timestamp - b.timestamp);
+    if (newMessages.length === 0) return;
+    sentUntilRef.current = newMessages[newMessages.length - 1].timestamp;
+
+    newMessages.forEach((message, index) => {
+      const text = message.content.trim();
+      if (!text) return;
+
+      if (message.role === "user" && message.source !== "manual") {
+        queueWebhookEvent(
+          createWebhookEvent("transcript", conversation, {
+            text,
+            source: message.source ?? "system_audio",
+            speaker: message.speakerId
+              ? getSpeakerName(message.speakerId, conversation.speakerNames)
+              : "",
+          })
+        );
+      } else if (message.role === "assistant") {
+        const prompt = newMessages[index - 1];
+        queueWebhookEvent(
+          createWebhookEvent("response", conversation, {
+            text,
+            response: text,
+            prompt: prompt?.role === "user" ? prompt.content : "",
+            source: prompt?.source ?? "",
+            provider: systemAudioRef.current.lastAIProvider?.provider ?? "",
+          })
+        );
+      }
+    });
+  }, [conversation]);
+
+  // Runs on every conversation change; only a newer summary is sent
+  const summarySentAtRef = useRef(Date.now());
+  useEffect(() => {
+    const { summary } = conversation;
+    if (!summary || summary.generatedAt <= summarySentAtRef.current) return;
+    summarySentAtRef.current = summary.generatedAt;
+
+    queueWebhookEvent(
+      createWebhookEvent("summary", conversation, {
+        text: summary.overview,
+        overview: summary.overview,
+        actionItems: summary.actionItems,
+        decisions: summary.decisions,
+        openQuestions: summary.openQuestions,
+      })
+    );
+  }, [conversation]);
+}
@@ -2,8 +2,12 @@ import { Sidebar } from "@/components";
 import { Outlet } from "react-router-dom";
 import { ErrorBoundary } from "react-error-boundary";
 import { ErrorLayout } from "./ErrorLayout";
+import { DatabaseLockLayout } from "./DatabaseLockLayout";
+import { useDatabaseEncryption } from "@/hooks";
 
 export const DashboardLayout = () => {
+  const { status } = useDatabaseEncryption();
+
   return (
     <ErrorBoundary
       fallbackRender={() => {
@@ -25,7 +29,11 @@ export const DashboardLayout = () => {
         <Sidebar />
         {/* Main Content */}
         <main className="flex flex-1 flex-col overflow-hidden px-8">
-          <Outlet />
+          {status?.locked ? (
+            <DatabaseLockLayout status={status} />
+          ) : (
+            <Outlet />
+          )}
         </main>
       </div>
     </ErrorBoundary>
@@ -0,0 +1,76 @@
+import { useState } from "react";
+import { Button, Input } from "@/components";
+import { unlockDatabase } from "@/lib";
+import { DatabaseEncryptionStatus } from "@/types";
+import { Loader2, LockIcon } from "lucide-react";
+
+export const DatabaseLockLayout = ({
+  status,
+}: {
+  status: DatabaseEncryptionStatus;
+}) => {
+  const [passphrase, setPassphrase] = useState("");
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [error, setError] = useState("");
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsUnlocking(true);
+    setError("");
+    try {
+      if (!(await unlockDatabase(passphrase))) {
+        setError("Wrong passphrase.");
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-1 flex-col items-center justify-center">
+      <form
+        onSubmit={handleUnlock}
+        className="flex w-full max-w-sm flex-col items-center gap-4 text-center"
+      >
+        <div className="flex size-12 items-center justify-center rounded-xl bg-muted">
+          <LockIcon className="size-6 text-primary" />
+        </div>
+        <div className="space-y-1">
+          <h1 className="text-xl font-semibold">Conversations are locked</h1>
+          <p className="text-sm text-muted-foreground">
+            {status.keySource === "passphrase"
+              ? "Enter your database passphrase to open your chat history."
+              : "The encryption key could not be read from the system keychain. Allow TalkEcho to access it and reload the app."}
+          </p>
+        </div>
+
+        {status.keySource === "passphrase" && (
+          <>
+            <Input
+              type="password"
+              placeholder="Passphrase"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              disabled={isUnlocking}
+              autoFocus
+            />
+            {error && <p className="text-xs text-destructive">{error}</p>}
+            <Button
+              type="submit"
+              className="w-full"
+              disabled={!passphrase || isUnlocking}
+            >
+              {isUnlocking ? (
+                <Loader2 className="size-4 animate-spin" />
+              ) : (
+                "Unlock"
+              )}
+            </Button>
+          </>
+        )}
+      </form>
+    </div>
+  );
+};
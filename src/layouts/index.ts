@@ -1,3 +1,4 @@
 export * from "./DashboardLayout";
 export * from "./PageLayout";
 export * from "./ErrorLayout";
+export * from "./DatabaseLockLayout";
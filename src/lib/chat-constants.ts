@@ -50,6 +50,47 @@ export const CHUNK_POLL_INTERVAL_MS = 50;
  */
 export const DOWNLOAD_SUCCESS_DISPLAY_MS = 1000;
 
+/**
+ * HISTORY_PAGE_SIZE
+ *
+ * Number of conversations loaded per page in history lists. The next page
+ * is fetched when the user scrolls to the end of the list.
+ */
+export const HISTORY_PAGE_SIZE = 30;
+
+/**
+ * MESSAGE_PREVIEW_LENGTH
+ *
+ * Characters of the latest message shown as a conversation preview.
+ */
+export const MESSAGE_PREVIEW_LENGTH = 160;
+
+/**
+ * SEARCH_DEBOUNCE_MS
+ *
+ * Delay after the last keystroke before the history search query runs.
+ *
+ * 250ms keeps results feeling live without querying the full-text index
+ * on every keystroke.
+ */
+export const SEARCH_DEBOUNCE_MS = 250;
+
+/**
+ * SEARCH_RESULTS_LIMIT
+ *
+ * Maximum number of ranked message matches returned by one history search.
+ */
+export const SEARCH_RESULTS_LIMIT = 50;
+
+/**
+ * SEARCH_HIGHLIGHT_START / SEARCH_HIGHLIGHT_END
+ *
+ * Private-use characters wrapped around matched terms in search snippets.
+ * They never appear in normal text, so the UI can split on them safely.
+ */
+export const SEARCH_HIGHLIGHT_START = "\uE000";
+export const SEARCH_HIGHLIGHT_END = "\uE001";
+
 /**
  * CONVERSATION_ID_RANDOM_LENGTH
  *
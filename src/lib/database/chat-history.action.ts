@@ -1,6 +1,28 @@
+import Database from "@tauri-apps/plugin-sql";
 import { getDatabase } from "./config";
-import { ChatConversation } from "@/types";
-import { safeLocalStorage } from "@/lib";
+import { FieldCipher, getFieldCipher } from "./encryption";
+import {
+  ChatConversation,
+  ChatMessage,
+  ConversationCursor,
+  ConversationFilters,
+  ConversationGroup,
+  ConversationGroups,
+  ConversationOrganization,
+  ConversationPage,
+  MeetingSummary,
+  MessageSearchFilters,
+  MessageSearchResult,
+  MessageUsage,
+} from "@/types";
+import {
+  HISTORY_PAGE_SIZE,
+  MESSAGE_PREVIEW_LENGTH,
+  safeLocalStorage,
+  SEARCH_HIGHLIGHT_END,
+  SEARCH_HIGHLIGHT_START,
+  SEARCH_RESULTS_LIMIT,
+} from "@/lib";
 
 // Legacy localStorage key for migration purposes
 const LEGACY_CHAT_HISTORY_KEY = "chat_history";
@@ -13,8 +35,17 @@ interface DbConversation {
   title: string;
   created_at: number;
   updated_at: number;
+  speaker_names?: string | null; // JSON string
+  summary?: string | null; // JSON string
+  folder?: string | null;
+  pinned?: number;
+  tags?: string | null; // JSON array from TAGS_COLUMN
 }
 
+// Tags of each conversation row as a JSON array
+const TAGS_COLUMN =
+  "(SELECT json_group_array(t.tag) FROM conversation_tags t WHERE t.conversation_id = c.id) AS tags";
+
 /**
  * Database message type (flattened for SQL)
  */
@@ -26,6 +57,144 @@ interface DbMessage {
   timestamp: number;
   attached_files: string | null; // JSON string
   source?: "system_audio" | "microphone" | null;
+  provider?: string | null;
+  model?: string | null;
+  prompt_tokens?: number | null;
+  completion_tokens?: number | null;
+  audio_seconds?: number | null;
+  speaker_id?: string | null;
+}
+
+const INSERT_MESSAGE_SQL =
+  "INSERT INTO messages (id, conversation_id, role, content, timestamp, attached_files, source, provider, model, prompt_tokens, completion_tokens, audio_seconds, speaker_id) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)";
+
+/**
+ * Flatten a message into its database row
+ */
+function toDbMessage(message: ChatMessage, conversationId: string): DbMessage {
+  return {
+    id: message.id,
+    conversation_id: conversationId,
+    role: message.role,
+    content: message.content,
+    timestamp: message.timestamp || Date.now(),
+    attached_files: message.attachedFiles
+      ? JSON.stringify(message.attachedFiles)
+      : null,
+    source: message.source ?? null,
+    provider: message.usage?.provider ?? null,
+    model: message.usage?.model ?? null,
+    prompt_tokens: message.usage?.promptTokens ?? null,
+    completion_tokens: message.usage?.completionTokens ?? null,
+    audio_seconds: message.usage?.audioSeconds ?? null,
+    speaker_id: message.speakerId ?? null,
+  };
+}
+
+/**
+ * Rebuild a message from its database row
+ */
+function fromDbMessage(msg: DbMessage): ChatMessage {
+  const usage: MessageUsage = {
+    provider: msg.provider ?? undefined,
+    model: msg.model ?? undefined,
+    promptTokens: msg.prompt_tokens ?? undefined,
+    completionTokens: msg.completion_tokens ?? undefined,
+    audioSeconds: msg.audio_seconds ?? undefined,
+  };
+  const hasUsage = Object.values(usage).some((value) => value !== undefined);
+
+  return {
+    id: msg.id,
+    role: msg.role,
+    content: msg.content,
+    timestamp: msg.timestamp,
+    attachedFiles: safeJsonParse(msg.attached_files, undefined),
+    source: msg.source ?? undefined,
+    usage: hasUsage ? usage : undefined,
+    speakerId: msg.speaker_id ?? undefined,
+  };
+}
+
+/**
+ * Rebuild a conversation from its database row and messages
+ */
+function fromDbConversation(
+  conv: DbConversation,
+  messages: DbMessage[]
+): ChatConversation {
+  return {
+    id: conv.id,
+    title: conv.title,
+    createdAt: conv.created_at,
+    updatedAt: conv.updated_at,
+    messages: messages.map(fromDbMessage),
+    speakerNames: safeJsonParse<Record<string, string> | undefined>(
+      conv.speaker_names ?? null,
+      undefined
+    ),
+    summary: safeJsonParse<MeetingSummary | undefined>(
+      conv.summary ?? null,
+      undefined
+    ),
+    folder: conv.folder ?? undefined,
+    tags: safeJsonParse<string[]>(conv.tags ?? null, []),
+    pinned: !!conv.pinned,
+  };
+}
+
+/**
+ * Decrypt the encrypted fields of a message row
+ */
+async function decryptDbMessage(
+  msg: DbMessage,
+  cipher: FieldCipher
+): Promise<DbMessage> {
+  return {
+    ...msg,
+    content: await cipher.decrypt(msg.content),
+    attached_files: await cipher.decrypt(msg.attached_files),
+  };
+}
+
+/**
+ * Decrypt the encrypted fields of a conversation row
+ */
+async function decryptDbConversation(
+  conv: DbConversation,
+  cipher: FieldCipher
+): Promise<DbConversation> {
+  return {
+    ...conv,
+    title: await cipher.decrypt(conv.title),
+    speaker_names: await cipher.decrypt(conv.speaker_names ?? null),
+    summary: await cipher.decrypt(conv.summary ?? null),
+  };
+}
+
+/**
+ * Insert a single message row, encrypting its content when enabled
+ */
+async function insertMessage(
+  db: Database,
+  msg: DbMessage,
+  cipher: FieldCipher
+): Promise<void> {
+  await db.execute(INSERT_MESSAGE_SQL, [
+    msg.id,
+    msg.conversation_id,
+    msg.role,
+    await cipher.encrypt(msg.content),
+    msg.timestamp,
+    await cipher.encrypt(msg.attached_files),
+    msg.source ?? null,
+    msg.provider ?? null,
+    msg.model ?? null,
+    msg.prompt_tokens ?? null,
+    msg.completion_tokens ?? null,
+    msg.audio_seconds ?? null,
+    msg.speaker_id ?? null,
+  ]);
 }
 
 /**
@@ -97,16 +266,25 @@ export async function createConversation(
   }
 
   const db = await getDatabase();
+  const cipher = await getFieldCipher({ forWrite: true });
 
   try {
     // Insert conversation
     await db.execute(
-      "INSERT INTO conversations (id, title, created_at, updated_at) VALUES (?, ?, ?, ?)",
+      "INSERT INTO conversations (id, title, created_at, updated_at, speaker_names, summary) VALUES (?, ?, ?, ?, ?, ?)",
       [
         conversation.id,
-        conversation.title,
+        await cipher.encrypt(conversation.title),
         conversation.createdAt || Date.now(),
         conversation.updatedAt || Date.now(),
+        await cipher.encrypt(
+          conversation.speakerNames
+            ? JSON.stringify(conversation.speakerNames)
+            : null
+        ),
+        await cipher.encrypt(
+          conversation.summary ? JSON.stringify(conversation.summary) : null
+        ),
       ]
     );
 
@@ -117,22 +295,7 @@ export async function createConversation(
         continue;
       }
 
-      const attachedFilesJson = message.attachedFiles
-        ? JSON.stringify(message.attachedFiles)
-        : null;
-
-      await db.execute(
-        "INSERT INTO messages (id, conversation_id, role, content, timestamp, attached_files, source) VALUES (?, ?, ?, ?, ?, ?, ?)",
-        [
-          message.id,
-          conversation.id,
-          message.role,
-          message.content,
-          message.timestamp,
-          attachedFilesJson,
-          message.source ?? null,
-        ]
-      );
+      await insertMessage(db, toDbMessage(message, conversation.id), cipher);
     }
 
     return conversation;
@@ -151,11 +314,12 @@ export async function createConversation(
  */
 export async function getAllConversations(): Promise<ChatConversation[]> {
   const db = await getDatabase();
+  const cipher = await getFieldCipher();
 
   try {
     // Get all conversations
     const conversations = await db.select<DbConversation[]>(
-      "SELECT * FROM conversations ORDER BY updated_at DESC"
+      `SELECT c.*, ${TAGS_COLUMN} FROM conversations c ORDER BY c.updated_at DESC`
     );
 
     if (conversations.length === 0) {
@@ -180,27 +344,143 @@ export async function getAllConversations(): Promise<ChatConversation[]> {
     }
 
     // Build result
-    return conversations.map((conv) => ({
-      id: conv.id,
-      title: conv.title,
-      createdAt: conv.created_at,
-      updatedAt: conv.updated_at,
-      messages:
-        messagesByConversation.get(conv.id)?.map((msg) => ({
-          id: msg.id,
-          role: msg.role,
-          content: msg.content,
-          timestamp: msg.timestamp,
-          attachedFiles: safeJsonParse(msg.attached_files, undefined),
-          source: msg.source ?? undefined,
-        })) || [],
-    }));
+    return Promise.all(
+      conversations.map(async (conv) =>
+        fromDbConversation(
+          await decryptDbConversation(conv, cipher),
+          await Promise.all(
+            (messagesByConversation.get(conv.id) || []).map((msg) =>
+              decryptDbMessage(msg, cipher)
+            )
+          )
+        )
+      )
+    );
   } catch (error) {
     console.error("Failed to get all conversations:", error);
     throw error;
   }
 }
 
+/**
+ * Get one page of conversations, pinned first and then most recently updated,
+ * without their messages. Pass the previous page's `nextCursor` to continue.
+ */
+export async function getConversationsPage(
+  options: {
+    cursor?: ConversationCursor;
+    limit?: number;
+    includeMessageCount?: boolean;
+    includePreview?: boolean;
+    filters?: ConversationFilters;
+  } = {}
+): Promise<ConversationPage> {
+  const {
+    cursor,
+    limit = HISTORY_PAGE_SIZE,
+    includeMessageCount = true,
+    includePreview = false,
+    filters = {},
+  } = options;
+
+  const db = await getDatabase();
+  const cipher = await getFieldCipher();
+
+  const columns = [
+    "c.id",
+    "c.title",
+    "c.created_at",
+    "c.updated_at",
+    "c.folder",
+    "c.pinned",
+    TAGS_COLUMN,
+  ];
+  const params: unknown[] = [];
+  if (includeMessageCount) {
+    columns.push(
+      "(SELECT COUNT(*) FROM messages m WHERE m.conversation_id = c.id) AS message_count"
+    );
+  }
+  if (includePreview && cipher.enabled) {
+    // Encrypted content can only be shortened after decrypting it
+    columns.push(
+      "(SELECT m.content FROM messages m WHERE m.conversation_id = c.id ORDER BY m.timestamp DESC LIMIT 1) AS preview"
+    );
+  } else if (includePreview) {
+    columns.push(
+      "(SELECT substr(m.content, 1, ?) FROM messages m WHERE m.conversation_id = c.id ORDER BY m.timestamp DESC LIMIT 1) AS preview"
+    );
+    params.push(MESSAGE_PREVIEW_LENGTH);
+  }
+
+  const conditions: string[] = [];
+  if (filters.folder) {
+    conditions.push("c.folder = ?");
+    params.push(filters.folder);
+  }
+  if (filters.tag) {
+    conditions.push(
+      "EXISTS (SELECT 1 FROM conversation_tags t WHERE t.conversation_id = c.id AND t.tag = ?)"
+    );
+    params.push(filters.tag);
+  }
+  if (filters.pinned) {
+    conditions.push("c.pinned = 1");
+  }
+
+  // Keyset pagination; the id breaks ties between equal timestamps
+  if (cursor) {
+    const pinned = cursor.pinned ? 1 : 0;
+    conditions.push(
+      "(c.pinned < ? OR (c.pinned = ? AND (c.updated_at < ? OR (c.updated_at = ? AND c.id < ?))))"
+    );
+    params.push(pinned, pinned, cursor.updatedAt, cursor.updatedAt, cursor.id);
+  }
+  const where =
+    conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+  // One extra row tells whether there is a next page
+  params.push(limit + 1);
+
+  try {
+    const rows = await db.select<
+      (DbConversation & { message_count?: number; preview?: string | null })[]
+    >(
+      `SELECT ${columns.join(", ")} FROM conversations c ${where} ORDER BY c.pinned DESC, c.updated_at DESC, c.id DESC LIMIT ?`,
+      params
+    );
+
+    const conversations = await Promise.all(
+      rows.slice(0, limit).map(async (row) => ({
+        id: row.id,
+        title: await cipher.decrypt(row.title),
+        createdAt: row.created_at,
+        updatedAt: row.updated_at,
+        messageCount: row.message_count,
+        preview:
+          (await cipher.decrypt(row.preview ?? null))?.slice(
+            0,
+            MESSAGE_PREVIEW_LENGTH
+          ) ?? undefined,
+        folder: row.folder ?? undefined,
+        tags: safeJsonParse<string[]>(row.tags ?? null, []),
+        pinned: !!row.pinned,
+      }))
+    );
+    const last = conversations[conversations.length - 1];
+
+    return {
+      conversations,
+      nextCursor:
+        rows.length > limit && last
+          ? { pinned: last.pinned, updatedAt: last.updatedAt, id: last.id }
+          : undefined,
+    };
+  } catch (error) {
+    console.error("Failed to get conversations page:", error);
+    throw error;
+  }
+}
+
 /**
  * Get a single conversation by ID
  */
@@ -217,7 +497,7 @@ export async function getConversationById(
   try {
     // Get conversation
     const conversations = await db.select<DbConversation[]>(
-      "SELECT * FROM conversations WHERE id = ?",
+      `SELECT c.*, ${TAGS_COLUMN} FROM conversations c WHERE c.id = ?`,
       [id]
     );
 
@@ -233,20 +513,11 @@ export async function getConversationById(
       [id]
     );
 
-    return {
-      id: conv.id,
-      title: conv.title,
-      createdAt: conv.created_at,
-      updatedAt: conv.updated_at,
-      messages: messages.map((msg) => ({
-        id: msg.id,
-        role: msg.role,
-        content: msg.content,
-        timestamp: msg.timestamp,
-        attachedFiles: safeJsonParse(msg.attached_files, undefined),
-        source: msg.source ?? undefined,
-      })),
-    };
+    const cipher = await getFieldCipher();
+    return fromDbConversation(
+      await decryptDbConversation(conv, cipher),
+      await Promise.all(messages.map((msg) => decryptDbMessage(msg, cipher)))
+    );
   } catch (error) {
     console.error(`Failed to get conversation ${id}:`, error);
     return null;
@@ -264,12 +535,25 @@ export async function updateConversation(
   }
 
   const db = await getDatabase();
+  const cipher = await getFieldCipher({ forWrite: true });
 
   try {
-    // Update conversation
+    // Update conversation (speaker names and summary are kept when the caller has none)
     const updateResult = await db.execute(
-      "UPDATE conversations SET title = ?, updated_at = ? WHERE id = ?",
-      [conversation.title, conversation.updatedAt, conversation.id]
+      "UPDATE conversations SET title = ?, updated_at = ?, speaker_names = COALESCE(?, speaker_names), summary = COALESCE(?, summary) WHERE id = ?",
+      [
+        await cipher.encrypt(conversation.title),
+        conversation.updatedAt,
+        await cipher.encrypt(
+          conversation.speakerNames
+            ? JSON.stringify(conversation.speakerNames)
+            : null
+        ),
+        await cipher.encrypt(
+          conversation.summary ? JSON.stringify(conversation.summary) : null
+        ),
+        conversation.id,
+      ]
     );
 
     if (updateResult.rowsAffected === 0) {
@@ -295,21 +579,10 @@ export async function updateConversation(
           continue;
         }
 
-        const attachedFilesJson = message.attachedFiles
-          ? JSON.stringify(message.attachedFiles)
-          : null;
-
-        await db.execute(
-          "INSERT INTO messages (id, conversation_id, role, content, timestamp, attached_files, source) VALUES (?, ?, ?, ?, ?, ?, ?)",
-          [
-            message.id,
-            conversation.id,
-            message.role,
-            message.content,
-            message.timestamp,
-            attachedFilesJson,
-            message.source ?? null,
-          ]
+        await insertMessage(
+          db,
+          toDbMessage(message, conversation.id),
+          cipher
         );
       }
     } catch (messageError) {
@@ -319,20 +592,7 @@ export async function updateConversation(
         messageError
       );
       for (const msg of existingMessages) {
-        await db
-          .execute(
-            "INSERT INTO messages (id, conversation_id, role, content, timestamp, attached_files, source) VALUES (?, ?, ?, ?, ?, ?, ?)",
-            [
-              msg.id,
-              msg.conversation_id,
-              msg.role,
-              msg.content,
-              msg.timestamp,
-              msg.attached_files,
-              msg.source ?? null,
-            ]
-          )
-          .catch(() => {});
+        await insertMessage(db, msg, cipher).catch(() => {});
       }
       throw messageError;
     }
@@ -368,6 +628,157 @@ export async function saveConversation(
   }
 }
 
+/**
+ * Save the display names of a conversation's diarized speakers
+ */
+export async function updateSpeakerNames(
+  conversationId: string,
+  speakerNames: Record<string, string>
+): Promise<boolean> {
+  const db = await getDatabase();
+  const cipher = await getFieldCipher({ forWrite: true });
+
+  try {
+    const result = await db.execute(
+      "UPDATE conversations SET speaker_names = ? WHERE id = ?",
+      [await cipher.encrypt(JSON.stringify(speakerNames)), conversationId]
+    );
+
+    return result.rowsAffected > 0;
+  } catch (error) {
+    console.error(
+      `Failed to update speaker names of conversation ${conversationId}:`,
+      error
+    );
+    throw error;
+  }
+}
+
+/**
+ * Save the generated meeting summary of a conversation
+ */
+export async function updateConversationSummary(
+  conversationId: string,
+  summary: MeetingSummary
+): Promise<boolean> {
+  const db = await getDatabase();
+  const cipher = await getFieldCipher({ forWrite: true });
+
+  try {
+    const result = await db.execute(
+      "UPDATE conversations SET summary = ? WHERE id = ?",
+      [await cipher.encrypt(JSON.stringify(summary)), conversationId]
+    );
+
+    return result.rowsAffected > 0;
+  } catch (error) {
+    console.error(
+      `Failed to update summary of conversation ${conversationId}:`,
+      error
+    );
+    throw error;
+  }
+}
+
+/**
+ * Trims tags and drops empty and duplicate (case-insensitive) ones
+ */
+function normalizeTags(tags: string[]): string[] {
+  const seen = new Set<string>();
+  return tags
+    .map((tag) => tag.trim())
+    .filter((tag) => {
+      const key = tag.toLowerCase();
+      if (!tag || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+/**
+ * Rename, move, tag or pin a conversation. Only the given fields change.
+ */
+export async function organizeConversation(
+  conversationId: string,
+  changes: ConversationOrganization
+): Promise<boolean> {
+  const db = await getDatabase();
+
+  const assignments: string[] = [];
+  const params: unknown[] = [];
+  if (changes.title !== undefined) {
+    if (!changes.title.trim()) {
+      throw new Error("Conversation title cannot be empty");
+    }
+    const cipher = await getFieldCipher({ forWrite: true });
+    assignments.push("title = ?");
+    params.push(await cipher.encrypt(changes.title.trim()));
+  }
+  if (changes.folder !== undefined) {
+    assignments.push("folder = ?");
+    params.push(changes.folder?.trim() || null);
+  }
+  if (changes.pinned !== undefined) {
+    assignments.push("pinned = ?");
+    params.push(changes.pinned ? 1 : 0);
+  }
+
+  try {
+    if (assignments.length > 0) {
+      const result = await db.execute(
+        `UPDATE conversations SET ${assignments.join(", ")} WHERE id = ?`,
+        [...params, conversationId]
+      );
+      if (result.rowsAffected === 0) return false;
+    }
+
+    if (changes.tags !== undefined) {
+      await db.execute(
+        "DELETE FROM conversation_tags WHERE conversation_id = ?",
+        [conversationId]
+      );
+      for (const tag of normalizeTags(changes.tags)) {
+        await db.execute(
+          "INSERT INTO conversation_tags (conversation_id, tag) VALUES (?, ?)",
+          [conversationId, tag]
+        );
+      }
+    }
+
+    return true;
+  } catch (error) {
+    console.error(`Failed to organize conversation ${conversationId}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Folders and tags in use, with conversation counts, and the number of
+ * pinned conversations
+ */
+export async function getConversationGroups(): Promise<ConversationGroups> {
+  const db = await getDatabase();
+
+  try {
+    const [pinned, folders, tags] = await Promise.all([
+      db.select<{ count: number }[]>(
+        "SELECT COUNT(*) AS count FROM conversations WHERE pinned = 1"
+      ),
+      db.select<ConversationGroup[]>(
+        "SELECT folder AS name, COUNT(*) AS count FROM conversations WHERE folder IS NOT NULL GROUP BY folder ORDER BY folder COLLATE NOCASE"
+      ),
+      db.select<ConversationGroup[]>(
+        "SELECT tag AS name, COUNT(*) AS count FROM conversation_tags GROUP BY tag ORDER BY tag COLLATE NOCASE"
+      ),
+    ]);
+
+    return { pinned: pinned[0]?.count ?? 0, folders, tags };
+  } catch (error) {
+    console.error("Failed to get conversation groups:", error);
+    throw error;
+  }
+}
+
 /**
  * Delete a conversation and all its messages
  */
@@ -407,6 +818,183 @@ export async function deleteAllConversations(): Promise<void> {
   }
 }
 
+/**
+ * Turn free text into an FTS5 query: every word must match, the last one as a
+ * prefix so results update while typing. Quoting keeps FTS5 operators and
+ * punctuation in the input from being parsed as query syntax.
+ */
+function toFtsQuery(search: string): string {
+  const terms = search
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((term) => `"${term.replace(/"/g, '""')}"`);
+  if (terms.length === 0) return "";
+  terms[terms.length - 1] += "*";
+  return terms.join(" ");
+}
+
+// Characters of context kept on each side of the first match in a snippet
+const SNIPPET_CONTEXT_CHARS = 60;
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Snippet around the first match with every term highlighted, in the same
+ * shape FTS5 snippet() produces
+ */
+function buildSnippet(content: string, terms: string[]): string {
+  const lower = content.toLowerCase();
+  const first = Math.min(
+    ...terms.map((term) => lower.indexOf(term)).filter((i) => i !== -1)
+  );
+  const start = Math.max(0, first - SNIPPET_CONTEXT_CHARS);
+  const end = Math.min(content.length, first + SNIPPET_CONTEXT_CHARS * 2);
+  const excerpt = content.slice(start, end).replace(
+    new RegExp(terms.map(escapeRegExp).join("|"), "gi"),
+    (match) => `${SEARCH_HIGHLIGHT_START}${match}${SEARCH_HIGHLIGHT_END}`
+  );
+  return `${start > 0 ? "…" : ""}${excerpt}${end < content.length ? "…" : ""}`;
+}
+
+/**
+ * Search for encrypted databases. The FTS index only holds ciphertext, so
+ * messages are decrypted and matched here, newest first.
+ */
+async function searchEncryptedMessages(
+  db: Database,
+  cipher: FieldCipher,
+  search: string,
+  conditions: string[],
+  params: unknown[],
+  limit: number,
+  offset: number
+): Promise<MessageSearchResult[]> {
+  const terms = search.trim().toLowerCase().split(/\s+/).filter(Boolean);
+  const rows = await db.select<
+    (DbMessage & { conversation_title: string })[]
+  >(
+    `SELECT m.*, c.title AS conversation_title
+     FROM messages m
+     JOIN conversations c ON c.id = m.conversation_id
+     ${conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : ""}
+     ORDER BY m.timestamp DESC`,
+    params
+  );
+
+  const results: MessageSearchResult[] = [];
+  let skipped = 0;
+  for (const row of rows) {
+    const content = await cipher.decrypt(row.content);
+    const lower = content.toLowerCase();
+    if (!terms.every((term) => lower.includes(term))) continue;
+    if (skipped++ < offset) continue;
+
+    results.push({
+      messageId: row.id,
+      conversationId: row.conversation_id,
+      conversationTitle: await cipher.decrypt(row.conversation_title),
+      role: row.role,
+      source: row.source ?? undefined,
+      timestamp: row.timestamp,
+      snippet: buildSnippet(content, terms),
+    });
+    if (results.length >= limit) break;
+  }
+  return results;
+}
+
+/**
+ * Full-text search over message content, best matches first, with a
+ * highlighted snippet per match
+ */
+export async function searchMessages(
+  search: string,
+  filters: MessageSearchFilters = {},
+  limit: number = SEARCH_RESULTS_LIMIT,
+  offset: number = 0
+): Promise<MessageSearchResult[]> {
+  const query = toFtsQuery(search);
+  if (!query) return [];
+
+  const db = await getDatabase();
+  const cipher = await getFieldCipher();
+
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+  if (filters.source) {
+    conditions.push("m.source = ?");
+    params.push(filters.source);
+  }
+  if (filters.role) {
+    conditions.push("m.role = ?");
+    params.push(filters.role);
+  }
+  if (filters.from !== undefined) {
+    conditions.push("m.timestamp >= ?");
+    params.push(filters.from);
+  }
+  if (filters.to !== undefined) {
+    conditions.push("m.timestamp <= ?");
+    params.push(filters.to);
+  }
+
+  try {
+    if (cipher.enabled) {
+      return await searchEncryptedMessages(
+        db,
+        cipher,
+        search,
+        conditions,
+        params,
+        limit,
+        offset
+      );
+    }
+
+    conditions.unshift("messages_fts MATCH ?");
+    params.unshift(SEARCH_HIGHLIGHT_START, SEARCH_HIGHLIGHT_END, query);
+    params.push(limit, offset);
+
+    const rows = await db.select<
+      {
+        message_id: string;
+        conversation_id: string;
+        conversation_title: string;
+        role: ChatMessage["role"];
+        source: ChatMessage["source"] | null;
+        timestamp: number;
+        snippet: string;
+      }[]
+    >(
+      `SELECT m.id AS message_id, m.conversation_id, c.title AS conversation_title,
+              m.role, m.source, m.timestamp,
+              snippet(messages_fts, 0, ?, ?, '…', 16) AS snippet
+       FROM messages_fts
+       JOIN messages m ON m.rowid = messages_fts.rowid
+       JOIN conversations c ON c.id = m.conversation_id
+       WHERE ${conditions.join(" AND ")}
+       ORDER BY bm25(messages_fts), m.timestamp DESC
+       LIMIT ? OFFSET ?`,
+      params
+    );
+
+    return rows.map((row) => ({
+      messageId: row.message_id,
+      conversationId: row.conversation_id,
+      conversationTitle: row.conversation_title,
+      role: row.role,
+      source: row.source ?? undefined,
+      timestamp: row.timestamp,
+      snippet: row.snippet,
+    }));
+  } catch (error) {
+    console.error("Failed to search messages:", error);
+    throw error;
+  }
+}
+
 /**
  * Return the user message as the conversation title
  */
@@ -463,6 +1051,7 @@ export async function migrateLocalStorageToSQLite(): Promise<{
 
     // Get database instance
     const db = await getDatabase();
+    const cipher = await getFieldCipher();
 
     // Migrate each conversation
     let migratedCount = 0;
@@ -491,7 +1080,7 @@ export async function migrateLocalStorageToSQLite(): Promise<{
           "INSERT INTO conversations (id, title, created_at, updated_at) VALUES (?, ?, ?, ?)",
           [
             conversation.id,
-            conversation.title,
+            await cipher.encrypt(conversation.title),
             conversation.createdAt || Date.now(),
             conversation.updatedAt || Date.now(),
           ]
@@ -516,21 +1105,10 @@ export async function migrateLocalStorageToSQLite(): Promise<{
               continue;
             }
 
-            const attachedFilesJson = message.attachedFiles
-              ? JSON.stringify(message.attachedFiles)
-              : null;
-
-            await db.execute(
-              "INSERT INTO messages (id, conversation_id, role, content, timestamp, attached_files, source) VALUES (?, ?, ?, ?, ?, ?, ?)",
-              [
-                message.id,
-                conversation.id,
-                message.role,
-                message.content,
-                message.timestamp || Date.now(),
-                attachedFilesJson,
-                (message as any).source ?? null,
-              ]
+            await insertMessage(
+              db,
+              toDbMessage(message, conversation.id),
+              cipher
             );
           }
         }
@@ -0,0 +1,171 @@
+import { getDatabase } from "./config";
+import type { ContextChunk, ContextDocument, ContextLibrary } from "@/types";
+
+/**
+ * Create a document library
+ */
+export async function createContextLibrary(
+  name: string
+): Promise<ContextLibrary> {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error("Library name cannot be empty");
+  }
+
+  const db = await getDatabase();
+  const result = await db.execute(
+    "INSERT INTO context_libraries (name, created_at) VALUES (?, ?)",
+    [trimmed, Date.now()]
+  );
+
+  const inserted = await db.select<ContextLibrary[]>(
+    "SELECT * FROM context_libraries WHERE id = ?",
+    [result.lastInsertId]
+  );
+  if (!inserted[0]) {
+    throw new Error("Failed to retrieve created library");
+  }
+  return inserted[0];
+}
+
+export async function getContextLibraries(): Promise<ContextLibrary[]> {
+  const db = await getDatabase();
+  return db.select<ContextLibrary[]>(
+    "SELECT * FROM context_libraries ORDER BY name COLLATE NOCASE"
+  );
+}
+
+/**
+ * Delete a library with its documents and chunks
+ */
+export async function deleteContextLibrary(id: number): Promise<void> {
+  const db = await getDatabase();
+  await db.execute("DELETE FROM context_libraries WHERE id = ?", [id]);
+}
+
+export async function getContextDocuments(
+  libraryId: number
+): Promise<ContextDocument[]> {
+  const db = await getDatabase();
+  return db.select<ContextDocument[]>(
+    `SELECT d.*, COUNT(c.id) AS chunk_count
+     FROM context_documents d
+     LEFT JOIN context_chunks c ON c.document_id = d.id
+     WHERE d.library_id = ?
+     GROUP BY d.id
+     ORDER BY d.created_at DESC`,
+    [libraryId]
+  );
+}
+
+/**
+ * Store a document with its embedded chunks. A document whose chunks fail
+ * to save is removed again.
+ */
+export async function createContextDocument(
+  document: Pick<
+    ContextDocument,
+    "library_id" | "name" | "size_bytes" | "embedding_model"
+  >,
+  chunks: Pick<ContextChunk, "content" | "embedding">[]
+): Promise<number> {
+  const db = await getDatabase();
+  const result = await db.execute(
+    `INSERT INTO context_documents
+       (library_id, name, size_bytes, embedding_model, created_at)
+     VALUES (?, ?, ?, ?, ?)`,
+    [
+      document.library_id,
+      document.name,
+      document.size_bytes,
+      document.embedding_model,
+      Date.now(),
+    ]
+  );
+  const documentId = Number(result.lastInsertId);
+
+  try {
+    await replaceContextChunks(documentId, document.embedding_model, chunks);
+  } catch (error) {
+    await deleteContextDocument(documentId);
+    throw error;
+  }
+  return documentId;
+}
+
+/**
+ * Replace the chunks of a document, e.g. after embedding them with another
+ * model
+ */
+export async function replaceContextChunks(
+  documentId: number,
+  embeddingModel: string,
+  chunks: Pick<ContextChunk, "content" | "embedding">[]
+): Promise<void> {
+  const db = await getDatabase();
+  await db.execute("DELETE FROM context_chunks WHERE document_id = ?", [
+    documentId,
+  ]);
+  for (const [position, chunk] of chunks.entries()) {
+    await db.execute(
+      `INSERT INTO context_chunks (document_id, position, content, embedding)
+       VALUES (?, ?, ?, ?)`,
+      [documentId, position, chunk.content, chunk.embedding]
+    );
+  }
+  await db.execute(
+    "UPDATE context_documents SET embedding_model = ? WHERE id = ?",
+    [embeddingModel, documentId]
+  );
+}
+
+export async function deleteContextDocument(id: number): Promise<void> {
+  const db = await getDatabase();
+  await db.execute("DELETE FROM context_documents WHERE id = ?", [id]);
+}
+
+export async function getContextDocumentChunks(
+  documentId: number
+): Promise<ContextChunk[]> {
+  const db = await getDatabase();
+  return db.select<ContextChunk[]>(
+    "SELECT * FROM context_chunks WHERE document_id = ? ORDER BY position",
+    [documentId]
+  );
+}
+
+/**
+ * Chunks of a library embedded with the given model, with their document
+ * names
+ */
+export async function getContextChunks(
+  libraryId: number,
+  embeddingModel: string
+): Promise<(ContextChunk & { document_name: string })[]> {
+  const db = await getDatabase();
+  return db.select<(ContextChunk & { document_name: string })[]>(
+    `SELECT c.*, d.name AS document_name
+     FROM context_chunks c
+     JOIN context_documents d ON d.id = c.document_id
+     WHERE d.library_id = ? AND d.embedding_model = ?
+     ORDER BY c.document_id, c.position`,
+    [libraryId, embeddingModel]
+  );
+}
+
+/**
+ * Changes whenever chunks of the library are added, replaced or removed
+ */
+export async function getContextChunksVersion(
+  libraryId: number
+): Promise<string> {
+  const db = await getDatabase();
+  const rows = await db.select<{ count: number; max_id: number | null }[]>(
+    `SELECT COUNT(c.id) AS count, MAX(c.id) AS max_id
+     FROM context_chunks c
+     JOIN context_documents d ON d.id = c.document_id
+     WHERE d.library_id = ?`,
+    [libraryId]
+  );
+  return `${rows[0]?.count ?? 0}:${rows[0]?.max_id ?? 0}`;
+}
@@ -0,0 +1,390 @@
+import { invoke } from "@tauri-apps/api/core";
+import { emit, listen } from "@tauri-apps/api/event";
+import { getItem, removeItem, saveItem } from "tauri-plugin-keychain";
+import { getDatabase } from "./config";
+import { DatabaseEncryptionStatus, DatabaseKeySource } from "@/types";
+
+// Encrypted values are stored as prefix + base64(iv || AES-GCM ciphertext)
+const ENCRYPTED_PREFIX = "enc:v1:";
+const IV_LENGTH = 12;
+const KEYCHAIN_ITEM = "talkecho_database_key";
+const PBKDF2_ITERATIONS = 600_000;
+// Encrypted with the key on setup; decrypting it proves a key is correct
+const KEY_VERIFIER_TEXT = "talkecho-database-key";
+
+export const MIN_DATABASE_PASSPHRASE_LENGTH = 8;
+
+/**
+ * Thrown when encrypted conversation data is read or written before the
+ * database is unlocked
+ */
+export class DatabaseLockedError extends Error {
+  constructor() {
+    super("The conversation database is locked. Unlock it in the dashboard.");
+    this.name = "DatabaseLockedError";
+  }
+}
+
+/**
+ * Encrypts and decrypts conversation fields. Plain values pass through
+ * decrypt unchanged, so databases with not yet converted rows stay readable.
+ */
+export interface FieldCipher {
+  enabled: boolean;
+  encrypt: <T extends string | null>(value: T) => Promise<T>;
+  decrypt: <T extends string | null>(value: T) => Promise<T>;
+}
+
+interface DbEncryptionMeta {
+  key_source: DatabaseKeySource;
+  salt: string | null;
+  verifier: string;
+}
+
+// Key unlocked in this window, with the verifier it was checked against
+let unlockedKey: { verifier: string; key: CryptoKey } | null = null;
+let lockListener: Promise<() => void> | null = null;
+
+const toBase64 = (bytes: Uint8Array): string =>
+  btoa(Array.from(bytes, (byte) => String.fromCharCode(byte)).join(""));
+
+const fromBase64 = (value: string): Uint8Array =>
+  Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+
+const randomBytes = (length: number) =>
+  crypto.getRandomValues(new Uint8Array(length));
+
+export const isEncryptedValue = (value: string | null): boolean =>
+  !!value && value.startsWith(ENCRYPTED_PREFIX);
+
+function importKey(raw: Uint8Array): Promise<CryptoKey> {
+  return crypto.subtle.importKey("raw", raw, "AES-GCM", false, [
+    "encrypt",
+    "decrypt",
+  ]);
+}
+
+async function deriveKeyBytes(
+  passphrase: string,
+  salt: Uint8Array
+): Promise<Uint8Array> {
+  const material = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveBits"]
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", hash: "SHA-256", salt, iterations: PBKDF2_ITERATIONS },
+    material,
+    256
+  );
+  return new Uint8Array(bits);
+}
+
+async function encryptWith(key: CryptoKey, plaintext: string): Promise<string> {
+  const iv = randomBytes(IV_LENGTH);
+  const ciphertext = new Uint8Array(
+    await crypto.subtle.encrypt(
+      { name: "AES-GCM", iv },
+      key,
+      new TextEncoder().encode(plaintext)
+    )
+  );
+  const payload = new Uint8Array(IV_LENGTH + ciphertext.length);
+  payload.set(iv);
+  payload.set(ciphertext, IV_LENGTH);
+  return ENCRYPTED_PREFIX + toBase64(payload);
+}
+
+async function decryptWith(key: CryptoKey, value: string): Promise<string> {
+  const payload = fromBase64(value.slice(ENCRYPTED_PREFIX.length));
+  const plaintext = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: payload.slice(0, IV_LENGTH) },
+    key,
+    payload.slice(IV_LENGTH)
+  );
+  return new TextDecoder().decode(plaintext);
+}
+
+async function getEncryptionMeta(): Promise<DbEncryptionMeta | null> {
+  const db = await getDatabase();
+  const rows = await db.select<DbEncryptionMeta[]>(
+    "SELECT key_source, salt, verifier FROM database_encryption WHERE id = 1"
+  );
+  return rows[0] ?? null;
+}
+
+/**
+ * Keeps the key for this window if it decrypts the verifier
+ */
+async function activateKey(
+  raw: Uint8Array,
+  meta: DbEncryptionMeta
+): Promise<CryptoKey | null> {
+  try {
+    const key = await importKey(raw);
+    if ((await decryptWith(key, meta.verifier)) !== KEY_VERIFIER_TEXT) {
+      return null;
+    }
+    unlockedKey = { verifier: meta.verifier, key };
+  } catch {
+    return null;
+  }
+
+  // Locking in one window locks every window
+  if (!lockListener) {
+    lockListener = listen<{ locked: boolean }>("databaseLockChanged", (e) => {
+      if (e.payload.locked) unlockedKey = null;
+    });
+  }
+  return unlockedKey.key;
+}
+
+/**
+ * Key for the current metadata: this window's key, the session key another
+ * window unlocked, or the keychain key
+ */
+async function loadKey(meta: DbEncryptionMeta): Promise<CryptoKey | null> {
+  if (unlockedKey?.verifier === meta.verifier) return unlockedKey.key;
+
+  const sessionKey = await invoke<string | null>(
+    "get_database_session_key"
+  ).catch(() => null);
+  if (sessionKey) {
+    const key = await activateKey(fromBase64(sessionKey), meta);
+    if (key) return key;
+  }
+
+  if (meta.key_source === "keychain") {
+    const stored = await getItem(KEYCHAIN_ITEM).catch(() => null);
+    if (stored) return activateKey(fromBase64(stored), meta);
+  }
+
+  return null;
+}
+
+/**
+ * Cipher for one database operation. Writes pass `forWrite` so a locked
+ * database fails before anything is changed.
+ */
+export async function getFieldCipher(
+  options: { forWrite?: boolean } = {}
+): Promise<FieldCipher> {
+  const meta = await getEncryptionMeta();
+  const key = meta ? await loadKey(meta) : null;
+  if (meta && !key && options.forWrite) {
+    throw new DatabaseLockedError();
+  }
+
+  return {
+    enabled: !!meta,
+    encrypt: async (value) => {
+      if (!meta || value === null || isEncryptedValue(value)) return value;
+      if (!key) throw new DatabaseLockedError();
+      return (await encryptWith(key, value)) as typeof value;
+    },
+    decrypt: async (value) => {
+      if (value === null || !isEncryptedValue(value)) return value;
+      if (!key) throw new DatabaseLockedError();
+      return (await decryptWith(key, value)) as typeof value;
+    },
+  };
+}
+
+export async function getDatabaseEncryptionStatus(): Promise<DatabaseEncryptionStatus> {
+  const meta = await getEncryptionMeta();
+  if (!meta) return { enabled: false, locked: false };
+
+  return {
+    enabled: true,
+    keySource: meta.key_source,
+    locked: !(await loadKey(meta)),
+  };
+}
+
+/**
+ * Unlock a passphrase-protected database for all windows of this session.
+ * Returns false for a wrong passphrase.
+ */
+export async function unlockDatabase(passphrase: string): Promise<boolean> {
+  const meta = await getEncryptionMeta();
+  if (!meta) return true;
+  if (meta.key_source !== "passphrase" || !meta.salt) {
+    return !!(await loadKey(meta));
+  }
+
+  const raw = await deriveKeyBytes(passphrase, fromBase64(meta.salt));
+  if (!(await activateKey(raw, meta))) return false;
+
+  await invoke("set_database_session_key", { key: toBase64(raw) });
+  await emit("databaseLockChanged", { locked: false });
+  return true;
+}
+
+/**
+ * Forget the unlocked key in every window until the passphrase is entered again
+ */
+export async function lockDatabase(): Promise<void> {
+  unlockedKey = null;
+  await invoke("clear_database_session_key");
+  await emit("databaseLockChanged", { locked: true });
+}
+
+/**
+ * Rewrites every stored conversation field with `transform`. Message updates
+ * bump `updated_at` through the timestamp trigger, so it is restored after.
+ */
+async function convertStoredData(
+  transform: (value: string) => Promise<string>,
+  onProgress?: (done: number, total: number) => void
+): Promise<void> {
+  const db = await getDatabase();
+  const conversations = await db.select<
+    {
+      id: string;
+      title: string;
+      updated_at: number;
+      speaker_names: string | null;
+      summary: string | null;
+    }[]
+  >("SELECT id, title, updated_at, speaker_names, summary FROM conversations");
+
+  const transformNullable = async (value: string | null) =>
+    value === null ? null : transform(value);
+
+  for (const [index, conv] of conversations.entries()) {
+    const messages = await db.select<
+      { id: string; content: string; attached_files: string | null }[]
+    >(
+      "SELECT id, content, attached_files FROM messages WHERE conversation_id = ?",
+      [conv.id]
+    );
+
+    for (const msg of messages) {
+      const content = await transform(msg.content);
+      const attachedFiles = await transformNullable(msg.attached_files);
+      if (content !== msg.content || attachedFiles !== msg.attached_files) {
+        await db.execute(
+          "UPDATE messages SET content = ?, attached_files = ? WHERE id = ?",
+          [content, attachedFiles, msg.id]
+        );
+      }
+    }
+
+    await db.execute(
+      "UPDATE conversations SET title = ?, speaker_names = ?, summary = ?, updated_at = ? WHERE id = ?",
+      [
+        await transform(conv.title),
+        await transformNullable(conv.speaker_names),
+        await transformNullable(conv.summary),
+        conv.updated_at,
+        conv.id,
+      ]
+    );
+
+    onProgress?.(index + 1, conversations.length);
+  }
+
+  await purgeReplacedData();
+}
+
+/**
+ * Drops what the rewritten values leave behind: FTS5 only marks replaced
+ * terms as deleted, and freed pages keep their old bytes until VACUUM
+ * rewrites the file. VACUUM can renumber the message rowids the index is
+ * keyed by, so it is rebuilt once more after. The old pages also sit in the
+ * write-ahead log until a checkpoint copies it back and truncates it.
+ */
+async function purgeReplacedData(): Promise<void> {
+  const db = await getDatabase();
+  await db.execute("INSERT INTO messages_fts(messages_fts) VALUES('rebuild')");
+  await db.execute("VACUUM");
+  await db.execute("INSERT INTO messages_fts(messages_fts) VALUES('rebuild')");
+  await db.execute("PRAGMA wal_checkpoint(TRUNCATE)");
+}
+
+/**
+ * Turn on encryption of conversation titles, messages, attachments, speaker
+ * names and summaries, and encrypt everything already stored. Running it
+ * again on an encrypted, unlocked database finishes an interrupted run.
+ */
+export async function enableDatabaseEncryption(
+  keySource: DatabaseKeySource,
+  passphrase?: string,
+  onProgress?: (done: number, total: number) => void
+): Promise<void> {
+  const db = await getDatabase();
+  let meta = await getEncryptionMeta();
+  let key: CryptoKey | null;
+
+  if (meta) {
+    key = await loadKey(meta);
+    if (!key) throw new DatabaseLockedError();
+  } else {
+    let raw: Uint8Array;
+    let salt: Uint8Array | null = null;
+    if (keySource === "passphrase") {
+      if (!passphrase || passphrase.length < MIN_DATABASE_PASSPHRASE_LENGTH) {
+        throw new Error(
+          `The passphrase must have at least ${MIN_DATABASE_PASSPHRASE_LENGTH} characters.`
+        );
+      }
+      salt = randomBytes(16);
+      raw = await deriveKeyBytes(passphrase, salt);
+    } else {
+      raw = randomBytes(32);
+      await saveItem(KEYCHAIN_ITEM, toBase64(raw));
+    }
+
+    key = await importKey(raw);
+    meta = {
+      key_source: keySource,
+      salt: salt ? toBase64(salt) : null,
+      verifier: await encryptWith(key, KEY_VERIFIER_TEXT),
+    };
+    await db.execute(
+      "INSERT INTO database_encryption (id, key_source, salt, verifier, created_at) VALUES (1, ?, ?, ?, ?)",
+      [meta.key_source, meta.salt, meta.verifier, Date.now()]
+    );
+    await activateKey(raw, meta);
+    await invoke("set_database_session_key", { key: toBase64(raw) });
+  }
+
+  const activeKey = key;
+  await convertStoredData(
+    async (value) =>
+      isEncryptedValue(value) ? value : encryptWith(activeKey, value),
+    onProgress
+  );
+  await emit("databaseLockChanged", { locked: false });
+}
+
+/**
+ * Decrypt everything back to plain text and forget the key
+ */
+export async function disableDatabaseEncryption(
+  onProgress?: (done: number, total: number) => void
+): Promise<void> {
+  const meta = await getEncryptionMeta();
+  if (!meta) return;
+  const key = await loadKey(meta);
+  if (!key) throw new DatabaseLockedError();
+
+  await convertStoredData(
+    async (value) => (isEncryptedValue(value) ? decryptWith(key, value) : value),
+    onProgress
+  );
+
+  const db = await getDatabase();
+  await db.execute("DELETE FROM database_encryption");
+  if (meta.key_source === "keychain") {
+    await removeItem(KEYCHAIN_ITEM).catch((error) =>
+      console.error("Failed to remove database key from keychain:", error)
+    );
+  }
+  unlockedKey = null;
+  await invoke("clear_database_session_key");
+  await emit("databaseLockChanged", { locked: false });
+}
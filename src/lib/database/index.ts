@@ -1,3 +1,6 @@
 export * from "./config";
 export * from "./system-prompt.action";
 export * from "./chat-history.action";
+export * from "./encryption";
+export * from "./retention.action";
+export * from "./context-documents.action";
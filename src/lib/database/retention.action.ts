@@ -0,0 +1,116 @@
+import { emit } from "@tauri-apps/api/event";
+import { getDatabase } from "./config";
+import type { RetentionPurgeResult, RetentionSettings } from "@/types";
+import {
+  getRetentionSettings,
+  purgeWebhookDeliveries,
+  setLastRetentionPurge,
+} from "@/lib";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toCutoff = (days: number | null, now: number): number | null =>
+  days && days > 0 ? now - days * DAY_MS : null;
+
+/**
+ * Apply the retention rules to the chat history. Conversation rules go by
+ * the last activity of a conversation, attachments by the age of their
+ * message. Conversations left with neither messages nor a summary after
+ * their transcript is removed are deleted as well.
+ */
+export async function applyRetentionPolicy(
+  settings: RetentionSettings,
+  now: number = Date.now()
+): Promise<RetentionPurgeResult> {
+  const db = await getDatabase();
+  const pinnedFilter = settings.excludePinned ? " AND pinned = 0" : "";
+  const result: RetentionPurgeResult = {
+    deletedConversations: 0,
+    deletedTranscriptMessages: 0,
+    purgedAttachments: 0,
+    ranAt: now,
+  };
+
+  try {
+    const conversationCutoff = toCutoff(
+      settings.deleteConversationsAfterDays,
+      now
+    );
+    if (conversationCutoff !== null) {
+      // Messages, tags and search entries go with the conversation
+      const deleted = await db.execute(
+        `DELETE FROM conversations WHERE updated_at < ?${pinnedFilter}`,
+        [conversationCutoff]
+      );
+      result.deletedConversations += deleted.rowsAffected;
+    }
+
+    const transcriptCutoff = toCutoff(settings.deleteTranscriptsAfterDays, now);
+    if (transcriptCutoff !== null) {
+      const deleted = await db.execute(
+        `DELETE FROM messages WHERE source IS NOT NULL AND conversation_id IN
+           (SELECT id FROM conversations WHERE updated_at < ?${pinnedFilter})`,
+        [transcriptCutoff]
+      );
+      result.deletedTranscriptMessages += deleted.rowsAffected;
+
+      const emptied = await db.execute(
+        `DELETE FROM conversations WHERE updated_at < ?${pinnedFilter}
+           AND summary IS NULL
+           AND NOT EXISTS (SELECT 1 FROM messages m WHERE m.conversation_id = conversations.id)`,
+        [transcriptCutoff]
+      );
+      result.deletedConversations += emptied.rowsAffected;
+    }
+
+    const attachmentCutoff = toCutoff(settings.purgeAttachmentsAfterDays, now);
+    if (attachmentCutoff !== null) {
+      // The message update trigger moves updated_at, so it is restored after
+      const affected = await db.select<{ id: string; updated_at: number }[]>(
+        `SELECT id, updated_at FROM conversations WHERE EXISTS
+           (SELECT 1 FROM messages m WHERE m.conversation_id = conversations.id
+              AND m.attached_files IS NOT NULL AND m.timestamp < ?)${pinnedFilter}`,
+        [attachmentCutoff]
+      );
+
+      for (const conv of affected) {
+        const purged = await db.execute(
+          "UPDATE messages SET attached_files = NULL WHERE conversation_id = ? AND attached_files IS NOT NULL AND timestamp < ?",
+          [conv.id, attachmentCutoff]
+        );
+        await db.execute("UPDATE conversations SET updated_at = ? WHERE id = ?", [
+          conv.updated_at,
+          conv.id,
+        ]);
+        result.purgedAttachments += purged.rowsAffected;
+      }
+    }
+
+    // Queued and failed webhook deliveries carry transcript text as well
+    const deliveryCutoff = Math.max(
+      conversationCutoff ?? -Infinity,
+      transcriptCutoff ?? -Infinity
+    );
+    if (deliveryCutoff > -Infinity) {
+      purgeWebhookDeliveries(deliveryCutoff);
+    }
+  } catch (error) {
+    console.error("Failed to apply retention policy:", error);
+    throw error;
+  }
+
+  return result;
+}
+
+/**
+ * Purge with the saved (or given) settings, remember the result and tell
+ * every window that the history may have changed
+ */
+export async function runRetentionPurge(
+  settings: RetentionSettings = getRetentionSettings()
+): Promise<RetentionPurgeResult> {
+  const result = await applyRetentionPolicy(settings);
+  setLastRetentionPurge(result);
+  await emit("retentionPurged", result);
+  return result;
+}
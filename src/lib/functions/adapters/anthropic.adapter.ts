@@ -0,0 +1,100 @@
+import { ProviderAdapter } from "@/types";
+import {
+  getConversationTurns,
+  getErrorMessage,
+  normalizeTokenUsage,
+  parseEventJson,
+} from "./helpers";
+
+const DEFAULT_MAX_TOKENS = 1024;
+
+/**
+ * Anthropic Messages API. Streaming text arrives as `content_block_delta`
+ * events carrying `text_delta` payloads; `message_stop` ends the turn.
+ */
+export const anthropicAdapter: ProviderAdapter = {
+  id: "anthropic",
+
+  buildRequest: ({
+    url,
+    headers,
+    body,
+    systemPrompt,
+    history,
+    userMessage,
+    imagesBase64,
+    stream,
+  }) => {
+    const userContent = [
+      { type: "text", text: userMessage },
+      ...imagesBase64.map((img) => ({
+        type: "image",
+        source: { type: "base64", media_type: "image/png", data: img },
+      })),
+    ];
+
+    const messages = [
+      ...getConversationTurns(history).map((msg) => ({
+        role: msg.role,
+        content: msg.text,
+      })),
+      { role: "user", content: userContent },
+    ];
+
+    const { system: _system, ...rest } = body;
+
+    return {
+      url,
+      headers,
+      body: {
+        ...rest,
+        ...(systemPrompt ? { system: systemPrompt } : {}),
+        max_tokens: rest.max_tokens || DEFAULT_MAX_TOKENS,
+        messages,
+        stream,
+      },
+    };
+  },
+
+  getStreamFormat: () => "sse",
+
+  parseStreamEvent: ({ event, data }) => {
+    const json = parseEventJson(data);
+    if (!json) return null;
+
+    const type = json.type || event;
+    switch (type) {
+      case "content_block_delta":
+        return json.delta?.type === "text_delta" &&
+          typeof json.delta.text === "string"
+          ? { delta: json.delta.text }
+          : null;
+      case "message_start":
+        return { usage: normalizeTokenUsage(json.message?.usage) };
+      case "message_delta":
+        return { usage: normalizeTokenUsage(json.usage) };
+      case "message_stop":
+        return { done: true };
+      case "error":
+        return { error: getErrorMessage(json) || "Unknown stream error" };
+      default:
+        // content_block_start/stop, ping
+        return null;
+    }
+  },
+
+  parseResponse: (json) => {
+    const error = getErrorMessage(json);
+    if (error) return { error };
+
+    const blocks: any[] = Array.isArray(json?.content) ? json.content : [];
+    return {
+      delta: blocks
+        .filter((block) => block?.type === "text")
+        .map((block) => block.text)
+        .join(""),
+      done: true,
+      usage: normalizeTokenUsage(json?.usage),
+    };
+  },
+};
@@ -0,0 +1,91 @@
+import { ProviderAdapter } from "@/types";
+import {
+  getConversationTurns,
+  getErrorMessage,
+  normalizeTokenUsage,
+  parseEventJson,
+} from "./helpers";
+
+/**
+ * Cohere Chat v2. Streaming uses typed SSE events where text arrives in
+ * `content-delta` under `delta.message.content.text`.
+ */
+export const cohereAdapter: ProviderAdapter = {
+  id: "cohere",
+
+  buildRequest: ({
+    url,
+    headers,
+    body,
+    systemPrompt,
+    history,
+    userMessage,
+    imagesBase64,
+    stream,
+  }) => {
+    const userContent = [
+      { type: "text", text: userMessage },
+      ...imagesBase64.map((img) => ({
+        type: "image_url",
+        image_url: { url: `data:image/png;base64,${img}` },
+      })),
+    ];
+
+    const messages = [
+      ...(systemPrompt ? [{ role: "system", content: systemPrompt }] : []),
+      ...getConversationTurns(history).map((msg) => ({
+        role: msg.role,
+        content: msg.text,
+      })),
+      { role: "user", content: userContent },
+    ];
+
+    // `preamble` is the v1 way to pass the system prompt; v2 rejects it
+    const { preamble: _preamble, ...rest } = body;
+
+    return {
+      url,
+      headers,
+      body: { ...rest, messages, stream },
+    };
+  },
+
+  getStreamFormat: () => "sse",
+
+  parseStreamEvent: ({ event, data }) => {
+    const json = parseEventJson(data);
+    if (!json) return null;
+
+    const type = json.type || event;
+    switch (type) {
+      case "content-delta": {
+        const text = json.delta?.message?.content?.text;
+        return typeof text === "string" ? { delta: text } : null;
+      }
+      case "message-end":
+        return {
+          done: true,
+          usage: normalizeTokenUsage(json.delta?.usage?.tokens),
+        };
+      default: {
+        const error = getErrorMessage(json);
+        return error ? { error } : null;
+      }
+    }
+  },
+
+  parseResponse: (json) => {
+    const error = getErrorMessage(json);
+    if (error) return { error };
+
+    const parts: any[] = json?.message?.content ?? [];
+    return {
+      delta: parts
+        .filter((part) => part?.type === "text")
+        .map((part) => part.text)
+        .join(""),
+      done: true,
+      usage: normalizeTokenUsage(json?.usage?.tokens),
+    };
+  },
+};
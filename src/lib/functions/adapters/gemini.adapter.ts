@@ -0,0 +1,98 @@
+import { ProviderAdapter } from "@/types";
+import {
+  getConversationTurns,
+  getErrorMessage,
+  normalizeTokenUsage,
+  parseEventJson,
+} from "./helpers";
+
+const getCandidateText = (json: any): string => {
+  const parts: any[] = json?.candidates?.[0]?.content?.parts ?? [];
+  return parts
+    .filter((part) => typeof part?.text === "string" && !part.thought)
+    .map((part) => part.text)
+    .join("");
+};
+
+/**
+ * Gemini native `generateContent`. Streaming switches the endpoint to
+ * `streamGenerateContent`, which frames chunks as one JSON array unless the
+ * URL asks for `alt=sse`.
+ */
+export const geminiAdapter: ProviderAdapter = {
+  id: "gemini",
+
+  buildRequest: ({
+    url,
+    headers,
+    body,
+    systemPrompt,
+    history,
+    userMessage,
+    imagesBase64,
+    stream,
+  }) => {
+    const contents = [
+      ...getConversationTurns(history).map((msg) => ({
+        role: msg.role === "assistant" ? "model" : "user",
+        parts: [{ text: msg.text }],
+      })),
+      {
+        role: "user",
+        parts: [
+          { text: userMessage },
+          ...imagesBase64.map((img) => ({
+            inline_data: { mime_type: "image/png", data: img },
+          })),
+        ],
+      },
+    ];
+
+    const { system_instruction: _legacy, systemInstruction: _system, ...rest } =
+      body;
+
+    const requestUrl = stream
+      ? url.replace(":generateContent", ":streamGenerateContent")
+      : url.replace(":streamGenerateContent", ":generateContent");
+
+    return {
+      url: requestUrl,
+      headers,
+      body: {
+        ...rest,
+        ...(systemPrompt
+          ? { systemInstruction: { parts: [{ text: systemPrompt }] } }
+          : {}),
+        contents,
+      },
+    };
+  },
+
+  getStreamFormat: (url) => (/[?&]alt=sse/.test(url) ? "sse" : "json-array"),
+
+  parseStreamEvent: ({ data }) => {
+    const json = parseEventJson(data);
+    if (!json) return null;
+
+    const error = getErrorMessage(json);
+    if (error) return { error };
+
+    // Every chunk carries running totals; the last one is authoritative
+    const usage = normalizeTokenUsage(json.usageMetadata);
+    const text = getCandidateText(json);
+    const finishReason = json.candidates?.[0]?.finishReason;
+    if (!text && !finishReason && !usage) return null;
+
+    return { delta: text || undefined, done: !!finishReason, usage };
+  },
+
+  parseResponse: (json) => {
+    const error = getErrorMessage(json);
+    if (error) return { error };
+    return {
+      delta: getCandidateText(json),
+      done: true,
+      usage: normalizeTokenUsage(json?.usageMetadata),
+    };
+  },
+};
@@ -0,0 +1,95 @@
+import { Message, TokenUsage } from "@/types";
+
+/**
+ * Flattens a history message into plain text. Image parts from earlier turns
+ * are not replayed to the provider.
+ */
+export function getMessageText(content: Message["content"]): string {
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return "";
+  return content
+    .map((part) => (typeof part?.text === "string" ? part.text : ""))
+    .filter(Boolean)
+    .join("\n");
+}
+
+/**
+ * History without system turns (the system prompt is sent separately) and
+ * without empty messages, which most native APIs reject.
+ */
+export function getConversationTurns(
+  history: Message[]
+): { role: "user" | "assistant"; text: string }[] {
+  return history
+    .filter((msg) => msg.role === "user" || msg.role === "assistant")
+    .map((msg) => ({
+      role: msg.role as "user" | "assistant",
+      text: getMessageText(msg.content),
+    }))
+    .filter((msg) => msg.text.trim() !== "");
+}
+
+export function parseEventJson(data: string): any | null {
+  try {
+    return JSON.parse(data);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Extracts a readable message from the common `{ error: { message } }`,
+ * `{ error: "..." }` and `{ message: "..." }` error payloads.
+ */
+export function getErrorMessage(json: any): string | undefined {
+  if (!json || typeof json !== "object") return undefined;
+  const { error } = json;
+  if (typeof error === "string") return error;
+  if (error && typeof error === "object") {
+    return error.message || JSON.stringify(error);
+  }
+  return undefined;
+}
+
+const toCount = (value: unknown): number | undefined =>
+  typeof value === "number" && Number.isFinite(value) ? value : undefined;
+
+/**
+ * Maps the usage shapes of the common APIs (OpenAI `prompt_tokens`,
+ * Anthropic/Cohere `input_tokens`, Gemini `promptTokenCount`, Ollama
+ * `prompt_eval_count`) onto `TokenUsage`. Returns undefined when nothing
+ * recognizable is present.
+ */
+export function normalizeTokenUsage(raw: any): TokenUsage | undefined {
+  if (!raw || typeof raw !== "object") return undefined;
+
+  const promptTokens = toCount(
+    raw.prompt_tokens ??
+      raw.input_tokens ??
+      raw.promptTokenCount ??
+      raw.prompt_eval_count
+  );
+  const completionTokens = toCount(
+    raw.completion_tokens ??
+      raw.output_tokens ??
+      raw.candidatesTokenCount ??
+      raw.eval_count
+  );
+
+  if (promptTokens === undefined && completionTokens === undefined) {
+    return undefined;
+  }
+  return { promptTokens, completionTokens };
+}
+
+/** Later reports win per field; Anthropic splits input and output counts */
+export function mergeTokenUsage(
+  current: TokenUsage | undefined,
+  next: TokenUsage | undefined
+): TokenUsage | undefined {
+  if (!next) return current;
+  return {
+    promptTokens: next.promptTokens ?? current?.promptTokens,
+    completionTokens: next.completionTokens ?? current?.completionTokens,
+  };
+}
@@ -0,0 +1,27 @@
+import { ProviderAdapter, ProviderAdapterId } from "@/types";
+import { openaiAdapter } from "./openai.adapter";
+import { anthropicAdapter } from "./anthropic.adapter";
+import { geminiAdapter } from "./gemini.adapter";
+import { cohereAdapter } from "./cohere.adapter";
+import { ollamaAdapter } from "./ollama.adapter";
+
+export * from "./stream-decoder";
+export { mergeTokenUsage, normalizeTokenUsage } from "./helpers";
+
+const PROVIDER_ADAPTERS: Record<ProviderAdapterId, ProviderAdapter> = {
+  openai: openaiAdapter,
+  anthropic: anthropicAdapter,
+  gemini: geminiAdapter,
+  cohere: cohereAdapter,
+  ollama: ollamaAdapter,
+};
+
+/**
+ * Returns the native adapter for a provider, or undefined when the provider
+ * should go through the generic curl template path.
+ */
+export function getProviderAdapter(
+  id: ProviderAdapterId | undefined
+): ProviderAdapter | undefined {
+  return id ? PROVIDER_ADAPTERS[id] : undefined;
+}
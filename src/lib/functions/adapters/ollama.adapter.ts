@@ -0,0 +1,75 @@
+import { ProviderAdapter } from "@/types";
+import {
+  getConversationTurns,
+  getErrorMessage,
+  normalizeTokenUsage,
+  parseEventJson,
+} from "./helpers";
+
+/**
+ * Ollama native `/api/chat`. Streams newline-delimited JSON objects with the
+ * text in `message.content` and `done: true` on the last line.
+ */
+export const ollamaAdapter: ProviderAdapter = {
+  id: "ollama",
+
+  buildRequest: ({
+    url,
+    headers,
+    body,
+    systemPrompt,
+    history,
+    userMessage,
+    imagesBase64,
+    stream,
+  }) => {
+    const messages = [
+      ...(systemPrompt ? [{ role: "system", content: systemPrompt }] : []),
+      ...getConversationTurns(history).map((msg) => ({
+        role: msg.role,
+        content: msg.text,
+      })),
+      {
+        role: "user",
+        content: userMessage,
+        ...(imagesBase64.length > 0 ? { images: imagesBase64 } : {}),
+      },
+    ];
+
+    return {
+      url,
+      headers,
+      body: { ...body, messages, stream },
+    };
+  },
+
+  getStreamFormat: () => "ndjson",
+
+  parseStreamEvent: ({ data }) => {
+    const json = parseEventJson(data);
+    if (!json) return null;
+
+    const error = getErrorMessage(json);
+    if (error) return { error };
+
+    // Counts are only present on the final `done` line
+    const content = json.message?.content;
+    return {
+      delta: typeof content === "string" && content ? content : undefined,
+      done: !!json.done,
+      usage: json.done ? normalizeTokenUsage(json) : undefined,
+    };
+  },
+
+  parseResponse: (json) => {
+    const error = getErrorMessage(json);
+    if (error) return { error };
+
+    const content = json?.message?.content;
+    return {
+      delta: typeof content === "string" ? content : "",
+      done: true,
+      usage: normalizeTokenUsage(json),
+    };
+  },
+};
@@ -0,0 +1,96 @@
+import { ProviderAdapter } from "@/types";
+import {
+  getConversationTurns,
+  getErrorMessage,
+  normalizeTokenUsage,
+  parseEventJson,
+} from "./helpers";
+
+/**
+ * OpenAI Chat Completions and every compatible endpoint (Groq, Mistral,
+ * xAI, OpenRouter, Perplexity, Gemini/Ollama OpenAI-compat).
+ */
+export const openaiAdapter: ProviderAdapter = {
+  id: "openai",
+
+  buildRequest: ({
+    url,
+    headers,
+    body,
+    systemPrompt,
+    history,
+    userMessage,
+    imagesBase64,
+    stream,
+  }) => {
+    const userContent =
+      imagesBase64.length > 0
+        ? [
+            { type: "text", text: userMessage },
+            ...imagesBase64.map((img) => ({
+              type: "image_url",
+              image_url: { url: `data:image/png;base64,${img}` },
+            })),
+          ]
+        : userMessage;
+
+    const messages = [
+      ...(systemPrompt ? [{ role: "system", content: systemPrompt }] : []),
+      ...getConversationTurns(history).map((msg) => ({
+        role: msg.role,
+        content: msg.text,
+      })),
+      { role: "user", content: userContent },
+    ];
+
+    // OpenAI only reports token usage on streams when asked to
+    const streamOptions =
+      stream && url.includes("api.openai.com") && !body.stream_options
+        ? { stream_options: { include_usage: true } }
+        : {};
+
+    return {
+      url,
+      headers,
+      body: { ...body, messages, stream, ...streamOptions },
+    };
+  },
+
+  getStreamFormat: () => "sse",
+
+  parseStreamEvent: ({ data }) => {
+    if (data.trim() === "[DONE]") return { done: true };
+
+    const json = parseEventJson(data);
+    if (!json) return null;
+
+    const error = getErrorMessage(json);
+    if (error) return { error };
+
+    // The usage chunk comes last with an empty `choices` array
+    const usage = normalizeTokenUsage(json.usage);
+    const choice = json.choices?.[0];
+    if (!choice) return usage ? { usage } : null;
+
+    return {
+      delta:
+        typeof choice.delta?.content === "string"
+          ? choice.delta.content
+          : undefined,
+      done: !!choice.finish_reason,
+      usage,
+    };
+  },
+
+  parseResponse: (json) => {
+    const error = getErrorMessage(json);
+    if (error) return { error };
+
+    const content = json?.choices?.[0]?.message?.content;
+    return {
+      delta: typeof content === "string" ? content : "",
+      done: true,
+      usage: normalizeTokenUsage(json?.usage),
+    };
+  },
+};
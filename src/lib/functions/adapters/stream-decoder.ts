@@ -0,0 +1,188 @@
+import { AdapterStreamFormat, StreamEvent } from "@/types";
+
+export interface StreamDecoder {
+  /** Feed decoded text, returns every event that is now complete */
+  push: (text: string) => StreamEvent[];
+  /** Returns whatever is left once the body has ended */
+  flush: () => StreamEvent[];
+}
+
+/**
+ * Server-Sent Events decoder following the WHATWG framing rules:
+ * events are separated by a blank line, `data:` lines are joined with "\n",
+ * `event:` names the event and lines starting with ":" are comments.
+ */
+function createSseDecoder(): StreamDecoder {
+  let buffer = "";
+  let eventName: string | undefined;
+  let dataLines: string[] = [];
+
+  const dispatch = (events: StreamEvent[]) => {
+    if (dataLines.length > 0) {
+      events.push({ event: eventName, data: dataLines.join("\n") });
+    }
+    eventName = undefined;
+    dataLines = [];
+  };
+
+  const processLine = (line: string, events: StreamEvent[]) => {
+    if (line === "") {
+      dispatch(events);
+      return;
+    }
+    if (line.startsWith(":")) return;
+
+    const colonIndex = line.indexOf(":");
+    const field = colonIndex === -1 ? line : line.slice(0, colonIndex);
+    let value = colonIndex === -1 ? "" : line.slice(colonIndex + 1);
+    if (value.startsWith(" ")) value = value.slice(1);
+
+    if (field === "data") {
+      dataLines.push(value);
+    } else if (field === "event") {
+      eventName = value;
+    }
+  };
+
+  return {
+    push: (text) => {
+      const events: StreamEvent[] = [];
+      buffer += text;
+      const lines = buffer.split(/\r?\n/);
+      buffer = lines.pop() ?? "";
+      for (const line of lines) {
+        processLine(line, events);
+      }
+      return events;
+    },
+    flush: () => {
+      const events: StreamEvent[] = [];
+      if (buffer) {
+        processLine(buffer, events);
+        buffer = "";
+      }
+      dispatch(events);
+      return events;
+    },
+  };
+}
+
+/**
+ * Newline-delimited JSON decoder (Ollama native streaming).
+ */
+function createNdjsonDecoder(): StreamDecoder {
+  let buffer = "";
+
+  const toEvents = (lines: string[]) =>
+    lines
+      .map((line) => line.trim())
+      .filter(Boolean)
+      .map((data) => ({ data }));
+
+  return {
+    push: (text) => {
+      buffer += text;
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
+      return toEvents(lines);
+    },
+    flush: () => {
+      const events = toEvents([buffer]);
+      buffer = "";
+      return events;
+    },
+  };
+}
+
+/**
+ * Decoder for a JSON array streamed element by element (Gemini
+ * `streamGenerateContent` without `alt=sse`). Each top level object inside
+ * the array is emitted as soon as its closing brace arrives. A bare object
+ * body is handled the same way so error payloads are not lost.
+ */
+function createJsonArrayDecoder(): StreamDecoder {
+  let buffer = "";
+  let scanIndex = 0;
+  let depth = 0;
+  let baseDepth = -1;
+  let inString = false;
+  let escaped = false;
+  let objectStart = -1;
+
+  const scan = (): StreamEvent[] => {
+    const events: StreamEvent[] = [];
+
+    for (; scanIndex < buffer.length; scanIndex++) {
+      const char = buffer[scanIndex];
+
+      if (inString) {
+        if (escaped) {
+          escaped = false;
+        } else if (char === "\\") {
+          escaped = true;
+        } else if (char === '"') {
+          inString = false;
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        inString = true;
+      } else if (char === "{" || char === "[") {
+        if (baseDepth === -1) {
+          baseDepth = char === "[" ? 1 : 0;
+        }
+        if (char === "{" && depth === baseDepth) {
+          objectStart = scanIndex;
+        }
+        depth++;
+      } else if (char === "}" || char === "]") {
+        depth--;
+        if (char === "}" && depth === baseDepth && objectStart !== -1) {
+          events.push({ data: buffer.slice(objectStart, scanIndex + 1) });
+          objectStart = -1;
+        }
+      }
+    }
+
+    // Drop consumed text so the buffer only holds the pending object
+    if (objectStart === -1) {
+      buffer = "";
+      scanIndex = 0;
+    } else if (objectStart > 0) {
+      buffer = buffer.slice(objectStart);
+      scanIndex -= objectStart;
+      objectStart = 0;
+    }
+
+    return events;
+  };
+
+  return {
+    push: (text) => {
+      buffer += text;
+      return scan();
+    },
+    flush: () => {
+      const events = scan();
+      buffer = "";
+      scanIndex = 0;
+      objectStart = -1;
+      return events;
+    },
+  };
+}
+
+export function createStreamDecoder(
+  format: AdapterStreamFormat
+): StreamDecoder {
+  switch (format) {
+    case "ndjson":
+      return createNdjsonDecoder();
+    case "json-array":
+      return createJsonArrayDecoder();
+    case "sse":
+    default:
+      return createSseDecoder();
+  }
+}
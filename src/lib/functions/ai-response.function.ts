@@ -5,15 +5,113 @@
   getByPath,
   getStreamingContent,
 } from "./common.function";
-import { MARKDOWN_FORMATTING_INSTRUCTIONS } from "@/config";
-import { Message, TYPE_PROVIDER } from "@/types";
+import {
+  AI_PROVIDERS,
+  MARKDOWN_FORMATTING_INSTRUCTIONS,
+  MAX_RETRY_DELAY_MS,
+  RETRY_BASE_DELAY_MS,
+} from "@/config";
+import {
+  AIProviderAnswer,
+  Message,
+  ProviderAdapter,
+  TokenUsage,
+  TYPE_PROVIDER,
+} from "@/types";
 import { fetch as tauriFetch } from "@tauri-apps/plugin-http";
 import { invoke } from "@tauri-apps/api/core";
 import { listen } from "@tauri-apps/api/event";
 import curl2Json from "@bany/curl-to-json";
 import { shouldUseTalkEchoAPI } from "./talkecho.api";
 import { CHUNK_POLL_INTERVAL_MS } from "../chat-constants";
-import { getResponseSettings, RESPONSE_LENGTHS, LANGUAGES } from "@/lib";
+import {
+  getCustomAiProviders,
+  getFailoverSettings,
+  getOcrSettings,
+  getResponseSettings,
+  getStoredAiProviderVariables,
+  resolveProviderVariables,
+  RESPONSE_LENGTHS,
+  LANGUAGES,
+} from "@/lib";
+import {
+  createStreamDecoder,
+  getProviderAdapter,
+  mergeTokenUsage,
+  normalizeTokenUsage,
+} from "./adapters";
+import { appendScreenshotText, recognizeScreenshotText } from "./ocr.function";
+
+// A request that failed before the provider sent any content, so it can be
+// retried or handed to the next provider without duplicating output
+class ProviderRequestError extends Error {
+  constructor(
+    message: string,
+    readonly retryable: boolean,
+    readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = "ProviderRequestError";
+  }
+}
+
+// Retry-After holds either a number of seconds or an HTTP date
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Rate limits and server errors are worth retrying, other statuses are not
+async function toRequestError(
+  response: Response
+): Promise<ProviderRequestError> {
+  let errorText = "";
+  try {
+    errorText = await response.text();
+  } catch {}
+  return new ProviderRequestError(
+    `API request failed: ${response.status} ${response.statusText}${
+      errorText ? ` - ${errorText}` : ""
+    }`,
+    response.status === 429 || response.status >= 500,
+    parseRetryAfter(response.headers.get("retry-after"))
+  );
+}
+
+const toNetworkError = (error: unknown) =>
+  new ProviderRequestError(
+    `Network error during API request: ${
+      error instanceof Error ? error.message : "Unknown error"
+    }`,
+    true
+  );
+
+// Resolves after `ms`, or early when the request is aborted
+const waitForRetry = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener("abort", done);
+  });
+
+// Usage object of a curl-template response: the configured path, otherwise
+// the OpenAI-style `usage` or Gemini-style `usageMetadata` keys
+function getCurlResponseUsage(
+  json: any,
+  responseUsagePath?: string
+): TokenUsage | undefined {
+  const raw = responseUsagePath
+    ? getByPath(json, responseUsagePath)
+    : json?.usage ?? json?.usageMetadata;
+  return normalizeTokenUsage(raw);
+}
 
 function buildEnhancedSystemPrompt(baseSystemPrompt?: string): string {
   const responseSettings = getResponseSettings();
@@ -162,253 +260,643 @@ async function* fetchTalkEchoAIResponse(params: {
   }
 }
 
-export async function* fetchAIResponse(params: {
-  provider: TYPE_PROVIDER | undefined;
-  selectedProvider: {
-    provider: string;
-    variables: Record<string, string>;
-  };
-  systemPrompt?: string;
-  history?: Message[];
+// Native provider adapter request and stream handling
+async function* fetchAdapterAIResponse(params: {
+  adapter: ProviderAdapter;
+  url: string;
+  method?: string;
+  headers: Record<string, string>;
+  body: Record<string, any>;
+  stream: boolean;
+  systemPrompt: string;
+  history: Message[];
   userMessage: string;
-  imagesBase64?: string[];
+  imagesBase64: string[];
   signal?: AbortSignal;
+  onUsage?: (usage: TokenUsage) => void;
 }): AsyncIterable<string> {
+  const { adapter, method, stream, signal, onUsage } = params;
+
+  const request = adapter.buildRequest({
+    url: params.url,
+    headers: params.headers,
+    body: params.body,
+    systemPrompt: params.systemPrompt,
+    history: params.history,
+    userMessage: params.userMessage,
+    imagesBase64: params.imagesBase64,
+    stream,
+  });
+
+  const isLocalhost =
+    request.url.includes("localhost") || request.url.includes("127.0.0.1");
+  const fetchFunction = isLocalhost ? fetch : tauriFetch;
+
+  let response;
   try {
-    const {
-      provider,
-      selectedProvider,
-      systemPrompt,
-      history = [],
-      userMessage,
-      imagesBase64 = [],
+    response = await fetchFunction(request.url, {
+      method: method || "POST",
+      headers: request.headers,
+      body: method === "GET" ? undefined : JSON.stringify(request.body),
       signal,
-    } = params;
-
-    // Check if already aborted
-    if (signal?.aborted) {
+    });
+  } catch (fetchError) {
+    if (
+      signal?.aborted ||
+      (fetchError instanceof Error && fetchError.name === "AbortError")
+    ) {
       return;
     }
+    throw toNetworkError(fetchError);
+  }
 
-    const enhancedSystemPrompt = buildEnhancedSystemPrompt(systemPrompt);
+  if (!response.ok) {
+    throw await toRequestError(response);
+  }
 
-    // Check if we should use TalkEcho API instead
-    const useTalkEchoAPI = await shouldUseTalkEchoAPI();
-    if (useTalkEchoAPI) {
-      yield* fetchTalkEchoAIResponse({
-        systemPrompt: enhancedSystemPrompt,
-        userMessage,
-        imagesBase64,
-        history,
-        signal,
-      });
+  if (!stream) {
+    let json;
+    try {
+      json = await response.json();
+    } catch (parseError) {
+      yield `Failed to parse non-streaming response: ${
+        parseError instanceof Error ? parseError.message : "Unknown error"
+      }`;
       return;
     }
-    if (!provider) {
-      throw new Error(`Provider not provided`);
-    }
-    if (!selectedProvider) {
-      throw new Error(`Selected provider not provided`);
+    const result = adapter.parseResponse(json);
+    if (result.error) {
+      yield `API error: ${result.error}`;
+      return;
     }
+    if (result.usage) onUsage?.(result.usage);
+    yield result.delta || "";
+    return;
+  }
 
-    let curlJson;
-    try {
-      curlJson = curl2Json(provider.curl);
-    } catch (error) {
-      throw new Error(
-        `Failed to parse curl: ${
-          error instanceof Error ? error.message : "Unknown error"
-        }`
-      );
+  if (!response.body) {
+    yield "Streaming not supported or response body missing";
+    return;
+  }
+
+  const reader = response.body.getReader();
+  const textDecoder = new TextDecoder();
+  const streamDecoder = createStreamDecoder(
+    adapter.getStreamFormat(request.url)
+  );
+  let receivedContent = false;
+  let usage: TokenUsage | undefined;
+
+  while (true) {
+    if (signal?.aborted) {
+      reader.cancel();
+      return;
     }
 
-    const extractedVariables = extractVariables(provider.curl);
-    const requiredVars = extractedVariables.filter(
-      ({ key }) => key !== "SYSTEM_PROMPT" && key !== "TEXT" && key !== "IMAGE"
-    );
-    for (const { key } of requiredVars) {
+    let readResult;
+    try {
+      readResult = await reader.read();
+    } catch (readError) {
       if (
-        !selectedProvider.variables?.[key] ||
-        selectedProvider.variables[key].trim() === ""
+        signal?.aborted ||
+        (readError instanceof Error && readError.name === "AbortError")
       ) {
-        throw new Error(
-          `Missing required variable: ${key}. Please configure it in settings.`
-        );
+        return;
       }
+      yield `Error reading stream: ${
+        readError instanceof Error ? readError.message : "Unknown error"
+      }`;
+      return;
     }
 
-    if (!userMessage) {
-      throw new Error("User message is required");
+    const { done, value } = readResult;
+    const events = done
+      ? streamDecoder.flush()
+      : streamDecoder.push(textDecoder.decode(value, { stream: true }));
+
+    for (const event of events) {
+      const chunk = adapter.parseStreamEvent(event);
+      if (!chunk) continue;
+      if (chunk.error) {
+        reader.cancel();
+        yield `API stream error: ${chunk.error}`;
+        return;
+      }
+      usage = mergeTokenUsage(usage, chunk.usage);
+      if (chunk.delta) {
+        receivedContent = true;
+        yield chunk.delta;
+      }
     }
-    if (imagesBase64.length > 0 && !provider.curl.includes("{{IMAGE}}")) {
+
+    if (done) break;
+  }
+
+  if (usage) onUsage?.(usage);
+
+  if (!receivedContent) {
+    console.warn(
+      `Provider stream (${adapter.id}) ended without any text content`
+    );
+  }
+}
+
+// One request to one provider. Request failures are thrown as
+// ProviderRequestError, failures after content has started are yielded as text.
+async function* fetchProviderResponse(params: {
+  provider: TYPE_PROVIDER;
+  variables: Record<string, string>;
+  systemPrompt: string;
+  history: Message[];
+  userMessage: string;
+  imagesBase64: string[];
+  signal?: AbortSignal;
+  onUsage?: (usage: TokenUsage) => void;
+}): AsyncIterable<string> {
+  const {
+    provider,
+    variables,
+    systemPrompt,
+    history,
+    userMessage,
+    imagesBase64,
+    signal,
+    onUsage,
+  } = params;
+
+  let curlJson;
+  try {
+    curlJson = curl2Json(provider.curl);
+  } catch (error) {
+    throw new Error(
+      `Failed to parse curl: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`
+    );
+  }
+
+  const extractedVariables = extractVariables(provider.curl);
+  const requiredVars = extractedVariables.filter(
+    ({ key }) => key !== "SYSTEM_PROMPT" && key !== "TEXT" && key !== "IMAGE"
+  );
+  for (const { key } of requiredVars) {
+    if (!variables?.[key] || variables[key].trim() === "") {
       throw new Error(
-        `Provider ${provider?.id ?? "unknown"} does not support image input`
+        `Missing required variable: ${key}. Please configure it in settings.`
       );
     }
+  }
 
-    let bodyObj: any = curlJson.data
-      ? JSON.parse(JSON.stringify(curlJson.data))
-      : {};
-    const messagesKey = Object.keys(bodyObj).find((key) =>
-      ["messages", "contents", "conversation", "history"].includes(key)
+  if (!userMessage) {
+    throw new Error("User message is required");
+  }
+  if (imagesBase64.length > 0 && !provider.curl.includes("{{IMAGE}}")) {
+    throw new Error(
+      `Provider ${provider?.id ?? "unknown"} does not support image input`
     );
+  }
 
-    if (messagesKey && Array.isArray(bodyObj[messagesKey])) {
-      const finalMessages = buildDynamicMessages(
-        bodyObj[messagesKey],
-        history,
-        userMessage,
-        imagesBase64
+  const allVariables = {
+    ...Object.fromEntries(
+      Object.entries(variables).map(([key, value]) => [
+        key.toUpperCase(),
+        value,
+      ])
+    ),
+    SYSTEM_PROMPT: systemPrompt || "",
+  };
+
+  let url = deepVariableReplacer(curlJson.url || "", allVariables);
+
+  const headers = deepVariableReplacer(curlJson.header || {}, allVariables);
+  headers["Content-Type"] = "application/json";
+
+  // Native adapters build the body themselves; the curl only supplies
+  // endpoint, auth headers and extra body fields (model, max_tokens, ...)
+  const adapter = getProviderAdapter(provider.adapter);
+  if (adapter) {
+    yield* fetchAdapterAIResponse({
+      adapter,
+      url,
+      method: curlJson.method,
+      headers,
+      body: deepVariableReplacer(curlJson.data || {}, allVariables),
+      stream: !!provider.streaming,
+      systemPrompt,
+      history,
+      userMessage,
+      imagesBase64,
+      signal,
+      onUsage,
+    });
+    return;
+  }
+
+  let bodyObj: any = curlJson.data
+    ? JSON.parse(JSON.stringify(curlJson.data))
+    : {};
+  const messagesKey = Object.keys(bodyObj).find((key) =>
+    ["messages", "contents", "conversation", "history"].includes(key)
+  );
+
+  if (messagesKey && Array.isArray(bodyObj[messagesKey])) {
+    const finalMessages = buildDynamicMessages(
+      bodyObj[messagesKey],
+      history,
+      userMessage,
+      imagesBase64
+    );
+    bodyObj[messagesKey] = finalMessages;
+  }
+
+  bodyObj = deepVariableReplacer(bodyObj, allVariables);
+
+  if (provider?.streaming) {
+    if (typeof bodyObj === "object" && bodyObj !== null) {
+      const streamKey = Object.keys(bodyObj).find(
+        (k) => k.toLowerCase() === "stream"
       );
-      bodyObj[messagesKey] = finalMessages;
+      if (streamKey) {
+        bodyObj[streamKey] = true;
+      } else {
+        bodyObj.stream = true;
+      }
     }
+  }
 
-    const allVariables = {
-      ...Object.fromEntries(
-        Object.entries(selectedProvider.variables).map(([key, value]) => [
-          key.toUpperCase(),
-          value,
-        ])
-      ),
-      SYSTEM_PROMPT: enhancedSystemPrompt || "",
-    };
+  // Always use tauriFetch to avoid CORS issues, except for localhost during development
+  const isLocalhost = url?.includes("localhost") || url?.includes("127.0.0.1");
+  const fetchFunction = isLocalhost ? fetch : tauriFetch;
 
-    bodyObj = deepVariableReplacer(bodyObj, allVariables);
-    let url = deepVariableReplacer(curlJson.url || "", allVariables);
+  let response;
+  try {
+    response = await fetchFunction(url, {
+      method: curlJson.method || "POST",
+      headers,
+      body: curlJson.method === "GET" ? undefined : JSON.stringify(bodyObj),
+      signal,
+    });
+  } catch (fetchError) {
+    // Check if aborted
+    if (
+      signal?.aborted ||
+      (fetchError instanceof Error && fetchError.name === "AbortError")
+    ) {
+      return; // Silently return on abort
+    }
+    throw toNetworkError(fetchError);
+  }
 
-    const headers = deepVariableReplacer(curlJson.header || {}, allVariables);
-    headers["Content-Type"] = "application/json";
+  if (!response.ok) {
+    throw await toRequestError(response);
+  }
 
-    if (provider?.streaming) {
-      if (typeof bodyObj === "object" && bodyObj !== null) {
-        const streamKey = Object.keys(bodyObj).find(
-          (k) => k.toLowerCase() === "stream"
-        );
-        if (streamKey) {
-          bodyObj[streamKey] = true;
-        } else {
-          bodyObj.stream = true;
-        }
-      }
+  if (!provider?.streaming) {
+    let json;
+    try {
+      json = await response.json();
+    } catch (parseError) {
+      yield `Failed to parse non-streaming response: ${
+        parseError instanceof Error ? parseError.message : "Unknown error"
+      }`;
+      return;
     }
+    const content = getByPath(json, provider?.responseContentPath || "") || "";
+    const usage = getCurlResponseUsage(json, provider?.responseUsagePath);
+    if (usage) onUsage?.(usage);
+    yield content;
+    return;
+  }
+
+  if (!response.body) {
+    yield "Streaming not supported or response body missing";
+    return;
+  }
 
-    // Always use tauriFetch to avoid CORS issues, except for localhost during development
-    const isLocalhost = url?.includes("localhost") || url?.includes("127.0.0.1");
-    const fetchFunction = isLocalhost ? fetch : tauriFetch;
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let streamUsage: TokenUsage | undefined;
+
+  while (true) {
+    // Check if aborted
+    if (signal?.aborted) {
+      reader.cancel();
+      return;
+    }
 
-    let response;
+    let readResult;
     try {
-      response = await fetchFunction(url, {
-        method: curlJson.method || "POST",
-        headers,
-        body: curlJson.method === "GET" ? undefined : JSON.stringify(bodyObj),
-        signal,
-      });
-    } catch (fetchError) {
+      readResult = await reader.read();
+    } catch (readError) {
       // Check if aborted
       if (
         signal?.aborted ||
-        (fetchError instanceof Error && fetchError.name === "AbortError")
+        (readError instanceof Error && readError.name === "AbortError")
       ) {
         return; // Silently return on abort
       }
-      yield `Network error during API request: ${
-        fetchError instanceof Error ? fetchError.message : "Unknown error"
+      yield `Error reading stream: ${
+        readError instanceof Error ? readError.message : "Unknown error"
       }`;
       return;
     }
+    const { done, value } = readResult;
+    if (done) {
+      if (streamUsage) onUsage?.(streamUsage);
+      break;
+    }
 
-    if (!response.ok) {
-      let errorText = "";
-      try {
-        errorText = await response.text();
-      } catch {}
-      yield `API request failed: ${response.status} ${response.statusText}${
-        errorText ? ` - ${errorText}` : ""
-      }`;
+    // Check if aborted before processing
+    if (signal?.aborted) {
+      reader.cancel();
       return;
     }
 
-    if (!provider?.streaming) {
-      let json;
-      try {
-        json = await response.json();
-      } catch (parseError) {
-        yield `Failed to parse non-streaming response: ${
-          parseError instanceof Error ? parseError.message : "Unknown error"
-        }`;
-        return;
+    buffer += decoder.decode(value, { stream: true });
+
+    const lines = buffer.split("\n");
+    buffer = lines.pop() || "";
+    for (const line of lines) {
+      if (line.startsWith("data:")) {
+        const trimmed = line.substring(5).trim();
+        if (!trimmed || trimmed === "[DONE]") continue;
+        try {
+          const parsed = JSON.parse(trimmed);
+          streamUsage = mergeTokenUsage(
+            streamUsage,
+            getCurlResponseUsage(parsed, provider?.responseUsagePath)
+          );
+          const delta = getStreamingContent(
+            parsed,
+            provider?.responseContentPath || ""
+          );
+          if (delta) {
+            yield delta;
+          }
+        } catch (e) {
+          // Ignore parsing errors for partial JSON chunks
+        }
       }
-      const content =
-        getByPath(json, provider?.responseContentPath || "") || "";
-      yield content;
-      return;
     }
+  }
+}
+
+// Fails with a ProviderRequestError when the provider has not started
+// answering within the timeout; once it has, the answer may take as long as
+// it needs
+async function* fetchWithTimeout(
+  params: Parameters<typeof fetchProviderResponse>[0],
+  timeoutSeconds: number
+): AsyncIterable<string> {
+  const { signal } = params;
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  signal?.addEventListener("abort", abort);
+
+  let timedOut = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  if (timeoutSeconds > 0) {
+    timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutSeconds * 1000);
+  }
+
+  try {
+    for await (const chunk of fetchProviderResponse({
+      ...params,
+      signal: controller.signal,
+    })) {
+      clearTimeout(timer);
+      yield chunk;
+    }
+    if (timedOut) {
+      throw new ProviderRequestError(
+        `No response after ${timeoutSeconds}s`,
+        false
+      );
+    }
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", abort);
+  }
+}
+
+interface ProviderChainEntry {
+  provider: TYPE_PROVIDER;
+  providerId: string;
+  /** Fallback variables are as stored, with keyring references */
+  variables: Record<string, string>;
+  timeoutSeconds: number;
+  isFallback: boolean;
+}
+
+// The selected provider, followed by the known fallbacks when failover is on
+function getProviderChain(
+  provider: TYPE_PROVIDER,
+  selectedProvider: { provider: string; variables: Record<string, string> }
+): ProviderChainEntry[] {
+  const settings = getFailoverSettings();
+  const chain: ProviderChainEntry[] = [
+    {
+      provider,
+      providerId: selectedProvider.provider,
+      variables: selectedProvider.variables,
+      timeoutSeconds: settings.timeoutSeconds,
+      isFallback: false,
+    },
+  ];
+  if (!settings.enabled) return chain;
+
+  const allProviders = [...AI_PROVIDERS, ...getCustomAiProviders()];
+  for (const { providerId, timeoutSeconds } of settings.fallbacks) {
+    if (chain.some((entry) => entry.providerId === providerId)) continue;
+    const fallback = allProviders.find((p) => p.id === providerId);
+    if (!fallback) continue;
+    chain.push({
+      provider: fallback,
+      providerId,
+      variables: getStoredAiProviderVariables(providerId),
+      timeoutSeconds,
+      isFallback: true,
+    });
+  }
+  return chain;
+}
+
+export async function* fetchAIResponse(params: {
+  provider: TYPE_PROVIDER | undefined;
+  selectedProvider: {
+    provider: string;
+    variables: Record<string, string>;
+  };
+  systemPrompt?: string;
+  history?: Message[];
+  userMessage: string;
+  imagesBase64?: string[];
+  signal?: AbortSignal;
+  /** Called once with the provider-reported token counts, when available */
+  onUsage?: (usage: TokenUsage) => void;
+  /** Send the system prompt as-is, without the response length, language and formatting instructions */
+  plainSystemPrompt?: boolean;
+  /** Called when a provider starts answering, which may be a fallback */
+  onProvider?: (answer: AIProviderAnswer) => void;
+  /** Called when the request goes out with less than was asked for */
+  onWarning?: (message: string) => void;
+}): AsyncIterable<string> {
+  try {
+    const {
+      provider,
+      selectedProvider,
+      systemPrompt,
+      history = [],
+      userMessage,
+      imagesBase64 = [],
+      signal,
+      onUsage,
+      plainSystemPrompt = false,
+      onProvider,
+      onWarning,
+    } = params;
 
-    if (!response.body) {
-      yield "Streaming not supported or response body missing";
+    // Check if already aborted
+    if (signal?.aborted) {
       return;
     }
 
-    const reader = response.body.getReader();
-    const decoder = new TextDecoder();
-    let buffer = "";
+    const enhancedSystemPrompt = plainSystemPrompt
+      ? systemPrompt || ""
+      : buildEnhancedSystemPrompt(systemPrompt);
 
-    while (true) {
-      // Check if aborted
-      if (signal?.aborted) {
-        reader.cancel();
-        return;
-      }
+    // Check if we should use TalkEcho API instead
+    const useTalkEchoAPI = await shouldUseTalkEchoAPI();
+    if (useTalkEchoAPI) {
+      yield* fetchTalkEchoAIResponse({
+        systemPrompt: enhancedSystemPrompt,
+        userMessage,
+        imagesBase64,
+        history,
+        signal,
+      });
+      return;
+    }
+    if (!provider) {
+      throw new Error(`Provider not provided`);
+    }
+    if (!selectedProvider) {
+      throw new Error(`Selected provider not provided`);
+    }
 
-      let readResult;
+    // With OCR on, screenshots are read locally once: providers get the text,
+    // and the images too when they accept them and that is wanted
+    const ocr = getOcrSettings();
+    let screenshotText: Promise<string> | undefined;
+    let ocrWarned = false;
+    const prepareInput = async (target: TYPE_PROVIDER) => {
+      if (!ocr.enabled || imagesBase64.length === 0) {
+        return { userMessage, imagesBase64 };
+      }
+      const acceptsImages = target.curl.includes("{{IMAGE}}");
+      screenshotText ??= recognizeScreenshotText(imagesBase64, ocr.languages);
       try {
-        readResult = await reader.read();
-      } catch (readError) {
-        // Check if aborted
-        if (
-          signal?.aborted ||
-          (readError instanceof Error && readError.name === "AbortError")
-        ) {
-          return; // Silently return on abort
+        return {
+          userMessage: appendScreenshotText(userMessage, await screenshotText),
+          imagesBase64: acceptsImages && ocr.includeImage ? imagesBase64 : [],
+        };
+      } catch (error) {
+        // Failed recognition degrades the request instead of failing it
+        if (acceptsImages) {
+          console.warn("OCR failed, sending the screenshot only:", error);
+          return { userMessage, imagesBase64 };
         }
-        yield `Error reading stream: ${
-          readError instanceof Error ? readError.message : "Unknown error"
-        }`;
-        return;
-      }
-      const { done, value } = readResult;
-      if (done) break;
-
-      // Check if aborted before processing
-      if (signal?.aborted) {
-        reader.cancel();
-        return;
+        console.warn("OCR failed, sending the message only:", error);
+        if (!ocrWarned) {
+          ocrWarned = true;
+          onWarning?.(
+            `Screenshot text could not be recognized (${
+              error instanceof Error ? error.message : String(error)
+            }), so the message was sent without the screenshot.`
+          );
+        }
+        return { userMessage, imagesBase64: [] };
       }
+    };
 
-      buffer += decoder.decode(value, { stream: true });
-
-      const lines = buffer.split("\n");
-      buffer = lines.pop() || "";
-      for (const line of lines) {
-        if (line.startsWith("data:")) {
-          const trimmed = line.substring(5).trim();
-          if (!trimmed || trimmed === "[DONE]") continue;
-          try {
-            const parsed = JSON.parse(trimmed);
-            const delta = getStreamingContent(
-              parsed,
-              provider?.responseContentPath || ""
-            );
-            if (delta) {
-              yield delta;
+    // Retry rate limits and server errors, then move down the chain
+    const { maxRetries } = getFailoverSettings();
+    const chain = getProviderChain(provider, selectedProvider);
+    let failedAttempts = 0;
+    let lastError: ProviderRequestError | undefined;
+
+    for (const [index, entry] of chain.entries()) {
+      const hasNext = index < chain.length - 1;
+      const variables = entry.isFallback
+        ? await resolveProviderVariables(entry.variables)
+        : entry.variables;
+
+      for (let retry = 0; ; retry++) {
+        let answered = false;
+        try {
+          const input = await prepareInput(entry.provider);
+          for await (const chunk of fetchWithTimeout(
+            {
+              provider: entry.provider,
+              variables,
+              systemPrompt: enhancedSystemPrompt,
+              history,
+              ...input,
+              signal,
+              onUsage,
+            },
+            entry.timeoutSeconds
+          )) {
+            if (!answered) {
+              answered = true;
+              onProvider?.({
+                provider: entry.providerId,
+                variables,
+                isFallback: entry.isFallback,
+                failedAttempts,
+              });
             }
-          } catch (e) {
-            // Ignore parsing errors for partial JSON chunks
+            yield chunk;
           }
+          return;
+        } catch (error) {
+          if (signal?.aborted) return;
+          if (answered) throw error;
+          if (!(error instanceof ProviderRequestError)) {
+            // A misconfigured fallback is skipped, while the selected
+            // provider reports its configuration error as before
+            if (!entry.isFallback) throw error;
+            console.warn(`Skipping fallback ${entry.providerId}:`, error);
+            break;
+          }
+
+          failedAttempts++;
+          lastError = error;
+          console.warn(
+            `AI provider ${entry.providerId} failed:`,
+            error.message
+          );
+          if (!error.retryable || retry >= maxRetries) break;
+
+          const delay = error.retryAfterMs ?? RETRY_BASE_DELAY_MS * 2 ** retry;
+          if (delay > MAX_RETRY_DELAY_MS && hasNext) break;
+          await waitForRetry(Math.min(delay, MAX_RETRY_DELAY_MS), signal);
+          if (signal?.aborted) return;
         }
       }
     }
+
+    if (lastError) {
+      throw new Error(
+        chain.length > 1
+          ? `All AI providers failed. Last error: ${lastError.message}`
+          : lastError.message
+      );
+    }
   } catch (error) {
     throw new Error(
       `Error in fetchAIResponse: ${
@@ -0,0 +1,382 @@
+import { invoke } from "@tauri-apps/api/core";
+import {
+  BACKUP_FORMAT,
+  BACKUP_STORAGE_KEYS,
+  BACKUP_VERSION,
+  MERGED_LIST_STORAGE_KEYS,
+  SECRET_STORAGE_KEYS,
+  STORAGE_KEYS,
+} from "@/config";
+import {
+  BackupArchive,
+  BackupOptions,
+  ChatConversation,
+  RestoreResult,
+  Webhook,
+} from "@/types";
+import {
+  createConversation,
+  createSystemPrompt,
+  getAllConversations,
+  getAllSystemPrompts,
+  getConversationById,
+  organizeConversation,
+} from "../database";
+import {
+  migrateDocumentContextSecrets,
+  isSecretVariable,
+  migrateProviderSecrets,
+  resolveProviderVariables,
+  resolveSecret,
+  safeLocalStorage,
+} from "../storage";
+import { getAppVersion } from "../version";
+
+const SELECTED_MODEL_STORAGE_KEY = "selected_talkecho_model";
+
+const parseJson = (value: string | null): unknown => {
+  if (value === null) return null;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+};
+
+/**
+ * Blanks every string field whose name looks like a secret, at any depth
+ */
+function redactSecrets(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(redactSecrets);
+  if (!value || typeof value !== "object") return value;
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, field]) => [
+      key,
+      typeof field === "string" && isSecretVariable(key)
+        ? ""
+        : redactSecrets(field),
+    ])
+  );
+}
+
+/**
+ * Takes the incoming settings but keeps existing secrets where the backup
+ * has them blanked out
+ */
+function keepExistingSecrets(existing: unknown, incoming: unknown): unknown {
+  if (
+    !existing ||
+    !incoming ||
+    typeof existing !== "object" ||
+    typeof incoming !== "object" ||
+    Array.isArray(incoming)
+  ) {
+    return incoming;
+  }
+
+  const current = existing as Record<string, unknown>;
+  return Object.fromEntries(
+    Object.entries(incoming).map(([key, field]) => [
+      key,
+      field === "" && isSecretVariable(key) && current[key]
+        ? current[key]
+        : keepExistingSecrets(current[key], field),
+    ])
+  );
+}
+
+const withoutQuery = (url: string): string => url.split(/[?#]/)[0];
+
+/**
+ * Webhook credentials sit in headers (Authorization: Bearer ...) and in URL
+ * query strings rather than in fields named like secrets
+ */
+function redactWebhookSecrets(value: unknown): unknown {
+  if (!value || typeof value !== "object" || !("webhooks" in value)) {
+    return value;
+  }
+  const { webhooks } = value as { webhooks: unknown };
+  if (!Array.isArray(webhooks)) return value;
+
+  return {
+    ...value,
+    webhooks: webhooks.map((webhook: Webhook) => ({
+      ...webhook,
+      url: withoutQuery(webhook.url ?? ""),
+      headers: "",
+    })),
+  };
+}
+
+/**
+ * Keeps the headers and the URL of existing webhooks where the backup has
+ * them redacted
+ */
+function keepExistingWebhookSecrets(
+  existing: unknown,
+  incoming: unknown
+): unknown {
+  const current = (existing as { webhooks?: Webhook[] } | null)?.webhooks;
+  const restored = (incoming as { webhooks?: unknown } | null)?.webhooks;
+  if (!Array.isArray(current) || !Array.isArray(restored)) return incoming;
+
+  return {
+    ...(incoming as object),
+    webhooks: restored.map((webhook: Webhook) => {
+      const match = current.find((w) => w.id === webhook.id);
+      if (!match) return webhook;
+      return {
+        ...webhook,
+        url:
+          withoutQuery(match.url) === webhook.url ? match.url : webhook.url,
+        headers: webhook.headers || match.headers,
+      };
+    }),
+  };
+}
+
+/**
+ * Reads provider and embeddings API keys back from the keyring so a backup
+ * without redaction holds the keys themselves rather than keyring references
+ */
+async function withKeyringSecrets(key: string, value: unknown) {
+  if (!value || typeof value !== "object") return value;
+
+  if (
+    key === STORAGE_KEYS.SELECTED_AI_PROVIDER ||
+    key === STORAGE_KEYS.SELECTED_STT_PROVIDER
+  ) {
+    const selected = value as { variables?: Record<string, string> };
+    return selected.variables
+      ? {
+          ...selected,
+          variables: await resolveProviderVariables(selected.variables),
+        }
+      : value;
+  }
+
+  if (
+    key === STORAGE_KEYS.AI_PROVIDER_VARIABLES_BY_ID ||
+    key === STORAGE_KEYS.STT_PROVIDER_VARIABLES_BY_ID
+  ) {
+    const resolved: Record<string, Record<string, string>> = {};
+    for (const [providerId, variables] of Object.entries(value)) {
+      resolved[providerId] = await resolveProviderVariables(variables ?? {});
+    }
+    return resolved;
+  }
+
+  if (key === STORAGE_KEYS.DOCUMENT_CONTEXT_SETTINGS) {
+    const settings = value as { embeddingApiKey?: string };
+    return typeof settings.embeddingApiKey === "string"
+      ? {
+          ...settings,
+          embeddingApiKey: await resolveSecret(settings.embeddingApiKey),
+        }
+      : value;
+  }
+
+  return value;
+}
+
+/**
+ * Adds the backed up list items that are missing from the existing list.
+ * Items with an id are matched by id, anything else by value.
+ */
+function mergeLists(existing: unknown, incoming: unknown): unknown[] {
+  const current = Array.isArray(existing) ? existing : [];
+  if (!Array.isArray(incoming)) return current;
+
+  const identity = (item: unknown) =>
+    item && typeof item === "object" && "id" in item
+      ? `id:${String(item.id)}`
+      : JSON.stringify(item);
+  const seen = new Set(current.map(identity));
+  return [...current, ...incoming.filter((item) => !seen.has(identity(item)))];
+}
+
+/**
+ * Collects settings, system prompts, the selected TalkEcho model and
+ * optionally the chat history into one archive. The license key is left out
+ * because activations are bound to a machine.
+ */
+export async function createBackup({
+  redactSecrets: redact,
+  includeConversations,
+}: BackupOptions): Promise<BackupArchive> {
+  const settings: Record<string, string> = {};
+  for (const key of BACKUP_STORAGE_KEYS) {
+    const value = safeLocalStorage.getItem(key);
+    if (value === null) continue;
+    if (key === STORAGE_KEYS.WEBHOOK_SETTINGS) {
+      settings[key] = redact
+        ? JSON.stringify(redactWebhookSecrets(parseJson(value)))
+        : value;
+      continue;
+    }
+    if (!SECRET_STORAGE_KEYS.includes(key)) {
+      settings[key] = value;
+      continue;
+    }
+    settings[key] = JSON.stringify(
+      redact
+        ? redactSecrets(parseJson(value))
+        : await withKeyringSecrets(key, parseJson(value))
+    );
+  }
+
+  const storage = await invoke<{ selected_talkecho_model?: string | null }>(
+    "secure_storage_get"
+  ).catch(() => null);
+
+  const systemPrompts = await getAllSystemPrompts();
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: Date.now(),
+    appVersion: await getAppVersion(),
+    secretsRedacted: redact,
+    settings,
+    selectedTalkEchoModel: storage?.selected_talkecho_model ?? undefined,
+    systemPrompts: systemPrompts.map(({ name, prompt }) => ({ name, prompt })),
+    conversations: includeConversations ? await getAllConversations() : [],
+  };
+}
+
+/**
+ * Reads and validates a backup file. Throws with a readable message when the
+ * file is not a TalkEcho backup or was made by a newer version.
+ */
+export function parseBackup(text: string): BackupArchive {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not a valid TalkEcho backup.");
+  }
+
+  if (!data || data.format !== BACKUP_FORMAT) {
+    throw new Error("The file is not a valid TalkEcho backup.");
+  }
+  if (typeof data.version !== "number" || data.version > BACKUP_VERSION) {
+    throw new Error(
+      "This backup was made by a newer version of TalkEcho. Update the app to restore it."
+    );
+  }
+  if (
+    !data.settings ||
+    typeof data.settings !== "object" ||
+    Object.values(data.settings).some((value) => typeof value !== "string") ||
+    !Array.isArray(data.systemPrompts) ||
+    !Array.isArray(data.conversations)
+  ) {
+    throw new Error("The backup is incomplete or damaged.");
+  }
+
+  return {
+    ...data,
+    systemPrompts: data.systemPrompts.filter(
+      (p: any) => typeof p?.name === "string" && typeof p?.prompt === "string"
+    ),
+    conversations: data.conversations.filter(
+      (c: any): c is ChatConversation =>
+        typeof c?.id === "string" &&
+        typeof c?.title === "string" &&
+        Array.isArray(c?.messages)
+    ),
+  };
+}
+
+/**
+ * Merges a backup into the current state. Lists such as custom providers
+ * gain the missing entries, other settings are replaced (keeping existing
+ * secrets when the backup has them redacted), system prompts are added
+ * unless an identical one exists, and conversations that already exist are
+ * skipped. Settings take effect after the app is reloaded.
+ */
+export async function restoreBackup(
+  archive: BackupArchive
+): Promise<RestoreResult> {
+  const result: RestoreResult = {
+    settings: 0,
+    systemPrompts: 0,
+    conversations: 0,
+    skippedConversations: 0,
+  };
+
+  for (const [key, value] of Object.entries(archive.settings)) {
+    if (!BACKUP_STORAGE_KEYS.includes(key)) continue;
+
+    const existing = safeLocalStorage.getItem(key);
+    let next = value;
+    if (MERGED_LIST_STORAGE_KEYS.includes(key)) {
+      next = JSON.stringify(mergeLists(parseJson(existing), parseJson(value)));
+    } else if (archive.secretsRedacted && SECRET_STORAGE_KEYS.includes(key)) {
+      next = JSON.stringify(
+        keepExistingSecrets(parseJson(existing), parseJson(value))
+      );
+    } else if (
+      archive.secretsRedacted &&
+      key === STORAGE_KEYS.WEBHOOK_SETTINGS
+    ) {
+      next = JSON.stringify(
+        keepExistingWebhookSecrets(parseJson(existing), parseJson(value))
+      );
+    }
+    safeLocalStorage.setItem(key, next);
+    result.settings++;
+  }
+  // API keys restored from a backup without redaction go to the keyring
+  await migrateProviderSecrets();
+  await migrateDocumentContextSecrets();
+
+  if (archive.selectedTalkEchoModel) {
+    await invoke("secure_storage_save", {
+      items: [
+        {
+          key: SELECTED_MODEL_STORAGE_KEY,
+          value: archive.selectedTalkEchoModel,
+        },
+      ],
+    });
+  }
+
+  const existingPrompts = await getAllSystemPrompts();
+  for (const prompt of archive.systemPrompts) {
+    const exists = existingPrompts.some(
+      (p) => p.name === prompt.name && p.prompt === prompt.prompt
+    );
+    if (exists) continue;
+    await createSystemPrompt(prompt);
+    result.systemPrompts++;
+  }
+
+  for (const conversation of archive.conversations) {
+    if (await getConversationById(conversation.id)) {
+      result.skippedConversations++;
+      continue;
+    }
+    await createConversation(conversation);
+    const { folder, tags, pinned } = conversation;
+    if (folder || tags?.length || pinned) {
+      await organizeConversation(conversation.id, {
+        folder: folder ?? null,
+        tags,
+        pinned,
+      });
+    }
+    result.conversations++;
+  }
+
+  return result;
+}
+
+/**
+ * File name for a backup, e.g. talkecho-backup-2025-01-31.json
+ */
+export function getBackupFilename(createdAt: number): string {
+  const date = new Date(createdAt).toISOString().slice(0, 10);
+  return `${BACKUP_FORMAT}-${date}.json`;
+}
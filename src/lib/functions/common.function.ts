@@ -1,4 +1,5 @@
-import { Message } from "@/types";
+import { Message, TYPE_PROVIDER } from "@/types";
+import curl2Json from "@bany/curl-to-json";
 
 export function getByPath(obj: any, path: string): any {
   if (!path) return obj;
@@ -234,3 +235,17 @@ export function getStreamingContent(
   // Return null if no content is found after trying all paths.
   return null;
 }
+
+/**
+ * Name shown for a provider: the id of a built-in one, the endpoint host of a
+ * custom one
+ */
+export function getProviderLabel(provider: TYPE_PROVIDER): string {
+  if (!provider.isCustom) return provider.id || "Custom Provider";
+  try {
+    const url = curl2Json(provider.curl).url;
+    return url ? new URL(url).host : "Custom Provider";
+  } catch {
+    return "Custom Provider";
+  }
+}
@@ -0,0 +1,390 @@
+import { invoke } from "@tauri-apps/api/core";
+import { fetch as tauriFetch } from "@tauri-apps/plugin-http";
+import {
+  CONTEXT_CHUNK_CHARS,
+  CONTEXT_CHUNK_OVERLAP_CHARS,
+  EMBEDDING_BATCH_SIZE,
+  LOCAL_EMBEDDING_DIMENSIONS,
+  MAX_DOCUMENT_CONTEXT_CHARS,
+} from "@/config";
+import { DocumentContextSettings, RetrievedChunk } from "@/types";
+import {
+  createContextDocument,
+  getContextChunks,
+  getContextChunksVersion,
+  getContextDocumentChunks,
+  replaceContextChunks,
+} from "../database";
+import { getDocumentContextSettings, resolveSecret } from "../storage";
+import { blobToBase64 } from "./common.function";
+import { getErrorMessage } from "./adapters/helpers";
+
+/**
+ * Identifies the vectors an engine produces; chunks embedded with another
+ * model cannot be compared and are skipped until they are embedded again
+ */
+export function getEmbeddingModelId(settings: DocumentContextSettings): string {
+  return settings.embeddingEngine === "local"
+    ? `local:hash-${LOCAL_EMBEDDING_DIMENSIONS}`
+    : `openai:${settings.embeddingModel.trim()}`;
+}
+
+function splitLongText(text: string, maxChars: number): string[] {
+  if (text.length <= maxChars) return [text];
+
+  const parts: string[] = [];
+  let current = "";
+  for (const sentence of text.split(/(?<=[.!?。！？])\s+/)) {
+    for (let i = 0; i < sentence.length; i += maxChars) {
+      const piece = sentence.slice(i, i + maxChars);
+      if (current && current.length + piece.length + 1 > maxChars) {
+        parts.push(current);
+        current = "";
+      }
+      current = current ? `${current} ${piece}` : piece;
+    }
+  }
+  if (current) parts.push(current);
+  return parts;
+}
+
+/**
+ * Packs paragraphs into chunks of about `CONTEXT_CHUNK_CHARS`, starting each
+ * chunk with the end of the previous one so sentences at the border are
+ * found from both sides
+ */
+export function chunkDocumentText(text: string): string[] {
+  const paragraphs = text
+    .replace(/\r\n?/g, "\n")
+    .split(/\n\s*\n/)
+    .map((p) => p.replace(/[ \t]+/g, " ").trim())
+    .filter(Boolean)
+    .flatMap((p) => splitLongText(p, CONTEXT_CHUNK_CHARS));
+
+  const chunks: string[] = [];
+  let current = "";
+  for (const paragraph of paragraphs) {
+    const length = current.length + paragraph.length + 2;
+    if (current && length > CONTEXT_CHUNK_CHARS) {
+      chunks.push(current);
+      const tail = current.slice(-CONTEXT_CHUNK_OVERLAP_CHARS);
+      const wordStart = tail.search(/\s/);
+      current = wordStart >= 0 ? tail.slice(wordStart + 1) : "";
+    }
+    current = current ? `${current}\n\n${paragraph}` : paragraph;
+  }
+  if (current) chunks.push(current);
+  return chunks;
+}
+
+// FNV-1a, enough to spread tokens over the local embedding dimensions
+function hashToken(token: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < token.length; i++) {
+    hash ^= token.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+const CJK_PATTERN =
+  /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+
+// Frequent English and German words that say nothing about the topic
+const STOPWORDS = new Set(
+  (
+    "a an and are as at be but by can could did do does for from had has " +
+    "have he her his how i if in into is it its me my no not of on or our " +
+    "she so that the their them then there these they this to us was we " +
+    "were what when where which who why will with would you your " +
+    "about also just like okay ok yes well tell let lets " +
+    "aber als am an auch auf aus bei bin bis da das dass dem den der des " +
+    "die doch du ein eine einem einen einer es für hat haben ich ihr im " +
+    "in ist ja kann mit nicht noch nur oder sich sie sind so und uns von " +
+    "was wie wir wird zu zum zur"
+  ).split(" ")
+);
+
+// Content words; text without spaces (Chinese, Japanese, Korean) is split
+// into character pairs instead
+function tokenize(text: string): string[] {
+  const words = (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter(
+    (word) => word.length > 1 && !STOPWORDS.has(word)
+  );
+  const tokens: string[] = [];
+  words.forEach((word) => {
+    if (CJK_PATTERN.test(word)) {
+      const chars = Array.from(word);
+      if (chars.length === 1) tokens.push(word);
+      for (let i = 0; i < chars.length - 1; i++) {
+        tokens.push(chars[i] + chars[i + 1]);
+      }
+      return;
+    }
+    tokens.push(word);
+  });
+  return tokens;
+}
+
+function normalize(vector: Float32Array): Float32Array {
+  let norm = 0;
+  for (const value of vector) norm += value * value;
+  norm = Math.sqrt(norm);
+  if (norm > 0) {
+    for (let i = 0; i < vector.length; i++) vector[i] /= norm;
+  }
+  return vector;
+}
+
+/**
+ * Hashed bag of words with sublinear term weights. Finds excerpts sharing
+ * words with the transcript without any model or network access.
+ */
+function embedLocally(text: string): Float32Array {
+  const counts = new Map<number, number>();
+  for (const token of tokenize(text)) {
+    const hash = hashToken(token);
+    const index = hash % LOCAL_EMBEDDING_DIMENSIONS;
+    // The top bit decides the sign so collisions cancel out on average
+    const sign = hash & 0x80000000 ? -1 : 1;
+    counts.set(index, (counts.get(index) ?? 0) + sign);
+  }
+
+  const vector = new Float32Array(LOCAL_EMBEDDING_DIMENSIONS);
+  counts.forEach((count, index) => {
+    vector[index] = Math.sign(count) * (1 + Math.log(Math.abs(count) || 1));
+  });
+  return normalize(vector);
+}
+
+async function embedWithEndpoint(
+  texts: string[],
+  settings: DocumentContextSettings
+): Promise<Float32Array[]> {
+  const baseUrl = settings.embeddingUrl.trim().replace(/\/+$/, "");
+  if (!baseUrl || !settings.embeddingModel.trim()) {
+    throw new Error(
+      "Embeddings endpoint URL and model are missing. Add them in the document settings."
+    );
+  }
+
+  const apiKey = (await resolveSecret(settings.embeddingApiKey)).trim();
+  const vectors: Float32Array[] = [];
+  for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+    const response = await tauriFetch(`${baseUrl}/embeddings`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: settings.embeddingModel.trim(),
+        input: texts.slice(i, i + EMBEDDING_BATCH_SIZE),
+      }),
+    });
+
+    const json = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw new Error(
+        `Embeddings request failed (${response.status}): ${
+          getErrorMessage(json) ?? response.statusText
+        }`
+      );
+    }
+
+    const data: { index: number; embedding: number[] }[] = json?.data ?? [];
+    data
+      .sort((a, b) => a.index - b.index)
+      .forEach((item) =>
+        vectors.push(normalize(Float32Array.from(item.embedding)))
+      );
+  }
+
+  if (vectors.length !== texts.length) {
+    throw new Error("The embeddings endpoint returned an unexpected response");
+  }
+  return vectors;
+}
+
+/**
+ * Unit-length embeddings for the texts, so cosine similarity is a dot
+ * product
+ */
+export async function embedTexts(
+  texts: string[],
+  settings: DocumentContextSettings
+): Promise<Float32Array[]> {
+  return settings.embeddingEngine === "local"
+    ? texts.map(embedLocally)
+    : embedWithEndpoint(texts, settings);
+}
+
+function encodeEmbedding(vector: Float32Array): string {
+  const bytes = new Uint8Array(
+    vector.buffer,
+    vector.byteOffset,
+    vector.byteLength
+  );
+  let binary = "";
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+function decodeEmbedding(encoded: string): Float32Array {
+  const binary = atob(encoded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Float32Array(bytes.buffer);
+}
+
+async function embedChunks(
+  chunks: string[],
+  settings: DocumentContextSettings
+) {
+  const vectors = await embedTexts(chunks, settings);
+  return chunks.map((content, index) => ({
+    content,
+    embedding: encodeEmbedding(vectors[index]),
+  }));
+}
+
+/**
+ * Extract, chunk and embed a PDF, DOCX, Markdown or text file and add it to
+ * the library
+ */
+export async function importContextDocument(
+  file: File,
+  libraryId: number,
+  settings: DocumentContextSettings
+): Promise<void> {
+  const text = await invoke<string>("extract_document_text", {
+    fileName: file.name,
+    dataBase64: await blobToBase64(file),
+  });
+
+  const chunks = chunkDocumentText(text);
+  if (chunks.length === 0) {
+    throw new Error(
+      `No text found in ${file.name}. Scanned PDFs need to be converted to text first.`
+    );
+  }
+
+  await createContextDocument(
+    {
+      library_id: libraryId,
+      name: file.name,
+      size_bytes: file.size,
+      embedding_model: getEmbeddingModelId(settings),
+    },
+    await embedChunks(chunks, settings)
+  );
+}
+
+/**
+ * Embed the chunks of a document again with the current engine and model
+ */
+export async function reembedContextDocument(
+  documentId: number,
+  settings: DocumentContextSettings
+): Promise<void> {
+  const chunks = await getContextDocumentChunks(documentId);
+  await replaceContextChunks(
+    documentId,
+    getEmbeddingModelId(settings),
+    await embedChunks(
+      chunks.map((chunk) => chunk.content),
+      settings
+    )
+  );
+}
+
+// Decoded chunks of the library searched last, reloaded when it changes
+let chunkCache: {
+  key: string;
+  chunks: { documentName: string; content: string; vector: Float32Array }[];
+} | null = null;
+
+async function loadChunks(libraryId: number, modelId: string) {
+  const key = `${libraryId}:${modelId}:${await getContextChunksVersion(
+    libraryId
+  )}`;
+  if (chunkCache?.key !== key) {
+    const rows = await getContextChunks(libraryId, modelId);
+    chunkCache = {
+      key,
+      chunks: rows.map((row) => ({
+        documentName: row.document_name,
+        content: row.content,
+        vector: decodeEmbedding(row.embedding),
+      })),
+    };
+  }
+  return chunkCache.chunks;
+}
+
+/**
+ * The `topK` chunks of the selected library most similar to the query
+ */
+export async function retrieveContextChunks(
+  query: string,
+  settings: DocumentContextSettings
+): Promise<RetrievedChunk[]> {
+  if (settings.libraryId === null || !query.trim()) return [];
+
+  const chunks = await loadChunks(
+    settings.libraryId,
+    getEmbeddingModelId(settings)
+  );
+  if (chunks.length === 0) return [];
+
+  const [queryVector] = await embedTexts([query], settings);
+  return chunks
+    .filter((chunk) => chunk.vector.length === queryVector.length)
+    .map((chunk) => {
+      let score = 0;
+      for (let i = 0; i < queryVector.length; i++) {
+        score += queryVector[i] * chunk.vector[i];
+      }
+      return {
+        documentName: chunk.documentName,
+        content: chunk.content,
+        score,
+      };
+    })
+    .filter((chunk) => chunk.score >= settings.minScore)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, settings.topK);
+}
+
+/**
+ * Adds the document excerpts relevant to a transcript segment to the system
+ * prompt. Retrieval problems leave the prompt unchanged rather than holding
+ * up the answer.
+ */
+export async function withDocumentContext(
+  systemPrompt: string,
+  query: string
+): Promise<string> {
+  const settings = getDocumentContextSettings();
+  if (!settings.enabled || settings.libraryId === null) return systemPrompt;
+
+  try {
+    const chunks = await retrieveContextChunks(query, settings);
+    if (chunks.length === 0) return systemPrompt;
+
+    let excerpts = "";
+    for (const chunk of chunks) {
+      const excerpt = `[${chunk.documentName}]\n${chunk.content}\n\n`;
+      if (excerpts.length + excerpt.length > MAX_DOCUMENT_CONTEXT_CHARS) break;
+      excerpts += excerpt;
+    }
+    if (!excerpts) return systemPrompt;
+
+    return `${systemPrompt}\n\n## Reference documents\nExcerpts from the user's documents that may relate to what was just said. Use them when they help; do not mention them otherwise.\n\n${excerpts.trim()}`;
+  } catch (error) {
+    console.error("Failed to retrieve document context:", error);
+    return systemPrompt;
+  }
+}
@@ -0,0 +1,61 @@
+import { invoke } from "@tauri-apps/api/core";
+import {
+  ControlApiEvent,
+  ControlApiSettings,
+  ControlApiStatus,
+} from "@/types";
+import { getControlApiSettings } from "../storage";
+
+/**
+ * A random 32 byte token in hex, safe to put in a URL
+ */
+export function generateControlApiToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Start the loopback control API, or restart it with new settings
+ */
+export async function startControlApi(
+  settings: ControlApiSettings
+): Promise<ControlApiStatus> {
+  return invoke<ControlApiStatus>("start_control_api", {
+    port: settings.port,
+    token: settings.token,
+  });
+}
+
+export async function stopControlApi(): Promise<void> {
+  await invoke("stop_control_api");
+}
+
+export async function getControlApiStatus(): Promise<ControlApiStatus> {
+  return invoke<ControlApiStatus>("get_control_api_status");
+}
+
+/**
+ * Answer a request the control API forwarded to this window
+ */
+export async function respondToControlApiRequest(
+  id: number,
+  outcome: { result: unknown } | { error: string }
+): Promise<void> {
+  await invoke("control_api_respond", {
+    id,
+    result: "result" in outcome ? outcome.result ?? null : null,
+    error: "error" in outcome ? outcome.error : null,
+  });
+}
+
+/**
+ * Send an event to the clients of the events WebSocket. Does nothing while
+ * the control API is off.
+ */
+export function publishControlApiEvent(event: ControlApiEvent): void {
+  if (!getControlApiSettings().enabled) return;
+
+  invoke("control_api_publish", { event }).catch((error) => {
+    console.error("Failed to publish control API event:", error);
+  });
+}
@@ -1,5 +1,19 @@
 ﻿export * from "./ai-response.function";
 export * from "./stt.function";
+export * from "./stt-stream.function";
 export * from "./common.function";
 export * from "./talkecho.api";
+export * from "./usage.function";
 
+export * from "./speaker.function";
+export * from "./translation.function";
+export * from "./transcript-export.function";
+export * from "./meeting-summary.function";
+export * from "./backup.function";
+export * from "./screenshot.function";
+export * from "./ocr.function";
+export * from "./control-api.function";
+export * from "./live-notes.function";
+export * from "./webhook.function";
+export * from "./context-documents.function";
+export * from "./meeting-profile.function";
@@ -0,0 +1,151 @@
+import { invoke } from "@tauri-apps/api/core";
+import moment from "moment";
+import { ChatConversation, ChatMessage, LiveNotesSettings } from "@/types";
+import { getSpeakerName } from "./speaker.function";
+
+// Characters that are invalid in file names or break Obsidian links
+const UNSAFE_FILE_NAME_CHARS = /[\\/:*?"<>|#^[\]\u0000-\u001f]/g;
+const MAX_FILE_NAME_LENGTH = 120;
+
+// The overlay keeps its own message type, which also has manual prompts
+type LiveNoteMessage = Pick<
+  ChatMessage,
+  "role" | "content" | "timestamp" | "speakerId"
+> & { source?: string };
+type LiveNoteConversation = Pick<
+  ChatConversation,
+  "id" | "title" | "createdAt" | "speakerNames"
+> & { messages?: Pick<LiveNoteMessage, "timestamp">[] };
+
+/**
+ * When the conversation started; conversations without a creation time fall
+ * back to their first message, or to now
+ */
+function getConversationStart(conversation: LiveNoteConversation): number {
+  if (conversation.createdAt) return conversation.createdAt;
+
+  const timestamps = (conversation.messages ?? [])
+    .map((message) => message.timestamp)
+    .filter(Boolean);
+  return timestamps.length ? Math.min(...timestamps) : Date.now();
+}
+
+/**
+ * Fills in the file name template for a conversation and makes the result a
+ * safe `.md` file name
+ */
+export function renderLiveNoteFileName(
+  template: string,
+  conversation: LiveNoteConversation
+): string {
+  const created = moment(getConversationStart(conversation));
+  const name = template
+    .replace(/\{date\}/g, created.format("YYYY-MM-DD"))
+    .replace(/\{time\}/g, created.format("HH-mm"))
+    .replace(/\{title\}/g, conversation.title)
+    .replace(/\{id\}/g, conversation.id)
+    .replace(/\.md$/i, "")
+    .replace(UNSAFE_FILE_NAME_CHARS, "-")
+    .replace(/\s+/g, " ")
+    .replace(/^[\s.]+/, "")
+    .slice(0, MAX_FILE_NAME_LENGTH)
+    .trim();
+
+  return `${name || `TalkEcho ${conversation.id}`}.md`;
+}
+
+/**
+ * YAML front matter and heading written when the note is created
+ */
+export function renderLiveNoteHeader(
+  conversation: LiveNoteConversation,
+  tags: string
+): string {
+  const tagList = tags
+    .split(",")
+    .map((tag) => tag.trim().replace(/\s+/g, "-"))
+    .filter(Boolean);
+
+  const lines = [
+    "---",
+    `title: ${JSON.stringify(conversation.title)}`,
+    `date: ${moment(getConversationStart(conversation)).format()}`,
+    `conversation: ${conversation.id}`,
+    "source: TalkEcho",
+    ...(tagList.length
+      ? ["tags:", ...tagList.map((tag) => `  - ${JSON.stringify(tag)}`)]
+      : []),
+    "---",
+    "",
+    `# ${conversation.title}`,
+    "",
+    "",
+  ];
+  return lines.join("\n");
+}
+
+function getSourceLabel(
+  message: LiveNoteMessage,
+  speakerNames?: Record<string, string>
+): string {
+  if (message.source === "microphone") return "You";
+  if (message.source === "system_audio") {
+    return message.speakerId
+      ? getSpeakerName(message.speakerId, speakerNames)
+      : "Meeting";
+  }
+  return "Prompt";
+}
+
+/**
+ * Markdown for new messages, oldest first: each transcribed segment with its
+ * time and source, followed by the AI response as a callout
+ */
+export function renderLiveNoteEntries(
+  messages: LiveNoteMessage[],
+  conversation: LiveNoteConversation,
+  includeResponses: boolean
+): string {
+  const sorted = [...messages].sort((a, b) => a.timestamp - b.timestamp);
+
+  return sorted
+    .map((message) => {
+      const content = message.content.trim();
+      if (!content) return "";
+
+      if (message.role === "assistant") {
+        if (!includeResponses) return "";
+        const quoted = content.replace(/\n/g, "\n> ");
+        return `> [!note] AI\n> ${quoted}\n\n`;
+      }
+
+      const time = moment(message.timestamp).format("HH:mm:ss");
+      const label = getSourceLabel(message, conversation.speakerNames);
+      return `**${time}** · ${label}\n${content}\n\n`;
+    })
+    .join("");
+}
+
+/**
+ * Append to the note in the configured folder, creating it with its front
+ * matter when it does not exist yet
+ */
+export async function appendLiveNote(
+  settings: LiveNotesSettings,
+  conversation: LiveNoteConversation,
+  fileName: string,
+  content: string
+): Promise<void> {
+  await invoke("append_live_notes", {
+    directory: settings.directory,
+    fileName,
+    header: renderLiveNoteHeader(conversation, settings.tags),
+    content,
+  });
+}
+
+export async function checkLiveNotesDirectory(
+  directory: string
+): Promise<void> {
+  await invoke("check_live_notes_directory", { directory });
+}
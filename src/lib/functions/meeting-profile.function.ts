@@ -0,0 +1,105 @@
+import { DEFAULT_QUICK_ACTIONS, STORAGE_KEYS } from "@/config";
+import { MeetingProfile } from "@/types";
+import { getAllSystemPrompts } from "../database";
+import {
+  getDocumentContextSettings,
+  getResponseSettings,
+  safeLocalStorage,
+  setDocumentContextSettings,
+  setResponseSettings,
+} from "../storage";
+
+// Settings the app context holds in memory, passed in so that a profile
+// saved right after a change does not miss it
+type MeetingProfileCurrentSettings = Pick<
+  MeetingProfile,
+  "id" | "name" | "systemPrompt" | "aiProvider" | "sttProvider" | "sttLanguage"
+>;
+
+const readStoredJson = <T>(key: string, fallback: T): T => {
+  const stored = safeLocalStorage.getItem(key);
+  if (!stored) return fallback;
+
+  try {
+    return JSON.parse(stored) as T;
+  } catch (error) {
+    console.error(`Failed to read ${key}:`, error);
+    return fallback;
+  }
+};
+
+/**
+ * Snapshot of the current prompt, providers, language, response settings,
+ * quick actions and audio context as a profile
+ */
+export function captureMeetingProfile(
+  current: MeetingProfileCurrentSettings
+): MeetingProfile {
+  const selectedPromptId = safeLocalStorage.getItem(
+    STORAGE_KEYS.SELECTED_SYSTEM_PROMPT_ID
+  );
+  const audioContext = readStoredJson<Partial<MeetingProfile["audioContext"]>>(
+    STORAGE_KEYS.SYSTEM_AUDIO_CONTEXT,
+    {}
+  );
+
+  return {
+    ...current,
+    name: current.name.trim(),
+    systemPromptId: selectedPromptId ? Number(selectedPromptId) : null,
+    responseSettings: getResponseSettings(),
+    quickActions: readStoredJson(
+      STORAGE_KEYS.SYSTEM_AUDIO_QUICK_ACTIONS,
+      DEFAULT_QUICK_ACTIONS
+    ),
+    audioContext: {
+      useSystemPrompt: audioContext.useSystemPrompt ?? true,
+      contextContent: audioContext.contextContent ?? "",
+    },
+    documentLibraryId: getDocumentContextSettings().libraryId,
+    updatedAt: Date.now(),
+  };
+}
+
+/**
+ * Writes the stored settings of a profile and returns the system prompt to
+ * use: the current text of its saved prompt, or the text captured with the
+ * profile when that prompt was deleted
+ */
+export async function writeMeetingProfile(
+  profile: MeetingProfile
+): Promise<string> {
+  const savedPrompt =
+    profile.systemPromptId === null
+      ? undefined
+      : (await getAllSystemPrompts()).find(
+          (prompt) => prompt.id === profile.systemPromptId
+        );
+  const systemPrompt = savedPrompt?.prompt ?? profile.systemPrompt;
+
+  safeLocalStorage.setItem(STORAGE_KEYS.SYSTEM_PROMPT, systemPrompt);
+  if (savedPrompt) {
+    safeLocalStorage.setItem(
+      STORAGE_KEYS.SELECTED_SYSTEM_PROMPT_ID,
+      savedPrompt.id.toString()
+    );
+  } else {
+    safeLocalStorage.removeItem(STORAGE_KEYS.SELECTED_SYSTEM_PROMPT_ID);
+  }
+
+  setResponseSettings(profile.responseSettings);
+  safeLocalStorage.setItem(
+    STORAGE_KEYS.SYSTEM_AUDIO_QUICK_ACTIONS,
+    JSON.stringify(profile.quickActions)
+  );
+  safeLocalStorage.setItem(
+    STORAGE_KEYS.SYSTEM_AUDIO_CONTEXT,
+    JSON.stringify(profile.audioContext)
+  );
+  setDocumentContextSettings({
+    ...getDocumentContextSettings(),
+    libraryId: profile.documentLibraryId,
+  });
+
+  return systemPrompt;
+}
@@ -0,0 +1,195 @@
+import { SUMMARY_CHUNK_CHARS } from "@/config";
+import {
+  ActionItem,
+  ChatConversation,
+  MeetingSummary,
+  TokenUsage,
+  TYPE_PROVIDER,
+} from "@/types";
+import { fetchAIResponse } from "./ai-response.function";
+import { buildTranscriptSegments } from "./transcript-export.function";
+import { buildMessageUsage } from "./usage.function";
+
+const SUMMARY_FORMAT_PROMPT = `Reply with a single JSON object and nothing else, in this shape:
+{"overview": "...", "actionItems": [{"task": "...", "owner": "...", "due": "..."}], "decisions": ["..."], "openQuestions": ["..."]}
+Leave out "owner" and "due" when they were not mentioned. Use empty arrays when there is nothing to list.`;
+
+const CHUNK_NOTES_PROMPT = `You take notes on one part of a longer meeting transcript. Write concise plain-text notes of what was discussed, and list every action item (with owner and due date when mentioned), decision and open question in this part. Only use information from the transcript.`;
+
+/**
+ * One line per transcribed segment, with the speaker when it is known.
+ * Translations and AI answers are left out.
+ */
+export function buildMeetingTranscript(conversation: ChatConversation): string {
+  return buildTranscriptSegments(conversation)
+    .map((segment) => {
+      const speaker =
+        segment.source === "microphone" ? "Me" : segment.speakerName;
+      return speaker ? `${speaker}: ${segment.original}` : segment.original;
+    })
+    .join("\n");
+}
+
+/**
+ * Splits a transcript into chunks of at most maxChars, on line boundaries
+ * where possible.
+ */
+export function chunkTranscript(
+  transcript: string,
+  maxChars: number = SUMMARY_CHUNK_CHARS
+): string[] {
+  const chunks: string[] = [];
+  let current = "";
+
+  for (const line of transcript.split("\n")) {
+    // A single very long line is split hard
+    for (let i = 0; i < line.length || i === 0; i += maxChars) {
+      const part = line.slice(i, i + maxChars);
+      if (current && current.length + part.length + 1 > maxChars) {
+        chunks.push(current);
+        current = "";
+      }
+      current = current ? `${current}\n${part}` : part;
+    }
+  }
+  if (current.trim()) chunks.push(current);
+
+  return chunks;
+}
+
+const toStringList = (value: unknown): string[] =>
+  Array.isArray(value)
+    ? value
+        .map((item) => (typeof item === "string" ? item.trim() : ""))
+        .filter(Boolean)
+    : [];
+
+/**
+ * Reads the summary JSON from a model reply, tolerating code fences and
+ * text around the object. Returns null when no usable object is found.
+ */
+export function parseMeetingSummary(
+  reply: string
+): Omit<MeetingSummary, "generatedAt" | "usage"> | null {
+  const start = reply.indexOf("{");
+  const end = reply.lastIndexOf("}");
+  if (start === -1 || end <= start) return null;
+
+  let data: any;
+  try {
+    data = JSON.parse(reply.slice(start, end + 1));
+  } catch {
+    return null;
+  }
+  if (!data || typeof data !== "object") return null;
+
+  const actionItems: ActionItem[] = Array.isArray(data.actionItems)
+    ? data.actionItems
+        .map((item: any): ActionItem | null => {
+          const task = typeof item === "string" ? item : item?.task;
+          if (typeof task !== "string" || !task.trim()) return null;
+          return {
+            task: task.trim(),
+            owner:
+              typeof item?.owner === "string" && item.owner.trim()
+                ? item.owner.trim()
+                : undefined,
+            due:
+              typeof item?.due === "string" && item.due.trim()
+                ? item.due.trim()
+                : undefined,
+          };
+        })
+        .filter((item: ActionItem | null): item is ActionItem => !!item)
+    : [];
+
+  return {
+    overview: typeof data.overview === "string" ? data.overview.trim() : "",
+    actionItems,
+    decisions: toStringList(data.decisions),
+    openQuestions: toStringList(data.openQuestions),
+  };
+}
+
+/**
+ * Summarizes a meeting transcript with the selected AI provider. Long
+ * meetings are summarized chunk by chunk first, and the notes of all chunks
+ * are then combined into the final structured summary.
+ */
+export async function generateMeetingSummary({
+  conversation,
+  provider,
+  selectedProvider,
+  prompt,
+  signal,
+}: {
+  conversation: ChatConversation;
+  provider: TYPE_PROVIDER | undefined;
+  selectedProvider: { provider: string; variables: Record<string, string> };
+  prompt: string;
+  signal?: AbortSignal;
+}): Promise<MeetingSummary> {
+  const transcript = buildMeetingTranscript(conversation);
+  if (!transcript.trim()) {
+    throw new Error("The conversation has no transcript to summarize.");
+  }
+
+  const total: Required<TokenUsage> = { promptTokens: 0, completionTokens: 0 };
+  let hasUsage = false;
+
+  const complete = async (systemPrompt: string, userMessage: string) => {
+    let reply = "";
+    for await (const chunk of fetchAIResponse({
+      provider,
+      selectedProvider,
+      systemPrompt,
+      history: [],
+      userMessage,
+      imagesBase64: [],
+      signal,
+      onUsage: (usage) => {
+        hasUsage = true;
+        total.promptTokens += usage.promptTokens ?? 0;
+        total.completionTokens += usage.completionTokens ?? 0;
+      },
+      plainSystemPrompt: true,
+    })) {
+      reply += chunk;
+    }
+    if (signal?.aborted) throw new Error("Summary generation was cancelled.");
+    return reply;
+  };
+
+  const chunks = chunkTranscript(transcript);
+  let input = `Transcript:\n${transcript}`;
+
+  if (chunks.length > 1) {
+    const notes: string[] = [];
+    for (const [index, chunk] of chunks.entries()) {
+      notes.push(
+        await complete(
+          CHUNK_NOTES_PROMPT,
+          `Part ${index + 1} of ${chunks.length}:\n${chunk}`
+        )
+      );
+    }
+    input = `Notes on the meeting, part by part:\n\n${notes
+      .map((note, index) => `Part ${index + 1}:\n${note.trim()}`)
+      .join("\n\n")}`;
+  }
+
+  const reply = await complete(`${prompt}\n\n${SUMMARY_FORMAT_PROMPT}`, input);
+  const summary = parseMeetingSummary(reply);
+  if (!summary) {
+    // Provider errors are streamed back as text, so surface the reply itself
+    throw new Error(
+      `The AI response was not a valid summary: ${reply.trim().slice(0, 200)}`
+    );
+  }
+
+  return {
+    ...summary,
+    generatedAt: Date.now(),
+    usage: hasUsage ? buildMessageUsage(selectedProvider, total) : undefined,
+  };
+}
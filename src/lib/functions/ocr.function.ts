@@ -0,0 +1,34 @@
+import { invoke } from "@tauri-apps/api/core";
+
+/**
+ * Read the text of each image with the local Tesseract sidecar and return it
+ * as one block to add to a message, with a heading per image
+ */
+export async function recognizeScreenshotText(
+  imagesBase64: string[],
+  languages: string[]
+): Promise<string> {
+  const sections: string[] = [];
+
+  for (const [index, imageBase64] of imagesBase64.entries()) {
+    const text = await invoke<string>("recognize_image_text", {
+      imageBase64,
+      languages,
+    });
+    const heading =
+      imagesBase64.length > 1
+        ? `Text recognized on screenshot ${index + 1}:`
+        : "Text recognized on the screenshot:";
+    sections.push(
+      `${heading}\n"""\n${text.trim() || "(no text found)"}\n"""`
+    );
+  }
+
+  return sections.join("\n\n");
+}
+
+/**
+ * The user's message followed by the recognized screenshot text
+ */
+export const appendScreenshotText = (userMessage: string, text: string) =>
+  text ? `${userMessage}\n\n${text}` : userMessage;
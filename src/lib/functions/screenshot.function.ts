@@ -0,0 +1,14 @@
+import { invoke } from "@tauri-apps/api/core";
+import { ScreenshotTarget } from "@/types";
+
+/**
+ * Capture the target as a base64 PNG. The default target captures the
+ * monitor TalkEcho is on.
+ */
+export async function captureScreenshotTarget(
+  target: ScreenshotTarget
+): Promise<string> {
+  return invoke<string>("capture_to_base64", {
+    target: target.kind === "activeMonitor" ? null : target,
+  });
+}
@@ -0,0 +1,277 @@
+// Spectral frame settings for the voice embedding
+const FRAME_SIZE = 512;
+const HOP_SIZE = 256;
+const BAND_COUNT = 24;
+const MIN_BAND_HZ = 80;
+const MAX_BAND_HZ = 7600;
+// Only the first seconds of long segments are needed to tell voices apart
+const MAX_EMBEDDING_SECONDS = 20;
+
+/** Cosine similarity above which a segment is assigned to a known speaker */
+export const SPEAKER_MATCH_THRESHOLD = 0.9;
+
+/**
+ * Reads mono samples from a PCM (16-bit) or float (32-bit) WAV buffer,
+ * averaging channels. Returns null for anything else.
+ */
+export function decodeWavSamples(
+  buffer: ArrayBuffer
+): { samples: Float32Array; sampleRate: number } | null {
+  const view = new DataView(buffer);
+  const readTag = (offset: number) =>
+    String.fromCharCode(
+      view.getUint8(offset),
+      view.getUint8(offset + 1),
+      view.getUint8(offset + 2),
+      view.getUint8(offset + 3)
+    );
+  if (view.byteLength < 12 || readTag(0) !== "RIFF" || readTag(8) !== "WAVE") {
+    return null;
+  }
+
+  let format = 0;
+  let channels = 1;
+  let sampleRate = 0;
+  let bitsPerSample = 0;
+  let offset = 12;
+
+  while (offset + 8 <= view.byteLength) {
+    const tag = readTag(offset);
+    let size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (tag === "fmt ") {
+      format = view.getUint16(body, true);
+      channels = Math.max(view.getUint16(body + 2, true), 1);
+      sampleRate = view.getUint32(body + 4, true);
+      bitsPerSample = view.getUint16(body + 14, true);
+    } else if (tag === "data") {
+      // Streaming writers leave the size at 0 or 0xFFFFFFFF
+      if (size === 0 || body + size > view.byteLength) {
+        size = view.byteLength - body;
+      }
+      const bytesPerSample = bitsPerSample / 8;
+      const frameCount = Math.floor(size / (bytesPerSample * channels));
+      const samples = new Float32Array(frameCount);
+
+      for (let i = 0; i < frameCount; i++) {
+        let sum = 0;
+        for (let c = 0; c < channels; c++) {
+          const at = body + (i * channels + c) * bytesPerSample;
+          if (format === 3 && bitsPerSample === 32) {
+            sum += view.getFloat32(at, true);
+          } else if (format === 1 && bitsPerSample === 16) {
+            sum += view.getInt16(at, true) / 32768;
+          } else {
+            return null;
+          }
+        }
+        samples[i] = sum / channels;
+      }
+
+      return sampleRate > 0 ? { samples, sampleRate } : null;
+    }
+
+    offset = body + size + (size % 2);
+  }
+
+  return null;
+}
+
+// In-place iterative radix-2 FFT
+function fft(re: Float64Array, im: Float64Array): void {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  for (let len = 2; len <= n; len <<= 1) {
+    const angle = (-2 * Math.PI) / len;
+    for (let i = 0; i < n; i += len) {
+      for (let k = 0; k < len / 2; k++) {
+        const wr = Math.cos(angle * k);
+        const wi = Math.sin(angle * k);
+        const a = i + k;
+        const b = a + len / 2;
+        const tr = re[b] * wr - im[b] * wi;
+        const ti = re[b] * wi + im[b] * wr;
+        re[b] = re[a] - tr;
+        im[b] = im[a] - ti;
+        re[a] += tr;
+        im[a] += ti;
+      }
+    }
+  }
+}
+
+const hzToMel = (hz: number) => 2595 * Math.log10(1 + hz / 700);
+const melToHz = (mel: number) => 700 * (10 ** (mel / 2595) - 1);
+
+/**
+ * Computes a small voice embedding: mean and spread of mel-spaced log band
+ * energies over voiced frames, level-normalized and L2-normalized so that
+ * cosine similarity compares timbre rather than loudness.
+ */
+export function computeVoiceEmbedding(
+  samples: Float32Array,
+  sampleRate: number
+): Float32Array | null {
+  const usable = samples.subarray(
+    0,
+    Math.min(samples.length, sampleRate * MAX_EMBEDDING_SECONDS)
+  );
+  if (usable.length < FRAME_SIZE) return null;
+
+  // FFT bin edges of each mel band
+  const nyquist = sampleRate / 2;
+  const minMel = hzToMel(MIN_BAND_HZ);
+  const maxMel = hzToMel(Math.min(MAX_BAND_HZ, nyquist));
+  const edges = Array.from({ length: BAND_COUNT + 1 }, (_, i) =>
+    Math.min(
+      Math.round(
+        (melToHz(minMel + ((maxMel - minMel) * i) / BAND_COUNT) / nyquist) *
+          (FRAME_SIZE / 2)
+      ),
+      FRAME_SIZE / 2
+    )
+  );
+
+  const window = Float64Array.from(
+    { length: FRAME_SIZE },
+    (_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (FRAME_SIZE - 1))
+  );
+
+  const frames: { rms: number; bands: Float64Array }[] = [];
+  const re = new Float64Array(FRAME_SIZE);
+  const im = new Float64Array(FRAME_SIZE);
+
+  for (let start = 0; start + FRAME_SIZE <= usable.length; start += HOP_SIZE) {
+    let energy = 0;
+    for (let i = 0; i < FRAME_SIZE; i++) {
+      const sample = usable[start + i];
+      energy += sample * sample;
+      re[i] = sample * window[i];
+      im[i] = 0;
+    }
+    fft(re, im);
+
+    const bands = new Float64Array(BAND_COUNT);
+    for (let b = 0; b < BAND_COUNT; b++) {
+      let power = 0;
+      const to = Math.max(edges[b + 1], edges[b] + 1);
+      for (let k = edges[b]; k < to; k++) {
+        power += re[k] * re[k] + im[k] * im[k];
+      }
+      bands[b] = Math.log(power / (to - edges[b]) + 1e-10);
+    }
+    frames.push({ rms: Math.sqrt(energy / FRAME_SIZE), bands });
+  }
+
+  // Keep voiced frames only: silence and pauses carry no speaker information
+  const meanRms = frames.reduce((sum, f) => sum + f.rms, 0) / frames.length;
+  const voiced = frames.filter((f) => f.rms > meanRms * 0.5);
+  if (voiced.length < 4) return null;
+
+  const mean = new Float64Array(BAND_COUNT);
+  const spread = new Float64Array(BAND_COUNT);
+  for (const frame of voiced) {
+    for (let b = 0; b < BAND_COUNT; b++) mean[b] += frame.bands[b];
+  }
+  for (let b = 0; b < BAND_COUNT; b++) mean[b] /= voiced.length;
+  for (const frame of voiced) {
+    for (let b = 0; b < BAND_COUNT; b++) {
+      spread[b] += (frame.bands[b] - mean[b]) ** 2;
+    }
+  }
+
+  const level = mean.reduce((sum, v) => sum + v, 0) / BAND_COUNT;
+  const embedding = new Float32Array(BAND_COUNT * 2);
+  for (let b = 0; b < BAND_COUNT; b++) {
+    embedding[b] = mean[b] - level;
+    embedding[BAND_COUNT + b] = Math.sqrt(spread[b] / voiced.length);
+  }
+
+  return normalize(embedding);
+}
+
+function normalize(vector: Float32Array): Float32Array {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)) || 1;
+  return vector.map((v) => v / norm);
+}
+
+function cosineSimilarity(a: Float32Array, b: Float32Array): number {
+  let dot = 0;
+  for (let i = 0; i < a.length; i++) dot += a[i] * b[i];
+  return dot;
+}
+
+/**
+ * Online clustering of voice embeddings into stable speaker ids ("S1",
+ * "S2", ...) for the lifetime of one capture session.
+ */
+export function createSpeakerTracker(
+  threshold: number = SPEAKER_MATCH_THRESHOLD,
+  maxSpeakers: number = 8
+) {
+  const speakers: { id: string; centroid: Float32Array; count: number }[] =
+    [];
+
+  return {
+    identify(embedding: Float32Array): string {
+      let best: (typeof speakers)[number] | undefined;
+      let bestSimilarity = -1;
+      for (const speaker of speakers) {
+        const similarity = cosineSimilarity(speaker.centroid, embedding);
+        if (similarity > bestSimilarity) {
+          best = speaker;
+          bestSimilarity = similarity;
+        }
+      }
+
+      if (best && (bestSimilarity >= threshold || speakers.length >= maxSpeakers)) {
+        // Running mean keeps the centroid stable as a speaker talks more
+        const count = best.count + 1;
+        best.centroid = normalize(
+          best.centroid.map((v, i) => v + (embedding[i] - v) / count)
+        );
+        best.count = count;
+        return best.id;
+      }
+
+      const id = `S${speakers.length + 1}`;
+      speakers.push({ id, centroid: embedding, count: 1 });
+      return id;
+    },
+  };
+}
+
+/**
+ * Maps a provider speaker label (0-based number or letter) to a speaker id.
+ */
+export function toSpeakerId(label: string | number): string {
+  if (typeof label === "number") return `S${label + 1}`;
+  if (/^\d+$/.test(label)) return `S${Number(label) + 1}`;
+  if (/^[A-Z]$/i.test(label)) {
+    return `S${label.toUpperCase().charCodeAt(0) - 64}`;
+  }
+  return label;
+}
+
+/**
+ * Display name of a speaker, falling back to "Speaker N"
+ */
+export function getSpeakerName(
+  speakerId: string,
+  speakerNames?: Record<string, string>
+): string {
+  return (
+    speakerNames?.[speakerId]?.trim() ||
+    `Speaker ${speakerId.replace(/^S/, "")}`
+  );
+}
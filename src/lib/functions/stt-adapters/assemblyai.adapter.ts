@@ -0,0 +1,43 @@
+import { SttStreamAdapter } from "@/types";
+import { getErrorMessage, parseEventJson } from "../adapters/helpers";
+
+const SAMPLE_RATE = 16000;
+
+/**
+ * AssemblyAI Universal Streaming (v3). Each `Turn` message carries the whole
+ * transcript of the current turn; `end_of_turn` marks it final.
+ */
+export const assemblyaiSttAdapter: SttStreamAdapter = {
+  id: "assemblyai",
+
+  buildSession: ({ url, headers }) => {
+    const sessionUrl = new URL(url);
+    sessionUrl.searchParams.set("sample_rate", String(SAMPLE_RATE));
+    sessionUrl.searchParams.set("encoding", "pcm_s16le");
+
+    return {
+      url: sessionUrl.toString(),
+      headers,
+      sample_rate: SAMPLE_RATE,
+      audio_encoding: "pcm16",
+      close_message: JSON.stringify({ type: "Terminate" }),
+      // AssemblyAI rejects frames outside 50-1000ms
+      frame_ms: 100,
+    };
+  },
+
+  createParser: () => (data) => {
+    const json = parseEventJson(data);
+    if (!json) return [];
+
+    if (json.type === "Turn") {
+      const endOfTurn = !!json.end_of_turn;
+      return [
+        { text: json.transcript ?? "", isFinal: endOfTurn, endOfTurn },
+      ];
+    }
+
+    const error = getErrorMessage(json);
+    return error ? [{ error }] : [];
+  },
+};
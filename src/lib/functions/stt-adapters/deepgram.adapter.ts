@@ -0,0 +1,71 @@
+import { SttStreamAdapter } from "@/types";
+import { getErrorMessage, parseEventJson } from "../adapters/helpers";
+
+const SAMPLE_RATE = 16000;
+
+// Most frequent speaker label among the words of a result (diarize=true)
+const getDominantSpeaker = (words: any[] | undefined): string | undefined => {
+  const counts = new Map<string, number>();
+  for (const word of words || []) {
+    if (word?.speaker === undefined) continue;
+    const label = String(word.speaker);
+    counts.set(label, (counts.get(label) || 0) + 1);
+  }
+  let dominant: string | undefined;
+  for (const [label, count] of counts) {
+    if (!dominant || count > counts.get(dominant)!) dominant = label;
+  }
+  return dominant;
+};
+
+/**
+ * Deepgram live `/v1/listen`. Interim `Results` replace the caption,
+ * `is_final` results are committed and `speech_final` ends the turn.
+ */
+export const deepgramSttAdapter: SttStreamAdapter = {
+  id: "deepgram",
+
+  buildSession: ({ url, headers }) => {
+    const sessionUrl = new URL(url);
+    sessionUrl.searchParams.set("encoding", "linear16");
+    sessionUrl.searchParams.set("sample_rate", String(SAMPLE_RATE));
+    if (!sessionUrl.searchParams.has("interim_results")) {
+      sessionUrl.searchParams.set("interim_results", "true");
+    }
+
+    return {
+      url: sessionUrl.toString(),
+      headers,
+      sample_rate: SAMPLE_RATE,
+      audio_encoding: "pcm16",
+      close_message: JSON.stringify({ type: "CloseStream" }),
+    };
+  },
+
+  createParser: () => (data) => {
+    const json = parseEventJson(data);
+    if (!json) return [];
+
+    switch (json.type) {
+      case "Results":
+        return [
+          {
+            text: json.channel?.alternatives?.[0]?.transcript ?? "",
+            isFinal: !!json.is_final,
+            endOfTurn: !!json.speech_final,
+            speaker: getDominantSpeaker(json.channel?.alternatives?.[0]?.words),
+          },
+        ];
+      case "UtteranceEnd":
+        return [{ endOfTurn: true }];
+      case "Error":
+        return [
+          { error: json.description || json.message || "Deepgram error" },
+        ];
+      default: {
+        const error = getErrorMessage(json);
+        return error ? [{ error }] : [];
+      }
+    }
+  },
+};
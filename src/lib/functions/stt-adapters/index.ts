@@ -0,0 +1,22 @@
+import { SttStreamAdapter, SttStreamAdapterId } from "@/types";
+import { deepgramSttAdapter } from "./deepgram.adapter";
+import { assemblyaiSttAdapter } from "./assemblyai.adapter";
+import { openaiRealtimeSttAdapter } from "./openai-realtime.adapter";
+import { whisperLiveSttAdapter } from "./whisper-live.adapter";
+
+const STT_STREAM_ADAPTERS: Record<SttStreamAdapterId, SttStreamAdapter> = {
+  deepgram: deepgramSttAdapter,
+  assemblyai: assemblyaiSttAdapter,
+  "openai-realtime": openaiRealtimeSttAdapter,
+  "whisper-live": whisperLiveSttAdapter,
+};
+
+/**
+ * Returns the WebSocket adapter for a streaming STT provider, or undefined
+ * for providers that transcribe complete segments over HTTP.
+ */
+export function getSttStreamAdapter(
+  id: SttStreamAdapterId | undefined
+): SttStreamAdapter | undefined {
+  return id ? STT_STREAM_ADAPTERS[id] : undefined;
+}
@@ -0,0 +1,59 @@
+import { SttStreamAdapter } from "@/types";
+import { getErrorMessage, parseEventJson } from "../adapters/helpers";
+
+const SAMPLE_RATE = 24000;
+
+/**
+ * OpenAI Realtime transcription sessions. Audio goes up as base64 inside
+ * `input_audio_buffer.append`; text comes back as deltas per speech item and
+ * a `completed` event once server VAD closes the item.
+ */
+export const openaiRealtimeSttAdapter: SttStreamAdapter = {
+  id: "openai-realtime",
+
+  buildSession: ({ url, headers, body }) => {
+    const session = {
+      input_audio_format: "pcm16",
+      turn_detection: { type: "server_vad" },
+      ...body,
+    };
+
+    return {
+      url,
+      headers: { "OpenAI-Beta": "realtime=v1", ...headers },
+      sample_rate: SAMPLE_RATE,
+      audio_encoding: "pcm16-base64",
+      audio_message_template: JSON.stringify({
+        type: "input_audio_buffer.append",
+        audio: "{{AUDIO}}",
+      }),
+      init_message: JSON.stringify({
+        type: "transcription_session.update",
+        session,
+      }),
+      // Commit whatever is buffered so the last sentence gets transcribed
+      close_message: JSON.stringify({ type: "input_audio_buffer.commit" }),
+    };
+  },
+
+  createParser: () => (data) => {
+    const json = parseEventJson(data);
+    if (!json) return [];
+
+    switch (json.type) {
+      case "conversation.item.input_audio_transcription.delta":
+        return typeof json.delta === "string" ? [{ delta: json.delta }] : [];
+      case "conversation.item.input_audio_transcription.completed":
+        return [
+          { text: json.transcript ?? "", isFinal: true, endOfTurn: true },
+        ];
+      case "error":
+        // Committing an empty buffer on stop is expected
+        return json.error?.code === "input_audio_buffer_commit_empty"
+          ? []
+          : [{ error: getErrorMessage(json) || "Realtime session error" }];
+      default:
+        return [];
+    }
+  },
+};
@@ -0,0 +1,54 @@
+import { SttStreamAdapter, SttStreamEvent } from "@/types";
+import { parseEventJson } from "../adapters/helpers";
+
+const SAMPLE_RATE = 16000;
+
+/**
+ * Local WhisperLive server. Every message repeats a window of recent
+ * segments, so completed segments are tracked by end time to emit each once.
+ */
+export const whisperLiveSttAdapter: SttStreamAdapter = {
+  id: "whisper-live",
+
+  buildSession: ({ url, headers, body }) => ({
+    url,
+    headers,
+    sample_rate: SAMPLE_RATE,
+    audio_encoding: "f32",
+    init_message: JSON.stringify({
+      uid: crypto.randomUUID(),
+      task: "transcribe",
+      use_vad: true,
+      ...body,
+    }),
+  }),
+
+  createParser: () => {
+    let emittedUntil = -1;
+
+    return (data) => {
+      const json = parseEventJson(data);
+      if (!json) return [];
+
+      if (json.status === "ERROR" || json.status === "WAIT") {
+        return [{ error: json.message || `Server status ${json.status}` }];
+      }
+      if (!Array.isArray(json.segments)) return [];
+
+      const events: SttStreamEvent[] = [];
+      for (const segment of json.segments) {
+        const text = String(segment?.text ?? "").trim();
+        const end = Number(segment?.end);
+        if (segment?.completed) {
+          if (end > emittedUntil) {
+            emittedUntil = end;
+            events.push({ text, isFinal: true, endOfTurn: true });
+          }
+        } else {
+          events.push({ text, isFinal: false });
+        }
+      }
+      return events;
+    };
+  },
+};
@@ -0,0 +1,141 @@
+import { deepVariableReplacer } from "./common.function";
+import { getSttStreamAdapter } from "./stt-adapters";
+import { SttStreamConfig, SttStreamEvent, TYPE_PROVIDER } from "@/types";
+import curl2Json from "@bany/curl-to-json";
+
+/**
+ * Builds the WebSocket session for a streaming STT provider from its curl
+ * template (URL, auth headers and an optional JSON session body). Returns
+ * null for providers without a stream adapter.
+ */
+export function buildSttStreamConfig(params: {
+  provider: TYPE_PROVIDER | undefined;
+  selectedProvider: {
+    provider: string;
+    variables: Record<string, string>;
+  };
+  language?: string;
+}): SttStreamConfig | null {
+  const { provider, selectedProvider, language } = params;
+  if (!provider?.streaming) return null;
+
+  const adapter = getSttStreamAdapter(provider.streamAdapter);
+  if (!adapter) return null;
+
+  let curlJson: any;
+  try {
+    curlJson = curl2Json(provider.curl);
+  } catch (error) {
+    throw new Error(
+      `Failed to parse curl: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`
+    );
+  }
+
+  const allVariables: Record<string, string> = {
+    ...Object.fromEntries(
+      Object.entries(selectedProvider.variables || {}).map(([key, value]) => [
+        key.toUpperCase(),
+        value,
+      ])
+    ),
+    LANGUAGE: language || "en",
+  };
+
+  let url = deepVariableReplacer(curlJson.url || "", allVariables);
+  const decodedParams = Object.fromEntries(
+    Object.entries(curlJson.params || {}).map(([key, value]) => [
+      key,
+      typeof value === "string" ? decodeURIComponent(value) : "",
+    ])
+  );
+  const queryString = new URLSearchParams(
+    deepVariableReplacer(decodedParams, allVariables)
+  ).toString();
+  if (queryString) {
+    url += (url.includes("?") ? "&" : "?") + queryString;
+  }
+
+  return adapter.buildSession({
+    url,
+    headers: deepVariableReplacer(curlJson.header || {}, allVariables),
+    body: deepVariableReplacer(curlJson.data || {}, allVariables),
+  });
+}
+
+/**
+ * Creates a fresh message parser for one streaming session of the provider.
+ */
+export function createSttStreamParser(
+  provider: TYPE_PROVIDER | undefined
+): ((data: string) => SttStreamEvent[]) | null {
+  return getSttStreamAdapter(provider?.streamAdapter)?.createParser() ?? null;
+}
+
+const joinTranscript = (a: string, b: string) =>
+  [a.trim(), b.trim()].filter(Boolean).join(" ");
+
+/**
+ * Folds stream events into a live caption (committed + in-progress text) and
+ * hands back the full utterance when the provider signals end of turn, along
+ * with the speaker label that said most of it (if the provider diarizes).
+ */
+export function createTranscriptAssembler() {
+  let committed = "";
+  let interim = "";
+  let speakerWords = new Map<string, number>();
+
+  const takeUtterance = () => {
+    const utterance = joinTranscript(committed, interim);
+    let speaker: string | undefined;
+    for (const [label, words] of speakerWords) {
+      if (!speaker || words > speakerWords.get(speaker)!) speaker = label;
+    }
+    committed = "";
+    interim = "";
+    speakerWords = new Map();
+    return { utterance: utterance || undefined, speaker };
+  };
+
+  return {
+    apply(event: SttStreamEvent): {
+      caption: string;
+      utterance?: string;
+      speaker?: string;
+    } {
+      if (event.delta) {
+        interim += event.delta;
+      }
+      if (event.text !== undefined) {
+        if (event.isFinal && event.speaker !== undefined && event.text) {
+          const words = event.text.split(/\s+/).length;
+          speakerWords.set(
+            event.speaker,
+            (speakerWords.get(event.speaker) || 0) + words
+          );
+        }
+        if (event.isFinal) {
+          committed = joinTranscript(committed, event.text);
+          interim = "";
+        } else {
+          interim = event.text;
+        }
+      }
+
+      if (event.endOfTurn) {
+        return { caption: "", ...takeUtterance() };
+      }
+
+      return { caption: joinTranscript(committed, interim) };
+    },
+
+    /**
+     * Hands back the text of a turn that never ended, e.g. when the session
+     * is stopped or closed mid-sentence
+     */
+    flush(): { utterance?: string; speaker?: string } {
+      return takeUtterance();
+    },
+  };
+}
@@ -6,9 +6,11 @@
 import { fetch as tauriFetch } from "@tauri-apps/plugin-http";
 import { invoke } from "@tauri-apps/api/core";
 
-import { TYPE_PROVIDER } from "@/types";
+import { SttPollingConfig, TYPE_PROVIDER } from "@/types";
+import { DEFAULT_STT_POLLING } from "@/config";
 import curl2Json from "@bany/curl-to-json";
 import { shouldUseTalkEchoAPI } from "./talkecho.api";
+import { getWhisperModel } from "@/lib/storage";
 
 // TalkEcho STT function
 async function fetchTalkEchoSTT(audio: File | Blob, language?: string): Promise<string> {
@@ -45,6 +47,29 @@ async function fetchTalkEchoSTT(audio: File | Blob, language?: string): Promise<
   }
 }
 
+// Offline STT through the bundled whisper.cpp sidecar
+async function fetchLocalWhisperSTT(
+  audio: File | Blob,
+  language?: string
+): Promise<string> {
+  const audioBase64 = await blobToBase64(audio);
+
+  const transcription = (
+    await invoke<string>("transcribe_audio_local", {
+      audioBase64,
+      modelId: getWhisperModel(),
+      language: language || "en",
+    })
+  ).trim();
+
+  if (isLikelyHallucination(transcription)) {
+    console.log(`🚫 Filtered hallucination (local whisper): "${transcription}"`);
+    return "";
+  }
+
+  return transcription;
+}
+
 export interface STTParams {
   provider: TYPE_PROVIDER | undefined;
   selectedProvider: {
@@ -53,6 +78,162 @@ export interface STTParams {
   };
   audio: File | Blob;
   language?: string;
+  /** Called with the billed audio length once the provider accepted the request */
+  onUsage?: (usage: { audioSeconds: number }) => void;
+}
+
+/**
+ * Reads the duration of a PCM WAV blob from its header (data chunk size over
+ * byte rate). Returns undefined for anything that is not a RIFF/WAVE file.
+ */
+async function getWavDurationSeconds(
+  audio: File | Blob
+): Promise<number | undefined> {
+  try {
+    const view = new DataView(await audio.slice(0, 4096).arrayBuffer());
+    const readTag = (offset: number) =>
+      String.fromCharCode(
+        view.getUint8(offset),
+        view.getUint8(offset + 1),
+        view.getUint8(offset + 2),
+        view.getUint8(offset + 3)
+      );
+    if (readTag(0) !== "RIFF" || readTag(8) !== "WAVE") return undefined;
+
+    let byteRate = 0;
+    let offset = 12;
+    while (offset + 8 <= view.byteLength) {
+      const tag = readTag(offset);
+      const size = view.getUint32(offset + 4, true);
+      if (tag === "fmt ") {
+        byteRate = view.getUint32(offset + 16, true);
+      } else if (tag === "data") {
+        // Streaming writers leave the size at 0 or 0xFFFFFFFF
+        const dataSize =
+          size === 0 || size === 0xffffffff ? audio.size - offset - 8 : size;
+        return byteRate > 0 ? dataSize / byteRate : undefined;
+      }
+      offset += 8 + size + (size % 2);
+    }
+    return undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Upper bound for one fetchSTT call: polling providers may wait for their
+ * job and local models run on the CPU, everything else should answer within
+ * 30 seconds.
+ */
+export function getSttTimeoutMs(provider: TYPE_PROVIDER | undefined): number {
+  // CPU inference of the larger models can take a while
+  if (provider?.localEngine) return 120000;
+  if (!provider?.polling) return 30000;
+  const timeoutSeconds =
+    provider.polling.timeoutSeconds || DEFAULT_STT_POLLING.timeoutSeconds;
+  return (timeoutSeconds + 30) * 1000;
+}
+
+async function fetchPollResponse(
+  url: string,
+  headers: Record<string, string>
+): Promise<string> {
+  const fetchFunction = url.includes("http") ? fetch : tauriFetch;
+
+  let response: Response;
+  try {
+    response = await fetchFunction(url, { method: "GET", headers });
+  } catch (e) {
+    throw new Error(`Network error: ${e instanceof Error ? e.message : e}`);
+  }
+
+  const text = await response.text().catch(() => "");
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${text || response.statusText}`);
+  }
+  return text;
+}
+
+/**
+ * Polls a submitted batch job until its status reaches the completed value,
+ * backing off between requests, then returns the transcript text.
+ */
+async function pollSttJob(params: {
+  polling: SttPollingConfig;
+  jobId: string;
+  headers: Record<string, string>;
+  variables: Record<string, string>;
+}): Promise<string> {
+  const { polling, jobId, headers, variables } = params;
+  const timeoutSeconds =
+    polling.timeoutSeconds || DEFAULT_STT_POLLING.timeoutSeconds;
+  const backoffFactor = Math.max(
+    polling.backoffFactor || DEFAULT_STT_POLLING.backoffFactor,
+    1
+  );
+  const maxDelayMs =
+    (polling.maxIntervalSeconds || DEFAULT_STT_POLLING.maxIntervalSeconds) *
+    1000;
+  let delayMs =
+    (polling.intervalSeconds || DEFAULT_STT_POLLING.intervalSeconds) * 1000;
+
+  const jobVariables = { ...variables, JOB_ID: jobId };
+  // Reuse the auth headers of the submit request, not its body type
+  const pollHeaders: Record<string, string> = Object.fromEntries(
+    Object.entries(headers).filter(
+      ([key]) => key.toLowerCase() !== "content-type"
+    )
+  );
+  const pollUrl = deepVariableReplacer(polling.url, jobVariables);
+  const deadline = Date.now() + timeoutSeconds * 1000;
+
+  let job: any;
+  while (true) {
+    if (Date.now() + delayMs > deadline) {
+      throw new Error(
+        `Transcription job ${jobId} did not finish within ${timeoutSeconds}s`
+      );
+    }
+    await new Promise((resolve) => setTimeout(resolve, delayMs));
+
+    const text = await fetchPollResponse(pollUrl, pollHeaders);
+    try {
+      job = JSON.parse(text);
+    } catch {
+      throw new Error(`Unexpected poll response: ${text.slice(0, 200)}`);
+    }
+
+    const status = String(getByPath(job, polling.statusPath) ?? "");
+    if (status === polling.completedValue) break;
+    if (polling.failedValue && status === polling.failedValue) {
+      throw new Error(`Transcription job ${jobId} failed (${status})`);
+    }
+
+    delayMs = Math.min(delayMs * backoffFactor, maxDelayMs);
+  }
+
+  if (!polling.transcriptUrl) {
+    const transcript = getByPath(job, polling.transcriptPath || "");
+    return typeof transcript === "string" ? transcript : "";
+  }
+
+  const transcriptUrl = deepVariableReplacer(
+    polling.transcriptUrl,
+    jobVariables
+  );
+  const text = await fetchPollResponse(transcriptUrl, {
+    ...pollHeaders,
+    Accept: polling.transcriptPath ? "application/json" : "text/plain",
+  });
+  if (!polling.transcriptPath) return text;
+
+  try {
+    const transcript = getByPath(JSON.parse(text), polling.transcriptPath);
+    return typeof transcript === "string" ? transcript : "";
+  } catch {
+    throw new Error(`Unexpected transcript response: ${text.slice(0, 200)}`);
+  }
 }
 
 /**
@@ -137,7 +318,7 @@ export async function fetchSTT(params: STTParams): Promise<string> {
   let warnings: string[] = [];
 
   try {
-    const { provider, selectedProvider, audio, language } = params;
+    const { provider, selectedProvider, audio, language, onUsage } = params;
 
     // Validate audio quality first
     const validation = await validateAudioQuality(audio);
@@ -156,6 +337,13 @@ export async function fetchSTT(params: STTParams): Promise<string> {
     if (!selectedProvider) throw new Error("Selected provider not provided");
     if (!audio) throw new Error("Audio file is required");
 
+    if (provider.localEngine === "whisper-cpp") {
+      const transcription = await fetchLocalWhisperSTT(audio, language);
+      const audioSeconds = await getWavDurationSeconds(audio);
+      if (audioSeconds !== undefined) onUsage?.({ audioSeconds });
+      return transcription;
+    }
+
     let curlJson: any;
     try {
       curlJson = curl2Json(provider.curl);
@@ -333,6 +521,10 @@ export async function fetchSTT(params: STTParams): Promise<string> {
       throw new Error(`HTTP ${response.status}: ${errMsg}`);
     }
 
+    // Providers bill the audio sent, whether or not speech was found
+    const audioSeconds = await getWavDurationSeconds(audio);
+    if (audioSeconds !== undefined) onUsage?.({ audioSeconds });
+
     const responseText = await response.text();
     let data: any;
     try {
@@ -344,7 +536,25 @@ export async function fetchSTT(params: STTParams): Promise<string> {
     // Extract transcription
     const rawPath = provider.responseContentPath || "text";
     const path = rawPath.charAt(0).toLowerCase() + rawPath.slice(1);
-    const transcription = (getByPath(data, path) || "").trim();
+
+    let transcription: string;
+    if (provider.polling) {
+      // Batch providers answer with a job id; the transcript comes later
+      const jobId = getByPath(data, path);
+      if (jobId === undefined || jobId === null || jobId === "") {
+        throw new Error(`No job id found at "${rawPath}" in the response`);
+      }
+      transcription = (
+        await pollSttJob({
+          polling: provider.polling,
+          jobId: String(jobId),
+          headers: finalHeaders,
+          variables: allVariables,
+        })
+      ).trim();
+    } else {
+      transcription = (getByPath(data, path) || "").trim();
+    }
 
     if (!transcription) {
       return [...warnings, "No transcription found"].join("; ");
@@ -0,0 +1,251 @@
+import {
+  ChatConversation,
+  ChatMessage,
+  ExportedFile,
+  SubtitleTrack,
+  TranscriptExportOptions,
+  TranscriptSegment,
+} from "@/types";
+import { getSpeakerName } from "./speaker.function";
+
+// Assistant replies further apart than this are not paired with the segment
+const PAIR_WINDOW_MS = 5000;
+// Speaking rate used when a message has no recorded audio length
+const WORDS_PER_SECOND = 2.5;
+const MIN_CUE_MS = 1500;
+const MAX_CUE_MS = 10000;
+
+/**
+ * Turns a conversation into timed segments. Transcribed messages are stored
+ * when transcription finishes, so each segment ends at its timestamp and
+ * starts its audio length (or an estimate from the word count) earlier.
+ * Dual-track messages are paired with the assistant reply of the same source,
+ * plain chats with the next assistant reply.
+ */
+export function buildTranscriptSegments(
+  conversation: ChatConversation
+): TranscriptSegment[] {
+  const messages = [...conversation.messages].sort(
+    (a, b) => a.timestamp - b.timestamp
+  );
+  const paired = new Set<string>();
+  const raw: TranscriptSegment[] = [];
+
+  messages.forEach((message, index) => {
+    if (message.role !== "user" || !message.content.trim()) return;
+
+    const reply = messages
+      .slice(index + 1)
+      .find(
+        (m): m is ChatMessage =>
+          m.role === "assistant" &&
+          !paired.has(m.id) &&
+          (message.source
+            ? m.source === message.source &&
+              m.timestamp - message.timestamp < PAIR_WINDOW_MS
+            : true)
+      );
+    if (reply) paired.add(reply.id);
+
+    const durationMs = message.usage?.audioSeconds
+      ? message.usage.audioSeconds * 1000
+      : (message.content.trim().split(/\s+/).length / WORDS_PER_SECOND) *
+        1000;
+
+    raw.push({
+      start:
+        message.timestamp -
+        Math.min(Math.max(durationMs, MIN_CUE_MS), MAX_CUE_MS),
+      end: message.timestamp,
+      source: message.source,
+      speakerId: message.speakerId,
+      speakerName: message.speakerId
+        ? getSpeakerName(message.speakerId, conversation.speakerNames)
+        : undefined,
+      original: message.content.trim(),
+      translation: reply?.content.trim() || undefined,
+    });
+  });
+
+  if (raw.length === 0) return [];
+
+  // Timeline starts when the conversation (capture) started
+  const origin = Math.min(conversation.createdAt, raw[0].start);
+
+  return raw.map((segment, index) => {
+    const previousEnd = index > 0 ? raw[index - 1].end : origin;
+    const start = Math.max(segment.start, previousEnd, origin) - origin;
+    // Keep the cue up long enough to read the translation, but not past the next one
+    const nextStart = raw[index + 1]?.start;
+    let end = Math.max(segment.end - origin, start + MIN_CUE_MS);
+    if (nextStart !== undefined) {
+      end = Math.min(end, Math.max(nextStart - origin, start + 1));
+    }
+    return { ...segment, start, end };
+  });
+}
+
+const pad = (value: number, length = 2) =>
+  String(Math.floor(value)).padStart(length, "0");
+
+/** Formats ms as HH:MM:SS{separator}mmm */
+export function formatCueTime(ms: number, separator: "," | "."): string {
+  const total = Math.max(0, Math.round(ms));
+  return `${pad(total / 3600000)}:${pad((total / 60000) % 60)}:${pad(
+    (total / 1000) % 60
+  )}${separator}${pad(total % 1000, 3)}`;
+}
+
+function getCueText(
+  segment: TranscriptSegment,
+  track: Exclude<SubtitleTrack, "both">
+): string {
+  const text =
+    track === "translation" ? segment.translation || "" : segment.original;
+  return segment.speakerName && text ? `${segment.speakerName}: ${text}` : text;
+}
+
+export function toSrt(
+  segments: TranscriptSegment[],
+  track: Exclude<SubtitleTrack, "both">
+): string {
+  return segments
+    .map((segment) => ({ segment, text: getCueText(segment, track) }))
+    .filter(({ text }) => text)
+    .map(
+      ({ segment, text }, index) =>
+        `${index + 1}\n${formatCueTime(segment.start, ",")} --> ${formatCueTime(
+          segment.end,
+          ","
+        )}\n${text}\n`
+    )
+    .join("\n");
+}
+
+export function toWebVtt(
+  segments: TranscriptSegment[],
+  track: Exclude<SubtitleTrack, "both">
+): string {
+  const cues = segments
+    .map((segment) => ({ segment, text: getCueText(segment, track) }))
+    .filter(({ text }) => text)
+    .map(
+      ({ segment, text }) =>
+        `${formatCueTime(segment.start, ".")} --> ${formatCueTime(
+          segment.end,
+          "."
+        )}\n${text.replace(/-->/g, "->")}\n`
+    );
+  return ["WEBVTT\n", ...cues].join("\n");
+}
+
+export function toPlainTextTranscript(segments: TranscriptSegment[]): string {
+  return segments
+    .map((segment) => {
+      const time = formatCueTime(segment.start, ".").slice(0, 8);
+      const speaker = segment.speakerName ? `${segment.speakerName}: ` : "";
+      const translation = segment.translation
+        ? `\n    ${segment.translation.replace(/\n/g, "\n    ")}`
+        : "";
+      return `[${time}] ${speaker}${segment.original}${translation}`;
+    })
+    .join("\n\n");
+}
+
+export function toMarkdownTranscript(conversation: ChatConversation): string {
+  let markdown = `# ${conversation.title}\n\n`;
+  markdown += `**Created:** ${new Date(
+    conversation.createdAt
+  ).toLocaleString()}\n`;
+  markdown += `**Updated:** ${new Date(
+    conversation.updatedAt
+  ).toLocaleString()}\n`;
+  markdown += `**Messages:** ${conversation.messages.length}\n\n---\n\n`;
+
+  conversation.messages.forEach((message, index) => {
+    const roleLabel = message.role.toUpperCase();
+    markdown += `## ${roleLabel}: ${message.content}\n`;
+
+    if (index < conversation.messages.length - 1) {
+      markdown += "\n";
+    }
+  });
+
+  return markdown;
+}
+
+export function toJsonTranscript(
+  conversation: ChatConversation,
+  segments: TranscriptSegment[]
+): string {
+  return JSON.stringify(
+    {
+      id: conversation.id,
+      title: conversation.title,
+      createdAt: new Date(conversation.createdAt).toISOString(),
+      updatedAt: new Date(conversation.updatedAt).toISOString(),
+      speakerNames: conversation.speakerNames ?? {},
+      segments,
+    },
+    null,
+    2
+  );
+}
+
+function getBaseFilename(title: string): string {
+  const sanitizedTitle = title.replace(/[^a-z0-9]/gi, "_").toLowerCase();
+  return sanitizedTitle.substring(0, 16) || "conversation";
+}
+
+/**
+ * Builds the file(s) for one export. Subtitle formats with `track: "both"`
+ * produce one file per track so players can switch between them.
+ */
+export function exportConversation(
+  conversation: ChatConversation,
+  { format, track = "original" }: TranscriptExportOptions
+): ExportedFile[] {
+  const base = getBaseFilename(conversation.title);
+
+  if (format === "markdown") {
+    return [
+      {
+        filename: `${base}.md`,
+        content: toMarkdownTranscript(conversation),
+        mimeType: "text/markdown",
+      },
+    ];
+  }
+
+  const segments = buildTranscriptSegments(conversation);
+
+  if (format === "json") {
+    return [
+      {
+        filename: `${base}.json`,
+        content: toJsonTranscript(conversation, segments),
+        mimeType: "application/json",
+      },
+    ];
+  }
+
+  if (format === "txt") {
+    return [
+      {
+        filename: `${base}.txt`,
+        content: toPlainTextTranscript(segments),
+        mimeType: "text/plain",
+      },
+    ];
+  }
+
+  const tracks: Exclude<SubtitleTrack, "both">[] =
+    track === "both" ? ["original", "translation"] : [track];
+  const render = format === "srt" ? toSrt : toWebVtt;
+
+  return tracks.map((t) => ({
+    filename: `${base}${track === "both" ? `.${t}` : ""}.${format}`,
+    content: render(segments, t),
+    mimeType: format === "srt" ? "application/x-subrip" : "text/vtt",
+  }));
+}
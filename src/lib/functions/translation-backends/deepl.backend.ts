@@ -0,0 +1,92 @@
+import { fetch as tauriFetch } from "@tauri-apps/plugin-http";
+import { TranslationBackend } from "@/types";
+import { DEEPL_FREE_ENDPOINT, DEEPL_PRO_ENDPOINT } from "@/config";
+import { getErrorMessage, parseEventJson } from "../adapters/helpers";
+import {
+  escapeMarkup,
+  getLanguageCode,
+  protectGlossaryTerms,
+  stripMarkup,
+} from "./helpers";
+
+// DeepL rejects the bare codes of languages with regional variants as targets
+const DEEPL_TARGET_OVERRIDES: Record<string, string> = {
+  en: "EN-US",
+  pt: "PT-PT",
+  zh: "ZH-HANS",
+};
+
+/**
+ * DeepL REST API (v2). Glossary terms are sent pre-translated inside ignored
+ * XML tags, which works without creating a glossary on the DeepL account.
+ */
+export const deeplTranslationBackend: TranslationBackend = {
+  id: "deepl",
+
+  translate: async ({
+    text,
+    sourceLanguage,
+    targetLanguage,
+    glossary,
+    context,
+    settings,
+    signal,
+  }) => {
+    const apiKey = settings.deeplApiKey.trim();
+    if (!apiKey) {
+      throw new Error("DeepL API key is missing. Add it in the translation settings.");
+    }
+
+    const targetCode = getLanguageCode(targetLanguage);
+    if (!targetCode) {
+      throw new Error(`DeepL does not support target language: ${targetLanguage}`);
+    }
+    const sourceCode = getLanguageCode(sourceLanguage);
+
+    // Free API keys end with ":fx"
+    const endpoint =
+      settings.deeplEndpoint?.trim() ||
+      (apiKey.endsWith(":fx") ? DEEPL_FREE_ENDPOINT : DEEPL_PRO_ENDPOINT);
+
+    const body: Record<string, any> = {
+      text: [
+        protectGlossaryTerms(
+          escapeMarkup(text),
+          glossary,
+          (target) => `<x>${escapeMarkup(target)}</x>`
+        ),
+      ],
+      target_lang:
+        DEEPL_TARGET_OVERRIDES[targetCode] || targetCode.toUpperCase(),
+      tag_handling: "xml",
+      ignore_tags: ["x"],
+    };
+    if (sourceCode) body.source_lang = sourceCode.toUpperCase();
+    if (context.length > 0) body.context = context.join("\n");
+
+    const response = await tauriFetch(
+      `${endpoint.replace(/\/+$/, "")}/v2/translate`,
+      {
+        method: "POST",
+        headers: {
+          Authorization: `DeepL-Auth-Key ${apiKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(body),
+        signal,
+      }
+    );
+
+    const responseText = await response.text();
+    const json = parseEventJson(responseText);
+    if (!response.ok) {
+      throw new Error(
+        `DeepL request failed: ${response.status} ${
+          getErrorMessage(json) || responseText
+        }`
+      );
+    }
+
+    return stripMarkup(json?.translations?.[0]?.text ?? "").trim();
+  },
+};
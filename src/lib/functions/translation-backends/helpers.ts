@@ -0,0 +1,63 @@
+import { GlossaryEntry } from "@/types";
+import { TRANSLATION_LANGUAGE_CODES } from "@/config";
+import { LANGUAGES } from "@/lib";
+
+/** ISO 639-1 code of a LANGUAGES id, or undefined for "auto"/unknown ids */
+export function getLanguageCode(languageId: string): string | undefined {
+  return TRANSLATION_LANGUAGE_CODES[languageId];
+}
+
+export function getLanguageName(languageId: string): string | undefined {
+  return LANGUAGES.find((l) => l.id === languageId)?.name;
+}
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Replaces glossary source terms (case-insensitive, whole words) with their
+ * target term wrapped by `wrap`, so machine translation APIs can be told to
+ * leave them untouched. Longer terms win over terms they contain.
+ */
+export function protectGlossaryTerms(
+  text: string,
+  glossary: GlossaryEntry[],
+  wrap: (target: string) => string
+): string {
+  const entries = glossary
+    .filter((entry) => entry.source.trim() && entry.target.trim())
+    .sort((a, b) => b.source.length - a.source.length);
+  if (entries.length === 0) return text;
+
+  const pattern = new RegExp(
+    `(?<![\\p{L}\\p{N}])(${entries
+      .map((entry) => escapeRegExp(entry.source.trim()))
+      .join("|")})(?![\\p{L}\\p{N}])`,
+    "giu"
+  );
+
+  return text.replace(pattern, (match) => {
+    const entry = entries.find(
+      (e) => e.source.trim().toLowerCase() === match.toLowerCase()
+    );
+    return entry ? wrap(entry.target.trim()) : match;
+  });
+}
+
+/** Removes the markup added by protectGlossaryTerms and unescapes entities */
+export function stripMarkup(text: string): string {
+  return text
+    .replace(/<[^>]+>/g, "")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+export function escapeMarkup(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
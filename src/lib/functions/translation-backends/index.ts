@@ -0,0 +1,20 @@
+import { TranslationBackend, TranslationBackendId } from "@/types";
+import { llmTranslationBackend } from "./llm.backend";
+import { deeplTranslationBackend } from "./deepl.backend";
+import { libreTranslateBackend } from "./libretranslate.backend";
+
+const TRANSLATION_BACKENDS: Record<TranslationBackendId, TranslationBackend> = {
+  llm: llmTranslationBackend,
+  deepl: deeplTranslationBackend,
+  libretranslate: libreTranslateBackend,
+};
+
+/**
+ * Returns the translation backend, falling back to the LLM prompt backend
+ * for unknown ids (e.g. settings saved by a newer version).
+ */
+export function getTranslationBackend(
+  id: TranslationBackendId | undefined
+): TranslationBackend {
+  return (id && TRANSLATION_BACKENDS[id]) || llmTranslationBackend;
+}
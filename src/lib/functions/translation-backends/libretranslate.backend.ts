@@ -0,0 +1,81 @@
+import { fetch as tauriFetch } from "@tauri-apps/plugin-http";
+import { TranslationBackend } from "@/types";
+import { getErrorMessage, parseEventJson } from "../adapters/helpers";
+import {
+  escapeMarkup,
+  getLanguageCode,
+  protectGlossaryTerms,
+  stripMarkup,
+} from "./helpers";
+
+/**
+ * Self-hosted LibreTranslate server. Glossary terms are sent pre-translated
+ * in `translate="no"` spans using the HTML format. LibreTranslate has no
+ * context parameter, so the rolling context is not used.
+ */
+export const libreTranslateBackend: TranslationBackend = {
+  id: "libretranslate",
+
+  translate: async ({
+    text,
+    sourceLanguage,
+    targetLanguage,
+    glossary,
+    settings,
+    signal,
+  }) => {
+    const baseUrl = settings.libreTranslateUrl.trim().replace(/\/+$/, "");
+    if (!baseUrl) {
+      throw new Error("LibreTranslate URL is missing. Add it in the translation settings.");
+    }
+
+    const targetCode = getLanguageCode(targetLanguage);
+    if (!targetCode) {
+      throw new Error(
+        `LibreTranslate does not support target language: ${targetLanguage}`
+      );
+    }
+
+    const hasGlossary = glossary.some((e) => e.source.trim() && e.target.trim());
+    const body: Record<string, any> = {
+      q: hasGlossary
+        ? protectGlossaryTerms(
+            escapeMarkup(text),
+            glossary,
+            (target) => `<span translate="no">${escapeMarkup(target)}</span>`
+          )
+        : text,
+      source: getLanguageCode(sourceLanguage) || "auto",
+      target: targetCode,
+      format: hasGlossary ? "html" : "text",
+    };
+    if (settings.libreTranslateApiKey?.trim()) {
+      body.api_key = settings.libreTranslateApiKey.trim();
+    }
+
+    // Plain fetch for localhost, like the other local endpoints
+    const isLocalhost =
+      baseUrl.includes("localhost") || baseUrl.includes("127.0.0.1");
+    const fetchFunction = isLocalhost ? fetch : tauriFetch;
+
+    const response = await fetchFunction(`${baseUrl}/translate`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+      signal,
+    });
+
+    const responseText = await response.text();
+    const json = parseEventJson(responseText);
+    if (!response.ok) {
+      throw new Error(
+        `LibreTranslate request failed: ${response.status} ${
+          getErrorMessage(json) || responseText
+        }`
+      );
+    }
+
+    const translated: string = json?.translatedText ?? "";
+    return (hasGlossary ? stripMarkup(translated) : translated).trim();
+  },
+};
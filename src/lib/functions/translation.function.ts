@@ -0,0 +1,42 @@
+import { TranslationRequest, TranslationSettings } from "@/types";
+import { getTranslationBackend } from "./translation-backends";
+
+/**
+ * Per-segment translation with a short rolling context window of the
+ * previous source segments, for the lifetime of one capture session.
+ */
+export function createTranslationSession(settings: TranslationSettings) {
+  const backend = getTranslationBackend(settings.backend);
+  const context: string[] = [];
+
+  return {
+    settings,
+
+    async translate(
+      text: string,
+      options: Pick<
+        TranslationRequest,
+        "llm" | "signal" | "onChunk" | "onUsage" | "onProvider"
+      > = {}
+    ): Promise<string> {
+      const translation = await backend.translate({
+        ...options,
+        text,
+        sourceLanguage: settings.sourceLanguage,
+        targetLanguage: settings.targetLanguage,
+        glossary: settings.glossary,
+        context: [...context],
+        settings,
+      });
+
+      if (settings.contextSegments > 0) {
+        context.push(text);
+        context.splice(0, context.length - settings.contextSegments);
+      }
+
+      return translation;
+    },
+  };
+}
+
+export type TranslationSession = ReturnType<typeof createTranslationSession>;
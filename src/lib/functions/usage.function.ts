@@ -0,0 +1,90 @@
+import {
+  ChatMessage,
+  MessageUsage,
+  PricingEntry,
+  TokenUsage,
+  UsageTotals,
+} from "@/types";
+
+/**
+ * Attaches the provider and model of the selected provider to raw token or
+ * audio counts so the message can be priced later.
+ */
+export function buildMessageUsage(
+  selectedProvider: { provider: string; variables: Record<string, string> },
+  usage: TokenUsage & { audioSeconds?: number }
+): MessageUsage {
+  const variables = selectedProvider.variables || {};
+  return {
+    provider: selectedProvider.provider || undefined,
+    model: variables.model || variables.model_id || undefined,
+    ...usage,
+  };
+}
+
+/**
+ * Exact provider/model match first, then the provider's "*" entry.
+ */
+export function findPricingEntry(
+  table: PricingEntry[],
+  provider?: string,
+  model?: string
+): PricingEntry | undefined {
+  if (!provider) return undefined;
+  const forProvider = table.filter((entry) => entry.provider === provider);
+  return (
+    (model && forProvider.find((entry) => entry.model === model)) ||
+    forProvider.find((entry) => entry.model === "*")
+  );
+}
+
+/**
+ * Cost of one message in USD, or undefined when no price entry matches.
+ */
+export function getMessageCost(
+  usage: MessageUsage,
+  table: PricingEntry[]
+): number | undefined {
+  const entry = findPricingEntry(table, usage.provider, usage.model);
+  if (!entry) return undefined;
+
+  return (
+    ((usage.promptTokens ?? 0) / 1_000_000) * entry.inputPerMillion +
+    ((usage.completionTokens ?? 0) / 1_000_000) * entry.outputPerMillion +
+    ((usage.audioSeconds ?? 0) / 60) * entry.audioPerMinute
+  );
+}
+
+export function summarizeUsage(
+  messages: ChatMessage[],
+  table: PricingEntry[]
+): UsageTotals {
+  const totals: UsageTotals = {
+    promptTokens: 0,
+    completionTokens: 0,
+    audioSeconds: 0,
+    cost: 0,
+    unpricedCount: 0,
+  };
+
+  for (const { usage } of messages) {
+    if (!usage) continue;
+    totals.promptTokens += usage.promptTokens ?? 0;
+    totals.completionTokens += usage.completionTokens ?? 0;
+    totals.audioSeconds += usage.audioSeconds ?? 0;
+
+    const cost = getMessageCost(usage, table);
+    if (cost === undefined) {
+      totals.unpricedCount++;
+    } else {
+      totals.cost += cost;
+    }
+  }
+
+  return totals;
+}
+
+export function formatCost(cost: number): string {
+  if (cost === 0) return "$0.00";
+  return cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+}
@@ -0,0 +1,293 @@
+import { fetch as tauriFetch } from "@tauri-apps/plugin-http";
+import {
+  WEBHOOK_REQUEST_TIMEOUT_MS,
+  WEBHOOK_RETRY_DELAYS_MS,
+} from "@/config";
+import {
+  Webhook,
+  WebhookDelivery,
+  WebhookEvent,
+  WebhookEventType,
+} from "@/types";
+import {
+  getWebhookDeliveries,
+  getWebhookSettings,
+  setWebhookDeliveries,
+} from "../storage";
+
+/**
+ * Parses `Name: value` lines; lines without a colon are ignored
+ */
+export function parseWebhookHeaders(headers: string): Record<string, string> {
+  const parsed: Record<string, string> = {};
+  for (const line of headers.split("\n")) {
+    const separator = line.indexOf(":");
+    if (separator <= 0) continue;
+    const name = line.slice(0, separator).trim();
+    if (name) parsed[name] = line.slice(separator + 1).trim();
+  }
+  return parsed;
+}
+
+const asText = (value: unknown): string =>
+  typeof value === "string" ? value : value == null ? "" : String(value);
+
+function getTemplateVariables(event: WebhookEvent): Record<string, string> {
+  const { data } = event;
+  const actionItems = Array.isArray(data.actionItems)
+    ? data.actionItems
+        .map((item) => {
+          const details = [item?.owner, item?.due].filter(Boolean).join(", ");
+          return `- ${item?.task}${details ? ` (${details})` : ""}`;
+        })
+        .join("\n")
+    : "";
+
+  return {
+    EVENT: event.event,
+    TIMESTAMP: event.timestamp,
+    CONVERSATION_ID: event.conversation?.id ?? "",
+    CONVERSATION_TITLE: event.conversation?.title ?? "",
+    TEXT: asText(data.text),
+    SOURCE: asText(data.source),
+    SPEAKER: asText(data.speaker),
+    PROMPT: asText(data.prompt),
+    RESPONSE: asText(data.response),
+    PROVIDER: asText(data.provider),
+    SUMMARY: asText(data.overview),
+    ACTION_ITEMS: actionItems,
+  };
+}
+
+/**
+ * Fills in a payload template. `{{PAYLOAD}}` becomes the whole event as JSON;
+ * in JSON templates the other values are escaped to fit inside strings.
+ * Unknown variables are left as they are.
+ */
+export function renderWebhookPayload(
+  template: string,
+  event: WebhookEvent
+): string {
+  const isJson = /^\s*[[{]/.test(template);
+  const variables = getTemplateVariables(event);
+
+  return template.replace(/\{\{([A-Z_]+)\}\}/g, (match, name: string) => {
+    if (name === "PAYLOAD") return JSON.stringify(event);
+    if (!(name in variables)) return match;
+    return isJson
+      ? JSON.stringify(variables[name]).slice(1, -1)
+      : variables[name];
+  });
+}
+
+export function createWebhookEvent(
+  event: WebhookEvent["event"],
+  conversation: { id: string; title: string } | null,
+  data: Record<string, unknown>
+): WebhookEvent {
+  return {
+    event,
+    timestamp: new Date().toISOString(),
+    conversation: conversation?.id
+      ? { id: conversation.id, title: conversation.title }
+      : null,
+    data,
+  };
+}
+
+function createDelivery(
+  webhook: Webhook,
+  event: WebhookEvent
+): WebhookDelivery {
+  const now = Date.now();
+  return {
+    id: crypto.randomUUID(),
+    webhookId: webhook.id,
+    webhookName: webhook.name,
+    event: event.event,
+    url: webhook.url.trim(),
+    body: renderWebhookPayload(webhook.payloadTemplate, event),
+    status: "pending",
+    attempts: 0,
+    createdAt: now,
+    nextAttemptAt: now,
+  };
+}
+
+// Read again before every write so deliveries queued meanwhile are kept
+function updateDelivery(id: string, updates: Partial<WebhookDelivery>) {
+  setWebhookDeliveries(
+    getWebhookDeliveries().map((delivery) =>
+      delivery.id === id ? { ...delivery, ...updates } : delivery
+    )
+  );
+}
+
+/**
+ * Sends once. Rate limits, timeouts, server and network errors are worth
+ * retrying; other client errors are not.
+ */
+async function attemptDelivery(
+  delivery: WebhookDelivery,
+  webhook: Webhook | undefined
+): Promise<Partial<WebhookDelivery> & { retry: boolean }> {
+  if (!webhook) {
+    return { error: "The webhook was removed", retry: false };
+  }
+  if (delivery.body === undefined) {
+    return { error: "The payload is no longer stored", retry: false };
+  }
+
+  const controller = new AbortController();
+  const timeout = setTimeout(
+    () => controller.abort(),
+    WEBHOOK_REQUEST_TIMEOUT_MS
+  );
+  try {
+    // Through the HTTP plugin, so local relays do not need CORS headers
+    const response = await tauriFetch(delivery.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": /^\s*[[{]/.test(delivery.body)
+          ? "application/json"
+          : "text/plain",
+        ...parseWebhookHeaders(webhook.headers),
+      },
+      body: delivery.body,
+      signal: controller.signal,
+    });
+    if (response.ok) return { statusCode: response.status, retry: false };
+
+    const text = await response.text().catch(() => "");
+    return {
+      statusCode: response.status,
+      error: text.slice(0, 300) || `HTTP ${response.status}`,
+      retry:
+        response.status === 408 ||
+        response.status === 429 ||
+        response.status >= 500,
+    };
+  } catch (error) {
+    return {
+      error: controller.signal.aborted
+        ? "The request timed out"
+        : String(error instanceof Error ? error.message : error) ||
+          "The request failed",
+      retry: true,
+    };
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+let isProcessing = false;
+
+/**
+ * Sends every pending delivery that is due, oldest first, and schedules
+ * failed ones for another attempt until `maxAttempts` is reached. Only the
+ * main window sends; other windows queue deliveries in storage.
+ */
+export async function processWebhookQueue(): Promise<void> {
+  if (isProcessing) return;
+  isProcessing = true;
+
+  const getDue = () =>
+    getWebhookDeliveries()
+      .filter(
+        (delivery) =>
+          delivery.status === "pending" &&
+          (delivery.nextAttemptAt ?? 0) <= Date.now()
+      )
+      .reverse();
+
+  try {
+    // Picks up deliveries queued while the previous ones were sent
+    for (let due = getDue(); due.length > 0; due = getDue()) {
+      const { webhooks, maxAttempts } = getWebhookSettings();
+      const delivery = due[0];
+      const webhook = webhooks.find((w) => w.id === delivery.webhookId);
+      const { retry, ...result } = await attemptDelivery(delivery, webhook);
+      const attempts = delivery.attempts + 1;
+      const delivered = !result.error;
+      const willRetry = !delivered && retry && attempts < maxAttempts;
+
+      updateDelivery(delivery.id, {
+        statusCode: undefined,
+        error: undefined,
+        // Transcripts and responses stay in the log only until delivered
+        ...(delivered && { body: undefined }),
+        ...result,
+        attempts,
+        lastAttemptAt: Date.now(),
+        status: delivered ? "delivered" : willRetry ? "pending" : "failed",
+        nextAttemptAt: willRetry
+          ? Date.now() +
+            WEBHOOK_RETRY_DELAYS_MS[
+              Math.min(attempts - 1, WEBHOOK_RETRY_DELAYS_MS.length - 1)
+            ]
+          : undefined,
+      });
+    }
+  } finally {
+    isProcessing = false;
+  }
+}
+
+/**
+ * Queues the event for every enabled webhook subscribed to it and starts
+ * sending
+ */
+export function queueWebhookEvent(event: WebhookEvent): void {
+  const { webhooks } = getWebhookSettings();
+  const targets = webhooks.filter(
+    (webhook) =>
+      webhook.enabled &&
+      webhook.url.trim() &&
+      webhook.events.includes(event.event as WebhookEventType)
+  );
+  if (targets.length === 0) return;
+
+  setWebhookDeliveries([
+    ...targets.map((webhook) => createDelivery(webhook, event)),
+    ...getWebhookDeliveries(),
+  ]);
+  void processWebhookQueue();
+}
+
+/**
+ * Queues a test event for one webhook, whether or not it is enabled
+ */
+export function queueWebhookTest(webhook: Webhook): void {
+  const event = createWebhookEvent(
+    "test",
+    { id: "test", title: "TalkEcho webhook test" },
+    {
+      text: "This is a test event from TalkEcho.",
+      source: "system_audio",
+    }
+  );
+  setWebhookDeliveries([
+    createDelivery(webhook, event),
+    ...getWebhookDeliveries(),
+  ]);
+}
+
+/**
+ * Puts a failed delivery back in the queue with a fresh set of attempts
+ */
+export function retryWebhookDelivery(id: string): void {
+  updateDelivery(id, {
+    status: "pending",
+    attempts: 0,
+    nextAttemptAt: Date.now(),
+  });
+}
+
+/**
+ * Removes finished deliveries from the log; pending ones stay queued
+ */
+export function clearWebhookDeliveries(): void {
+  setWebhookDeliveries(
+    getWebhookDeliveries().filter((delivery) => delivery.status === "pending")
+  );
+}
@@ -0,0 +1,71 @@
+import { DEFAULT_DOCUMENT_CONTEXT_SETTINGS, STORAGE_KEYS } from "@/config";
+import { DocumentContextSettings } from "@/types";
+import { safeLocalStorage } from "./helper";
+import { protectSecret } from "./provider-secrets.storage";
+
+// Keychain item for the embeddings endpoint key, named like the provider items
+const EMBEDDING_API_KEY_ACCOUNT = "talkecho_document_context:embedding_api_key";
+
+/**
+ * Get document context settings from localStorage, filled up with defaults
+ */
+export const getDocumentContextSettings = (): DocumentContextSettings => {
+  const stored = safeLocalStorage.getItem(
+    STORAGE_KEYS.DOCUMENT_CONTEXT_SETTINGS
+  );
+  if (!stored) return DEFAULT_DOCUMENT_CONTEXT_SETTINGS;
+
+  try {
+    return { ...DEFAULT_DOCUMENT_CONTEXT_SETTINGS, ...JSON.parse(stored) };
+  } catch (error) {
+    console.error("Failed to get document context settings:", error);
+    return DEFAULT_DOCUMENT_CONTEXT_SETTINGS;
+  }
+};
+
+/**
+ * Save document context settings to localStorage
+ */
+export const setDocumentContextSettings = (
+  settings: DocumentContextSettings
+): void => {
+  safeLocalStorage.setItem(
+    STORAGE_KEYS.DOCUMENT_CONTEXT_SETTINGS,
+    JSON.stringify(settings)
+  );
+};
+
+/**
+ * Save document context settings with the embeddings API key moved into the
+ * keyring. A key the keyring refuses is saved as it is, so it is not lost,
+ * and is moved on the next save or start.
+ */
+export const saveDocumentContextSettings = async (
+  settings: DocumentContextSettings
+): Promise<void> => {
+  let embeddingApiKey = settings.embeddingApiKey;
+  try {
+    embeddingApiKey = await protectSecret(
+      EMBEDDING_API_KEY_ACCOUNT,
+      embeddingApiKey
+    );
+  } catch (error) {
+    console.error(
+      "Failed to store the embeddings API key in the keyring:",
+      error
+    );
+  }
+  setDocumentContextSettings({ ...settings, embeddingApiKey });
+};
+
+/**
+ * Moves an embeddings API key still stored in plain text (saved before
+ * keyring storage, or restored from a backup) into the keyring
+ */
+export const migrateDocumentContextSecrets = async (): Promise<void> => {
+  const stored = safeLocalStorage.getItem(
+    STORAGE_KEYS.DOCUMENT_CONTEXT_SETTINGS
+  );
+  if (!stored) return;
+  await saveDocumentContextSettings(getDocumentContextSettings());
+};
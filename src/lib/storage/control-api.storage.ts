@@ -0,0 +1,28 @@
+import { DEFAULT_CONTROL_API_SETTINGS, STORAGE_KEYS } from "@/config";
+import { ControlApiSettings } from "@/types";
+import { safeLocalStorage } from "./helper";
+
+/**
+ * Get control API settings from localStorage, filled up with defaults
+ */
+export const getControlApiSettings = (): ControlApiSettings => {
+  const stored = safeLocalStorage.getItem(STORAGE_KEYS.CONTROL_API_SETTINGS);
+  if (!stored) return DEFAULT_CONTROL_API_SETTINGS;
+
+  try {
+    return { ...DEFAULT_CONTROL_API_SETTINGS, ...JSON.parse(stored) };
+  } catch (error) {
+    console.error("Failed to get control API settings:", error);
+    return DEFAULT_CONTROL_API_SETTINGS;
+  }
+};
+
+/**
+ * Save control API settings to localStorage
+ */
+export const setControlApiSettings = (settings: ControlApiSettings): void => {
+  safeLocalStorage.setItem(
+    STORAGE_KEYS.CONTROL_API_SETTINGS,
+    JSON.stringify(settings)
+  );
+};
@@ -0,0 +1,47 @@
+import { DEFAULT_FAILOVER_SETTINGS, STORAGE_KEYS } from "@/config";
+import { FailoverSettings } from "@/types";
+import { safeLocalStorage } from "./helper";
+
+/**
+ * Get AI failover settings from localStorage, filled up with defaults
+ */
+export const getFailoverSettings = (): FailoverSettings => {
+  const stored = safeLocalStorage.getItem(STORAGE_KEYS.AI_FAILOVER_SETTINGS);
+  if (!stored) return DEFAULT_FAILOVER_SETTINGS;
+
+  try {
+    return { ...DEFAULT_FAILOVER_SETTINGS, ...JSON.parse(stored) };
+  } catch (error) {
+    console.error("Failed to get failover settings:", error);
+    return DEFAULT_FAILOVER_SETTINGS;
+  }
+};
+
+/**
+ * Save AI failover settings to localStorage
+ */
+export const setFailoverSettings = (settings: FailoverSettings): void => {
+  safeLocalStorage.setItem(
+    STORAGE_KEYS.AI_FAILOVER_SETTINGS,
+    JSON.stringify(settings)
+  );
+};
+
+/**
+ * Variables last saved for an AI provider, as stored: secrets are keyring
+ * references until passed through `resolveProviderVariables`
+ */
+export const getStoredAiProviderVariables = (
+  providerId: string
+): Record<string, string> => {
+  try {
+    const variablesById = JSON.parse(
+      safeLocalStorage.getItem(STORAGE_KEYS.AI_PROVIDER_VARIABLES_BY_ID) ||
+        "{}"
+    );
+    const variables = variablesById?.[providerId];
+    return variables && typeof variables === "object" ? variables : {};
+  } catch {
+    return {};
+  }
+};
@@ -4,3 +4,18 @@ export * from "./helper";
 export * from "./customizable.storage";
 export * from "./shortcuts.storage";
 export * from "./response-settings.storage";
+export * from "./pricing.storage";
+export * from "./whisper.storage";
+export * from "./subtitle.storage";
+export * from "./translation.storage";
+export * from "./summary.storage";
+export * from "./retention.storage";
+export * from "./provider-secrets.storage";
+export * from "./failover.storage";
+export * from "./screenshot.storage";
+export * from "./ocr.storage";
+export * from "./control-api.storage";
+export * from "./live-notes.storage";
+export * from "./webhook.storage";
+export * from "./context-documents.storage";
+export * from "./meeting-profile.storage";
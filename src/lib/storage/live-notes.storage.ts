@@ -0,0 +1,28 @@
+import { DEFAULT_LIVE_NOTES_SETTINGS, STORAGE_KEYS } from "@/config";
+import { LiveNotesSettings } from "@/types";
+import { safeLocalStorage } from "./helper";
+
+/**
+ * Get live notes settings from localStorage, filled up with defaults
+ */
+export const getLiveNotesSettings = (): LiveNotesSettings => {
+  const stored = safeLocalStorage.getItem(STORAGE_KEYS.LIVE_NOTES_SETTINGS);
+  if (!stored) return DEFAULT_LIVE_NOTES_SETTINGS;
+
+  try {
+    return { ...DEFAULT_LIVE_NOTES_SETTINGS, ...JSON.parse(stored) };
+  } catch (error) {
+    console.error("Failed to get live notes settings:", error);
+    return DEFAULT_LIVE_NOTES_SETTINGS;
+  }
+};
+
+/**
+ * Save live notes settings to localStorage
+ */
+export const setLiveNotesSettings = (settings: LiveNotesSettings): void => {
+  safeLocalStorage.setItem(
+    STORAGE_KEYS.LIVE_NOTES_SETTINGS,
+    JSON.stringify(settings)
+  );
+};
@@ -0,0 +1,30 @@
+import { DEFAULT_MEETING_PROFILE_SETTINGS, STORAGE_KEYS } from "@/config";
+import { MeetingProfileSettings } from "@/types";
+import { safeLocalStorage } from "./helper";
+
+/**
+ * Get meeting profiles from localStorage, filled up with defaults
+ */
+export const getMeetingProfileSettings = (): MeetingProfileSettings => {
+  const stored = safeLocalStorage.getItem(STORAGE_KEYS.MEETING_PROFILES);
+  if (!stored) return DEFAULT_MEETING_PROFILE_SETTINGS;
+
+  try {
+    return { ...DEFAULT_MEETING_PROFILE_SETTINGS, ...JSON.parse(stored) };
+  } catch (error) {
+    console.error("Failed to get meeting profiles:", error);
+    return DEFAULT_MEETING_PROFILE_SETTINGS;
+  }
+};
+
+/**
+ * Save meeting profiles to localStorage
+ */
+export const setMeetingProfileSettings = (
+  settings: MeetingProfileSettings
+): void => {
+  safeLocalStorage.setItem(
+    STORAGE_KEYS.MEETING_PROFILES,
+    JSON.stringify(settings)
+  );
+};
@@ -0,0 +1,25 @@
+import { DEFAULT_OCR_SETTINGS, STORAGE_KEYS } from "@/config";
+import { OcrSettings } from "@/types";
+import { safeLocalStorage } from "./helper";
+
+/**
+ * Get screenshot OCR settings from localStorage, filled up with defaults
+ */
+export const getOcrSettings = (): OcrSettings => {
+  const stored = safeLocalStorage.getItem(STORAGE_KEYS.OCR_SETTINGS);
+  if (!stored) return DEFAULT_OCR_SETTINGS;
+
+  try {
+    return { ...DEFAULT_OCR_SETTINGS, ...JSON.parse(stored) };
+  } catch (error) {
+    console.error("Failed to get OCR settings:", error);
+    return DEFAULT_OCR_SETTINGS;
+  }
+};
+
+/**
+ * Save screenshot OCR settings to localStorage
+ */
+export const setOcrSettings = (settings: OcrSettings): void => {
+  safeLocalStorage.setItem(STORAGE_KEYS.OCR_SETTINGS, JSON.stringify(settings));
+};
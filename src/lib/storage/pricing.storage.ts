@@ -0,0 +1,40 @@
+import { DEFAULT_PRICING_TABLE, STORAGE_KEYS } from "@/config";
+import { PricingEntry } from "@/types";
+import { safeLocalStorage } from "./helper";
+
+/**
+ * Get the pricing table from localStorage, falling back to the defaults
+ */
+export const getPricingTable = (): PricingEntry[] => {
+  const stored = safeLocalStorage.getItem(STORAGE_KEYS.PRICING_TABLE);
+  if (!stored) return DEFAULT_PRICING_TABLE;
+
+  try {
+    const parsed = JSON.parse(stored);
+    if (!Array.isArray(parsed)) return DEFAULT_PRICING_TABLE;
+    return parsed.filter(
+      (entry: any) =>
+        entry?.id &&
+        typeof entry.provider === "string" &&
+        typeof entry.model === "string"
+    );
+  } catch (error) {
+    console.error("Failed to get pricing table:", error);
+    return DEFAULT_PRICING_TABLE;
+  }
+};
+
+/**
+ * Save the pricing table to localStorage
+ */
+export const setPricingTable = (entries: PricingEntry[]): void => {
+  safeLocalStorage.setItem(STORAGE_KEYS.PRICING_TABLE, JSON.stringify(entries));
+};
+
+/**
+ * Drop user edits and go back to the default prices
+ */
+export const resetPricingTable = (): PricingEntry[] => {
+  safeLocalStorage.removeItem(STORAGE_KEYS.PRICING_TABLE);
+  return DEFAULT_PRICING_TABLE;
+};
@@ -0,0 +1,185 @@
+import { getItem, removeItem, saveItem } from "tauri-plugin-keychain";
+import { STORAGE_KEYS } from "@/config";
+import { safeLocalStorage } from "./helper";
+
+// Stored in localStorage in place of a secret; the value lives in the keyring
+const SECRET_REFERENCE_PREFIX = "keyring:";
+// Whole credential names such as API_KEY, ACCESS_TOKEN or CLIENT_SECRET
+// (camelCase names are split into words first); limits such as MAX_TOKENS
+// are ordinary settings
+const SECRET_VARIABLE_PATTERN =
+  /^(.*_)?(api_?key|key|token|secret|password)$/i;
+const NON_SECRET_VARIABLE_PATTERN = /^max_?(completion_)?tokens?$/i;
+
+// Secrets being typed are saved once typing pauses for this long, since every
+// keyring write is slow and may ask for permission
+export const SECRET_SAVE_DEBOUNCE_MS = 500;
+
+export type ProviderKind = "ai" | "stt";
+
+// Keyring writes run one at a time so a slow earlier save of a key that is
+// being typed cannot overwrite a later one
+let pendingWrite: Promise<unknown> = Promise.resolve();
+
+const queueWrite = (write: () => Promise<unknown>) => {
+  const queued = pendingWrite.then(write);
+  pendingWrite = queued.catch(() => {});
+  return queued;
+};
+
+/**
+ * Whether a provider variable or settings field holds a credential (API_KEY,
+ * TOKEN, deeplApiKey, ...)
+ */
+export const isSecretVariable = (name: string): boolean => {
+  const words = name.replace(/([a-z0-9])([A-Z])/g, "$1_$2");
+  return (
+    SECRET_VARIABLE_PATTERN.test(words) &&
+    !NON_SECRET_VARIABLE_PATTERN.test(words)
+  );
+};
+
+const isSecretReference = (value: string): boolean =>
+  value.startsWith(SECRET_REFERENCE_PREFIX);
+
+// Keychain item, named like the database key item
+const toAccount = (kind: ProviderKind, providerId: string, name: string) =>
+  `talkecho_${kind}_provider:${providerId}:${name}`;
+
+/**
+ * Stores a secret in the OS keyring under `account` and returns the reference
+ * to keep in its place. An empty value removes the stored secret.
+ */
+export async function protectSecret(
+  account: string,
+  value: string
+): Promise<string> {
+  if (isSecretReference(value)) return value;
+
+  if (!value) {
+    // Nothing to remove when the secret was never saved
+    await queueWrite(() => removeItem(account).catch(() => null));
+    return value;
+  }
+  await queueWrite(() => saveItem(account, value));
+  return SECRET_REFERENCE_PREFIX + account;
+}
+
+/**
+ * Replaces a keyring reference with the stored secret; other values are
+ * returned as they are. A secret that cannot be read comes back empty.
+ */
+export async function resolveSecret(value: string): Promise<string> {
+  if (!isSecretReference(value)) return value;
+
+  try {
+    return (await getItem(value.slice(SECRET_REFERENCE_PREFIX.length))) ?? "";
+  } catch (error) {
+    console.error("Failed to read a secret from the keyring:", error);
+    return "";
+  }
+}
+
+/**
+ * Moves secret variables into the OS keyring and returns the variables with
+ * references in their place, ready for localStorage. A secret the keyring
+ * refuses stays as it is, so it is not lost, and is moved on the next save
+ * or start.
+ */
+export async function protectProviderVariables(
+  kind: ProviderKind,
+  providerId: string,
+  variables: Record<string, string>
+): Promise<Record<string, string>> {
+  const result = { ...variables };
+
+  for (const [name, value] of Object.entries(variables)) {
+    if (!isSecretVariable(name)) continue;
+
+    try {
+      result[name] = await protectSecret(
+        toAccount(kind, providerId, name),
+        value
+      );
+    } catch (error) {
+      console.error(`Failed to store ${name} in the keyring:`, error);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Replaces keyring references with the stored secrets. Secrets that cannot
+ * be read come back empty.
+ */
+export async function resolveProviderVariables(
+  variables: Record<string, string>
+): Promise<Record<string, string>> {
+  const result = { ...variables };
+  for (const [name, value] of Object.entries(variables)) {
+    result[name] = await resolveSecret(value);
+  }
+  return result;
+}
+
+const PROVIDER_VARIABLE_STORAGE: {
+  kind: ProviderKind;
+  selectedKey: string;
+  variablesByIdKey: string;
+}[] = [
+  {
+    kind: "ai",
+    selectedKey: STORAGE_KEYS.SELECTED_AI_PROVIDER,
+    variablesByIdKey: STORAGE_KEYS.AI_PROVIDER_VARIABLES_BY_ID,
+  },
+  {
+    kind: "stt",
+    selectedKey: STORAGE_KEYS.SELECTED_STT_PROVIDER,
+    variablesByIdKey: STORAGE_KEYS.STT_PROVIDER_VARIABLES_BY_ID,
+  },
+];
+
+const parseStored = (key: string): any => {
+  try {
+    return JSON.parse(safeLocalStorage.getItem(key) || "null");
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Moves secrets still stored in plain text (saved before keyring storage, or
+ * while the keyring was unavailable) into the keyring. Safe to run on every
+ * start since stored references are left alone.
+ */
+export async function migrateProviderSecrets(): Promise<void> {
+  for (const storage of PROVIDER_VARIABLE_STORAGE) {
+    const { kind, selectedKey, variablesByIdKey } = storage;
+    const selected = parseStored(selectedKey);
+    if (selected?.provider && selected.variables) {
+      const variables = await protectProviderVariables(
+        kind,
+        selected.provider,
+        selected.variables
+      );
+      safeLocalStorage.setItem(
+        selectedKey,
+        JSON.stringify({ ...selected, variables })
+      );
+    }
+
+    const variablesById = parseStored(variablesByIdKey);
+    if (variablesById && typeof variablesById === "object") {
+      for (const [providerId, variables] of Object.entries(variablesById)) {
+        if (!variables || typeof variables !== "object") continue;
+        variablesById[providerId] = await protectProviderVariables(
+          kind,
+          providerId,
+          variables as Record<string, string>
+        );
+      }
+      safeLocalStorage.setItem(variablesByIdKey, JSON.stringify(variablesById));
+    }
+  }
+}
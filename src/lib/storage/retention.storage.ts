@@ -0,0 +1,52 @@
+import { DEFAULT_RETENTION_SETTINGS, STORAGE_KEYS } from "@/config";
+import { RetentionPurgeResult, RetentionSettings } from "@/types";
+import { safeLocalStorage } from "./helper";
+
+/**
+ * Get retention settings from localStorage, filled up with defaults
+ */
+export const getRetentionSettings = (): RetentionSettings => {
+  const stored = safeLocalStorage.getItem(STORAGE_KEYS.RETENTION_SETTINGS);
+  if (!stored) return DEFAULT_RETENTION_SETTINGS;
+
+  try {
+    return { ...DEFAULT_RETENTION_SETTINGS, ...JSON.parse(stored) };
+  } catch (error) {
+    console.error("Failed to get retention settings:", error);
+    return DEFAULT_RETENTION_SETTINGS;
+  }
+};
+
+/**
+ * Save retention settings to localStorage
+ */
+export const setRetentionSettings = (settings: RetentionSettings): void => {
+  safeLocalStorage.setItem(
+    STORAGE_KEYS.RETENTION_SETTINGS,
+    JSON.stringify(settings)
+  );
+};
+
+/**
+ * Get the result of the last retention purge, if one ran
+ */
+export const getLastRetentionPurge = (): RetentionPurgeResult | null => {
+  const stored = safeLocalStorage.getItem(STORAGE_KEYS.RETENTION_LAST_PURGE);
+  if (!stored) return null;
+
+  try {
+    return JSON.parse(stored);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Save the result of a retention purge to localStorage
+ */
+export const setLastRetentionPurge = (result: RetentionPurgeResult): void => {
+  safeLocalStorage.setItem(
+    STORAGE_KEYS.RETENTION_LAST_PURGE,
+    JSON.stringify(result)
+  );
+};
@@ -0,0 +1,55 @@
+import { STORAGE_KEYS } from "@/config";
+import { ScreenshotConfig, ScreenshotTarget } from "@/types";
+import { safeLocalStorage } from "./helper";
+
+/**
+ * Get the screenshot targets remembered per system prompt, by prompt id
+ */
+export const getPromptScreenshotTargets = (): Record<
+  string,
+  ScreenshotTarget
+> => {
+  const stored = safeLocalStorage.getItem(
+    STORAGE_KEYS.SCREENSHOT_PROMPT_TARGETS
+  );
+  if (!stored) return {};
+
+  try {
+    const parsed = JSON.parse(stored);
+    return parsed && typeof parsed === "object" ? parsed : {};
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * Remember a screenshot target for a system prompt, or forget it with null
+ */
+export const setPromptScreenshotTarget = (
+  promptId: number,
+  target: ScreenshotTarget | null
+): void => {
+  const targets = getPromptScreenshotTargets();
+  if (target) {
+    targets[promptId] = target;
+  } else {
+    delete targets[promptId];
+  }
+  safeLocalStorage.setItem(
+    STORAGE_KEYS.SCREENSHOT_PROMPT_TARGETS,
+    JSON.stringify(targets)
+  );
+};
+
+/**
+ * Target for the next screenshot: the one remembered for the selected system
+ * prompt, otherwise the configured one
+ */
+export const resolveScreenshotTarget = (
+  config: ScreenshotConfig
+): ScreenshotTarget => {
+  const promptId = safeLocalStorage.getItem(
+    STORAGE_KEYS.SELECTED_SYSTEM_PROMPT_ID
+  );
+  return (promptId && getPromptScreenshotTargets()[promptId]) || config.target;
+};
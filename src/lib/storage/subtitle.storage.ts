@@ -0,0 +1,28 @@
+import { DEFAULT_SUBTITLE_SETTINGS, STORAGE_KEYS } from "@/config";
+import { SubtitleSettings } from "@/types";
+import { safeLocalStorage } from "./helper";
+
+/**
+ * Get subtitle mode settings from localStorage, filled up with defaults
+ */
+export const getSubtitleSettings = (): SubtitleSettings => {
+  const stored = safeLocalStorage.getItem(STORAGE_KEYS.SUBTITLE_SETTINGS);
+  if (!stored) return DEFAULT_SUBTITLE_SETTINGS;
+
+  try {
+    return { ...DEFAULT_SUBTITLE_SETTINGS, ...JSON.parse(stored) };
+  } catch (error) {
+    console.error("Failed to get subtitle settings:", error);
+    return DEFAULT_SUBTITLE_SETTINGS;
+  }
+};
+
+/**
+ * Save subtitle mode settings to localStorage
+ */
+export const setSubtitleSettings = (settings: SubtitleSettings): void => {
+  safeLocalStorage.setItem(
+    STORAGE_KEYS.SUBTITLE_SETTINGS,
+    JSON.stringify(settings)
+  );
+};
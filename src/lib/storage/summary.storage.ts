@@ -0,0 +1,32 @@
+import { DEFAULT_MEETING_SUMMARY_SETTINGS, STORAGE_KEYS } from "@/config";
+import { MeetingSummarySettings } from "@/types";
+import { safeLocalStorage } from "./helper";
+
+/**
+ * Get meeting summary settings from localStorage, filled up with defaults
+ */
+export const getMeetingSummarySettings = (): MeetingSummarySettings => {
+  const stored = safeLocalStorage.getItem(
+    STORAGE_KEYS.MEETING_SUMMARY_SETTINGS
+  );
+  if (!stored) return DEFAULT_MEETING_SUMMARY_SETTINGS;
+
+  try {
+    return { ...DEFAULT_MEETING_SUMMARY_SETTINGS, ...JSON.parse(stored) };
+  } catch (error) {
+    console.error("Failed to get meeting summary settings:", error);
+    return DEFAULT_MEETING_SUMMARY_SETTINGS;
+  }
+};
+
+/**
+ * Save meeting summary settings to localStorage
+ */
+export const setMeetingSummarySettings = (
+  settings: MeetingSummarySettings
+): void => {
+  safeLocalStorage.setItem(
+    STORAGE_KEYS.MEETING_SUMMARY_SETTINGS,
+    JSON.stringify(settings)
+  );
+};
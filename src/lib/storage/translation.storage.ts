@@ -0,0 +1,28 @@
+import { DEFAULT_TRANSLATION_SETTINGS, STORAGE_KEYS } from "@/config";
+import { TranslationSettings } from "@/types";
+import { safeLocalStorage } from "./helper";
+
+/**
+ * Get translation engine settings from localStorage, filled up with defaults
+ */
+export const getTranslationSettings = (): TranslationSettings => {
+  const stored = safeLocalStorage.getItem(STORAGE_KEYS.TRANSLATION_SETTINGS);
+  if (!stored) return DEFAULT_TRANSLATION_SETTINGS;
+
+  try {
+    return { ...DEFAULT_TRANSLATION_SETTINGS, ...JSON.parse(stored) };
+  } catch (error) {
+    console.error("Failed to get translation settings:", error);
+    return DEFAULT_TRANSLATION_SETTINGS;
+  }
+};
+
+/**
+ * Save translation engine settings to localStorage
+ */
+export const setTranslationSettings = (settings: TranslationSettings): void => {
+  safeLocalStorage.setItem(
+    STORAGE_KEYS.TRANSLATION_SETTINGS,
+    JSON.stringify(settings)
+  );
+};
@@ -0,0 +1,77 @@
+import {
+  DEFAULT_WEBHOOK_SETTINGS,
+  STORAGE_KEYS,
+  WEBHOOK_DELIVERY_LOG_LIMIT,
+} from "@/config";
+import { WebhookDelivery, WebhookSettings } from "@/types";
+import { safeLocalStorage } from "./helper";
+
+/**
+ * Get webhook settings from localStorage, filled up with defaults
+ */
+export const getWebhookSettings = (): WebhookSettings => {
+  const stored = safeLocalStorage.getItem(STORAGE_KEYS.WEBHOOK_SETTINGS);
+  if (!stored) return DEFAULT_WEBHOOK_SETTINGS;
+
+  try {
+    return { ...DEFAULT_WEBHOOK_SETTINGS, ...JSON.parse(stored) };
+  } catch (error) {
+    console.error("Failed to get webhook settings:", error);
+    return DEFAULT_WEBHOOK_SETTINGS;
+  }
+};
+
+/**
+ * Save webhook settings to localStorage
+ */
+export const setWebhookSettings = (settings: WebhookSettings): void => {
+  safeLocalStorage.setItem(
+    STORAGE_KEYS.WEBHOOK_SETTINGS,
+    JSON.stringify(settings)
+  );
+};
+
+/**
+ * Get the webhook delivery log, newest first
+ */
+export const getWebhookDeliveries = (): WebhookDelivery[] => {
+  const stored = safeLocalStorage.getItem(STORAGE_KEYS.WEBHOOK_DELIVERIES);
+  if (!stored) return [];
+
+  try {
+    const parsed = JSON.parse(stored);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.error("Failed to get webhook deliveries:", error);
+    return [];
+  }
+};
+
+/**
+ * Remove deliveries created before `cutoff` that still hold a payload,
+ * pending ones included. Returns how many were removed.
+ */
+export const purgeWebhookDeliveries = (cutoff: number): number => {
+  const deliveries = getWebhookDeliveries();
+  const kept = deliveries.filter(
+    (delivery) => delivery.body === undefined || delivery.createdAt >= cutoff
+  );
+  if (kept.length !== deliveries.length) setWebhookDeliveries(kept);
+  return deliveries.length - kept.length;
+};
+
+/**
+ * Save the webhook delivery log. Pending deliveries are always kept; finished
+ * ones beyond the log limit are dropped.
+ */
+export const setWebhookDeliveries = (deliveries: WebhookDelivery[]): void => {
+  let finished = 0;
+  const kept = deliveries.filter(
+    (delivery) =>
+      delivery.status === "pending" || ++finished <= WEBHOOK_DELIVERY_LOG_LIMIT
+  );
+  safeLocalStorage.setItem(
+    STORAGE_KEYS.WEBHOOK_DELIVERIES,
+    JSON.stringify(kept)
+  );
+};
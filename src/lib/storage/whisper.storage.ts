@@ -0,0 +1,18 @@
+import { DEFAULT_WHISPER_MODEL, STORAGE_KEYS } from "@/config";
+import { safeLocalStorage } from "./helper";
+
+/**
+ * Get the ggml model used by the offline whisper.cpp engine
+ */
+export const getWhisperModel = (): string => {
+  return (
+    safeLocalStorage.getItem(STORAGE_KEYS.WHISPER_MODEL) || DEFAULT_WHISPER_MODEL
+  );
+};
+
+/**
+ * Save the ggml model used by the offline whisper.cpp engine
+ */
+export const setWhisperModel = (modelId: string): void => {
+  safeLocalStorage.setItem(STORAGE_KEYS.WHISPER_MODEL, modelId);
+};
@@ -0,0 +1,78 @@
+import {
+  Button,
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components";
+import { useMeetingProfilesType } from "@/hooks";
+import { LayersIcon, Loader2 } from "lucide-react";
+
+interface MeetingProfileSwitcherProps extends useMeetingProfilesType {
+  resizeWindow: (expanded: boolean) => void;
+}
+
+export const MeetingProfileSwitcher = ({
+  profiles,
+  activeProfileId,
+  isApplying,
+  error,
+  applyProfile,
+  resizeWindow,
+}: MeetingProfileSwitcherProps) => {
+  if (profiles.length === 0) return null;
+
+  const activeProfile = profiles.find((p) => p.id === activeProfileId);
+
+  return (
+    <DropdownMenu
+      onOpenChange={(open) => {
+        if (open) resizeWindow(true);
+      }}
+    >
+      <DropdownMenuTrigger asChild>
+        <Button
+          size="sm"
+          variant="outline"
+          className="cursor-pointer max-w-[160px]"
+          title="Switch meeting profile"
+          disabled={isApplying}
+        >
+          {isApplying ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <LayersIcon className="h-4 w-4" />
+          )}
+          <span className="truncate">
+            {activeProfile?.name ?? "No profile"}
+          </span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-56">
+        <DropdownMenuLabel className="text-xs text-muted-foreground">
+          Meeting profile
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuRadioGroup
+          value={activeProfileId ?? ""}
+          onValueChange={applyProfile}
+        >
+          {profiles.map((profile) => (
+            <DropdownMenuRadioItem key={profile.id} value={profile.id}>
+              <span className="truncate">{profile.name}</span>
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+        {error && (
+          <>
+            <DropdownMenuSeparator />
+            <p className="px-2 py-1 text-xs text-red-500">{error}</p>
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
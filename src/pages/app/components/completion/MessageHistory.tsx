@@ -8,6 +8,9 @@ import {
   Markdown,
 } from "@/components";
 import { ChatMessage } from "@/types/completion";
+import { useInfiniteScroll } from "@/hooks";
+import { HISTORY_PAGE_SIZE } from "@/lib";
+import { useEffect, useMemo, useState } from "react";
 
 interface MessageHistoryProps {
   conversationHistory: ChatMessage[];
@@ -23,6 +26,22 @@ export const MessageHistory = ({
   messageHistoryOpen,
   setMessageHistoryOpen,
 }: MessageHistoryProps) => {
+  // Render long conversations a page at a time, newest first
+  const [visibleCount, setVisibleCount] = useState(HISTORY_PAGE_SIZE);
+  const sortedMessages = useMemo(
+    () =>
+      [...conversationHistory].sort((a, b) => b?.timestamp - a?.timestamp),
+    [conversationHistory]
+  );
+  const loadMoreRef = useInfiniteScroll({
+    onLoadMore: () => setVisibleCount((count) => count + HISTORY_PAGE_SIZE),
+    hasMore: visibleCount < sortedMessages.length,
+  });
+
+  useEffect(() => {
+    if (!messageHistoryOpen) setVisibleCount(HISTORY_PAGE_SIZE);
+  }, [messageHistoryOpen]);
+
   return (
     <Popover open={messageHistoryOpen} onOpenChange={setMessageHistoryOpen}>
       <PopoverTrigger asChild>
@@ -83,8 +102,8 @@ export const MessageHistory = ({
 
         <ScrollArea className="h-[calc(100vh-10rem)]">
           <div className="p-4 space-y-4">
-            {conversationHistory
-              .sort((a, b) => b?.timestamp - a?.timestamp)
+            {sortedMessages
+              .slice(0, visibleCount)
               .map((message) => (
                 <div
                   key={message.id}
@@ -108,6 +127,7 @@ export const MessageHistory = ({
                   <Markdown>{message.content}</Markdown>
                 </div>
               ))}
+            <div ref={loadMoreRef} />
           </div>
         </ScrollArea>
       </PopoverContent>
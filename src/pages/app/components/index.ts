@@ -2,3 +2,4 @@ export * from "./completion";
 export * from "./speech";
 export * from "./speech/audio-visualizer";
 export * from "./speech/StatusIndicator";
+export * from "./MeetingProfileSwitcher";
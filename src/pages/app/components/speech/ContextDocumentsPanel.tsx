@@ -0,0 +1,407 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  Button,
+  Header,
+  Input,
+  Label,
+  Selection,
+  Slider,
+  Switch,
+  TextInput,
+} from "@/components";
+import {
+  CONTEXT_DOCUMENT_EXTENSIONS,
+  EMBEDDING_ENGINE_OPTIONS,
+} from "@/config";
+import {
+  createContextLibrary,
+  deleteContextDocument,
+  deleteContextLibrary,
+  getContextDocuments,
+  getContextLibraries,
+  getEmbeddingModelId,
+  importContextDocument,
+  reembedContextDocument,
+} from "@/lib";
+import type {
+  ContextDocument,
+  ContextLibrary,
+  DocumentContextSettings,
+} from "@/types";
+import {
+  FileTextIcon,
+  Loader2,
+  PlusIcon,
+  RefreshCwIcon,
+  TrashIcon,
+  UploadIcon,
+} from "lucide-react";
+
+interface ContextDocumentsPanelProps {
+  settings: DocumentContextSettings;
+  onUpdate: (settings: DocumentContextSettings) => void;
+}
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 * 1024
+    ? `${Math.max(1, Math.round(bytes / 1024))} KB`
+    : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+export const ContextDocumentsPanel = ({
+  settings,
+  onUpdate,
+}: ContextDocumentsPanelProps) => {
+  const [libraries, setLibraries] = useState<ContextLibrary[]>([]);
+  const [documents, setDocuments] = useState<ContextDocument[]>([]);
+  const [newLibraryName, setNewLibraryName] = useState("");
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState("");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const modelId = getEmbeddingModelId(settings);
+  const staleDocuments = documents.filter(
+    (document) => document.embedding_model !== modelId
+  );
+
+  const handleUpdate = (updates: Partial<DocumentContextSettings>) => {
+    onUpdate({ ...settings, ...updates });
+  };
+
+  const refreshDocuments = useCallback(async () => {
+    setDocuments(
+      settings.libraryId === null
+        ? []
+        : await getContextDocuments(settings.libraryId)
+    );
+  }, [settings.libraryId]);
+
+  useEffect(() => {
+    getContextLibraries()
+      .then(setLibraries)
+      .catch((err) => setError(String(err)));
+  }, []);
+
+  useEffect(() => {
+    refreshDocuments().catch((err) => setError(String(err)));
+  }, [refreshDocuments]);
+
+  const run = async (label: string, action: () => Promise<void>) => {
+    setError("");
+    setBusy(label);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleCreateLibrary = () =>
+    run("library", async () => {
+      const library = await createContextLibrary(newLibraryName);
+      setLibraries(await getContextLibraries());
+      setNewLibraryName("");
+      handleUpdate({ libraryId: library.id });
+    });
+
+  const handleDeleteLibrary = () =>
+    run("library", async () => {
+      if (settings.libraryId === null) return;
+      await deleteContextLibrary(settings.libraryId);
+      setLibraries(await getContextLibraries());
+      handleUpdate({ libraryId: null });
+    });
+
+  const handleFiles = (files: FileList | null) => {
+    const libraryId = settings.libraryId;
+    if (!files?.length || libraryId === null) return;
+
+    run("import", async () => {
+      const failed: string[] = [];
+      for (const file of Array.from(files)) {
+        setBusy(`import:${file.name}`);
+        try {
+          await importContextDocument(file, libraryId, settings);
+        } catch (err) {
+          failed.push(err instanceof Error ? err.message : String(err));
+        }
+        await refreshDocuments();
+      }
+      if (failed.length) throw new Error(failed.join("\n"));
+    });
+  };
+
+  const handleReembed = () =>
+    run("reembed", async () => {
+      for (const document of staleDocuments) {
+        await reembedContextDocument(document.id, settings);
+      }
+      await refreshDocuments();
+    });
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-start gap-3 flex-1">
+          <FileTextIcon className="w-5 h-5 mt-0.5 text-primary" />
+          <div className="flex-1">
+            <Header
+              title="Context Documents"
+              description="Give the assistant your resume, product sheets or pricing. For each transcript segment the most relevant passages of the selected library are added to the prompt, instead of pasting whole documents into it."
+            />
+          </div>
+        </div>
+        <Switch
+          checked={settings.enabled}
+          onCheckedChange={(enabled) => handleUpdate({ enabled })}
+        />
+      </div>
+
+      {settings.enabled && (
+        <div className="space-y-4 pt-2">
+          {/* Library */}
+          <div className="space-y-2">
+            <Label className="text-xs font-medium">Library</Label>
+            <div className="flex gap-2">
+              <Selection
+                selected={settings.libraryId?.toString()}
+                placeholder="Select a library"
+                options={libraries.map((library) => ({
+                  label: library.name,
+                  value: library.id.toString(),
+                }))}
+                onChange={(value: string) =>
+                  handleUpdate({ libraryId: Number(value) })
+                }
+              />
+              <Button
+                variant="outline"
+                size="icon"
+                className="h-11 w-11 shrink-0"
+                title="Delete library and its documents"
+                disabled={settings.libraryId === null || !!busy}
+                onClick={handleDeleteLibrary}
+              >
+                <TrashIcon className="size-4" />
+              </Button>
+            </div>
+            <div className="flex gap-2">
+              <Input
+                value={newLibraryName}
+                placeholder="New library, e.g. Sales calls"
+                onChange={(e) => setNewLibraryName(e.target.value)}
+                className="text-xs"
+              />
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={!newLibraryName.trim() || !!busy}
+                onClick={handleCreateLibrary}
+              >
+                <PlusIcon className="h-4 w-4 mr-1" />
+                Create
+              </Button>
+            </div>
+          </div>
+
+          {/* Documents */}
+          {settings.libraryId !== null && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label className="text-xs font-medium">Documents</Label>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={!!busy}
+                  onClick={() => fileInputRef.current?.click()}
+                >
+                  {busy?.startsWith("import") ? (
+                    <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                  ) : (
+                    <UploadIcon className="h-4 w-4 mr-1" />
+                  )}
+                  Add files
+                </Button>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  multiple
+                  accept={CONTEXT_DOCUMENT_EXTENSIONS.join(",")}
+                  className="hidden"
+                  onChange={(e) => {
+                    handleFiles(e.target.files);
+                    e.target.value = "";
+                  }}
+                />
+              </div>
+
+              {busy?.startsWith("import:") && (
+                <p className="text-xs text-muted-foreground">
+                  Reading and embedding {busy.slice("import:".length)}...
+                </p>
+              )}
+
+              {documents.length === 0 ? (
+                <p className="text-xs text-muted-foreground">
+                  Add PDF, DOCX, Markdown or text files.
+                </p>
+              ) : (
+                <div className="rounded-md border divide-y">
+                  {documents.map((document) => (
+                    <div
+                      key={document.id}
+                      className="flex items-center justify-between gap-2 px-3 py-2"
+                    >
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium truncate">
+                          {document.name}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {formatSize(document.size_bytes)} ·{" "}
+                          {document.chunk_count} passages
+                          {document.embedding_model !== modelId &&
+                            " · needs re-indexing"}
+                        </p>
+                      </div>
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        title="Remove document"
+                        disabled={!!busy}
+                        onClick={() =>
+                          run("delete", async () => {
+                            await deleteContextDocument(document.id);
+                            await refreshDocuments();
+                          })
+                        }
+                      >
+                        <TrashIcon className="size-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {staleDocuments.length > 0 && (
+                <div className="flex items-center justify-between gap-2">
+                  <p className="text-xs text-muted-foreground">
+                    {staleDocuments.length} document(s) were embedded with
+                    another engine or model and are not searched.
+                  </p>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={!!busy}
+                    onClick={handleReembed}
+                  >
+                    {busy === "reembed" ? (
+                      <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                    ) : (
+                      <RefreshCwIcon className="h-4 w-4 mr-1" />
+                    )}
+                    Re-index
+                  </Button>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Embeddings */}
+          <div className="space-y-2">
+            <Label className="text-xs font-medium">Embeddings</Label>
+            <Selection
+              selected={settings.embeddingEngine}
+              options={EMBEDDING_ENGINE_OPTIONS}
+              onChange={(embeddingEngine) => handleUpdate({ embeddingEngine })}
+            />
+            {settings.embeddingEngine === "local" ? (
+              <p className="text-xs text-muted-foreground">
+                Matches passages by shared words and phrases on this machine.
+                Use an embeddings endpoint to also match by meaning.
+              </p>
+            ) : (
+              <div className="space-y-3">
+                <TextInput
+                  label="Endpoint URL"
+                  placeholder="http://localhost:11434/v1"
+                  value={settings.embeddingUrl}
+                  onChange={(embeddingUrl) => handleUpdate({ embeddingUrl })}
+                  notes="Any OpenAI-compatible /embeddings API. Ollama and LM Studio keep the documents on this machine."
+                />
+                <TextInput
+                  label="Model"
+                  placeholder="text-embedding-3-small or nomic-embed-text"
+                  value={settings.embeddingModel}
+                  onChange={(embeddingModel) =>
+                    handleUpdate({ embeddingModel })
+                  }
+                />
+                <div className="space-y-1">
+                  <Label className="text-xs font-medium">
+                    API Key (optional)
+                  </Label>
+                  <Input
+                    type="password"
+                    placeholder="**********"
+                    value={settings.embeddingApiKey}
+                    onChange={(e) =>
+                      handleUpdate({ embeddingApiKey: e.target.value })
+                    }
+                    className="h-11 border-1 border-input/50 focus:border-primary/50 transition-colors"
+                  />
+                </div>
+              </div>
+            )}
+          </div>
+
+          {/* Passages per segment */}
+          <div className="space-y-2">
+            <Label className="text-xs font-medium flex items-center justify-between">
+              <span>Passages per Segment</span>
+              <span className="text-muted-foreground font-normal">
+                {settings.topK}
+              </span>
+            </Label>
+            <Slider
+              value={[settings.topK]}
+              onValueChange={([value]) =>
+                handleUpdate({ topK: Math.round(value) })
+              }
+              min={1}
+              max={10}
+              step={1}
+              className="w-full"
+            />
+          </div>
+
+          {/* Minimum similarity */}
+          <div className="space-y-2">
+            <Label className="text-xs font-medium flex items-center justify-between">
+              <span>Minimum Similarity</span>
+              <span className="text-muted-foreground font-normal">
+                {settings.minScore.toFixed(2)}
+              </span>
+            </Label>
+            <Slider
+              value={[settings.minScore]}
+              onValueChange={([value]) => handleUpdate({ minScore: value })}
+              min={0}
+              max={0.9}
+              step={0.05}
+              className="w-full"
+            />
+            <p className="text-xs text-muted-foreground">
+              Passages less similar to the segment are left out, so small talk
+              does not pull in unrelated documents.
+            </p>
+          </div>
+
+          {error && (
+            <p className="text-xs text-red-500 whitespace-pre-line">{error}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
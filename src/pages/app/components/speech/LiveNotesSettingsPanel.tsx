@@ -0,0 +1,158 @@
+import { useState } from "react";
+import { Button, Header, Input, Label, Switch } from "@/components";
+import { DEFAULT_LIVE_NOTES_FILE_NAME } from "@/config";
+import { checkLiveNotesDirectory } from "@/lib";
+import type { LiveNotesSettings } from "@/types";
+import { NotebookPenIcon } from "lucide-react";
+
+interface LiveNotesSettingsPanelProps {
+  settings: LiveNotesSettings;
+  onUpdate: (settings: LiveNotesSettings) => void;
+}
+
+export const LiveNotesSettingsPanel = ({
+  settings,
+  onUpdate,
+}: LiveNotesSettingsPanelProps) => {
+  const [folderStatus, setFolderStatus] = useState<{
+    ok: boolean;
+    message: string;
+  } | null>(null);
+
+  const handleUpdate = (updates: Partial<LiveNotesSettings>) => {
+    onUpdate({ ...settings, ...updates });
+  };
+
+  const handleCheckFolder = async () => {
+    try {
+      await checkLiveNotesDirectory(settings.directory);
+      setFolderStatus({ ok: true, message: "Notes will be written here." });
+    } catch (err) {
+      setFolderStatus({
+        ok: false,
+        message: err instanceof Error ? err.message : String(err),
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-start gap-3 flex-1">
+          <NotebookPenIcon className="w-5 h-5 mt-0.5 text-primary" />
+          <div className="flex-1">
+            <Header
+              title="Live Notes"
+              description="Append every transcribed segment, with its time, source and the AI response, to a Markdown note as the meeting runs. Point it at an Obsidian vault to see the meeting in your notes live."
+            />
+          </div>
+        </div>
+        <Switch
+          checked={settings.enabled}
+          onCheckedChange={(enabled) => handleUpdate({ enabled })}
+        />
+      </div>
+
+      {settings.enabled && (
+        <div className="space-y-4 pt-2">
+          {/* Folder */}
+          <div className="space-y-2">
+            <Label className="text-xs font-medium">Notes Folder</Label>
+            <div className="flex gap-2">
+              <Input
+                value={settings.directory}
+                placeholder="/Users/me/Obsidian/Meetings"
+                onChange={(e) => {
+                  setFolderStatus(null);
+                  handleUpdate({ directory: e.target.value });
+                }}
+                className="text-xs"
+              />
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={!settings.directory.trim()}
+                onClick={handleCheckFolder}
+              >
+                Check
+              </Button>
+            </div>
+            {folderStatus ? (
+              <p
+                className={`text-xs ${
+                  folderStatus.ok ? "text-muted-foreground" : "text-red-500"
+                }`}
+              >
+                {folderStatus.message}
+              </p>
+            ) : (
+              <p className="text-xs text-muted-foreground">
+                The full path of an existing folder.
+              </p>
+            )}
+          </div>
+
+          {/* File name */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label className="text-xs font-medium">File Name</Label>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 text-xs"
+                disabled={
+                  settings.fileNameTemplate === DEFAULT_LIVE_NOTES_FILE_NAME
+                }
+                onClick={() =>
+                  handleUpdate({
+                    fileNameTemplate: DEFAULT_LIVE_NOTES_FILE_NAME,
+                  })
+                }
+              >
+                Reset
+              </Button>
+            </div>
+            <Input
+              value={settings.fileNameTemplate}
+              onChange={(e) =>
+                handleUpdate({ fileNameTemplate: e.target.value })
+              }
+              className="text-xs"
+            />
+            <p className="text-xs text-muted-foreground">
+              Use {"{date}"}, {"{time}"}, {"{title}"} and {"{id}"} of the
+              conversation. <code>.md</code> is added automatically; a
+              conversation keeps writing to the same note.
+            </p>
+          </div>
+
+          {/* Tags */}
+          <div className="space-y-2">
+            <Label className="text-xs font-medium">Tags</Label>
+            <Input
+              value={settings.tags}
+              placeholder="meeting, work"
+              onChange={(e) => handleUpdate({ tags: e.target.value })}
+              className="text-xs"
+            />
+            <p className="text-xs text-muted-foreground">
+              Comma-separated. Added to the front matter with the conversation
+              title and date.
+            </p>
+          </div>
+
+          {/* Responses */}
+          <div className="flex items-center justify-between gap-4">
+            <Label className="text-xs font-medium">Include AI responses</Label>
+            <Switch
+              checked={settings.includeResponses}
+              onCheckedChange={(includeResponses) =>
+                handleUpdate({ includeResponses })
+              }
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
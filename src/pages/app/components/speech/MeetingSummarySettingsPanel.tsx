@@ -0,0 +1,93 @@
+import { Button, Header, Label, Slider, Switch, Textarea } from "@/components";
+import { DEFAULT_MEETING_SUMMARY_PROMPT } from "@/config";
+import type { MeetingSummarySettings } from "@/types";
+import { ClipboardListIcon } from "lucide-react";
+
+interface MeetingSummarySettingsPanelProps {
+  settings: MeetingSummarySettings;
+  onUpdate: (settings: MeetingSummarySettings) => void;
+}
+
+export const MeetingSummarySettingsPanel = ({
+  settings,
+  onUpdate,
+}: MeetingSummarySettingsPanelProps) => {
+  const handleUpdate = (updates: Partial<MeetingSummarySettings>) => {
+    onUpdate({ ...settings, ...updates });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-start gap-3 flex-1">
+          <ClipboardListIcon className="w-5 h-5 mt-0.5 text-primary" />
+          <div className="flex-1">
+            <Header
+              title="Meeting Summary"
+              description="When capture stops, summarize the transcript with the selected AI provider and save the overview, action items, decisions and open questions with the conversation."
+            />
+          </div>
+        </div>
+        <Switch
+          checked={settings.enabled}
+          onCheckedChange={(enabled) => handleUpdate({ enabled })}
+        />
+      </div>
+
+      {settings.enabled && (
+        <div className="space-y-4 pt-2">
+          {/* Minimum Length */}
+          <div className="space-y-2">
+            <Label className="text-xs font-medium flex items-center justify-between">
+              <span>Minimum Transcript Length</span>
+              <span className="text-muted-foreground font-normal">
+                {settings.minSegments} segments
+              </span>
+            </Label>
+            <Slider
+              value={[settings.minSegments]}
+              onValueChange={([value]) =>
+                handleUpdate({ minSegments: Math.round(value) })
+              }
+              min={1}
+              max={30}
+              step={1}
+              className="w-full"
+            />
+            <p className="text-xs text-muted-foreground">
+              Shorter captures are not summarized automatically. Any
+              conversation can still be summarized from its history page.
+            </p>
+          </div>
+
+          {/* Prompt */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label className="text-xs font-medium">Summary Prompt</Label>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 text-xs"
+                disabled={settings.prompt === DEFAULT_MEETING_SUMMARY_PROMPT}
+                onClick={() =>
+                  handleUpdate({ prompt: DEFAULT_MEETING_SUMMARY_PROMPT })
+                }
+              >
+                Reset
+              </Button>
+            </div>
+            <Textarea
+              value={settings.prompt}
+              onChange={(e) => handleUpdate({ prompt: e.target.value })}
+              className="min-h-32 text-xs resize-y"
+            />
+            <p className="text-xs text-muted-foreground">
+              Long meetings are summarized in parts first. The JSON output
+              format is added to this prompt automatically.
+            </p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
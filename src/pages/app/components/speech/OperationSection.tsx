@@ -1,5 +1,5 @@
 import type { ChatConversation } from "@/hooks/useAudioOverlay";
-import { Button, Card, Markdown } from "@/components";
+import { Button, Card, Markdown, SpeakerName } from "@/components";
 import {
   BotIcon,
   ChevronDownIcon,
@@ -8,29 +8,43 @@ import {
   MicIcon,
 } from "lucide-react";
 import { useState, useRef, useEffect } from "react";
+import { useApp } from "@/contexts";
+import { getProviderLabel } from "@/lib/functions";
+import type { AIProviderAnswer } from "@/types";
 
 type Props = {
   lastTranscription: string;
+  liveCaption?: string; // streaming STT partial transcript
   lastAIResponse: string;
+  lastAIProvider?: AIProviderAnswer | null; // provider that answered, may be a fallback
   isAIProcessing: boolean;
   conversation: ChatConversation;
   startNewConversation: () => void;
+  renameSpeaker?: (speakerId: string, name: string) => void;
   includeMicrophone?: boolean; // 是否启用双轨模式
   isMicProcessing?: boolean; // 麦克风是否正在处理
 };
 
 export const OperationSection = ({
   lastTranscription,
+  liveCaption = "",
   lastAIResponse,
+  lastAIProvider,
   isAIProcessing,
   conversation,
   startNewConversation,
+  renameSpeaker,
   includeMicrophone = false,
   isMicProcessing = false,
 }: Props) => {
+  const { allAiProviders } = useApp();
   const [openConversation, setOpenConversation] = useState(true);
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
+  const answeringProvider = allAiProviders.find(
+    (p) => p.id === lastAIProvider?.provider
+  );
+
   // 按时间排序所有消息（最新的在底部）
   const sortedMessages = [...conversation.messages].sort(
     (a, b) => a.timestamp - b.timestamp
@@ -45,11 +59,46 @@ export const OperationSection = ({
 
   return (
     <div className="space-y-3">
+      {liveCaption && (
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <HeadphonesIcon className="w-3 h-3" />
+            <h3 className="font-semibold text-xs">Live Caption</h3>
+          </div>
+          <Card className="px-3 py-2 bg-transparent">
+            <p className="text-sm leading-relaxed whitespace-pre-wrap text-muted-foreground">
+              {liveCaption}
+              <span className="inline-block w-2 h-4 animate-pulse ml-1" />
+            </p>
+          </Card>
+        </div>
+      )}
+
       {(lastAIResponse || isAIProcessing) && !includeMicrophone && (
         <div className="space-y-2">
           <div className="flex items-center gap-2">
             <BotIcon className="w-3 h-3" />
             <h3 className="font-semibold text-xs">{`AI Assistant - answering to "${lastTranscription}"`}</h3>
+            {lastAIProvider && (
+              <span
+                className={`ml-auto shrink-0 text-[10px] ${
+                  lastAIProvider.isFallback
+                    ? "text-amber-600"
+                    : "text-muted-foreground"
+                }`}
+                title={
+                  lastAIProvider.failedAttempts > 0
+                    ? `${lastAIProvider.failedAttempts} failed attempts before this answer`
+                    : undefined
+                }
+              >
+                via{" "}
+                {answeringProvider
+                  ? getProviderLabel(answeringProvider)
+                  : lastAIProvider.provider}
+                {lastAIProvider.isFallback && " (fallback)"}
+              </span>
+            )}
           </div>
           <Card className="px-3 py-2 bg-transparent">
             {isAIProcessing && !lastAIResponse ? (
@@ -168,11 +217,20 @@ export const OperationSection = ({
                         {icon}
                       </div>
 
-                      <Card className={`px-3 py-2 ${bubbleClass}`}>
-                        <div className="text-xs leading-relaxed whitespace-pre-wrap">
-                          {message.content}
-                        </div>
-                      </Card>
+                      <div className="flex flex-col gap-0.5">
+                        {message.speakerId && (
+                          <SpeakerName
+                            speakerId={message.speakerId}
+                            speakerNames={conversation.speakerNames}
+                            onRename={renameSpeaker}
+                          />
+                        )}
+                        <Card className={`px-3 py-2 ${bubbleClass}`}>
+                          <div className="text-xs leading-relaxed whitespace-pre-wrap">
+                            {message.content}
+                          </div>
+                        </Card>
+                      </div>
                     </div>
                   </div>
                 );
@@ -251,15 +309,24 @@ export const OperationSection = ({
                         )}
                       </div>
                     </div>
-                    <Card
-                      className={`px-3 py-2 ${
-                        isManualSource ? "bg-purple-50 border border-purple-100" : "bg-transparent"
-                      }`}
-                    >
-                      <p className="text-xs leading-relaxed whitespace-pre-wrap">
-                        <Markdown>{message.content}</Markdown>
-                      </p>
-                    </Card>
+                    <div className="flex flex-col gap-0.5">
+                      {message.speakerId && (
+                        <SpeakerName
+                          speakerId={message.speakerId}
+                          speakerNames={conversation.speakerNames}
+                          onRename={renameSpeaker}
+                        />
+                      )}
+                      <Card
+                        className={`px-3 py-2 ${
+                          isManualSource ? "bg-purple-50 border border-purple-100" : "bg-transparent"
+                        }`}
+                      >
+                        <p className="text-xs leading-relaxed whitespace-pre-wrap">
+                          <Markdown>{message.content}</Markdown>
+                        </p>
+                      </Card>
+                    </div>
                   </div>
                 );
               })}
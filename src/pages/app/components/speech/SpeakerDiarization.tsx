@@ -0,0 +1,39 @@
+import { Switch, Header } from "@/components";
+import { UsersIcon } from "lucide-react";
+
+interface SpeakerDiarizationProps {
+  diarization: boolean;
+  setDiarization: (value: boolean) => void;
+}
+
+export const SpeakerDiarization = ({
+  diarization,
+  setDiarization,
+}: SpeakerDiarizationProps) => {
+  return (
+    <div className="space-y-3 border rounded-lg p-4 bg-muted/30">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-start gap-3 flex-1">
+          <UsersIcon className="w-5 h-5 mt-0.5 text-primary" />
+          <div className="flex-1">
+            <Header
+              title="Speaker Labels"
+              description="Label who is speaking in system audio. Click a speaker name in the conversation to rename it."
+            />
+          </div>
+        </div>
+        <Switch checked={diarization} onCheckedChange={setDiarization} />
+      </div>
+
+      {diarization && (
+        <div className="text-xs text-blue-600 bg-blue-500/10 p-3 rounded-md">
+          <strong>💡 How it works:</strong> Streaming providers that diarize
+          (Deepgram live with <code>diarize=true</code>) label speakers
+          directly. Otherwise each detected speech segment is matched to a
+          speaker on this device by comparing voice characteristics, which
+          works best when speakers take turns. Applies from the next capture.
+        </div>
+      )}
+    </div>
+  );
+};
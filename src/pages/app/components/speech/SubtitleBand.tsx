@@ -0,0 +1,103 @@
+import type { ChatConversation } from "@/hooks/useAudioOverlay";
+import { Button, Card, SpeakerName } from "@/components";
+import type { SubtitleLine, SubtitleSettings } from "@/types";
+import { CaptionsIcon } from "lucide-react";
+import { useEffect, useState } from "react";
+
+type Props = {
+  lines: SubtitleLine[];
+  settings: SubtitleSettings;
+  liveCaption?: string; // streaming STT partial transcript
+  conversation: ChatConversation;
+  startNewConversation: () => void;
+  renameSpeaker?: (speakerId: string, name: string) => void;
+};
+
+export const SubtitleBand = ({
+  lines,
+  settings,
+  liveCaption = "",
+  conversation,
+  startNewConversation,
+  renameSpeaker,
+}: Props) => {
+  const [now, setNow] = useState(Date.now());
+
+  // Re-render every second so lines fade out on time
+  useEffect(() => {
+    if (settings.fadeSeconds <= 0) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [settings.fadeSeconds]);
+
+  const visibleLines = lines.slice(-settings.lineCount);
+  const isFaded = (line: SubtitleLine) =>
+    settings.fadeSeconds > 0 &&
+    !line.isTranslating &&
+    now - line.timestamp > settings.fadeSeconds * 1000;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <CaptionsIcon className="w-3 h-3" />
+          <h3 className="font-semibold text-xs">Subtitles</h3>
+        </div>
+        {conversation.messages.length > 0 && (
+          <Button variant="outline" size="sm" onClick={startNewConversation}>
+            Start New
+          </Button>
+        )}
+      </div>
+
+      <Card className="px-4 py-3 bg-black/80 border-black/80 space-y-3 min-h-16">
+        {visibleLines.length === 0 && !liveCaption && (
+          <p className="text-xs italic text-white/60">
+            Waiting for speech...
+          </p>
+        )}
+
+        {visibleLines.map((line) => (
+          <div
+            key={line.id}
+            className={`space-y-0.5 transition-opacity duration-1000 ${
+              isFaded(line) ? "opacity-0" : "opacity-100"
+            }`}
+          >
+            {line.speakerId && (
+              <SpeakerName
+                speakerId={line.speakerId}
+                speakerNames={conversation.speakerNames}
+                onRename={renameSpeaker}
+              />
+            )}
+            <p
+              className="leading-snug whitespace-pre-wrap text-white/60"
+              style={{ fontSize: Math.max(settings.fontSize * 0.7, 11) }}
+            >
+              {line.source}
+            </p>
+            <p
+              className="leading-snug whitespace-pre-wrap font-medium text-white"
+              style={{ fontSize: settings.fontSize }}
+            >
+              {line.translation}
+              {line.isTranslating && (
+                <span className="inline-block w-2 h-4 animate-pulse ml-1" />
+              )}
+            </p>
+          </div>
+        ))}
+
+        {liveCaption && (
+          <p
+            className="leading-snug whitespace-pre-wrap italic text-white/60"
+            style={{ fontSize: Math.max(settings.fontSize * 0.7, 11) }}
+          >
+            {liveCaption}
+          </p>
+        )}
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,109 @@
+import { Header, Label, Slider, Switch } from "@/components";
+import {
+  SUBTITLE_FONT_SIZE_RANGE,
+  SUBTITLE_LINE_COUNT_RANGE,
+} from "@/config";
+import type { SubtitleSettings } from "@/types";
+import { CaptionsIcon } from "lucide-react";
+
+interface SubtitleSettingsPanelProps {
+  settings: SubtitleSettings;
+  onUpdate: (settings: SubtitleSettings) => void;
+}
+
+export const SubtitleSettingsPanel = ({
+  settings,
+  onUpdate,
+}: SubtitleSettingsPanelProps) => {
+  const handleUpdate = (updates: Partial<SubtitleSettings>) => {
+    onUpdate({ ...settings, ...updates });
+  };
+
+  return (
+    <div className="space-y-3 border rounded-lg p-4 bg-muted/30">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-start gap-3 flex-1">
+          <CaptionsIcon className="w-5 h-5 mt-0.5 text-primary" />
+          <div className="flex-1">
+            <Header
+              title="Bilingual Subtitles"
+              description="Show system audio as live subtitles with the original line and its translation instead of AI answers. Languages are set in the translation engine below."
+            />
+          </div>
+        </div>
+        <Switch
+          checked={settings.enabled}
+          onCheckedChange={(enabled) => handleUpdate({ enabled })}
+        />
+      </div>
+
+      {settings.enabled && (
+        <div className="space-y-4 pt-2">
+          {/* Font Size */}
+          <div className="space-y-2">
+            <Label className="text-xs font-medium flex items-center justify-between">
+              <span>Subtitle Font Size</span>
+              <span className="text-muted-foreground font-normal">
+                {settings.fontSize}px
+              </span>
+            </Label>
+            <Slider
+              value={[settings.fontSize]}
+              onValueChange={([value]) =>
+                handleUpdate({ fontSize: Math.round(value) })
+              }
+              min={SUBTITLE_FONT_SIZE_RANGE.min}
+              max={SUBTITLE_FONT_SIZE_RANGE.max}
+              step={1}
+              className="w-full"
+            />
+          </div>
+
+          {/* Line Count */}
+          <div className="space-y-2">
+            <Label className="text-xs font-medium flex items-center justify-between">
+              <span>Visible Lines</span>
+              <span className="text-muted-foreground font-normal">
+                {settings.lineCount}
+              </span>
+            </Label>
+            <Slider
+              value={[settings.lineCount]}
+              onValueChange={([value]) =>
+                handleUpdate({ lineCount: Math.round(value) })
+              }
+              min={SUBTITLE_LINE_COUNT_RANGE.min}
+              max={SUBTITLE_LINE_COUNT_RANGE.max}
+              step={1}
+              className="w-full"
+            />
+          </div>
+
+          {/* Fade Timing */}
+          <div className="space-y-2">
+            <Label className="text-xs font-medium flex items-center justify-between">
+              <span>Fade Out After</span>
+              <span className="text-muted-foreground font-normal">
+                {settings.fadeSeconds === 0 ? "Never" : `${settings.fadeSeconds}s`}
+              </span>
+            </Label>
+            <Slider
+              value={[settings.fadeSeconds]}
+              onValueChange={([value]) =>
+                handleUpdate({ fadeSeconds: Math.round(value) })
+              }
+              min={0}
+              max={60}
+              step={1}
+              className="w-full"
+            />
+            <p className="text-xs text-muted-foreground">
+              Lines older than this fade out of the subtitle band. Every line
+              is still saved to the conversation history.
+            </p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,220 @@
+import {
+  Button,
+  Header,
+  Input,
+  Label,
+  Selection,
+  Slider,
+  TextInput,
+} from "@/components";
+import { LANGUAGES } from "@/lib";
+import {
+  TRANSLATION_BACKEND_OPTIONS,
+  TRANSLATION_CONTEXT_RANGE,
+} from "@/config";
+import type { GlossaryEntry, TranslationSettings } from "@/types";
+import { LanguagesIcon, PlusIcon, TrashIcon } from "lucide-react";
+
+interface TranslationSettingsPanelProps {
+  settings: TranslationSettings;
+  onUpdate: (settings: TranslationSettings) => void;
+}
+
+const LANGUAGE_OPTIONS = LANGUAGES.map((language) => ({
+  label: `${language.flag} ${language.name}`,
+  value: language.id,
+}));
+
+export const TranslationSettingsPanel = ({
+  settings,
+  onUpdate,
+}: TranslationSettingsPanelProps) => {
+  const handleUpdate = (updates: Partial<TranslationSettings>) => {
+    onUpdate({ ...settings, ...updates });
+  };
+
+  const updateGlossaryEntry = (
+    index: number,
+    updates: Partial<GlossaryEntry>
+  ) => {
+    handleUpdate({
+      glossary: settings.glossary.map((entry, i) =>
+        i === index ? { ...entry, ...updates } : entry
+      ),
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start gap-3">
+        <LanguagesIcon className="w-5 h-5 mt-0.5 text-primary" />
+        <Header
+          title="Translation Engine"
+          description="Translates each transcript segment on its own, with a few previous segments as context, instead of sending the whole conversation to the chat model."
+        />
+      </div>
+
+      {/* Backend */}
+      <div className="space-y-2">
+        <Label className="text-xs font-medium">Backend</Label>
+        <Selection
+          selected={settings.backend}
+          options={TRANSLATION_BACKEND_OPTIONS}
+          onChange={(backend) => handleUpdate({ backend })}
+        />
+        {settings.backend === "llm" && (
+          <p className="text-xs text-muted-foreground">
+            Uses the AI provider selected in the dev space with a dedicated
+            translation prompt.
+          </p>
+        )}
+      </div>
+
+      {settings.backend === "deepl" && (
+        <div className="space-y-3">
+          <div className="space-y-1">
+            <Label className="text-xs font-medium">DeepL API Key</Label>
+            <Input
+              type="password"
+              placeholder="**********"
+              value={settings.deeplApiKey}
+              onChange={(e) => handleUpdate({ deeplApiKey: e.target.value })}
+              className="h-11 border-1 border-input/50 focus:border-primary/50 transition-colors"
+            />
+          </div>
+          <TextInput
+            label="Endpoint (optional)"
+            placeholder="https://api-free.deepl.com"
+            value={settings.deeplEndpoint || ""}
+            onChange={(value) =>
+              handleUpdate({ deeplEndpoint: value || undefined })
+            }
+            notes="Leave empty to pick the free or pro API from your key."
+          />
+        </div>
+      )}
+
+      {settings.backend === "libretranslate" && (
+        <div className="space-y-3">
+          <TextInput
+            label="Server URL"
+            placeholder="http://localhost:5000"
+            value={settings.libreTranslateUrl}
+            onChange={(value) => handleUpdate({ libreTranslateUrl: value })}
+          />
+          <TextInput
+            label="API Key (optional)"
+            placeholder="Only needed if your server requires one"
+            value={settings.libreTranslateApiKey || ""}
+            onChange={(value) =>
+              handleUpdate({ libreTranslateApiKey: value || undefined })
+            }
+          />
+        </div>
+      )}
+
+      {/* Language Pair */}
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <Label className="text-xs font-medium">From</Label>
+          <Selection
+            selected={settings.sourceLanguage}
+            options={[
+              { label: "Auto-detect", value: "auto" },
+              ...LANGUAGE_OPTIONS,
+            ]}
+            onChange={(sourceLanguage) => handleUpdate({ sourceLanguage })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label className="text-xs font-medium">To</Label>
+          <Selection
+            selected={settings.targetLanguage}
+            options={LANGUAGE_OPTIONS}
+            onChange={(targetLanguage) => handleUpdate({ targetLanguage })}
+          />
+        </div>
+      </div>
+
+      {/* Context Window */}
+      <div className="space-y-2">
+        <Label className="text-xs font-medium flex items-center justify-between">
+          <span>Context Window</span>
+          <span className="text-muted-foreground font-normal">
+            {settings.contextSegments} segments
+          </span>
+        </Label>
+        <Slider
+          value={[settings.contextSegments]}
+          onValueChange={([value]) =>
+            handleUpdate({ contextSegments: Math.round(value) })
+          }
+          min={TRANSLATION_CONTEXT_RANGE.min}
+          max={TRANSLATION_CONTEXT_RANGE.max}
+          step={1}
+          className="w-full"
+        />
+        <p className="text-xs text-muted-foreground">
+          Previous segments sent along to resolve pronouns and ambiguity.
+          LibreTranslate ignores context.
+        </p>
+      </div>
+
+      {/* Glossary */}
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label className="text-xs font-medium">Glossary</Label>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() =>
+              handleUpdate({
+                glossary: [...settings.glossary, { source: "", target: "" }],
+              })
+            }
+          >
+            <PlusIcon className="h-4 w-4 mr-1" />
+            Add Term
+          </Button>
+        </div>
+        {settings.glossary.length === 0 ? (
+          <p className="text-xs text-muted-foreground">
+            Add names, products or jargon that must always be translated the
+            same way.
+          </p>
+        ) : (
+          settings.glossary.map((entry, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <Input
+                placeholder="Term"
+                value={entry.source}
+                onChange={(e) =>
+                  updateGlossaryEntry(index, { source: e.target.value })
+                }
+              />
+              <Input
+                placeholder="Translation"
+                value={entry.target}
+                onChange={(e) =>
+                  updateGlossaryEntry(index, { target: e.target.value })
+                }
+              />
+              <Button
+                variant="outline"
+                size="icon"
+                title="Remove term"
+                onClick={() =>
+                  handleUpdate({
+                    glossary: settings.glossary.filter((_, i) => i !== index),
+                  })
+                }
+              >
+                <TrashIcon className="h-4 w-4" />
+              </Button>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
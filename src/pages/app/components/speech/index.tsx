@@ -15,6 +15,7 @@ import {
 import { Header } from "./Header";
 import { SetupInstructions } from "./SetupInstructions";
 import { OperationSection } from "./OperationSection";
+import { SubtitleBand } from "./SubtitleBand";
 import { PermissionFlow } from "./PermissionFlow";
 import { useAudioOverlayType } from "@/hooks";
 import { useApp } from "@/contexts";
@@ -26,7 +27,9 @@ export const SystemAudio = (props: useAudioOverlayType) => {
     isProcessing,
     isAIProcessing,
     lastTranscription,
+    liveCaption,
     lastAIResponse,
+    lastAIProvider,
     error,
     setupRequired,
     startCapture,
@@ -35,6 +38,10 @@ export const SystemAudio = (props: useAudioOverlayType) => {
     setIsPopoverOpen,
     openConversationPopover,
     startNewConversation,
+    renameSpeaker,
+    subtitleSettings,
+    subtitleLines,
+    isSummarizing,
     conversation,
     resizeWindow,
     handleSetup,
@@ -102,8 +109,16 @@ export const SystemAudio = (props: useAudioOverlayType) => {
                 capturing={capturing}
               />
 
+              {isSummarizing && (
+                <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                  <LoaderIcon className="w-3 h-3 animate-spin" />
+                  Summarizing the meeting. The summary is saved with this
+                  conversation in chat history.
+                </div>
+              )}
+
               {/* Header - Hide when there are messages to save space */}
-              {!lastTranscription && !lastAIResponse && (
+              {!lastTranscription && !liveCaption && !lastAIResponse && (
                 <Header
                   setupRequired={setupRequired}
                   setIsPopoverOpen={setIsPopoverOpen}
@@ -242,16 +257,30 @@ export const SystemAudio = (props: useAudioOverlayType) => {
                 </div>
               ) : (
                 <>
-                  {/* Conversation Display Only */}
-                  <OperationSection
-                    lastTranscription={lastTranscription}
-                    lastAIResponse={lastAIResponse}
-                    isAIProcessing={isAIProcessing}
-                    conversation={conversation}
-                    startNewConversation={startNewConversation}
-                    includeMicrophone={includeMicrophone}
-                    isMicProcessing={isMicProcessing}
-                  />
+                  {subtitleSettings.enabled ? (
+                    <SubtitleBand
+                      lines={subtitleLines}
+                      settings={subtitleSettings}
+                      liveCaption={liveCaption}
+                      conversation={conversation}
+                      startNewConversation={startNewConversation}
+                      renameSpeaker={renameSpeaker}
+                    />
+                  ) : (
+                    // Conversation Display Only
+                    <OperationSection
+                      lastTranscription={lastTranscription}
+                      liveCaption={liveCaption}
+                      lastAIResponse={lastAIResponse}
+                      lastAIProvider={lastAIProvider}
+                      isAIProcessing={isAIProcessing}
+                      conversation={conversation}
+                      startNewConversation={startNewConversation}
+                      renameSpeaker={renameSpeaker}
+                      includeMicrophone={includeMicrophone}
+                      isMicProcessing={isMicProcessing}
+                    />
+                  )}
                 </>
               )}
             </div>
@@ -6,7 +6,11 @@ import {
   Button,
   Input,
 } from "@/components";
-import { SystemAudio, AudioVisualizer } from "./components";
+import {
+  SystemAudio,
+  AudioVisualizer,
+  MeetingProfileSwitcher,
+} from "./components";
 import { MessageSquareIcon } from "lucide-react";
 import { useApp } from "@/hooks";
 import { useApp as useAppContext } from "@/contexts";
@@ -16,7 +20,7 @@ import { ErrorLayout } from "@/layouts";
 import { getPlatform } from "@/lib";
 
 const App = () => {
-  const { systemAudio } = useApp();
+  const { systemAudio, meetingProfiles } = useApp();
   const { customizable } = useAppContext();
   const platform = getPlatform();
 
@@ -53,6 +57,10 @@ const App = () => {
             ) : null}
 
             <div className="flex w-full flex-wrap items-center gap-2 justify-end">
+              <MeetingProfileSwitcher
+                {...meetingProfiles}
+                resizeWindow={systemAudio.resizeWindow}
+              />
               <form
                 className="flex flex-1 items-center gap-2"
                 onSubmit={(event) => {
@@ -0,0 +1,67 @@
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components";
+import { SubtitleTrack, TranscriptExportOptions } from "@/types";
+import { ReactNode } from "react";
+
+const TRANSCRIPT_FORMATS: { label: string; options: TranscriptExportOptions }[] =
+  [
+    { label: "Markdown", options: { format: "markdown" } },
+    { label: "Plain Text Transcript", options: { format: "txt" } },
+    { label: "JSON", options: { format: "json" } },
+  ];
+
+const SUBTITLE_TRACKS: { label: string; track: SubtitleTrack }[] = [
+  { label: "Original", track: "original" },
+  { label: "Translation", track: "translation" },
+  { label: "Both (two tracks)", track: "both" },
+];
+
+export const ExportMenu = ({
+  onExport,
+  children,
+}: {
+  onExport: (options: TranscriptExportOptions, e: React.MouseEvent) => void;
+  children: ReactNode;
+}) => {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>{children}</DropdownMenuTrigger>
+      <DropdownMenuContent
+        align="end"
+        className="w-52"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {TRANSCRIPT_FORMATS.map(({ label, options }) => (
+          <DropdownMenuItem
+            key={options.format}
+            onClick={(e) => onExport(options, e)}
+          >
+            {label}
+          </DropdownMenuItem>
+        ))}
+        {(["srt", "vtt"] as const).map((format) => (
+          <div key={format}>
+            <DropdownMenuSeparator />
+            <DropdownMenuLabel className="text-xs text-muted-foreground">
+              {format === "srt" ? "SRT Subtitles" : "WebVTT Subtitles"}
+            </DropdownMenuLabel>
+            {SUBTITLE_TRACKS.map(({ label, track }) => (
+              <DropdownMenuItem
+                key={track}
+                onClick={(e) => onExport({ format, track }, e)}
+              >
+                {label}
+              </DropdownMenuItem>
+            ))}
+          </div>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
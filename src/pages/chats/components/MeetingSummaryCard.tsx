@@ -0,0 +1,137 @@
+import { useState } from "react";
+import moment from "moment";
+import { Button, Card } from "@/components";
+import { useApp } from "@/contexts";
+import {
+  generateMeetingSummary,
+  getMeetingSummarySettings,
+  shouldUseTalkEchoAPI,
+  updateConversationSummary,
+} from "@/lib";
+import { ChatConversation, MeetingSummary } from "@/types";
+import { ClipboardListIcon, Loader2, RefreshCwIcon } from "lucide-react";
+
+type Props = {
+  conversation: ChatConversation;
+  onSummaryChange: (summary: MeetingSummary) => void;
+};
+
+const SummaryList = ({ title, items }: { title: string; items: string[] }) =>
+  items.length > 0 ? (
+    <div className="space-y-1">
+      <h4 className="text-xs font-semibold">{title}</h4>
+      <ul className="list-disc pl-4 space-y-0.5 text-xs lg:text-sm">
+        {items.map((item, index) => (
+          <li key={index}>{item}</li>
+        ))}
+      </ul>
+    </div>
+  ) : null;
+
+export const MeetingSummaryCard = ({ conversation, onSummaryChange }: Props) => {
+  const { selectedAIProvider, allAiProviders } = useApp();
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState("");
+  const { summary } = conversation;
+
+  // Summaries are for transcribed meetings, not plain chats
+  const isMeeting = conversation.messages.some((m) => !!m.source);
+  if (!summary && !isMeeting) return null;
+
+  const handleGenerate = async () => {
+    setIsGenerating(true);
+    setError("");
+    try {
+      const useTalkEchoAPI = await shouldUseTalkEchoAPI();
+      const provider = allAiProviders.find(
+        (p) => p.id === selectedAIProvider.provider
+      );
+      if (!provider && !useTalkEchoAPI) {
+        throw new Error("No AI provider selected.");
+      }
+
+      const generated = await generateMeetingSummary({
+        conversation,
+        provider: useTalkEchoAPI ? undefined : provider,
+        selectedProvider: selectedAIProvider,
+        prompt: getMeetingSummarySettings().prompt,
+      });
+      onSummaryChange(generated);
+      await updateConversationSummary(conversation.id, generated);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <Card className="px-4 py-3 shadow-none gap-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <ClipboardListIcon className="size-4 text-primary" />
+          <h3 className="font-semibold text-sm">Meeting Summary</h3>
+          {summary && (
+            <span className="text-[10px] lg:text-xs text-muted-foreground">
+              {moment(summary.generatedAt).format("MMM D, hh:mm A")}
+            </span>
+          )}
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          className="text-[10px] lg:text-xs h-6 lg:h-7"
+          onClick={handleGenerate}
+          disabled={isGenerating}
+        >
+          {isGenerating ? (
+            <Loader2 className="size-3 animate-spin" />
+          ) : (
+            <RefreshCwIcon className="size-3" />
+          )}
+          {summary ? "Regenerate" : "Generate"}
+        </Button>
+      </div>
+
+      {error && <p className="text-xs text-destructive">{error}</p>}
+
+      {summary ? (
+        <div className="space-y-3">
+          {summary.overview && (
+            <p className="text-xs lg:text-sm whitespace-pre-wrap">
+              {summary.overview}
+            </p>
+          )}
+          {summary.actionItems.length > 0 && (
+            <div className="space-y-1">
+              <h4 className="text-xs font-semibold">Action Items</h4>
+              <ul className="list-disc pl-4 space-y-0.5 text-xs lg:text-sm">
+                {summary.actionItems.map((item, index) => (
+                  <li key={index}>
+                    {item.task}
+                    {(item.owner || item.due) && (
+                      <span className="text-muted-foreground">
+                        {" "}
+                        ({[item.owner, item.due && `due ${item.due}`]
+                          .filter(Boolean)
+                          .join(", ")}
+                        )
+                      </span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+          <SummaryList title="Decisions" items={summary.decisions} />
+          <SummaryList title="Open Questions" items={summary.openQuestions} />
+        </div>
+      ) : (
+        <p className="text-xs text-muted-foreground">
+          Summarize this transcript into an overview, action items, decisions
+          and open questions.
+        </p>
+      )}
+    </Card>
+  );
+};
@@ -0,0 +1,186 @@
+import { useEffect, useState } from "react";
+import {
+  Badge,
+  Button,
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  Input,
+  Label,
+  Switch,
+} from "@/components";
+import { useConversationGroups } from "@/hooks";
+import { ConversationOrganization, ConversationSummary } from "@/types";
+import { XIcon } from "lucide-react";
+
+interface OrganizeDialogProps {
+  conversation: Pick<
+    ConversationSummary,
+    "id" | "title" | "folder" | "tags" | "pinned"
+  > | null;
+  onOpenChange: (open: boolean) => void;
+  onSave: (
+    conversationId: string,
+    changes: ConversationOrganization
+  ) => Promise<void>;
+}
+
+export const OrganizeDialog = ({
+  conversation,
+  onOpenChange,
+  onSave,
+}: OrganizeDialogProps) => {
+  const { groups } = useConversationGroups();
+  const [title, setTitle] = useState("");
+  const [folder, setFolder] = useState("");
+  const [tags, setTags] = useState<string[]>([]);
+  const [tagInput, setTagInput] = useState("");
+  const [pinned, setPinned] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    if (!conversation) return;
+    setTitle(conversation.title);
+    setFolder(conversation.folder ?? "");
+    setTags(conversation.tags ?? []);
+    setTagInput("");
+    setPinned(!!conversation.pinned);
+    setError("");
+  }, [conversation]);
+
+  const addTag = (value: string) => {
+    const tag = value.trim().replace(/,$/, "").trim();
+    if (tag && !tags.some((t) => t.toLowerCase() === tag.toLowerCase())) {
+      setTags([...tags, tag]);
+    }
+    setTagInput("");
+  };
+
+  const handleSave = async () => {
+    if (!conversation) return;
+    setIsSaving(true);
+    setError("");
+    try {
+      await onSave(conversation.id, {
+        title,
+        folder: folder.trim() || null,
+        // Keep a tag that was typed but not confirmed with Enter
+        tags: tagInput.trim() ? [...tags, tagInput.trim()] : tags,
+        pinned,
+      });
+      onOpenChange(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!conversation} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader className="mt-4">
+          <DialogTitle>Organize Conversation</DialogTitle>
+          <DialogDescription className="mt-1">
+            Rename it, file it in a folder, tag it or pin it to the top of
+            your history.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label className="text-sm font-medium">Title</Label>
+            <Input
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              disabled={isSaving}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-sm font-medium">Folder</Label>
+            <Input
+              placeholder="e.g. Acme Corp, Hiring, Weekly sync..."
+              value={folder}
+              onChange={(e) => setFolder(e.target.value)}
+              list="conversation-folders"
+              disabled={isSaving}
+            />
+            <datalist id="conversation-folders">
+              {groups.folders.map((f) => (
+                <option key={f.name} value={f.name} />
+              ))}
+            </datalist>
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-sm font-medium">Tags</Label>
+            {tags.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {tags.map((tag) => (
+                  <Badge key={tag} variant="secondary" className="gap-1">
+                    {tag}
+                    <button
+                      title={`Remove ${tag}`}
+                      onClick={() => setTags(tags.filter((t) => t !== tag))}
+                    >
+                      <XIcon className="size-3" />
+                    </button>
+                  </Badge>
+                ))}
+              </div>
+            )}
+            <Input
+              placeholder="Type a tag and press Enter"
+              value={tagInput}
+              onChange={(e) =>
+                e.target.value.endsWith(",")
+                  ? addTag(e.target.value)
+                  : setTagInput(e.target.value)
+              }
+              onKeyDown={(e) => {
+                if (e.key === "Enter") {
+                  e.preventDefault();
+                  addTag(tagInput);
+                }
+              }}
+              list="conversation-tags"
+              disabled={isSaving}
+            />
+            <datalist id="conversation-tags">
+              {groups.tags.map((t) => (
+                <option key={t.name} value={t.name} />
+              ))}
+            </datalist>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label className="text-sm font-medium">Pin to top</Label>
+            <Switch
+              checked={pinned}
+              onCheckedChange={setPinned}
+              disabled={isSaving}
+            />
+          </div>
+
+          {error && <p className="text-xs text-destructive">{error}</p>}
+        </div>
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={isSaving}
+          >
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!title.trim() || isSaving}>
+            {isSaving ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
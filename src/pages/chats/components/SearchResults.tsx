@@ -0,0 +1,160 @@
+import { Badge, Card, Empty, Input, Selection } from "@/components";
+import { SEARCH_HIGHLIGHT_END, SEARCH_HIGHLIGHT_START } from "@/lib";
+import { MessageSearchFilters, MessageSearchResult } from "@/types";
+import { HeadphonesIcon, MicIcon, SearchIcon } from "lucide-react";
+import moment from "moment";
+import { useNavigate } from "react-router-dom";
+
+const SOURCE_OPTIONS = [
+  { label: "All sources", value: "all" },
+  { label: "System audio", value: "system_audio" },
+  { label: "Microphone", value: "microphone" },
+];
+
+const ROLE_OPTIONS = [
+  { label: "All messages", value: "all" },
+  { label: "User / transcripts", value: "user" },
+  { label: "AI responses", value: "assistant" },
+];
+
+// Renders a snippet with the matched terms highlighted
+const Snippet = ({ text }: { text: string }) => (
+  <p className="text-xs text-muted-foreground line-clamp-2">
+    {text.split(SEARCH_HIGHLIGHT_START).map((part, index) => {
+      if (index === 0) return part;
+      const [match, rest = ""] = part.split(SEARCH_HIGHLIGHT_END);
+      return (
+        <span key={index}>
+          <mark className="bg-primary/20 text-foreground rounded-sm px-0.5">
+            {match}
+          </mark>
+          {rest}
+        </span>
+      );
+    })}
+  </p>
+);
+
+export const SearchFilters = ({
+  filters,
+  setFilters,
+}: {
+  filters: MessageSearchFilters;
+  setFilters: React.Dispatch<React.SetStateAction<MessageSearchFilters>>;
+}) => {
+  const toDateInput = (timestamp?: number) =>
+    timestamp ? moment(timestamp).format("YYYY-MM-DD") : "";
+
+  return (
+    <div className="grid grid-cols-4 gap-2">
+      <Selection
+        selected={filters.source || "all"}
+        options={SOURCE_OPTIONS}
+        onChange={(value) =>
+          setFilters((prev) => ({
+            ...prev,
+            source: value === "all" ? undefined : value,
+          }))
+        }
+      />
+      <Selection
+        selected={filters.role || "all"}
+        options={ROLE_OPTIONS}
+        onChange={(value) =>
+          setFilters((prev) => ({
+            ...prev,
+            role: value === "all" ? undefined : value,
+          }))
+        }
+      />
+      <Input
+        type="date"
+        title="From date"
+        className="h-11"
+        value={toDateInput(filters.from)}
+        onChange={(e) =>
+          setFilters((prev) => ({
+            ...prev,
+            from: e.target.value
+              ? moment(e.target.value).startOf("day").valueOf()
+              : undefined,
+          }))
+        }
+      />
+      <Input
+        type="date"
+        title="To date"
+        className="h-11"
+        value={toDateInput(filters.to)}
+        onChange={(e) =>
+          setFilters((prev) => ({
+            ...prev,
+            to: e.target.value
+              ? moment(e.target.value).endOf("day").valueOf()
+              : undefined,
+          }))
+        }
+      />
+    </div>
+  );
+};
+
+export const SearchResults = ({
+  results,
+  isSearching,
+}: {
+  results: MessageSearchResult[];
+  isSearching: boolean;
+}) => {
+  const navigate = useNavigate();
+
+  if (results.length === 0) {
+    return (
+      <Empty
+        isLoading={isSearching}
+        icon={SearchIcon}
+        title="No matches found"
+        description="Try other words or remove some filters"
+      />
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 gap-3">
+      {results.map((result) => (
+        <Card
+          key={result.messageId}
+          className="shadow-none select-none p-4 gap-1 transition-all !bg-black/5 dark:!bg-white/5 hover:!border-primary/50 cursor-pointer"
+          onClick={() =>
+            navigate(
+              `/chats/view/${result.conversationId}?message=${encodeURIComponent(
+                result.messageId
+              )}`
+            )
+          }
+        >
+          <div className="flex items-center justify-between gap-2">
+            <p className="line-clamp-1 text-sm font-medium">
+              {result.conversationTitle}
+            </p>
+            <div className="flex items-center gap-1 shrink-0">
+              {result.source === "system_audio" && (
+                <HeadphonesIcon className="size-3 text-muted-foreground" />
+              )}
+              {result.source === "microphone" && (
+                <MicIcon className="size-3 text-muted-foreground" />
+              )}
+              <Badge variant="outline" className="text-xs">
+                {result.role === "assistant" ? "AI" : "User"}
+              </Badge>
+              <Badge variant="outline" className="text-xs">
+                {moment(result.timestamp).format("MMM D, hh:mm A")}
+              </Badge>
+            </div>
+          </div>
+          <Snippet text={result.snippet} />
+        </Card>
+      ))}
+    </div>
+  );
+};
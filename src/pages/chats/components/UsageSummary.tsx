@@ -0,0 +1,47 @@
+import { useMemo } from "react";
+import { Badge } from "@/components";
+import { formatCost, getPricingTable, summarizeUsage } from "@/lib";
+import { ChatMessage } from "@/types";
+
+export const UsageSummary = ({ messages }: { messages: ChatMessage[] }) => {
+  const totals = useMemo(
+    () => summarizeUsage(messages, getPricingTable()),
+    [messages]
+  );
+
+  const hasUsage =
+    totals.promptTokens > 0 ||
+    totals.completionTokens > 0 ||
+    totals.audioSeconds > 0;
+  if (!hasUsage) return null;
+
+  const audioMinutes = totals.audioSeconds / 60;
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-2 pt-2">
+      <Badge variant="outline" className="text-[10px] lg:text-xs">
+        {totals.promptTokens.toLocaleString()} in /{" "}
+        {totals.completionTokens.toLocaleString()} out tokens
+      </Badge>
+      {totals.audioSeconds > 0 && (
+        <Badge variant="outline" className="text-[10px] lg:text-xs">
+          {audioMinutes < 1
+            ? `${Math.round(totals.audioSeconds)}s audio`
+            : `${audioMinutes.toFixed(1)} min audio`}
+        </Badge>
+      )}
+      <Badge
+        variant="outline"
+        className="text-[10px] lg:text-xs"
+        title={
+          totals.unpricedCount > 0
+            ? `${totals.unpricedCount} messages have no matching price in Settings`
+            : "Estimated from the price table in Settings"
+        }
+      >
+        {formatCost(totals.cost)}
+        {totals.unpricedCount > 0 ? " + unpriced" : ""}
+      </Badge>
+    </div>
+  );
+};
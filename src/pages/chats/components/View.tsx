@@ -6,9 +6,10 @@ import {
   Markdown,
   Textarea,
   GetLicense,
+  SpeakerName,
 } from "@/components";
-import { getConversationById } from "@/lib";
-import { ChatConversation } from "@/types";
+import { getConversationById, updateSpeakerNames } from "@/lib";
+import { ChatConversation, ConversationOrganization } from "@/types";
 import {
   Download,
   MessageCircleIcon,
@@ -21,10 +22,11 @@ import {
   Loader2,
   HeadphonesIcon,
   MicIcon,
+  PencilIcon,
 } from "lucide-react";
 import { useState, useEffect } from "react";
 import moment from "moment";
-import { useParams, useNavigate } from "react-router-dom";
+import { useParams, useNavigate, useSearchParams } from "react-router-dom";
 import { PageLayout } from "@/layouts";
 import { useHistory, useChatCompletion } from "@/hooks";
 import { useApp } from "@/contexts";
@@ -34,6 +36,10 @@ import {
   ChatScreenshot,
   ChatFiles,
   AudioRecorder,
+  UsageSummary,
+  ExportMenu,
+  MeetingSummaryCard,
+  OrganizeDialog,
 } from ".";
 
 const View = () => {
@@ -41,6 +47,13 @@ const View = () => {
   const { hasActiveLicense } = useApp();
   const navigate = useNavigate();
   const [messages, setMessages] = useState<ChatConversation | null>(null);
+  // Message to jump to, e.g. from a search result
+  const [searchParams] = useSearchParams();
+  const targetMessageId = searchParams.get("message");
+  const [highlightedMessageId, setHighlightedMessageId] = useState<
+    string | null
+  >(null);
+  const [isOrganizing, setIsOrganizing] = useState(false);
 
   const {
     handleDeleteConfirm,
@@ -49,6 +62,7 @@ const View = () => {
     deleteConfirm,
     handleAttachToOverlay,
     handleDownload,
+    handleOrganizeConversation,
     isDownloaded,
     isAttached,
   } = useHistory();
@@ -67,9 +81,26 @@ const View = () => {
     getMessages();
   }, [conversationId]);
 
+  useEffect(() => {
+    // Jump to the requested message once, instead of scrolling to the bottom
+    if (targetMessageId && messages?.messages.length) {
+      const timer = setTimeout(() => {
+        document
+          .getElementById(`message-${targetMessageId}`)
+          ?.scrollIntoView({ behavior: "smooth", block: "center" });
+        setHighlightedMessageId(targetMessageId);
+      }, 100);
+      const clearTimer = setTimeout(() => setHighlightedMessageId(null), 3000);
+      return () => {
+        clearTimeout(timer);
+        clearTimeout(clearTimer);
+      };
+    }
+  }, [targetMessageId, messages?.id]);
+
   useEffect(() => {
     // Scroll to bottom when messages load
-    if (messages?.messages.length) {
+    if (messages?.messages.length && !targetMessageId) {
       setTimeout(() => {
         completion.messagesEndRef.current?.scrollIntoView({
           behavior: "smooth",
@@ -78,6 +109,26 @@ const View = () => {
     }
   }, [messages?.messages.length]);
 
+  const handleRenameSpeaker = async (speakerId: string, name: string) => {
+    if (!messages) return;
+    const speakerNames = { ...messages.speakerNames, [speakerId]: name.trim() };
+    setMessages({ ...messages, speakerNames });
+    try {
+      await updateSpeakerNames(messages.id, speakerNames);
+    } catch (error) {
+      console.error("Failed to rename speaker:", error);
+    }
+  };
+
+  const handleOrganize = async (
+    id: string,
+    changes: ConversationOrganization
+  ) => {
+    await handleOrganizeConversation(id, changes);
+    const conversation = await getConversationById(id);
+    if (conversation) setMessages(conversation);
+  };
+
   const handleDelete = async () => {
     await confirmDelete();
     navigate(-1);
@@ -113,23 +164,35 @@ const View = () => {
             )}
           </Button>
           <Button
-            variant={"outline"}
-            title="Download conversation as markdown"
+            variant="outline"
+            title="Rename, move to a folder, tag or pin"
             className="text-[10px] lg:text-sm h-6 lg:h-8"
-            onClick={(e) => handleDownload(messages, e)}
-            disabled={isDownloaded}
+            onClick={() => setIsOrganizing(true)}
+            disabled={!messages}
           >
-            {isDownloaded ? (
-              <>
-                <Check className="size-3 lg:size-4 text-green-600" />
-                Downloaded
-              </>
-            ) : (
-              <>
-                Download <Download className="size-3 lg:size-4" />
-              </>
-            )}
+            Organize <PencilIcon className="size-3 lg:size-4" />
           </Button>
+          <ExportMenu
+            onExport={(options, e) => handleDownload(messages, e, options)}
+          >
+            <Button
+              variant={"outline"}
+              title="Export conversation as Markdown, transcript or subtitles"
+              className="text-[10px] lg:text-sm h-6 lg:h-8"
+              disabled={isDownloaded}
+            >
+              {isDownloaded ? (
+                <>
+                  <Check className="size-3 lg:size-4 text-green-600" />
+                  Downloaded
+                </>
+              ) : (
+                <>
+                  Export <Download className="size-3 lg:size-4" />
+                </>
+              )}
+            </Button>
+          </ExportMenu>
           <Button
             variant="destructive"
             title="Delete conversation"
@@ -152,6 +215,15 @@ const View = () => {
         />
       ) : (
         <div className="flex flex-col gap-4 pb-24 px-2">
+          <UsageSummary messages={messages?.messages || []} />
+          {messages && (
+            <MeetingSummaryCard
+              conversation={messages}
+              onSummaryChange={(summary) =>
+                setMessages((prev) => (prev ? { ...prev, summary } : prev))
+              }
+            />
+          )}
           {messages?.messages.map((message, index, array) => {
             const isUser = message.role === "user";
             const showDate =
@@ -239,11 +311,25 @@ const View = () => {
                       isRightSide ? "items-end" : "items-start"
                     }`}
                   >
+                    {message.speakerId && (
+                      <SpeakerName
+                        speakerId={message.speakerId}
+                        speakerNames={messages?.speakerNames}
+                        onRename={handleRenameSpeaker}
+                        className="text-xs"
+                      />
+                    )}
                     <Card
+                      id={`message-${message.id}`}
                       className={`px-4 text-xs lg:text-sm py-0 transition-all select-none shadow-none ${
                         isRightSide
                           ? "!bg-primary text-primary-foreground !border-primary rounded-tr-sm"
                           : "!bg-muted/50 dark:!bg-muted/30 rounded-tl-sm"
+                      } ${
+                        highlightedMessageId === message.id ||
+                        highlightedMessageId === assistantMessage?.id
+                          ? "ring-2 ring-primary ring-offset-2"
+                          : ""
                       }`}
                     >
                       {/* Original message */}
@@ -253,7 +339,10 @@ const View = () => {
                       {isDualTrack && assistantMessage && (
                         <>
                           <div className={`my-2 border-t ${isRightSide ? "border-primary-foreground/20" : "border-border/50"}`} />
-                          <div className="opacity-90">
+                          <div
+                            id={`message-${assistantMessage.id}`}
+                            className="opacity-90"
+                          >
                             <Markdown>{assistantMessage.content}</Markdown>
                           </div>
                         </>
@@ -383,6 +472,12 @@ const View = () => {
         </div>
       </div>
 
+      <OrganizeDialog
+        conversation={isOrganizing ? messages : null}
+        onOpenChange={setIsOrganizing}
+        onSave={handleOrganize}
+      />
+
       {/* Delete Confirmation Dialog */}
       <DeleteConfirmationDialog
         deleteConfirm={deleteConfirm}
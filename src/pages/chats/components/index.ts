@@ -3,4 +3,9 @@ export * from "./ChatScreenshot";
 export * from "./ChatFiles";
 export * from "./AudioRecorder";
 export * from "./DeleteConfirmation";
+export * from "./UsageSummary";
+export * from "./MeetingSummaryCard";
+export * from "./ExportMenu";
+export * from "./OrganizeDialog";
+export * from "./SearchResults";
 export * from "./View";
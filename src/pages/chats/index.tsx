@@ -1,98 +1,285 @@
-import { Badge, Input, Card, Empty } from "@/components";
-import { useHistory } from "@/hooks";
+import { Badge, Button, Input, Card, Empty } from "@/components";
+import { useHistory, useInfiniteScroll } from "@/hooks";
 import { PageLayout } from "@/layouts";
-import { MessageCircleIcon, Search } from "lucide-react";
+import {
+  Check,
+  Download,
+  FolderIcon,
+  Loader2,
+  MessageCircleIcon,
+  PencilIcon,
+  PinIcon,
+  Search,
+  TagIcon,
+  XIcon,
+} from "lucide-react";
 import moment from "moment";
-import { useNavigate } from "react-router-dom";
+import { useEffect, useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { ConversationSummary } from "@/types";
+import {
+  ExportMenu,
+  OrganizeDialog,
+  SearchFilters,
+  SearchResults,
+} from "./components";
 
 const Dashboard = () => {
   const conversations = useHistory();
   const navigate = useNavigate();
-  // Group conversations by date
-  const groupedConversations = conversations.conversations.reduce(
-    (acc, doc) => {
-      const dateKey = moment(doc.updatedAt).format("YYYY-MM-DD");
-      if (!acc[dateKey]) {
-        acc[dateKey] = [];
-      }
-      acc[dateKey].push(doc);
-      return acc;
-    },
-    {} as Record<string, typeof conversations.conversations>
+  const [organizing, setOrganizing] = useState<ConversationSummary | null>(
+    null
+  );
+
+  // Folder, tag and pinned filters live in the URL so the sidebar can link to them
+  const [searchParams, setSearchParams] = useSearchParams();
+  const folderFilter = searchParams.get("folder") ?? undefined;
+  const tagFilter = searchParams.get("tag") ?? undefined;
+  const pinnedFilter = searchParams.get("pinned") === "1";
+  const hasFilter = !!folderFilter || !!tagFilter || pinnedFilter;
+  const { setConversationFilters } = conversations;
+  useEffect(() => {
+    setConversationFilters({
+      folder: folderFilter,
+      tag: tagFilter,
+      pinned: pinnedFilter || undefined,
+    });
+  }, [folderFilter, tagFilter, pinnedFilter, setConversationFilters]);
+
+  const loadMoreRef = useInfiniteScroll({
+    onLoadMore: conversations.loadMoreConversations,
+    hasMore: conversations.hasMoreConversations,
+    isLoading: conversations.isLoadingMore,
+  });
+  // Pinned conversations come first and are shown above the date groups
+  const pinnedConversations = conversations.conversations.filter(
+    (doc) => doc.pinned
   );
+  // Group conversations by date
+  const groupedConversations = conversations.conversations
+    .filter((doc) => !doc.pinned)
+    .reduce(
+      (acc, doc) => {
+        const dateKey = moment(doc.updatedAt).format("YYYY-MM-DD");
+        if (!acc[dateKey]) {
+          acc[dateKey] = [];
+        }
+        acc[dateKey].push(doc);
+        return acc;
+      },
+      {} as Record<string, typeof conversations.conversations>
+    );
 
   // Sort dates in descending order (most recent first)
   const sortedDates = Object.keys(groupedConversations).sort((a, b) =>
     moment(b).diff(moment(a))
   );
 
+  const renderConversation = (doc: ConversationSummary) => (
+    <Card
+      key={doc.id}
+      className="shadow-none select-none p-4 gap-0 group relative transition-all !bg-black/5 dark:!bg-white/5 hover:!border-primary/50 cursor-pointer"
+      onClick={() => navigate(`/chats/view/${doc.id}`)}
+    >
+      <div className="flex items-center justify-between">
+        <div className="flex flex-col gap-0.5 min-w-0 mr-8">
+          <p className="line-clamp-1 text-sm flex items-center gap-1.5">
+            {doc.pinned && (
+              <PinIcon className="size-3 shrink-0 text-primary" />
+            )}
+            {doc.title}
+          </p>
+          {doc.preview && doc.preview !== doc.title && (
+            <p className="line-clamp-1 text-xs text-muted-foreground">
+              {doc.preview}
+            </p>
+          )}
+          {(doc.folder || !!doc.tags?.length) && (
+            <div className="flex flex-wrap items-center gap-1 mt-1">
+              {doc.folder && (
+                <Badge
+                  variant="secondary"
+                  className="text-[10px] gap-1 cursor-pointer"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setSearchParams({ folder: doc.folder! });
+                  }}
+                >
+                  <FolderIcon className="size-3" />
+                  {doc.folder}
+                </Badge>
+              )}
+              {doc.tags?.map((tag) => (
+                <Badge
+                  key={tag}
+                  variant="outline"
+                  className="text-[10px] gap-1 cursor-pointer"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setSearchParams({ tag });
+                  }}
+                >
+                  <TagIcon className="size-3" />
+                  {tag}
+                </Badge>
+              ))}
+            </div>
+          )}
+        </div>
+        <div className="flex items-center gap-1">
+          <Badge variant="outline" className="text-xs">
+            {doc.messageCount ?? 0} messages
+          </Badge>
+          <Badge variant="outline" className="text-xs">
+            {moment(doc.updatedAt).format("hh:mm A")}
+          </Badge>
+          <button
+            title="Rename, move, tag or pin"
+            className="flex size-6 items-center justify-center rounded-md hover:bg-accent"
+            onClick={(e) => {
+              e.stopPropagation();
+              setOrganizing(doc);
+            }}
+          >
+            <PencilIcon className="size-3.5 text-muted-foreground" />
+          </button>
+          <ExportMenu
+            onExport={(options, e) =>
+              conversations.handleDownloadConversation(doc, e, options)
+            }
+          >
+            <button
+              title="Export conversation"
+              className="flex size-6 items-center justify-center rounded-md hover:bg-accent"
+              onClick={(e) => e.stopPropagation()}
+            >
+              {conversations.downloadedConversations.has(doc.id) ? (
+                <Check className="size-3.5 text-green-600" />
+              ) : (
+                <Download className="size-3.5 text-muted-foreground" />
+              )}
+            </button>
+          </ExportMenu>
+        </div>
+      </div>
+    </Card>
+  );
+
   return (
     <PageLayout
-      title="All conversations"
+      title={
+        folderFilter
+          ? folderFilter
+          : tagFilter
+          ? `#${tagFilter}`
+          : pinnedFilter
+          ? "Pinned conversations"
+          : "All conversations"
+      }
       description="View all your conversations"
     >
       <>
+        {hasFilter && (
+          <div className="flex items-center gap-2 mb-4">
+            <Badge variant="secondary" className="gap-1">
+              {folderFilter ? (
+                <FolderIcon className="size-3" />
+              ) : tagFilter ? (
+                <TagIcon className="size-3" />
+              ) : (
+                <PinIcon className="size-3" />
+              )}
+              {folderFilter || tagFilter || "Pinned"}
+            </Badge>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 text-xs"
+              onClick={() => setSearchParams({})}
+            >
+              <XIcon className="size-3" />
+              Show all
+            </Button>
+          </div>
+        )}
         {conversations.conversations.length === 0 ? (
           <Empty
             isLoading={conversations.isLoading}
             icon={MessageCircleIcon}
             title="No conversations found"
-            description="Start a new conversation to get started"
+            description={
+              hasFilter
+                ? "No conversations match this filter"
+                : "Start a new conversation to get started"
+            }
           />
         ) : (
           <div className="flex flex-col gap-6 pb-8">
-            <div className="relative mb-4 w-1/3">
-              <Search className="absolute left-3 top-1/2 size-4 -translate-y-1/2 text-muted-foreground" />
-              <Input
-                type="text"
-                placeholder="Search conversations..."
-                className="pl-9 focus-visible:ring-0 focus-visible:ring-offset-0"
-                value={conversations.search}
-                onChange={(e) => conversations.setSearch(e.target.value)}
-              />
+            <div className="flex flex-col gap-2 mb-4">
+              <div className="relative w-1/3">
+                <Search className="absolute left-3 top-1/2 size-4 -translate-y-1/2 text-muted-foreground" />
+                <Input
+                  type="text"
+                  placeholder="Search all messages..."
+                  className="pl-9 focus-visible:ring-0 focus-visible:ring-offset-0"
+                  value={conversations.search}
+                  onChange={(e) => conversations.setSearch(e.target.value)}
+                />
+              </div>
+              {conversations.search.trim() && (
+                <SearchFilters
+                  filters={conversations.searchFilters}
+                  setFilters={conversations.setSearchFilters}
+                />
+              )}
             </div>
-            {sortedDates
-              .filter((dateKey) =>
-                conversations?.search?.length === 0
-                  ? true
-                  : groupedConversations?.[dateKey]?.some((doc) =>
-                      doc?.title
-                        .toLowerCase()
-                        .includes(conversations?.search?.toLowerCase() || "")
-                    )
-              )
-              .map((dateKey) => (
-                <div key={dateKey} className="flex flex-col gap-3">
-                  <p className="text-xs text-muted-foreground select-none font-medium">
-                    {moment(dateKey).format("ddd, MMM D")}
-                  </p>
-                  <div className="grid grid-cols-1 gap-3">
-                    {groupedConversations[dateKey].map((doc) => (
-                      <Card
-                        key={doc.id}
-                        className="shadow-none select-none p-4 gap-0 group relative transition-all !bg-black/5 dark:!bg-white/5 hover:!border-primary/50 cursor-pointer"
-                        onClick={() => navigate(`/chats/view/${doc.id}`)}
-                      >
-                        <div className="flex items-center justify-between">
-                          <p className="line-clamp-1 text-sm mr-8">
-                            {doc.title}
-                          </p>
-                          <div className="flex items-center gap-1">
-                            <Badge variant="outline" className="text-xs">
-                              {doc.messages.length} messages
-                            </Badge>
-                            <Badge variant="outline" className="text-xs">
-                              {moment(doc.updatedAt).format("hh:mm A")}
-                            </Badge>
-                          </div>
-                        </div>
-                      </Card>
-                    ))}
+            {conversations.search.trim() ? (
+              <SearchResults
+                results={conversations.searchResults}
+                isSearching={conversations.isSearching}
+              />
+            ) : (
+              <>
+                {pinnedConversations.length > 0 && (
+                  <div className="flex flex-col gap-3">
+                    <p className="text-xs text-muted-foreground select-none font-medium">
+                      Pinned
+                    </p>
+                    <div className="grid grid-cols-1 gap-3">
+                      {pinnedConversations.map(renderConversation)}
+                    </div>
                   </div>
-                </div>
-              ))}
+                )}
+                {sortedDates.map((dateKey) => (
+                  <div key={dateKey} className="flex flex-col gap-3">
+                    <p className="text-xs text-muted-foreground select-none font-medium">
+                      {moment(dateKey).format("ddd, MMM D")}
+                    </p>
+                    <div className="grid grid-cols-1 gap-3">
+                      {groupedConversations[dateKey].map(renderConversation)}
+                    </div>
+                  </div>
+                ))}
+              </>
+            )}
+            {!conversations.search.trim() && (
+              <div
+                ref={loadMoreRef}
+                className="flex justify-center py-2 text-muted-foreground"
+              >
+                {conversations.isLoadingMore && (
+                  <Loader2 className="size-4 animate-spin" />
+                )}
+              </div>
+            )}
           </div>
         )}
+
+        <OrganizeDialog
+          conversation={organizing}
+          onOpenChange={(open) => !open && setOrganizing(null)}
+          onSave={conversations.handleOrganizeConversation}
+        />
       </>
     </PageLayout>
   );
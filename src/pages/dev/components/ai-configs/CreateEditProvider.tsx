@@ -11,6 +11,7 @@ import { PlusIcon, SaveIcon } from "lucide-react";
 import { useCustomAiProviders } from "@/hooks";
 import { useApp } from "@/contexts";
 import { cn } from "@/lib/utils";
+import { PROVIDER_ADAPTER_OPTIONS } from "@/config";
 
 interface CreateEditProviderProps {
   customProviderHook?: ReturnType<typeof useCustomAiProviders>;
@@ -240,6 +241,25 @@ export const CreateEditProvider = ({
               }
             />
           </div>
+          {/* Request Format */}
+          <div className="flex justify-between items-center space-x-2">
+            <Header
+              title="Request Format"
+              description="Native formats build the request and parse the stream for that API. Curl template uses the curl body and response path as-is."
+            />
+            <div className="w-[200px] shrink-0">
+              <Selection
+                selected={formData.adapter || "curl"}
+                options={PROVIDER_ADAPTER_OPTIONS}
+                onChange={(value) =>
+                  setFormData((prev) => ({
+                    ...prev,
+                    adapter: value === "curl" ? undefined : value,
+                  }))
+                }
+              />
+            </div>
+          </div>
           {/* Response Configuration */}
           <div className="space-y-2">
             <Header
@@ -261,6 +281,27 @@ export const CreateEditProvider = ({
             />
           </div>
 
+          {!formData.adapter && (
+            <div className="space-y-2">
+              <Header
+                title="Response Usage Path"
+                description="The path to the token usage object, used for cost tracking."
+              />
+
+              <TextInput
+                placeholder="usage"
+                value={formData.responseUsagePath || ""}
+                onChange={(value) =>
+                  setFormData((prev) => ({
+                    ...prev,
+                    responseUsagePath: value,
+                  }))
+                }
+                notes="Optional. Leave empty to read the usual usage or usageMetadata keys."
+              />
+            </div>
+          )}
+
           <div className="flex justify-end gap-2 -mt-3">
             <Button
               variant="outline"
@@ -0,0 +1,214 @@
+import { useState } from "react";
+import {
+  Button,
+  Card,
+  Header,
+  Input,
+  Label,
+  Selection,
+  Switch,
+} from "@/components";
+import {
+  getFailoverSettings,
+  getProviderLabel,
+  getStoredAiProviderVariables,
+  setFailoverSettings,
+} from "@/lib";
+import { FailoverProvider, FailoverSettings, UseSettingsReturn } from "@/types";
+import { ArrowDownIcon, ArrowUpIcon, TrashIcon } from "lucide-react";
+
+const toWholeNumber = (value: string) =>
+  Math.max(0, Math.floor(Number(value)) || 0);
+
+export const Failover = ({
+  allAiProviders,
+  selectedAIProvider,
+}: UseSettingsReturn) => {
+  const [settings, setSettings] =
+    useState<FailoverSettings>(getFailoverSettings);
+
+  const handleUpdate = (updates: Partial<FailoverSettings>) => {
+    const next = { ...settings, ...updates };
+    setSettings(next);
+    setFailoverSettings(next);
+  };
+
+  const updateFallbacks = (fallbacks: FailoverProvider[]) =>
+    handleUpdate({ fallbacks });
+
+  const moveFallback = (index: number, offset: number) => {
+    const fallbacks = [...settings.fallbacks];
+    const [moved] = fallbacks.splice(index, 1);
+    fallbacks.splice(index + offset, 0, moved);
+    updateFallbacks(fallbacks);
+  };
+
+  const getLabel = (providerId: string) => {
+    const provider = allAiProviders.find((p) => p.id === providerId);
+    return provider ? getProviderLabel(provider) : providerId;
+  };
+
+  const availableProviders = allAiProviders.filter(
+    (p) =>
+      p.id &&
+      p.id !== selectedAIProvider.provider &&
+      !settings.fallbacks.some((f) => f.providerId === p.id)
+  );
+
+  return (
+    <div className="space-y-3">
+      <Header
+        title="Failover & Retries"
+        description="Retry rate limited (429), failed and timed out requests, honouring the Retry-After the provider sends, and fall back to other providers in order when the selected one keeps failing."
+      />
+
+      <div className="flex items-center justify-between gap-4">
+        <Label className="text-sm font-medium">Retries per provider</Label>
+        <Input
+          type="number"
+          min={0}
+          max={5}
+          className="w-24"
+          value={settings.maxRetries}
+          onChange={(e) =>
+            handleUpdate({
+              maxRetries: Math.min(5, toWholeNumber(e.target.value)),
+            })
+          }
+        />
+      </div>
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <Label className="text-sm font-medium">
+            Timeout of the selected provider
+          </Label>
+          <p className="text-xs text-muted-foreground mt-1">
+            Seconds to wait for the answer to start, 0 waits indefinitely.
+          </p>
+        </div>
+        <Input
+          type="number"
+          min={0}
+          className="w-24"
+          value={settings.timeoutSeconds}
+          onChange={(e) =>
+            handleUpdate({ timeoutSeconds: toWholeNumber(e.target.value) })
+          }
+        />
+      </div>
+
+      <div className="flex items-center justify-between">
+        <Label className="text-sm font-medium">
+          Fall back to other providers
+        </Label>
+        <Switch
+          checked={settings.enabled}
+          onCheckedChange={(enabled) => handleUpdate({ enabled })}
+        />
+      </div>
+
+      {settings.enabled && (
+        <div className="space-y-2">
+          {settings.fallbacks.map((fallback, index) => {
+            const isConfigured =
+              Object.keys(getStoredAiProviderVariables(fallback.providerId))
+                .length > 0;
+
+            return (
+              <Card
+                key={fallback.providerId}
+                className="p-3 border !bg-transparent border-input/50"
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <div className="min-w-0">
+                    <h4 className="font-medium text-sm truncate">
+                      {index + 1}. {getLabel(fallback.providerId)}
+                    </h4>
+                    {!isConfigured && (
+                      <p className="text-xs text-amber-600 mt-1">
+                        Select this provider once above and enter its API key
+                        and model.
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    <Input
+                      type="number"
+                      min={0}
+                      className="w-20 h-8"
+                      title="Timeout in seconds, 0 waits indefinitely"
+                      value={fallback.timeoutSeconds}
+                      onChange={(e) =>
+                        updateFallbacks(
+                          settings.fallbacks.map((f, i) =>
+                            i === index
+                              ? {
+                                  ...f,
+                                  timeoutSeconds: toWholeNumber(e.target.value),
+                                }
+                              : f
+                          )
+                        )
+                      }
+                    />
+                    <span className="text-xs text-muted-foreground mr-1">
+                      s
+                    </span>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => moveFallback(index, -1)}
+                      disabled={index === 0}
+                      title="Move Up"
+                    >
+                      <ArrowUpIcon className="h-3 w-3" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => moveFallback(index, 1)}
+                      disabled={index === settings.fallbacks.length - 1}
+                      title="Move Down"
+                    >
+                      <ArrowDownIcon className="h-3 w-3" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() =>
+                        updateFallbacks(
+                          settings.fallbacks.filter((_, i) => i !== index)
+                        )
+                      }
+                      title="Remove Fallback"
+                      className="text-destructive hover:text-destructive"
+                    >
+                      <TrashIcon className="h-3 w-3" />
+                    </Button>
+                  </div>
+                </div>
+              </Card>
+            );
+          })}
+
+          {availableProviders.length > 0 && (
+            <Selection
+              placeholder="Add a fallback provider"
+              options={availableProviders.map((provider) => ({
+                label: getProviderLabel(provider),
+                value: provider.id!,
+                isCustom: provider.isCustom,
+              }))}
+              onChange={(providerId: string) =>
+                updateFallbacks([
+                  ...settings.fallbacks,
+                  { providerId, timeoutSeconds: 30 },
+                ])
+              }
+            />
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
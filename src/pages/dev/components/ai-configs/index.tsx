@@ -2,6 +2,7 @@ import { Header } from "@/components";
 import { UseSettingsReturn } from "@/types";
 import { Providers } from "./Providers";
 import { CustomProviders } from "./CustomProvider";
+import { Failover } from "./Failover";
 
 export const AIProviders = (settings: UseSettingsReturn) => {
   return (
@@ -16,6 +17,8 @@ export const AIProviders = (settings: UseSettingsReturn) => {
       <CustomProviders {...settings} />
       {/* Providers Selection */}
       <Providers {...settings} />
+      {/* Failover Chain */}
+      <Failover {...settings} />
     </div>
   );
 };
@@ -11,6 +11,8 @@ import { PlusIcon, SaveIcon } from "lucide-react";
 import { useCustomSttProviders } from "@/hooks";
 import { useApp } from "@/contexts";
 import { cn } from "@/lib/utils";
+import { DEFAULT_STT_POLLING, STT_STREAM_ADAPTER_OPTIONS } from "@/config";
+import { SttPollingConfig } from "@/types";
 
 interface CreateEditProviderProps {
   customProviderHook?: ReturnType<typeof useCustomSttProviders>;
@@ -36,6 +38,15 @@ export const CreateEditProvider = ({
     handleAutoFill,
   } = hookInstance;
 
+  const updatePolling = (updates: Partial<SttPollingConfig>) =>
+    setFormData((prev) => ({
+      ...prev,
+      polling: prev.polling ? { ...prev.polling, ...updates } : prev.polling,
+    }));
+
+  const toNumber = (value: string) =>
+    value.trim() && !isNaN(Number(value)) ? Number(value) : undefined;
+
   const resetForm = () => {
     setEditingProvider(null);
     setFormData({
@@ -183,32 +194,35 @@ export const CreateEditProvider = ({
             </div>
           </div>
 
-          <div className="space-y-0">
-            <div className="flex justify-between items-center space-x-2">
-              <Header
-                title="Streaming"
-                description="streaming is used to stream the response from the AI provider."
-              />
-              <Switch
-                checked={formData.streaming}
-                onCheckedChange={(checked) =>
+          {/* Streaming Protocol */}
+          <div className="flex justify-between items-center space-x-2">
+            <Header
+              title="Streaming Protocol"
+              description="Streaming providers receive system audio over a WebSocket and return live partial transcripts. The curl URL must be a wss:// or ws:// endpoint."
+            />
+            <div className="w-[200px] shrink-0">
+              <Selection
+                selected={formData.streamAdapter || "none"}
+                options={STT_STREAM_ADAPTER_OPTIONS}
+                onChange={(value) =>
                   setFormData((prev) => ({
                     ...prev,
-                    streaming: checked,
+                    streamAdapter: value === "none" ? undefined : value,
+                    streaming: value !== "none",
+                    polling: value === "none" ? prev.polling : undefined,
                   }))
                 }
-                disabled={true}
               />
             </div>
-            <span className="text-xs italic text-red-500">
-              Streaming is not supported for STT providers. it will be fixed in
-              the future.
-            </span>
           </div>
           {/* Response Configuration */}
           <div className="space-y-2">
             <Header
-              title="Response Content Path *"
+              title={
+                formData.streamAdapter
+                  ? "Response Content Path"
+                  : "Response Content Path *"
+              }
               description="The path to extract content from the API response."
             />
 
@@ -222,10 +236,135 @@ export const CreateEditProvider = ({
                 }))
               }
               error={errors.responseContentPath}
-              notes="The path to extract content from the API response. Examples: text, transcript, results[0].alternatives[0].transcript"
+              notes={
+                formData.polling
+                  ? "The path to the job id in the submit response. Examples: id, job.id"
+                  : "The path to extract content from the API response. Examples: text, transcript, results[0].alternatives[0].transcript"
+              }
             />
           </div>
 
+          {/* Async Job Polling */}
+          {!formData.streamAdapter && (
+            <div className="space-y-2">
+              <div className="flex justify-between items-center space-x-2">
+                <Header
+                  title="Async Job Polling"
+                  description="For batch providers that return a job id: poll the job until it is finished, then read the transcript."
+                />
+                <Switch
+                  checked={!!formData.polling}
+                  onCheckedChange={(checked) =>
+                    setFormData((prev) => ({
+                      ...prev,
+                      polling: checked
+                        ? {
+                            url: "",
+                            statusPath: "status",
+                            completedValue: "completed",
+                          }
+                        : undefined,
+                    }))
+                  }
+                />
+              </div>
+
+              {formData.polling && (
+                <div className="space-y-3">
+                  <TextInput
+                    label="Poll URL *"
+                    placeholder="https://api.example.com/v1/jobs/{{JOB_ID}}"
+                    value={formData.polling.url}
+                    onChange={(value) => updatePolling({ url: value })}
+                    error={errors.pollUrl}
+                    notes="Requested with the submit headers. {{JOB_ID}} and your variables are replaced."
+                  />
+                  <div className="grid grid-cols-3 gap-2">
+                    <TextInput
+                      label="Status Path *"
+                      placeholder="status"
+                      value={formData.polling.statusPath}
+                      onChange={(value) => updatePolling({ statusPath: value })}
+                      error={errors.pollStatusPath}
+                    />
+                    <TextInput
+                      label="Completed Value *"
+                      placeholder="completed"
+                      value={formData.polling.completedValue}
+                      onChange={(value) =>
+                        updatePolling({ completedValue: value })
+                      }
+                      error={errors.pollCompletedValue}
+                    />
+                    <TextInput
+                      label="Failed Value"
+                      placeholder="failed"
+                      value={formData.polling.failedValue || ""}
+                      onChange={(value) =>
+                        updatePolling({ failedValue: value || undefined })
+                      }
+                    />
+                  </div>
+                  <TextInput
+                    label="Transcript URL"
+                    placeholder="https://api.example.com/v1/jobs/{{JOB_ID}}/transcript"
+                    value={formData.polling.transcriptUrl || ""}
+                    onChange={(value) =>
+                      updatePolling({ transcriptUrl: value || undefined })
+                    }
+                    notes="Optional. Fetched once the job is finished; leave empty when the poll response contains the transcript."
+                  />
+                  <TextInput
+                    label="Transcript Path"
+                    placeholder="text"
+                    value={formData.polling.transcriptPath || ""}
+                    onChange={(value) =>
+                      updatePolling({ transcriptPath: value || undefined })
+                    }
+                    error={errors.pollTranscriptPath}
+                    notes="Path to the transcript in the poll (or transcript URL) response. Leave empty if the transcript URL returns plain text."
+                  />
+                  <div className="grid grid-cols-4 gap-2">
+                    <TextInput
+                      label="Timeout (s)"
+                      placeholder={String(DEFAULT_STT_POLLING.timeoutSeconds)}
+                      value={String(formData.polling.timeoutSeconds ?? "")}
+                      onChange={(value) =>
+                        updatePolling({ timeoutSeconds: toNumber(value) })
+                      }
+                    />
+                    <TextInput
+                      label="Interval (s)"
+                      placeholder={String(DEFAULT_STT_POLLING.intervalSeconds)}
+                      value={String(formData.polling.intervalSeconds ?? "")}
+                      onChange={(value) =>
+                        updatePolling({ intervalSeconds: toNumber(value) })
+                      }
+                    />
+                    <TextInput
+                      label="Backoff"
+                      placeholder={String(DEFAULT_STT_POLLING.backoffFactor)}
+                      value={String(formData.polling.backoffFactor ?? "")}
+                      onChange={(value) =>
+                        updatePolling({ backoffFactor: toNumber(value) })
+                      }
+                    />
+                    <TextInput
+                      label="Max Interval (s)"
+                      placeholder={String(
+                        DEFAULT_STT_POLLING.maxIntervalSeconds
+                      )}
+                      value={String(formData.polling.maxIntervalSeconds ?? "")}
+                      onChange={(value) =>
+                        updatePolling({ maxIntervalSeconds: toNumber(value) })
+                      }
+                    />
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+
           <div className="flex justify-end gap-2 -mt-3">
             <Button
               variant="outline"
@@ -0,0 +1,172 @@
+import { useEffect, useState } from "react";
+import { invoke } from "@tauri-apps/api/core";
+import { listen } from "@tauri-apps/api/event";
+import { CheckIcon, DownloadIcon, Loader2, TrashIcon } from "lucide-react";
+import { Button, Header } from "@/components";
+import { WHISPER_MODELS } from "@/config";
+import { getWhisperModel, setWhisperModel } from "@/lib";
+import { cn } from "@/lib/utils";
+
+interface WhisperModelStatus {
+  id: string;
+  downloaded: boolean;
+  size_bytes: number;
+}
+
+interface DownloadProgress {
+  model_id: string;
+  downloaded: number;
+  total: number | null;
+}
+
+export const LocalWhisperModels = () => {
+  const [statuses, setStatuses] = useState<Record<string, WhisperModelStatus>>(
+    {}
+  );
+  const [selectedModel, setSelectedModel] = useState<string>(getWhisperModel);
+  const [downloading, setDownloading] = useState<string | null>(null);
+  const [progress, setProgress] = useState<number>(0);
+  const [error, setError] = useState<string>("");
+
+  const refreshStatuses = async () => {
+    try {
+      const result = await invoke<WhisperModelStatus[]>("get_whisper_models", {
+        modelIds: WHISPER_MODELS.map((model) => model.id),
+      });
+      setStatuses(Object.fromEntries(result.map((s) => [s.id, s])));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  useEffect(() => {
+    refreshStatuses();
+
+    let unlisten: (() => void) | undefined;
+    listen<DownloadProgress>("whisper-model-download-progress", (event) => {
+      const { downloaded, total } = event.payload;
+      setProgress(total ? Math.round((downloaded / total) * 100) : 0);
+    }).then((fn) => {
+      unlisten = fn;
+    });
+
+    return () => {
+      if (unlisten) unlisten();
+    };
+  }, []);
+
+  const handleDownload = async (modelId: string) => {
+    setError("");
+    setDownloading(modelId);
+    setProgress(0);
+    try {
+      await invoke("download_whisper_model", { modelId });
+      await refreshStatuses();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  const handleDelete = async (modelId: string) => {
+    setError("");
+    try {
+      await invoke("delete_whisper_model", { modelId });
+      await refreshStatuses();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleSelect = (modelId: string) => {
+    setWhisperModel(modelId);
+    setSelectedModel(modelId);
+  };
+
+  return (
+    <div className="space-y-2">
+      <Header
+        title="Local Whisper Models"
+        description="Audio never leaves this machine. Download a model and select it; larger models are more accurate but slower on CPU."
+      />
+
+      <div className="space-y-2">
+        {WHISPER_MODELS.map((model) => {
+          const status = statuses[model.id];
+          const isDownloaded = !!status?.downloaded;
+          const isSelected = selectedModel === model.id;
+          const isDownloading = downloading === model.id;
+
+          return (
+            <div
+              key={model.id}
+              className={cn(
+                "flex items-center justify-between gap-2 rounded-lg border px-3 py-2",
+                isSelected && "border-primary/60"
+              )}
+            >
+              <div className="min-w-0">
+                <p className="text-sm font-medium">{model.label}</p>
+                <p className="text-xs text-muted-foreground">
+                  ggml-{model.id}.bin · ~{model.sizeMb} MB
+                  {isDownloading ? ` · downloading ${progress}%` : ""}
+                </p>
+              </div>
+
+              <div className="flex items-center gap-2 shrink-0">
+                {isDownloaded ? (
+                  <>
+                    <Button
+                      size="sm"
+                      variant={isSelected ? "default" : "outline"}
+                      onClick={() => handleSelect(model.id)}
+                    >
+                      {isSelected ? (
+                        <>
+                          <CheckIcon className="h-4 w-4 mr-1" />
+                          Selected
+                        </>
+                      ) : (
+                        "Use"
+                      )}
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="outline"
+                      title="Delete model"
+                      onClick={() => handleDelete(model.id)}
+                    >
+                      <TrashIcon className="h-4 w-4" />
+                    </Button>
+                  </>
+                ) : (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={!!downloading}
+                    onClick={() => handleDownload(model.id)}
+                  >
+                    {isDownloading ? (
+                      <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                    ) : (
+                      <DownloadIcon className="h-4 w-4 mr-1" />
+                    )}
+                    Download
+                  </Button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {!statuses[selectedModel]?.downloaded && (
+        <p className="text-xs text-muted-foreground">
+          The selected model ({selectedModel}) is not downloaded yet.
+        </p>
+      )}
+      {error && <p className="text-xs text-red-500">{error}</p>}
+    </div>
+  );
+};
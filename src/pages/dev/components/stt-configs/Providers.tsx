@@ -92,7 +92,9 @@ export const Providers = ({
         />
       </div>
 
-      {localSelectedProvider ? (
+      {localSelectedProvider &&
+      !allSttProviders?.find((p) => p?.id === selectedSttProvider?.provider)
+        ?.localEngine ? (
         <Header
           title={`Method: ${
             localSelectedProvider?.method || "Invalid"
@@ -2,8 +2,13 @@ import { Header } from "@/components";
 import { UseSettingsReturn } from "@/types";
 import { Providers } from "./Providers";
 import { CustomProviders } from "./CustomProvider";
+import { LocalWhisperModels } from "./LocalWhisperModels";
 
 export const STTProviders = (settings: UseSettingsReturn) => {
+  const isLocalEngine = !!settings.allSttProviders?.find(
+    (p) => p?.id === settings.selectedSttProvider?.provider
+  )?.localEngine;
+
   return (
     <div id="stt-providers" className="space-y-3">
       <Header
@@ -16,6 +21,8 @@ export const STTProviders = (settings: UseSettingsReturn) => {
       <CustomProviders {...settings} />
       {/* Providers Selection */}
       <Providers {...settings} />
+      {/* Offline whisper.cpp models */}
+      {isLocalEngine && <LocalWhisperModels />}
     </div>
   );
 };
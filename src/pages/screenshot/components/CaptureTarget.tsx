@@ -0,0 +1,198 @@
+import { useCallback, useEffect, useState } from "react";
+import { invoke } from "@tauri-apps/api/core";
+import {
+  Button,
+  Header,
+  Label,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  Switch,
+} from "@/components";
+import { useSystemPrompts } from "@/hooks";
+import { getPromptScreenshotTargets, setPromptScreenshotTarget } from "@/lib";
+import {
+  ScreenshotMonitor,
+  ScreenshotTarget,
+  ScreenshotWindow,
+  UseSettingsReturn,
+} from "@/types";
+import { RefreshCwIcon } from "lucide-react";
+
+const toValue = (target: ScreenshotTarget) => {
+  switch (target.kind) {
+    case "monitor":
+      return `monitor:${target.name}`;
+    case "window":
+      return `window:${target.title}`;
+    default:
+      return target.kind;
+  }
+};
+
+const fromValue = (value: string): ScreenshotTarget => {
+  if (value.startsWith("monitor:")) {
+    return { kind: "monitor", name: value.slice("monitor:".length) };
+  }
+  if (value.startsWith("window:")) {
+    return { kind: "window", title: value.slice("window:".length) };
+  }
+  return value === "windowUnderCursor"
+    ? { kind: "windowUnderCursor" }
+    : { kind: "activeMonitor" };
+};
+
+const describeTarget = (target: ScreenshotTarget) => {
+  switch (target.kind) {
+    case "monitor":
+      return `Monitor: ${target.name}`;
+    case "window":
+      return `Window: ${target.title}`;
+    case "windowUnderCursor":
+      return "Window under the cursor";
+    default:
+      return "Monitor with TalkEcho";
+  }
+};
+
+export const CaptureTarget = ({
+  screenshotConfiguration,
+  handleScreenshotTargetChange,
+}: UseSettingsReturn) => {
+  const { prompts, selectedPromptId } = useSystemPrompts();
+  const [monitors, setMonitors] = useState<ScreenshotMonitor[]>([]);
+  const [windows, setWindows] = useState<ScreenshotWindow[]>([]);
+  const [promptTargets, setPromptTargets] = useState(
+    getPromptScreenshotTargets
+  );
+  const [error, setError] = useState("");
+
+  const loadSources = useCallback(async () => {
+    setError("");
+    try {
+      const [monitorList, windowList] = await Promise.all([
+        invoke<ScreenshotMonitor[]>("list_capture_monitors"),
+        invoke<ScreenshotWindow[]>("list_capture_windows"),
+      ]);
+      setMonitors(monitorList);
+      setWindows(windowList);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSources();
+  }, [loadSources]);
+
+  const selectedPrompt = prompts.find((p) => p.id === selectedPromptId);
+  const promptTarget = selectedPrompt
+    ? promptTargets[selectedPrompt.id]
+    : undefined;
+  const target = promptTarget ?? screenshotConfiguration.target;
+
+  const updatePromptTarget = (next: ScreenshotTarget | null) => {
+    if (!selectedPrompt) return;
+    setPromptScreenshotTarget(selectedPrompt.id, next);
+    setPromptTargets(getPromptScreenshotTargets());
+  };
+
+  const handleChange = (value: string) => {
+    const next = fromValue(value);
+    if (promptTarget) {
+      updatePromptTarget(next);
+    } else {
+      handleScreenshotTargetChange(next);
+    }
+  };
+
+  // Keep a saved monitor or window selectable while it is not open
+  const isListed =
+    (target.kind !== "monitor" ||
+      monitors.some((m) => m.name === target.name)) &&
+    (target.kind !== "window" || windows.some((w) => w.title === target.title));
+
+  return (
+    <div id="capture-target" className="space-y-3">
+      <Header
+        title="Capture Target"
+        description="Choose what Screenshot Mode captures: the monitor TalkEcho is on, a specific monitor, an application window by its title, or the window under the mouse cursor."
+      />
+
+      <div className="flex gap-2">
+        <Select value={toValue(target)} onValueChange={handleChange}>
+          <SelectTrigger className="w-full h-11 border-1 border-input/50 focus:border-primary/50 transition-colors">
+            <div className="text-sm font-medium truncate">
+              {describeTarget(target)}
+            </div>
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="activeMonitor">Monitor with TalkEcho</SelectItem>
+            <SelectItem value="windowUnderCursor">
+              Window under the cursor
+            </SelectItem>
+            {monitors.map((monitor) => (
+              <SelectItem
+                key={`monitor:${monitor.name}`}
+                value={`monitor:${monitor.name}`}
+              >
+                Monitor: {monitor.name} ({monitor.width}x{monitor.height}
+                {monitor.isPrimary && ", primary"})
+              </SelectItem>
+            ))}
+            {windows.map((appWindow) => (
+              <SelectItem
+                key={`window:${appWindow.title}`}
+                value={`window:${appWindow.title}`}
+              >
+                Window: {appWindow.title}
+                {appWindow.appName && ` (${appWindow.appName})`}
+              </SelectItem>
+            ))}
+            {!isListed && (
+              <SelectItem value={toValue(target)}>
+                {describeTarget(target)} (not open)
+              </SelectItem>
+            )}
+          </SelectContent>
+        </Select>
+        <Button
+          variant="outline"
+          className="h-11"
+          onClick={loadSources}
+          title="Refresh monitors and windows"
+        >
+          <RefreshCwIcon className="size-4" />
+        </Button>
+      </div>
+
+      {selectedPrompt && (
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <Label className="text-sm font-medium">
+              Remember for "{selectedPrompt.name}"
+            </Label>
+            <p className="text-xs text-muted-foreground mt-1">
+              Use this target whenever this system prompt is selected.
+            </p>
+          </div>
+          <Switch
+            checked={!!promptTarget}
+            onCheckedChange={(checked) =>
+              updatePromptTarget(
+                checked ? screenshotConfiguration.target : null
+              )
+            }
+          />
+        </div>
+      )}
+
+      <p className="text-xs text-muted-foreground">
+        The "Screenshot Window Under Cursor" shortcut captures the window under
+        the cursor regardless of this choice.
+      </p>
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,197 @@
+import { useEffect, useState } from "react";
+import { invoke } from "@tauri-apps/api/core";
+import { CheckIcon, DownloadIcon, Loader2, TrashIcon } from "lucide-react";
+import { Button, Header, Label, Switch } from "@/components";
+import { OCR_LANGUAGES } from "@/config";
+import { getOcrSettings, setOcrSettings } from "@/lib";
+import { cn } from "@/lib/utils";
+import { OcrSettings } from "@/types";
+
+interface OcrLanguageStatus {
+  id: string;
+  downloaded: boolean;
+  size_bytes: number;
+}
+
+export const ScreenshotOcr = () => {
+  const [settings, setSettings] = useState<OcrSettings>(getOcrSettings);
+  const [statuses, setStatuses] = useState<Record<string, OcrLanguageStatus>>(
+    {}
+  );
+  const [downloading, setDownloading] = useState<string | null>(null);
+  const [error, setError] = useState<string>("");
+
+  const refreshStatuses = async () => {
+    try {
+      const result = await invoke<OcrLanguageStatus[]>("get_ocr_languages", {
+        languages: OCR_LANGUAGES.map((language) => language.id),
+      });
+      setStatuses(Object.fromEntries(result.map((s) => [s.id, s])));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  useEffect(() => {
+    refreshStatuses();
+  }, []);
+
+  const handleUpdate = (updates: Partial<OcrSettings>) => {
+    const next = { ...settings, ...updates };
+    setSettings(next);
+    setOcrSettings(next);
+  };
+
+  const toggleLanguage = (language: string) => {
+    handleUpdate({
+      languages: settings.languages.includes(language)
+        ? settings.languages.filter((id) => id !== language)
+        : [...settings.languages, language],
+    });
+  };
+
+  const handleDownload = async (language: string) => {
+    setError("");
+    setDownloading(language);
+    try {
+      await invoke("download_ocr_language", { language });
+      await refreshStatuses();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  const handleDelete = async (language: string) => {
+    setError("");
+    try {
+      await invoke("delete_ocr_language", { language });
+      await refreshStatuses();
+      if (settings.languages.includes(language)) toggleLanguage(language);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const missingLanguages = settings.languages.filter(
+    (id) => !statuses[id]?.downloaded
+  );
+
+  return (
+    <div id="screenshot-ocr" className="space-y-3">
+      <Header
+        title="Text Recognition (OCR)"
+        description="Read the text of screenshots on this machine with Tesseract before they are sent, so text-only models can answer questions about your screen."
+      />
+
+      <div className="flex items-center justify-between">
+        <Label className="text-sm font-medium">Recognize screenshot text</Label>
+        <Switch
+          checked={settings.enabled}
+          onCheckedChange={(enabled) => handleUpdate({ enabled })}
+        />
+      </div>
+
+      {settings.enabled && (
+        <>
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <Label className="text-sm font-medium">Also send the image</Label>
+              <p className="text-xs text-muted-foreground mt-1">
+                Providers that accept images get the screenshot and its text.
+                Text-only providers always get the text alone.
+              </p>
+            </div>
+            <Switch
+              checked={settings.includeImage}
+              onCheckedChange={(includeImage) => handleUpdate({ includeImage })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            {OCR_LANGUAGES.map((language) => {
+              const isDownloaded = !!statuses[language.id]?.downloaded;
+              const isSelected = settings.languages.includes(language.id);
+              const isDownloading = downloading === language.id;
+
+              return (
+                <div
+                  key={language.id}
+                  className={cn(
+                    "flex items-center justify-between gap-2 rounded-lg border px-3 py-2",
+                    isSelected && "border-primary/60"
+                  )}
+                >
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium">{language.label}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {language.id}.traineddata
+                    </p>
+                  </div>
+
+                  <div className="flex items-center gap-2 shrink-0">
+                    {isDownloaded ? (
+                      <>
+                        <Button
+                          size="sm"
+                          variant={isSelected ? "default" : "outline"}
+                          onClick={() => toggleLanguage(language.id)}
+                        >
+                          {isSelected ? (
+                            <>
+                              <CheckIcon className="h-4 w-4 mr-1" />
+                              Used
+                            </>
+                          ) : (
+                            "Use"
+                          )}
+                        </Button>
+                        <Button
+                          size="icon"
+                          variant="outline"
+                          title="Delete language data"
+                          onClick={() => handleDelete(language.id)}
+                        >
+                          <TrashIcon className="h-4 w-4" />
+                        </Button>
+                      </>
+                    ) : (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={!!downloading}
+                        onClick={() => handleDownload(language.id)}
+                      >
+                        {isDownloading ? (
+                          <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                        ) : (
+                          <DownloadIcon className="h-4 w-4 mr-1" />
+                        )}
+                        Download
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          {settings.languages.length === 0 ? (
+            <p className="text-xs text-muted-foreground">
+              Select at least one language to recognize.
+            </p>
+          ) : (
+            missingLanguages.length > 0 && (
+              <p className="text-xs text-muted-foreground">
+                Download the selected languages first:{" "}
+                {missingLanguages.join(", ")}.
+              </p>
+            )
+          )}
+        </>
+      )}
+      {error && <p className="text-xs text-red-500">{error}</p>}
+    </div>
+  );
+};
@@ -1 +1,3 @@
 export * from "./ScreenshotConfigs";
+export * from "./CaptureTarget";
+export * from "./ScreenshotOcr";
@@ -1,4 +1,8 @@
-import { ScreenshotConfigs } from "./components";
+import {
+  CaptureTarget,
+  ScreenshotConfigs,
+  ScreenshotOcr,
+} from "./components";
 import { useSettings } from "@/hooks";
 import { PageLayout } from "@/layouts";
 
@@ -11,6 +15,14 @@ const Settings = () => {
     >
       {/* Screenshot Configs */}
       <ScreenshotConfigs {...settings} />
+
+      {/* Capture Target */}
+      {settings.screenshotConfiguration.enabled && (
+        <CaptureTarget {...settings} />
+      )}
+
+      {/* Text Recognition */}
+      <ScreenshotOcr />
     </PageLayout>
   );
 };
@@ -0,0 +1,207 @@
+import { useRef, useState } from "react";
+import moment from "moment";
+import { Button, Header, Label, Switch } from "@/components";
+import { useDatabaseEncryption } from "@/hooks";
+import {
+  createBackup,
+  getBackupFilename,
+  parseBackup,
+  restoreBackup,
+} from "@/lib";
+import { BackupArchive, BackupOptions, RestoreResult } from "@/types";
+import {
+  DownloadIcon,
+  Loader2,
+  RefreshCcwIcon,
+  UploadIcon,
+} from "lucide-react";
+
+export const BackupRestore = () => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { status: encryptionStatus } = useDatabaseEncryption();
+  const [options, setOptions] = useState<BackupOptions>({
+    redactSecrets: true,
+    includeConversations: true,
+  });
+  const [isExporting, setIsExporting] = useState(false);
+  const [archive, setArchive] = useState<BackupArchive | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [result, setResult] = useState<RestoreResult | null>(null);
+  const [error, setError] = useState("");
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError("");
+    try {
+      const backup = await createBackup(options);
+      const blob = new Blob([JSON.stringify(backup)], {
+        type: "application/json",
+      });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = getBackupFilename(backup.createdAt);
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setError("");
+    setResult(null);
+    try {
+      setArchive(parseBackup(await file.text()));
+    } catch (err) {
+      setArchive(null);
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!archive) return;
+    setIsRestoring(true);
+    setError("");
+    try {
+      setResult(await restoreBackup(archive));
+      setArchive(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <div id="backup-restore" className="space-y-3">
+      <Header
+        title="Backup & Restore"
+        description="Save providers, system prompts, shortcuts, audio settings, quick actions, response settings and chat history to one file, and restore them on this or another computer."
+        isMainTitle
+      />
+
+      <div className="flex items-center justify-between">
+        <div>
+          <Label className="text-sm font-medium">Leave out API keys</Label>
+          <p className="text-xs text-muted-foreground mt-1">
+            Also leaves out webhook headers and URL query strings. Keys
+            already set up on the restoring computer are kept.
+          </p>
+        </div>
+        <Switch
+          checked={options.redactSecrets}
+          onCheckedChange={(redactSecrets) =>
+            setOptions({ ...options, redactSecrets })
+          }
+        />
+      </div>
+      <div className="flex items-center justify-between">
+        <Label className="text-sm font-medium">Include chat history</Label>
+        <Switch
+          checked={options.includeConversations}
+          onCheckedChange={(includeConversations) =>
+            setOptions({ ...options, includeConversations })
+          }
+        />
+      </div>
+      {encryptionStatus?.enabled && options.includeConversations && (
+        <div className="text-xs text-amber-500 bg-amber-500/10 p-3 rounded-md">
+          The conversation database is encrypted, but the backup file holds
+          the chat history as plain text. Keep it somewhere safe or leave the
+          chat history out.
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <Button
+          variant="outline"
+          className="flex-1"
+          onClick={handleExport}
+          disabled={isExporting || isRestoring}
+        >
+          {isExporting ? (
+            <Loader2 className="size-4 mr-2 animate-spin" />
+          ) : (
+            <DownloadIcon className="size-4 mr-2" />
+          )}
+          Export Backup
+        </Button>
+        <Button
+          variant="outline"
+          className="flex-1"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isExporting || isRestoring}
+        >
+          <UploadIcon className="size-4 mr-2" />
+          Restore from File
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={handleFileChange}
+        />
+      </div>
+
+      {archive && (
+        <div className="space-y-2 rounded-md border p-3">
+          <p className="text-xs">
+            Backup from{" "}
+            {moment(archive.createdAt).format("MMM D, YYYY hh:mm A")} (TalkEcho{" "}
+            {archive.appVersion}):{" "}
+            {Object.keys(archive.settings).length} settings,{" "}
+            {archive.systemPrompts.length} system prompts and{" "}
+            {archive.conversations.length} conversations
+            {archive.secretsRedacted && ", without API keys"}.
+          </p>
+          <p className="text-xs text-muted-foreground">
+            Settings are replaced, lists such as custom providers are merged,
+            and conversations you already have are skipped.
+          </p>
+          <div className="flex justify-end gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setArchive(null)}
+              disabled={isRestoring}
+            >
+              Cancel
+            </Button>
+            <Button size="sm" onClick={handleRestore} disabled={isRestoring}>
+              {isRestoring && <Loader2 className="size-4 mr-2 animate-spin" />}
+              Restore
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {result && (
+        <div className="flex items-center justify-between gap-4 rounded-md border p-3">
+          <p className="text-xs">
+            Restored {result.settings} settings, {result.systemPrompts} system
+            prompts and {result.conversations} conversations
+            {result.skippedConversations > 0 &&
+              ` (${result.skippedConversations} already existed)`}
+            . Reload TalkEcho to apply the settings.
+          </p>
+          <Button size="sm" onClick={() => window.location.reload()}>
+            <RefreshCcwIcon className="size-4 mr-2" />
+            Reload
+          </Button>
+        </div>
+      )}
+
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  );
+};
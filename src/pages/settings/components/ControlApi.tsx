@@ -0,0 +1,163 @@
+import { useEffect, useState } from "react";
+import { Button, Header, Input, Label, Switch } from "@/components";
+import { useCopyToClipboard } from "@/hooks";
+import {
+  generateControlApiToken,
+  getControlApiSettings,
+  getControlApiStatus,
+  setControlApiSettings,
+  startControlApi,
+  stopControlApi,
+} from "@/lib";
+import { ControlApiSettings, ControlApiStatus } from "@/types";
+import { CheckIcon, CopyIcon, RefreshCwIcon } from "lucide-react";
+
+export const ControlApi = () => {
+  const [settings, setSettings] = useState<ControlApiSettings>(
+    getControlApiSettings
+  );
+  const [port, setPort] = useState(String(settings.port));
+  const [status, setStatus] = useState<ControlApiStatus | null>(null);
+  const [error, setError] = useState("");
+  const { isCopied, handleCopy } = useCopyToClipboard({
+    text: settings.token,
+  });
+
+  useEffect(() => {
+    getControlApiStatus()
+      .then(setStatus)
+      .catch(() => setStatus(null));
+  }, []);
+
+  // Saves the settings and starts, restarts or stops the server to match
+  const apply = async (next: ControlApiSettings) => {
+    setSettings(next);
+    setControlApiSettings(next);
+    setError("");
+    try {
+      if (next.enabled) {
+        setStatus(await startControlApi(next));
+      } else {
+        await stopControlApi();
+        setStatus({ running: false, port: null });
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      setStatus(await getControlApiStatus().catch(() => null));
+    }
+  };
+
+  const handleEnabledChange = (enabled: boolean) =>
+    apply({
+      ...settings,
+      enabled,
+      token: settings.token || generateControlApiToken(),
+    });
+
+  const handlePortBlur = () => {
+    const value = Math.floor(Number(port));
+    if (value < 1024 || value > 65535) {
+      setPort(String(settings.port));
+      setError("Choose a port between 1024 and 65535.");
+      return;
+    }
+    if (value !== settings.port) apply({ ...settings, port: value });
+  };
+
+  const baseUrl = `http://127.0.0.1:${status?.port ?? settings.port}`;
+
+  return (
+    <div id="control-api" className="space-y-3">
+      <Header
+        title="Control API"
+        description="Let Stream Deck macros, note-taking tools and test scripts on this computer start and stop capture, send prompts, switch system prompts and follow transcripts and AI responses. Only reachable from 127.0.0.1 and only with the token."
+        isMainTitle
+      />
+
+      <div className="flex items-center justify-between">
+        <div>
+          <Label className="text-sm font-medium">Enable control API</Label>
+          <p className="text-xs text-muted-foreground mt-1">
+            {status?.running
+              ? `Listening on ${baseUrl}`
+              : "The API is not running."}
+          </p>
+        </div>
+        <Switch
+          checked={settings.enabled}
+          onCheckedChange={handleEnabledChange}
+        />
+      </div>
+
+      <div className="flex items-center justify-between gap-4">
+        <Label className="text-sm font-medium">Port</Label>
+        <Input
+          type="number"
+          min={1024}
+          max={65535}
+          className="w-28"
+          value={port}
+          onChange={(e) => setPort(e.target.value)}
+          onBlur={handlePortBlur}
+        />
+      </div>
+
+      {settings.token && (
+        <div className="space-y-1">
+          <Label className="text-sm font-medium">Token</Label>
+          <div className="flex gap-2">
+            <Input readOnly type="password" value={settings.token} />
+            <Button
+              variant="outline"
+              size="icon"
+              title="Copy token"
+              onClick={handleCopy}
+            >
+              {isCopied ? (
+                <CheckIcon className="size-4" />
+              ) : (
+                <CopyIcon className="size-4" />
+              )}
+            </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              title="Generate a new token"
+              onClick={() =>
+                apply({ ...settings, token: generateControlApiToken() })
+              }
+            >
+              <RefreshCwIcon className="size-4" />
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Send it as <code>Authorization: Bearer &lt;token&gt;</code> or as a{" "}
+            <code>token</code> query parameter. A new token disconnects the
+            current WebSocket clients.
+          </p>
+        </div>
+      )}
+
+      <div className="rounded-md border p-3 text-xs text-muted-foreground space-y-1">
+        <p>
+          <code>GET /v1/status</code>, <code>POST /v1/capture/start</code>,{" "}
+          <code>POST /v1/capture/stop</code>
+        </p>
+        <p>
+          <code>POST /v1/prompt</code> with <code>{'{"text": "..."}'}</code>
+        </p>
+        <p>
+          <code>GET /v1/system-prompts</code>,{" "}
+          <code>POST /v1/system-prompts/select</code> with{" "}
+          <code>{'{"id": 1}'}</code> or <code>{'{"name": "..."}'}</code>
+        </p>
+        <p>
+          WebSocket <code>/v1/events</code> streams capture, transcript,
+          response, system prompt and error events as JSON.
+        </p>
+      </div>
+
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,158 @@
+import { useEffect, useState } from "react";
+import moment from "moment";
+import { listen } from "@tauri-apps/api/event";
+import { Button, Header, Input, Label, Switch } from "@/components";
+import {
+  getLastRetentionPurge,
+  getRetentionSettings,
+  runRetentionPurge,
+  setRetentionSettings,
+} from "@/lib";
+import { RetentionPurgeResult, RetentionSettings } from "@/types";
+import { Loader2, TimerResetIcon } from "lucide-react";
+
+type RetentionRule =
+  | "deleteConversationsAfterDays"
+  | "deleteTranscriptsAfterDays"
+  | "purgeAttachmentsAfterDays";
+
+const RULES: { key: RetentionRule; label: string; notes: string }[] = [
+  {
+    key: "deleteConversationsAfterDays",
+    label: "Delete conversations after",
+    notes: "Removes the whole conversation, including its summary.",
+  },
+  {
+    key: "deleteTranscriptsAfterDays",
+    label: "Delete transcripts after",
+    notes:
+      "Removes transcribed segments and their translations but keeps the meeting summary and typed chat.",
+  },
+  {
+    key: "purgeAttachmentsAfterDays",
+    label: "Remove screenshots and files after",
+    notes: "Removes attached screenshots and files from messages.",
+  },
+];
+
+export const DataRetention = () => {
+  const [settings, setSettings] = useState<RetentionSettings>(
+    getRetentionSettings
+  );
+  const [lastPurge, setLastPurge] = useState<RetentionPurgeResult | null>(
+    getLastRetentionPurge
+  );
+  const [isPurging, setIsPurging] = useState(false);
+  const [error, setError] = useState("");
+
+  // Scheduled purges run in the main window
+  useEffect(() => {
+    const unlistenPromise = listen<RetentionPurgeResult>(
+      "retentionPurged",
+      (event) => setLastPurge(event.payload)
+    );
+    return () => {
+      unlistenPromise.then((unlisten) => unlisten());
+    };
+  }, []);
+
+  const handleUpdate = (updates: Partial<RetentionSettings>) => {
+    const next = { ...settings, ...updates };
+    setSettings(next);
+    setRetentionSettings(next);
+  };
+
+  const hasRules = RULES.some(({ key }) => !!settings[key]);
+
+  const handlePurgeNow = async () => {
+    setIsPurging(true);
+    setError("");
+    try {
+      setLastPurge(await runRetentionPurge(settings));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsPurging(false);
+    }
+  };
+
+  return (
+    <div id="data-retention" className="space-y-3">
+      <Header
+        title="Data Retention"
+        description="Automatically delete old chat history. Rules are applied when TalkEcho starts and every few hours while it runs."
+        isMainTitle
+      />
+
+      <div className="flex items-center justify-between">
+        <Label className="text-sm font-medium">Purge automatically</Label>
+        <Switch
+          checked={settings.enabled}
+          onCheckedChange={(enabled) => handleUpdate({ enabled })}
+        />
+      </div>
+
+      {RULES.map(({ key, label, notes }) => (
+        <div key={key} className="space-y-1">
+          <div className="flex items-center justify-between gap-4">
+            <Label className="text-sm font-medium">{label}</Label>
+            <div className="flex items-center gap-2">
+              <Input
+                type="number"
+                min={1}
+                placeholder="Never"
+                className="w-24"
+                value={settings[key] ?? ""}
+                onChange={(e) => {
+                  const days = Math.floor(Number(e.target.value));
+                  handleUpdate({ [key]: days > 0 ? days : null });
+                }}
+              />
+              <span className="text-xs text-muted-foreground">days</span>
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">{notes}</p>
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between">
+        <div>
+          <Label className="text-sm font-medium">
+            Keep pinned conversations
+          </Label>
+          <p className="text-xs text-muted-foreground mt-1">
+            Pinned conversations are never purged.
+          </p>
+        </div>
+        <Switch
+          checked={settings.excludePinned}
+          onCheckedChange={(excludePinned) => handleUpdate({ excludePinned })}
+        />
+      </div>
+
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-xs text-muted-foreground">
+          {lastPurge
+            ? `Last purge ${moment(lastPurge.ranAt).fromNow()}: ` +
+              `${lastPurge.deletedConversations} conversations, ` +
+              `${lastPurge.deletedTranscriptMessages} transcript segments and ` +
+              `${lastPurge.purgedAttachments} attachments removed.`
+            : "No purge has run yet."}
+        </p>
+        <Button
+          variant="outline"
+          onClick={handlePurgeNow}
+          disabled={!hasRules || isPurging}
+        >
+          {isPurging ? (
+            <Loader2 className="size-4 mr-2 animate-spin" />
+          ) : (
+            <TimerResetIcon className="size-4 mr-2" />
+          )}
+          Purge Now
+        </Button>
+      </div>
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  );
+};
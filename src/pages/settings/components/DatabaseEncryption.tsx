@@ -0,0 +1,161 @@
+import { useState } from "react";
+import { Button, Header, Input, Label, Selection } from "@/components";
+import { DATABASE_KEY_SOURCE_OPTIONS } from "@/config";
+import { useDatabaseEncryption } from "@/hooks";
+import {
+  disableDatabaseEncryption,
+  enableDatabaseEncryption,
+  lockDatabase,
+  MIN_DATABASE_PASSPHRASE_LENGTH,
+} from "@/lib";
+import { DatabaseKeySource } from "@/types";
+import {
+  Loader2,
+  LockIcon,
+  ShieldCheckIcon,
+  ShieldOffIcon,
+} from "lucide-react";
+
+export const DatabaseEncryption = () => {
+  const { status, refreshStatus } = useDatabaseEncryption();
+  const [keySource, setKeySource] = useState<DatabaseKeySource>("keychain");
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(
+    null
+  );
+  const [error, setError] = useState("");
+
+  const isBusy = progress !== null;
+  const passphraseError =
+    keySource !== "passphrase"
+      ? ""
+      : passphrase.length < MIN_DATABASE_PASSPHRASE_LENGTH
+      ? `Use at least ${MIN_DATABASE_PASSPHRASE_LENGTH} characters.`
+      : passphrase !== confirmation
+      ? "The passphrases do not match."
+      : "";
+
+  const run = async (action: () => Promise<void>) => {
+    setProgress({ done: 0, total: 0 });
+    setError("");
+    try {
+      await action();
+      setPassphrase("");
+      setConfirmation("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setProgress(null);
+      await refreshStatus();
+    }
+  };
+
+  const onProgress = (done: number, total: number) =>
+    setProgress({ done, total });
+
+  if (!status) return null;
+
+  return (
+    <div id="database-encryption" className="space-y-3">
+      <Header
+        title="Encrypt Chat History"
+        description="Encrypt conversation titles, messages, attachments, speaker names and summaries stored on this device with AES-256-GCM. Folders and tags stay readable so the history can still be filtered."
+        isMainTitle
+      />
+
+      {status.enabled ? (
+        <div className="space-y-3">
+          <div className="flex items-center gap-2 text-sm">
+            <ShieldCheckIcon className="size-4 text-primary" />
+            <span>
+              Encryption is on. The key is{" "}
+              {status.keySource === "passphrase"
+                ? "derived from your passphrase"
+                : "stored in the system keychain"}
+              .
+            </span>
+          </div>
+          <div className="flex gap-2">
+            {status.keySource === "passphrase" && (
+              <Button
+                variant="outline"
+                onClick={() => run(lockDatabase)}
+                disabled={isBusy || status.locked}
+              >
+                <LockIcon className="size-4 mr-2" />
+                Lock Now
+              </Button>
+            )}
+            <Button
+              variant="outline"
+              onClick={() => run(() => disableDatabaseEncryption(onProgress))}
+              disabled={isBusy || status.locked}
+            >
+              <ShieldOffIcon className="size-4 mr-2" />
+              Turn Off Encryption
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          <div className="space-y-2">
+            <Label className="text-sm font-medium">Key</Label>
+            <Selection
+              selected={keySource}
+              options={DATABASE_KEY_SOURCE_OPTIONS}
+              onChange={setKeySource}
+              disabled={isBusy}
+            />
+          </div>
+
+          {keySource === "passphrase" && (
+            <div className="space-y-2">
+              <Input
+                type="password"
+                placeholder="Passphrase"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                disabled={isBusy}
+              />
+              <Input
+                type="password"
+                placeholder="Repeat passphrase"
+                value={confirmation}
+                onChange={(e) => setConfirmation(e.target.value)}
+                disabled={isBusy}
+              />
+              <p className="text-xs text-muted-foreground">
+                {passphraseError ||
+                  "There is no way to recover the history if you forget the passphrase."}
+              </p>
+            </div>
+          )}
+
+          <Button
+            className="w-full h-11"
+            onClick={() =>
+              run(() =>
+                enableDatabaseEncryption(keySource, passphrase, onProgress)
+              )
+            }
+            disabled={isBusy || !!passphraseError}
+          >
+            <ShieldCheckIcon className="size-4 mr-2" />
+            Encrypt Chat History
+          </Button>
+        </div>
+      )}
+
+      {progress && (
+        <p className="flex items-center gap-2 text-xs text-muted-foreground">
+          <Loader2 className="size-3 animate-spin" />
+          {progress.total > 0
+            ? `Converting conversations: ${progress.done} of ${progress.total}`
+            : "Working..."}
+        </p>
+      )}
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,152 @@
+import { useState } from "react";
+import moment from "moment";
+import { Badge, Button, Header, Input, Label } from "@/components";
+import { useMeetingProfiles } from "@/hooks";
+import { LANGUAGES, RESPONSE_LENGTHS } from "@/lib";
+import { MeetingProfile } from "@/types";
+import {
+  CheckIcon,
+  Loader2,
+  PlusIcon,
+  SaveIcon,
+  TrashIcon,
+} from "lucide-react";
+
+const describeProfile = ({
+  aiProvider,
+  sttProvider,
+  sttLanguage,
+  responseSettings,
+  quickActions,
+  documentLibraryId,
+}: MeetingProfile) => {
+  const length = RESPONSE_LENGTHS.find(
+    (option) => option.id === responseSettings.responseLength
+  );
+  const language = LANGUAGES.find(
+    (option) => option.id === responseSettings.language
+  );
+
+  return [
+    aiProvider || "No AI provider",
+    sttProvider || "No STT provider",
+    `Transcription: ${sttLanguage}`,
+    `${length?.title ?? responseSettings.responseLength} answers in ${
+      language?.name ?? responseSettings.language
+    }`,
+    `${quickActions.length} quick actions`,
+    documentLibraryId !== null ? "Document library" : null,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+};
+
+export const MeetingProfiles = () => {
+  const {
+    profiles,
+    activeProfileId,
+    isApplying,
+    error,
+    saveCurrentAsProfile,
+    overwriteProfile,
+    renameProfile,
+    deleteProfile,
+    applyProfile,
+  } = useMeetingProfiles();
+  const [newProfileName, setNewProfileName] = useState("");
+
+  return (
+    <div id="meeting-profiles" className="space-y-3">
+      <Header
+        title="Meeting Profiles"
+        description="Save the system prompt, AI and speech providers, transcription language, response settings, quick actions and audio context under one name, e.g. Interview helper or Sales call, and switch all of them at once from here, the overlay or the Switch Meeting Profile shortcut."
+        isMainTitle
+      />
+
+      {profiles.map((profile) => (
+        <div key={profile.id} className="rounded-lg border p-3 space-y-2">
+          <div className="flex items-center gap-2">
+            <Input
+              value={profile.name}
+              onChange={(e) => renameProfile(profile.id, e.target.value)}
+              className="h-8 text-sm font-medium"
+            />
+            {profile.id === activeProfileId && (
+              <Badge variant="secondary">Active</Badge>
+            )}
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={isApplying}
+              onClick={() => applyProfile(profile.id)}
+            >
+              {isApplying ? (
+                <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+              ) : (
+                <CheckIcon className="h-4 w-4 mr-1" />
+              )}
+              Apply
+            </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              title="Replace with the current settings"
+              onClick={() => overwriteProfile(profile.id)}
+            >
+              <SaveIcon className="size-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              title="Delete profile"
+              onClick={() => deleteProfile(profile.id)}
+            >
+              <TrashIcon className="size-4" />
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {describeProfile(profile)}
+          </p>
+          <p className="text-xs text-muted-foreground line-clamp-2">
+            {profile.systemPrompt}
+          </p>
+          <p className="text-xs text-muted-foreground">
+            Saved {moment(profile.updatedAt).fromNow()}
+          </p>
+        </div>
+      ))}
+
+      <div className="space-y-1">
+        <Label className="text-sm font-medium">
+          Save current settings as profile
+        </Label>
+        <div className="flex gap-2">
+          <Input
+            value={newProfileName}
+            placeholder="e.g. DE → ZH translation"
+            onChange={(e) => setNewProfileName(e.target.value)}
+            className="text-xs"
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={!newProfileName.trim()}
+            onClick={() => {
+              saveCurrentAsProfile(newProfileName);
+              setNewProfileName("");
+            }}
+          >
+            <PlusIcon className="h-4 w-4 mr-1" />
+            Save
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Profiles keep provider choices, not API keys; switching restores the
+          keys saved for each provider.
+        </p>
+      </div>
+
+      {error && <p className="text-xs text-red-500">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,117 @@
+import { useState } from "react";
+import { PlusIcon, RotateCcwIcon, TrashIcon } from "lucide-react";
+import { Button, Header, Input, Label } from "@/components";
+import { getPricingTable, resetPricingTable, setPricingTable } from "@/lib";
+import { PricingEntry } from "@/types";
+
+const PRICE_FIELDS: { key: keyof PricingEntry; label: string }[] = [
+  { key: "inputPerMillion", label: "Input / 1M tokens" },
+  { key: "outputPerMillion", label: "Output / 1M tokens" },
+  { key: "audioPerMinute", label: "Audio / minute" },
+];
+
+export const PricingTable = () => {
+  const [entries, setEntries] = useState<PricingEntry[]>(getPricingTable);
+
+  const saveEntries = (next: PricingEntry[]) => {
+    setEntries(next);
+    setPricingTable(next);
+  };
+
+  const updateEntry = (id: string, updates: Partial<PricingEntry>) => {
+    saveEntries(
+      entries.map((entry) => (entry.id === id ? { ...entry, ...updates } : entry))
+    );
+  };
+
+  const addEntry = () => {
+    saveEntries([
+      ...entries,
+      {
+        id: `price-${Date.now()}`,
+        provider: "",
+        model: "*",
+        inputPerMillion: 0,
+        outputPerMillion: 0,
+        audioPerMinute: 0,
+      },
+    ]);
+  };
+
+  return (
+    <div id="pricing" className="space-y-3">
+      <Header
+        title="Usage Pricing"
+        description="Prices in USD used to estimate conversation cost. Provider is the provider id (e.g. openai, groq, openai-whisper); use * as model to match every model of a provider."
+        isMainTitle
+      />
+
+      <div className="space-y-2">
+        {entries.map((entry) => (
+          <div
+            key={entry.id}
+            className="grid grid-cols-[1fr_1fr_repeat(3,96px)_auto] items-end gap-2"
+          >
+            <div className="space-y-1">
+              <Label className="text-xs">Provider</Label>
+              <Input
+                value={entry.provider}
+                placeholder="openai"
+                onChange={(e) =>
+                  updateEntry(entry.id, { provider: e.target.value.trim() })
+                }
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Model</Label>
+              <Input
+                value={entry.model}
+                placeholder="*"
+                onChange={(e) =>
+                  updateEntry(entry.id, { model: e.target.value.trim() })
+                }
+              />
+            </div>
+            {PRICE_FIELDS.map(({ key, label }) => (
+              <div key={key} className="space-y-1">
+                <Label className="text-xs">{label}</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={entry[key]}
+                  onChange={(e) =>
+                    updateEntry(entry.id, {
+                      [key]: Math.max(0, Number(e.target.value) || 0),
+                    })
+                  }
+                />
+              </div>
+            ))}
+            <Button
+              size="icon"
+              variant="ghost"
+              title="Remove price"
+              onClick={() =>
+                saveEntries(entries.filter((item) => item.id !== entry.id))
+              }
+            >
+              <TrashIcon className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex gap-2">
+        <Button variant="outline" onClick={addEntry}>
+          <PlusIcon className="h-4 w-4 mr-2" />
+          Add Price
+        </Button>
+        <Button variant="outline" onClick={() => setEntries(resetPricingTable())}>
+          <RotateCcwIcon className="h-4 w-4 mr-2" />
+          Reset to Defaults
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -1,13 +1,41 @@
 import { Header } from "@/components";
 import { MicrophoneMix } from "@/pages/app/components/speech/MicrophoneMix";
+import { SpeakerDiarization } from "@/pages/app/components/speech/SpeakerDiarization";
+import { SubtitleSettingsPanel } from "@/pages/app/components/speech/SubtitleSettingsPanel";
+import { TranslationSettingsPanel } from "@/pages/app/components/speech/TranslationSettingsPanel";
+import { MeetingSummarySettingsPanel } from "@/pages/app/components/speech/MeetingSummarySettingsPanel";
+import { LiveNotesSettingsPanel } from "@/pages/app/components/speech/LiveNotesSettingsPanel";
 import { Context } from "@/pages/app/components/speech/Context";
+import { ContextDocumentsPanel } from "@/pages/app/components/speech/ContextDocumentsPanel";
 import { VadConfigPanel } from "@/pages/app/components/speech/VadConfigPanel";
-import { useState, useEffect, useCallback } from "react";
-import { safeLocalStorage } from "@/lib";
-import { emit } from "@tauri-apps/api/event";
+import { useState, useEffect, useCallback, useRef } from "react";
+import {
+  getDocumentContextSettings,
+  getLiveNotesSettings,
+  getMeetingSummarySettings,
+  getSubtitleSettings,
+  getTranslationSettings,
+  resolveSecret,
+  safeLocalStorage,
+  saveDocumentContextSettings,
+  SECRET_SAVE_DEBOUNCE_MS,
+  setLiveNotesSettings,
+  setMeetingSummarySettings,
+  setSubtitleSettings,
+  setTranslationSettings,
+} from "@/lib";
+import { emit, listen } from "@tauri-apps/api/event";
 import { STORAGE_KEYS } from "@/config";
 import { invoke } from "@tauri-apps/api/core";
 import type { VadConfig } from "@/hooks/useAudioOverlay";
+import type {
+  DocumentContextSettings,
+  LiveNotesSettings,
+  MeetingProfile,
+  MeetingSummarySettings,
+  SubtitleSettings,
+  TranslationSettings,
+} from "@/types";
 import { DEFAULT_VAD_CONFIG, LEGACY_DEFAULT_VAD_CONFIG } from "@/hooks/useAudioOverlay";
 
 const isLegacyDefaultVadConfig = (config: VadConfig) =>
@@ -26,10 +54,47 @@ export const SystemAudioSettings = () => {
   // State for microphone mixing
   const [includeMicrophone, setIncludeMicrophoneState] = useState<boolean>(false);
 
+  // State for speaker diarization
+  const [diarization, setDiarizationState] = useState<boolean>(false);
+
+  // State for bilingual subtitle mode
+  const [subtitleSettings, setSubtitleSettingsState] =
+    useState<SubtitleSettings>(getSubtitleSettings);
+
+  // State for translation engine
+  const [translationSettings, setTranslationSettingsState] =
+    useState<TranslationSettings>(getTranslationSettings);
+
+  // State for post-meeting summary
+  const [meetingSummarySettings, setMeetingSummarySettingsState] =
+    useState<MeetingSummarySettings>(getMeetingSummarySettings);
+
+  // State for live Markdown notes
+  const [liveNotesSettings, setLiveNotesSettingsState] =
+    useState<LiveNotesSettings>(getLiveNotesSettings);
+
   // State for context
   const [useSystemPrompt, setUseSystemPromptState] = useState<boolean>(true);
   const [contextContent, setContextContentState] = useState<string>("");
 
+  // State for document retrieval
+  const [documentContextSettings, setDocumentContextSettingsState] =
+    useState<DocumentContextSettings>(getDocumentContextSettings);
+  const documentContextSaveRef = useRef<ReturnType<typeof setTimeout> | null>(
+    null
+  );
+
+  // The embeddings API key is stored as a keyring reference
+  useEffect(() => {
+    resolveSecret(getDocumentContextSettings().embeddingApiKey).then(
+      (embeddingApiKey) =>
+        setDocumentContextSettingsState((prev) => ({
+          ...prev,
+          embeddingApiKey,
+        }))
+    );
+  }, []);
+
   // State for VAD config
   const [vadConfig, setVadConfigState] = useState<VadConfig>(DEFAULT_VAD_CONFIG);
 
@@ -43,6 +108,11 @@ export const SystemAudioSettings = () => {
       setIncludeMicrophoneState(savedIncludeMic === "true");
     }
 
+    // Load speaker diarization setting
+    setDiarizationState(
+      safeLocalStorage.getItem(STORAGE_KEYS.SYSTEM_AUDIO_DIARIZATION) === "true"
+    );
+
     // Load context settings
     const savedContext = safeLocalStorage.getItem(
       STORAGE_KEYS.SYSTEM_AUDIO_CONTEXT
@@ -83,6 +153,26 @@ export const SystemAudioSettings = () => {
     }
   }, []);
 
+  // A meeting profile replaces the context and the document library
+  useEffect(() => {
+    const unlistenPromise = listen<{ profile: MeetingProfile }>(
+      "meetingProfileApplied",
+      (event) => {
+        const { profile } = event.payload ?? {};
+        if (!profile) return;
+        setUseSystemPromptState(profile.audioContext.useSystemPrompt);
+        setContextContentState(profile.audioContext.contextContent);
+        setDocumentContextSettingsState((prev) => ({
+          ...prev,
+          libraryId: getDocumentContextSettings().libraryId,
+        }));
+      }
+    );
+    return () => {
+      unlistenPromise.then((unlisten) => unlisten());
+    };
+  }, []);
+
   // Update functions that save to localStorage
   const setIncludeMicrophone = useCallback((value: boolean) => {
     setIncludeMicrophoneState(value);
@@ -96,6 +186,50 @@ export const SystemAudioSettings = () => {
     });
   }, []);
 
+  // Read by the overlay when the next capture starts
+  const setDiarization = useCallback((value: boolean) => {
+    setDiarizationState(value);
+    safeLocalStorage.setItem(
+      STORAGE_KEYS.SYSTEM_AUDIO_DIARIZATION,
+      value.toString()
+    );
+  }, []);
+
+  const updateSubtitleSettings = useCallback((settings: SubtitleSettings) => {
+    setSubtitleSettingsState(settings);
+    setSubtitleSettings(settings);
+    // The overlay switches modes live, even mid-capture
+    emit("subtitleSettingsChanged", { settings }).catch((error) => {
+      console.error("Failed to emit subtitleSettingsChanged event:", error);
+    });
+  }, []);
+
+  const updateTranslationSettings = useCallback(
+    (settings: TranslationSettings) => {
+      setTranslationSettingsState(settings);
+      setTranslationSettings(settings);
+      emit("translationSettingsChanged", { settings }).catch((error) => {
+        console.error("Failed to emit translationSettingsChanged event:", error);
+      });
+    },
+    []
+  );
+
+  // Read by the overlay each time capture stops
+  const updateMeetingSummarySettings = useCallback(
+    (settings: MeetingSummarySettings) => {
+      setMeetingSummarySettingsState(settings);
+      setMeetingSummarySettings(settings);
+    },
+    []
+  );
+
+  // Read by the main window for every new transcript segment
+  const updateLiveNotesSettings = useCallback((settings: LiveNotesSettings) => {
+    setLiveNotesSettingsState(settings);
+    setLiveNotesSettings(settings);
+  }, []);
+
   const setUseSystemPrompt = useCallback((value: boolean) => {
     setUseSystemPromptState(value);
     const contextSettings = {
@@ -120,6 +254,23 @@ export const SystemAudioSettings = () => {
     );
   }, [useSystemPrompt]);
 
+  // Read by the main window for every AI request; saved once typing pauses
+  // since the API key goes to the keyring
+  const updateDocumentContextSettings = useCallback(
+    (settings: DocumentContextSettings) => {
+      setDocumentContextSettingsState(settings);
+      if (documentContextSaveRef.current) {
+        clearTimeout(documentContextSaveRef.current);
+      }
+      documentContextSaveRef.current = setTimeout(() => {
+        saveDocumentContextSettings(settings).catch((error) =>
+          console.error("Failed to save document context settings:", error)
+        );
+      }, SECRET_SAVE_DEBOUNCE_MS);
+    },
+    []
+  );
+
   const updateVadConfiguration = useCallback((config: VadConfig) => {
     setVadConfigState(config);
     safeLocalStorage.setItem("vad_config", JSON.stringify(config));
@@ -154,6 +305,46 @@ export const SystemAudioSettings = () => {
         />
       </div>
 
+      {/* Speaker Diarization */}
+      <div className="border rounded-lg p-4">
+        <SpeakerDiarization
+          diarization={diarization}
+          setDiarization={setDiarization}
+        />
+      </div>
+
+      {/* Bilingual Subtitles */}
+      <div className="border rounded-lg p-4">
+        <SubtitleSettingsPanel
+          settings={subtitleSettings}
+          onUpdate={updateSubtitleSettings}
+        />
+      </div>
+
+      {/* Translation Engine */}
+      <div className="border rounded-lg p-4">
+        <TranslationSettingsPanel
+          settings={translationSettings}
+          onUpdate={updateTranslationSettings}
+        />
+      </div>
+
+      {/* Meeting Summary */}
+      <div className="border rounded-lg p-4">
+        <MeetingSummarySettingsPanel
+          settings={meetingSummarySettings}
+          onUpdate={updateMeetingSummarySettings}
+        />
+      </div>
+
+      {/* Live Notes */}
+      <div className="border rounded-lg p-4">
+        <LiveNotesSettingsPanel
+          settings={liveNotesSettings}
+          onUpdate={updateLiveNotesSettings}
+        />
+      </div>
+
       {/* Context Settings */}
       <div className="border rounded-lg p-4">
         <Context
@@ -164,6 +355,14 @@ export const SystemAudioSettings = () => {
         />
       </div>
 
+      {/* Context Documents */}
+      <div className="border rounded-lg p-4">
+        <ContextDocumentsPanel
+          settings={documentContextSettings}
+          onUpdate={updateDocumentContextSettings}
+        />
+      </div>
+
       {/* VAD Configuration */}
       <div className="border rounded-lg p-4">
         <VadConfigPanel vadConfig={vadConfig} onUpdate={updateVadConfiguration} />
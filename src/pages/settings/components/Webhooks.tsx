@@ -0,0 +1,342 @@
+import { useEffect, useState } from "react";
+import moment from "moment";
+import {
+  Badge,
+  Button,
+  Header,
+  Input,
+  Label,
+  Switch,
+  Textarea,
+} from "@/components";
+import {
+  DEFAULT_WEBHOOK_PAYLOAD_TEMPLATE,
+  STORAGE_KEYS,
+  WEBHOOK_EVENTS,
+  WEBHOOK_TEMPLATE_VARIABLES,
+} from "@/config";
+import {
+  clearWebhookDeliveries,
+  getWebhookDeliveries,
+  getWebhookSettings,
+  queueWebhookTest,
+  retryWebhookDelivery,
+  setWebhookSettings,
+} from "@/lib";
+import { Webhook, WebhookDelivery, WebhookSettings } from "@/types";
+import { PlusIcon, RotateCwIcon, SendIcon, TrashIcon } from "lucide-react";
+
+const STATUS_VARIANTS = {
+  pending: "secondary",
+  delivered: "outline",
+  failed: "destructive",
+} as const;
+
+const createWebhook = (): Webhook => ({
+  id: crypto.randomUUID(),
+  name: "New webhook",
+  enabled: true,
+  url: "",
+  headers: "",
+  events: WEBHOOK_EVENTS.map((event) => event.id),
+  payloadTemplate: DEFAULT_WEBHOOK_PAYLOAD_TEMPLATE,
+});
+
+interface WebhookCardProps {
+  webhook: Webhook;
+  onUpdate: (updates: Partial<Webhook>) => void;
+  onRemove: () => void;
+}
+
+const WebhookCard = ({ webhook, onUpdate, onRemove }: WebhookCardProps) => {
+  const toggleEvent = (id: Webhook["events"][number]) =>
+    onUpdate({
+      events: webhook.events.includes(id)
+        ? webhook.events.filter((event) => event !== id)
+        : [...webhook.events, id],
+    });
+
+  return (
+    <div className="rounded-lg border p-3 space-y-3">
+      <div className="flex items-center gap-2">
+        <Input
+          value={webhook.name}
+          onChange={(e) => onUpdate({ name: e.target.value })}
+          className="h-8 text-sm font-medium"
+        />
+        <Switch
+          checked={webhook.enabled}
+          onCheckedChange={(enabled) => onUpdate({ enabled })}
+        />
+        <Button
+          variant="outline"
+          size="icon"
+          title="Send a test event"
+          disabled={!webhook.url.trim()}
+          onClick={() => queueWebhookTest(webhook)}
+        >
+          <SendIcon className="size-4" />
+        </Button>
+        <Button
+          variant="outline"
+          size="icon"
+          title="Remove webhook"
+          onClick={onRemove}
+        >
+          <TrashIcon className="size-4" />
+        </Button>
+      </div>
+
+      <div className="space-y-1">
+        <Label className="text-xs font-medium">URL</Label>
+        <Input
+          value={webhook.url}
+          placeholder="http://127.0.0.1:8080/talkecho"
+          onChange={(e) => onUpdate({ url: e.target.value })}
+          className="text-xs"
+        />
+      </div>
+
+      <div className="space-y-1">
+        <Label className="text-xs font-medium">Events</Label>
+        <div className="flex flex-wrap gap-2">
+          {WEBHOOK_EVENTS.map((event) => (
+            <Button
+              key={event.id}
+              size="sm"
+              variant={webhook.events.includes(event.id) ? "default" : "outline"}
+              title={event.description}
+              className="h-7 text-xs"
+              onClick={() => toggleEvent(event.id)}
+            >
+              {event.label}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <Label className="text-xs font-medium">Headers</Label>
+        <Textarea
+          value={webhook.headers}
+          placeholder="Authorization: Bearer ..."
+          onChange={(e) => onUpdate({ headers: e.target.value })}
+          className="min-h-16 text-xs font-mono resize-y"
+        />
+      </div>
+
+      <div className="space-y-1">
+        <div className="flex items-center justify-between">
+          <Label className="text-xs font-medium">Payload</Label>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 text-xs"
+            disabled={
+              webhook.payloadTemplate === DEFAULT_WEBHOOK_PAYLOAD_TEMPLATE
+            }
+            onClick={() =>
+              onUpdate({ payloadTemplate: DEFAULT_WEBHOOK_PAYLOAD_TEMPLATE })
+            }
+          >
+            Reset
+          </Button>
+        </div>
+        <Textarea
+          value={webhook.payloadTemplate}
+          onChange={(e) => onUpdate({ payloadTemplate: e.target.value })}
+          className="min-h-20 text-xs font-mono resize-y"
+        />
+        <p className="text-xs text-muted-foreground">
+          <code>{"{{PAYLOAD}}"}</code> is the whole event as JSON. Also
+          available:{" "}
+          {WEBHOOK_TEMPLATE_VARIABLES.map((name) => `{{${name}}}`).join(", ")}
+          . For Slack, use{" "}
+          <code>{'{"text": "{{CONVERSATION_TITLE}}: {{TEXT}}"}'}</code>.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export const Webhooks = () => {
+  const [settings, setSettings] = useState<WebhookSettings>(
+    getWebhookSettings
+  );
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>(
+    getWebhookDeliveries
+  );
+
+  // Deliveries are sent and updated by the main window
+  useEffect(() => {
+    const handleStorageChange = (e: StorageEvent) => {
+      if (e.key === STORAGE_KEYS.WEBHOOK_DELIVERIES) {
+        setDeliveries(getWebhookDeliveries());
+      }
+    };
+    window.addEventListener("storage", handleStorageChange);
+    return () => window.removeEventListener("storage", handleStorageChange);
+  }, []);
+
+  const handleUpdate = (next: WebhookSettings) => {
+    setSettings(next);
+    setWebhookSettings(next);
+  };
+
+  const updateWebhook = (id: string, updates: Partial<Webhook>) =>
+    handleUpdate({
+      ...settings,
+      webhooks: settings.webhooks.map((webhook) =>
+        webhook.id === id ? { ...webhook, ...updates } : webhook
+      ),
+    });
+
+  const refreshAfter = (action: () => void) => {
+    action();
+    setDeliveries(getWebhookDeliveries());
+  };
+
+  return (
+    <div id="webhooks" className="space-y-3">
+      <Header
+        title="Webhooks"
+        description="POST session, transcript, AI response and meeting summary events to your own endpoints, such as a local relay into a CRM or Slack. Failed deliveries are retried with increasing delays."
+        isMainTitle
+      />
+
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <Label className="text-sm font-medium">Attempts per delivery</Label>
+          <p className="text-xs text-muted-foreground mt-1">
+            Rate limits, timeouts, server and network errors are retried after
+            10s, 30s, 2m, 10m and 30m.
+          </p>
+        </div>
+        <Input
+          type="number"
+          min={1}
+          max={10}
+          className="w-20"
+          value={settings.maxAttempts}
+          onChange={(e) =>
+            handleUpdate({
+              ...settings,
+              maxAttempts: Math.min(
+                Math.max(Math.floor(Number(e.target.value)) || 1, 1),
+                10
+              ),
+            })
+          }
+        />
+      </div>
+
+      {settings.webhooks.map((webhook) => (
+        <WebhookCard
+          key={webhook.id}
+          webhook={webhook}
+          onUpdate={(updates) => updateWebhook(webhook.id, updates)}
+          onRemove={() =>
+            handleUpdate({
+              ...settings,
+              webhooks: settings.webhooks.filter((w) => w.id !== webhook.id),
+            })
+          }
+        />
+      ))}
+
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() =>
+          handleUpdate({
+            ...settings,
+            webhooks: [...settings.webhooks, createWebhook()],
+          })
+        }
+      >
+        <PlusIcon className="h-4 w-4 mr-1" />
+        Add webhook
+      </Button>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label className="text-sm font-medium">Delivery log</Label>
+          <div className="flex gap-1">
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 text-xs"
+              onClick={() => setDeliveries(getWebhookDeliveries())}
+            >
+              Refresh
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 text-xs"
+              disabled={deliveries.every((d) => d.status === "pending")}
+              onClick={() => refreshAfter(clearWebhookDeliveries)}
+            >
+              Clear
+            </Button>
+          </div>
+        </div>
+
+        {deliveries.length === 0 ? (
+          <p className="text-xs text-muted-foreground">No deliveries yet.</p>
+        ) : (
+          <div className="max-h-64 overflow-y-auto rounded-md border divide-y">
+            {deliveries.map((delivery) => (
+              <div
+                key={delivery.id}
+                className="flex items-start justify-between gap-2 px-3 py-2"
+              >
+                <div className="min-w-0 space-y-0.5">
+                  <div className="flex items-center gap-2">
+                    <Badge variant={STATUS_VARIANTS[delivery.status]}>
+                      {delivery.status}
+                    </Badge>
+                    <span className="text-xs font-medium">
+                      {delivery.event}
+                    </span>
+                    <span className="text-xs text-muted-foreground truncate">
+                      {delivery.webhookName}
+                    </span>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {moment(delivery.createdAt).format("MMM D, HH:mm:ss")}
+                    {delivery.statusCode ? ` · HTTP ${delivery.statusCode}` : ""}
+                    {` · ${delivery.attempts} attempt${
+                      delivery.attempts === 1 ? "" : "s"
+                    }`}
+                    {delivery.status === "pending" && delivery.nextAttemptAt
+                      ? ` · next ${moment(delivery.nextAttemptAt).fromNow()}`
+                      : ""}
+                  </p>
+                  {delivery.error && (
+                    <p className="text-xs text-red-500 break-all">
+                      {delivery.error}
+                    </p>
+                  )}
+                </div>
+                {delivery.status === "failed" &&
+                  delivery.body !== undefined && (
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      title="Retry"
+                      onClick={() =>
+                        refreshAfter(() => retryWebhookDelivery(delivery.id))
+                      }
+                    >
+                      <RotateCwIcon className="size-4" />
+                    </Button>
+                  )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
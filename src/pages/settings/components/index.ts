@@ -3,3 +3,10 @@ export * from "./AppIconToggle";
 export * from "./AutostartToggle";
 export * from "./Theme";
 export * from "./SystemAudioSettings";
+export * from "./PricingTable";
+export * from "./DatabaseEncryption";
+export * from "./DataRetention";
+export * from "./BackupRestore";
+export * from "./ControlApi";
+export * from "./Webhooks";
+export * from "./MeetingProfiles";
@@ -3,6 +3,13 @@ import {
   AlwaysOnTopToggle,
   AppIconToggle,
   AutostartToggle,
+  PricingTable,
+  DatabaseEncryption,
+  DataRetention,
+  BackupRestore,
+  ControlApi,
+  Webhooks,
+  MeetingProfiles,
 } from "./components";
 import { PageLayout } from "@/layouts";
 
@@ -21,6 +28,27 @@ const Settings = () => {
       {/* Always On Top Toggle */}
       <AlwaysOnTopToggle />
 
+      {/* Meeting Profiles */}
+      <MeetingProfiles />
+
+      {/* Chat History Encryption */}
+      <DatabaseEncryption />
+
+      {/* Chat History Retention */}
+      <DataRetention />
+
+      {/* Backup & Restore */}
+      <BackupRestore />
+
+      {/* Automation API */}
+      <ControlApi />
+
+      {/* Outbound Webhooks */}
+      <Webhooks />
+
+      {/* Usage Pricing */}
+      <PricingTable />
+
     </PageLayout>
   );
 };
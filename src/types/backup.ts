@@ -0,0 +1,30 @@
+import { ChatConversation } from "./completion";
+import { SystemPrompt } from "./system-prompts";
+
+export interface BackupArchive {
+  format: "talkecho-backup";
+  version: number;
+  createdAt: number;
+  appVersion: string;
+  /** API keys and other secrets were blanked out on export */
+  secretsRedacted: boolean;
+  /** Raw localStorage values by key */
+  settings: Record<string, string>;
+  /** Selected TalkEcho model from the Rust secure storage */
+  selectedTalkEchoModel?: string;
+  systemPrompts: Pick<SystemPrompt, "name" | "prompt">[];
+  conversations: ChatConversation[];
+}
+
+export interface BackupOptions {
+  redactSecrets: boolean;
+  includeConversations: boolean;
+}
+
+export interface RestoreResult {
+  settings: number;
+  systemPrompts: number;
+  conversations: number;
+  /** Conversations that already existed and were left untouched */
+  skippedConversations: number;
+}
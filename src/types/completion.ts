@@ -1,3 +1,6 @@
+import { MessageUsage } from "./usage";
+import { MeetingSummary } from "./summary";
+
 // Completion-related types
 export interface AttachedFile {
   id: string;
@@ -14,6 +17,9 @@ export interface ChatMessage {
   timestamp: number;
   attachedFiles?: AttachedFile[];
   source?: "system_audio" | "microphone";
+  usage?: MessageUsage;
+  /** Diarized speaker of a system audio message (e.g. "S1") */
+  speakerId?: string;
 }
 
 export interface ChatConversation {
@@ -22,6 +28,89 @@ export interface ChatConversation {
   messages: ChatMessage[];
   createdAt: number;
   updatedAt: number;
+  /** Display names for diarized speaker ids */
+  speakerNames?: Record<string, string>;
+  /** Post-meeting summary, action items, decisions and open questions */
+  summary?: MeetingSummary;
+  folder?: string;
+  tags?: string[];
+  pinned?: boolean;
+}
+
+/**
+ * Conversation row for history lists, without its messages
+ */
+export interface ConversationSummary {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  messageCount?: number;
+  /** Start of the latest message */
+  preview?: string;
+  folder?: string;
+  tags?: string[];
+  pinned?: boolean;
+}
+
+/** Keyset cursor: the last conversation of the previous page */
+export interface ConversationCursor {
+  pinned: boolean;
+  updatedAt: number;
+  id: string;
+}
+
+/** Narrows history lists to one folder, tag or the pinned conversations */
+export interface ConversationFilters {
+  folder?: string;
+  tag?: string;
+  pinned?: boolean;
+}
+
+/** A folder or tag with the number of conversations in it */
+export interface ConversationGroup {
+  name: string;
+  count: number;
+}
+
+export interface ConversationGroups {
+  pinned: number;
+  folders: ConversationGroup[];
+  tags: ConversationGroup[];
+}
+
+/** Fields changed from the organize dialog; undefined fields are kept */
+export interface ConversationOrganization {
+  title?: string;
+  /** Null removes the conversation from its folder */
+  folder?: string | null;
+  tags?: string[];
+  pinned?: boolean;
+}
+
+export interface ConversationPage {
+  conversations: ConversationSummary[];
+  /** Undefined on the last page */
+  nextCursor?: ConversationCursor;
+}
+
+export interface MessageSearchFilters {
+  source?: "system_audio" | "microphone";
+  role?: "user" | "assistant";
+  /** Inclusive timestamp range in ms */
+  from?: number;
+  to?: number;
+}
+
+export interface MessageSearchResult {
+  messageId: string;
+  conversationId: string;
+  conversationTitle: string;
+  role: ChatMessage["role"];
+  source?: ChatMessage["source"];
+  timestamp: number;
+  /** Excerpt with matches wrapped in SEARCH_HIGHLIGHT_START/END markers */
+  snippet: string;
 }
 
 export interface CompletionState {
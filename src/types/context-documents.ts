@@ -0,0 +1,50 @@
+export interface ContextLibrary {
+  id: number;
+  name: string;
+  created_at: number;
+}
+
+export interface ContextDocument {
+  id: number;
+  library_id: number;
+  name: string;
+  size_bytes: number;
+  /** Engine and model the chunks were embedded with, e.g. `local:hash-1024` */
+  embedding_model: string;
+  created_at: number;
+  chunk_count: number;
+}
+
+export interface ContextChunk {
+  id: number;
+  document_id: number;
+  position: number;
+  content: string;
+  /** Little-endian float32 vector in base64 */
+  embedding: string;
+}
+
+export type EmbeddingEngine = "local" | "openai";
+
+export interface DocumentContextSettings {
+  /** Add relevant document excerpts to the audio assistant's prompt */
+  enabled: boolean;
+  /** Library searched for each transcript segment */
+  libraryId: number | null;
+  /** `local` needs no setup; `openai` is any OpenAI-compatible endpoint */
+  embeddingEngine: EmbeddingEngine;
+  /** Base URL of the embeddings endpoint, e.g. http://localhost:11434/v1 */
+  embeddingUrl: string;
+  embeddingModel: string;
+  embeddingApiKey: string;
+  /** Excerpts added per segment */
+  topK: number;
+  /** Excerpts less similar than this are left out (cosine, 0-1) */
+  minScore: number;
+}
+
+export interface RetrievedChunk {
+  documentName: string;
+  content: string;
+  score: number;
+}
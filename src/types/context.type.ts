@@ -17,7 +17,7 @@ export type IContextType = {
   }: {
     provider: string;
     variables: Record<string, string>;
-  }) => void;
+  }) => Promise<void>;
   allSttProviders: TYPE_PROVIDER[];
   customSttProviders: TYPE_PROVIDER[];
   selectedSttProvider: {
@@ -30,7 +30,7 @@ export type IContextType = {
   }: {
     provider: string;
     variables: Record<string, string>;
-  }) => void;
+  }) => Promise<void>;
   sttLanguage: string;
   onSetSttLanguage: (language: string) => void;
   screenshotConfiguration: ScreenshotConfig;
@@ -0,0 +1,40 @@
+export interface ControlApiSettings {
+  /** Serve the API on 127.0.0.1 while TalkEcho runs */
+  enabled: boolean;
+  port: number;
+  /** Required on every request, as a bearer token or `token` query parameter */
+  token: string;
+}
+
+export interface ControlApiStatus {
+  running: boolean;
+  port: number | null;
+}
+
+export type ControlApiAction =
+  | "status"
+  | "startCapture"
+  | "stopCapture"
+  | "sendPrompt"
+  | "listSystemPrompts"
+  | "selectSystemPrompt";
+
+/**
+ * An HTTP request forwarded to the main window, answered with
+ * `control_api_respond`
+ */
+export interface ControlApiRequest {
+  id: number;
+  action: ControlApiAction;
+  params: Record<string, unknown> | null;
+}
+
+/**
+ * Sent to the clients of the events WebSocket
+ */
+export type ControlApiEvent =
+  | { type: "capture"; capturing: boolean }
+  | { type: "transcript"; text: string }
+  | { type: "response"; prompt: string; text: string; provider?: string }
+  | { type: "systemPrompt"; id: number | null; name: string | null }
+  | { type: "error"; message: string };
@@ -0,0 +1,9 @@
+/** Where the database encryption key comes from */
+export type DatabaseKeySource = "keychain" | "passphrase";
+
+export interface DatabaseEncryptionStatus {
+  enabled: boolean;
+  keySource?: DatabaseKeySource;
+  /** Encrypted, but no key has been unlocked in this app session */
+  locked: boolean;
+}
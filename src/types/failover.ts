@@ -0,0 +1,32 @@
+/**
+ * A provider tried when the ones before it in the chain fail
+ */
+export interface FailoverProvider {
+  providerId: string;
+  /** Seconds to wait for the first part of the answer; 0 waits indefinitely */
+  timeoutSeconds: number;
+}
+
+export interface FailoverSettings {
+  /** Fall back to the providers in `fallbacks` when the selected one fails */
+  enabled: boolean;
+  /** Tried in order after the selected provider */
+  fallbacks: FailoverProvider[];
+  /** Seconds the selected provider gets to start answering; 0 waits indefinitely */
+  timeoutSeconds: number;
+  /** Retries per provider on rate limits (429), server errors and network errors */
+  maxRetries: number;
+}
+
+/**
+ * The provider that produced an AI response, in the shape of the selected
+ * provider so it can be passed to `buildMessageUsage`
+ */
+export interface AIProviderAnswer {
+  provider: string;
+  variables: Record<string, string>;
+  /** Answered by a fallback rather than the selected provider */
+  isFallback: boolean;
+  /** Requests that failed before the answer, across retries and providers */
+  failedAttempts: number;
+}
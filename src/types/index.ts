@@ -4,5 +4,20 @@ export * from "./context.type";
 export * from "./provider.type";
 export * from "./settings.hook";
 export * from "./completion";
+export * from "./usage";
 export * from "./system-prompts";
 export * from "./shortcuts";
+export * from "./subtitle";
+export * from "./translation";
+export * from "./transcript";
+export * from "./summary";
+export * from "./encryption";
+export * from "./retention";
+export * from "./backup";
+export * from "./failover";
+export * from "./ocr";
+export * from "./control-api";
+export * from "./live-notes";
+export * from "./webhook";
+export * from "./context-documents";
+export * from "./meeting-profile";
@@ -0,0 +1,12 @@
+export interface LiveNotesSettings {
+  /** Append the transcript to a Markdown note while capture runs */
+  enabled: boolean;
+  /** Absolute path of the folder, e.g. an Obsidian vault */
+  directory: string;
+  /** Note file name; {date}, {time}, {title} and {id} are filled in */
+  fileNameTemplate: string;
+  /** Write the AI response below each segment */
+  includeResponses: boolean;
+  /** Comma-separated tags for the front matter */
+  tags: string;
+}
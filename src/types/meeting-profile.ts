@@ -0,0 +1,28 @@
+import type { ResponseSettings } from "@/lib/storage";
+
+export interface MeetingProfile {
+  id: string;
+  name: string;
+  /** Saved system prompt; its current text is used when it still exists */
+  systemPromptId: number | null;
+  /** Prompt text at the time the profile was saved */
+  systemPrompt: string;
+  /** Provider ids only; API keys stay with the provider settings */
+  aiProvider: string;
+  sttProvider: string;
+  sttLanguage: string;
+  responseSettings: ResponseSettings;
+  quickActions: string[];
+  audioContext: {
+    useSystemPrompt: boolean;
+    contextContent: string;
+  };
+  /** Context document library searched during capture */
+  documentLibraryId: number | null;
+  updatedAt: number;
+}
+
+export interface MeetingProfileSettings {
+  profiles: MeetingProfile[];
+  activeProfileId: string | null;
+}
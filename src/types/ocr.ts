@@ -0,0 +1,13 @@
+export interface OcrSettings {
+  /** Read the text of screenshots locally before they are sent */
+  enabled: boolean;
+  /** Also send the image to providers that accept images */
+  includeImage: boolean;
+  /** Tesseract language ids, e.g. "eng" */
+  languages: string[];
+}
+
+export interface OcrLanguageOption {
+  id: string;
+  label: string;
+}
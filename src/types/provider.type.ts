@@ -1,7 +1,167 @@
+import { Message } from "./completion";
+
+/**
+ * Native request/stream formats that can drive a provider instead of the
+ * generic curl template heuristics.
+ */
+export type ProviderAdapterId =
+  | "openai"
+  | "anthropic"
+  | "gemini"
+  | "cohere"
+  | "ollama";
+
+/** WebSocket protocols for streaming speech-to-text sessions */
+export type SttStreamAdapterId =
+  | "deepgram"
+  | "assemblyai"
+  | "openai-realtime"
+  | "whisper-live";
+
 export interface TYPE_PROVIDER {
   id?: string;
   streaming?: boolean;
   responseContentPath?: string;
   isCustom?: boolean;
   curl: string;
+  /** When set, requests are built and parsed by the native adapter */
+  adapter?: ProviderAdapterId;
+  /** Dot path to the token usage object for curl-template providers */
+  responseUsagePath?: string;
+  /** STT only: stream audio over this WebSocket protocol instead of posting segments */
+  streamAdapter?: SttStreamAdapterId;
+  /** STT only: the submit request returns a job id (at responseContentPath) to poll */
+  polling?: SttPollingConfig;
+  /** STT only: transcribe on this machine instead of sending the request */
+  localEngine?: "whisper-cpp";
+}
+
+/** ggml model offered for the offline whisper.cpp engine */
+export interface WhisperModelOption {
+  id: string;
+  label: string;
+  sizeMb: number;
+}
+
+/**
+ * Submit-then-poll settings for batch STT providers. `{{JOB_ID}}` and the
+ * provider variables are replaced in both URLs; the submit headers are reused.
+ */
+export interface SttPollingConfig {
+  /** Job status URL, e.g. https://api.example.com/v1/jobs/{{JOB_ID}} */
+  url: string;
+  /** Path to the job status in the poll response */
+  statusPath: string;
+  /** Status value that marks the job as finished */
+  completedValue: string;
+  /** Status value that marks the job as failed */
+  failedValue?: string;
+  /** Path to the transcript (poll or transcript response); empty = plain text body */
+  transcriptPath?: string;
+  /** Separate URL to download the transcript from once the job is finished */
+  transcriptUrl?: string;
+  /** Give up after this many seconds */
+  timeoutSeconds?: number;
+  /** Delay before the first poll, grown by backoffFactor up to maxIntervalSeconds */
+  intervalSeconds?: number;
+  backoffFactor?: number;
+  maxIntervalSeconds?: number;
+}
+
+/** Token counts reported by a provider for one request */
+export interface TokenUsage {
+  promptTokens?: number;
+  completionTokens?: number;
+}
+
+/**
+ * Input for building a native provider request. `url`, `headers` and `body`
+ * come from the provider curl with variables already replaced.
+ */
+export interface AdapterRequestParams {
+  url: string;
+  headers: Record<string, string>;
+  body: Record<string, any>;
+  systemPrompt: string;
+  history: Message[];
+  userMessage: string;
+  imagesBase64: string[];
+  stream: boolean;
+}
+
+export interface AdapterRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: Record<string, any>;
+}
+
+/** How a streaming response body is framed on the wire */
+export type AdapterStreamFormat = "sse" | "ndjson" | "json-array";
+
+/** A single framed event from a streaming response */
+export interface StreamEvent {
+  event?: string;
+  data: string;
+}
+
+/** What an adapter extracted from one event or a full response */
+export interface AdapterChunk {
+  delta?: string;
+  done?: boolean;
+  error?: string;
+  usage?: TokenUsage;
+}
+
+export interface ProviderAdapter {
+  id: ProviderAdapterId;
+  buildRequest: (params: AdapterRequestParams) => AdapterRequest;
+  getStreamFormat: (url: string) => AdapterStreamFormat;
+  parseStreamEvent: (event: StreamEvent) => AdapterChunk | null;
+  parseResponse: (json: any) => AdapterChunk;
+}
+
+/** Audio framing on the wire; mirrors `StreamAudioEncoding` in the Rust capture */
+export type SttStreamAudioEncoding = "pcm16" | "f32" | "pcm16-base64";
+
+/**
+ * Session settings passed to `start_system_audio_capture`. Field names match
+ * the Rust `SttStreamConfig` struct.
+ */
+export interface SttStreamConfig {
+  url: string;
+  headers: Record<string, string>;
+  sample_rate: number;
+  audio_encoding: SttStreamAudioEncoding;
+  /** JSON text frame wrapping base64 audio as `{{AUDIO}}` */
+  audio_message_template?: string;
+  /** Sent once after connecting (session/config message) */
+  init_message?: string;
+  /** Sent on stop so the provider flushes pending finals */
+  close_message?: string;
+  frame_ms?: number;
+}
+
+/** One transcript update decoded from a provider message */
+export interface SttStreamEvent {
+  /** Replaces the in-progress text (or commits it when `isFinal`) */
+  text?: string;
+  /** Appended to the in-progress text */
+  delta?: string;
+  isFinal?: boolean;
+  /** The speaker finished; the assembled utterance can be processed */
+  endOfTurn?: boolean;
+  /** Provider speaker label of this text, when diarization is enabled */
+  speaker?: string;
+  error?: string;
+}
+
+export interface SttStreamAdapter {
+  id: SttStreamAdapterId;
+  buildSession: (params: {
+    url: string;
+    headers: Record<string, string>;
+    body: Record<string, any>;
+  }) => SttStreamConfig;
+  /** Returns a parser for one session; parsers may keep per-session state */
+  createParser: () => (data: string) => SttStreamEvent[];
 }
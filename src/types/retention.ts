@@ -0,0 +1,19 @@
+export interface RetentionSettings {
+  /** Purge automatically on startup and periodically while the app runs */
+  enabled: boolean;
+  /** Delete whole conversations after this many days without activity */
+  deleteConversationsAfterDays: number | null;
+  /** Delete transcribed segments and their translations, keeping summaries */
+  deleteTranscriptsAfterDays: number | null;
+  /** Remove attached screenshots and files from messages */
+  purgeAttachmentsAfterDays: number | null;
+  /** Never purge anything from pinned conversations */
+  excludePinned: boolean;
+}
+
+export interface RetentionPurgeResult {
+  deletedConversations: number;
+  deletedTranscriptMessages: number;
+  purgedAttachments: number;
+  ranAt: number;
+}
@@ -1,5 +1,9 @@
 import { TYPE_PROVIDER } from "./provider.type";
-import { ScreenshotConfig, ScreenshotMode } from "./settings";
+import {
+  ScreenshotConfig,
+  ScreenshotMode,
+  ScreenshotTarget,
+} from "./settings";
 
 export interface UseSettingsReturn {
   screenshotConfiguration: ScreenshotConfig;
@@ -9,6 +13,7 @@ export interface UseSettingsReturn {
   handleScreenshotModeChange: (value: ScreenshotMode) => void;
   handleScreenshotPromptChange: (value: string) => void;
   handleScreenshotEnabledChange: (enabled: boolean) => void;
+  handleScreenshotTargetChange: (target: ScreenshotTarget) => void;
   allAiProviders: TYPE_PROVIDER[];
   allSttProviders: TYPE_PROVIDER[];
   selectedAIProvider: { provider: string; variables: Record<string, string> };
@@ -39,11 +39,37 @@ export interface CustomProvider {
 
 export type ScreenshotMode = "auto" | "manual";
 
+/**
+ * What screenshot mode captures. Monitors are matched by name and windows by
+ * part of their title, so the choice survives restarts.
+ */
+export type ScreenshotTarget =
+  | { kind: "activeMonitor" }
+  | { kind: "monitor"; name: string }
+  | { kind: "window"; title: string }
+  | { kind: "windowUnderCursor" };
+
 // Screenshot configuration types
 export interface ScreenshotConfig {
   mode: ScreenshotMode;
   autoPrompt: string;
   enabled: boolean;
+  /** Used unless the selected system prompt has its own target */
+  target: ScreenshotTarget;
+}
+
+export interface ScreenshotMonitor {
+  name: string;
+  width: number;
+  height: number;
+  isPrimary: boolean;
+}
+
+export interface ScreenshotWindow {
+  title: string;
+  appName: string;
+  width: number;
+  height: number;
 }
 
 // Speech-to-Text provider types
@@ -0,0 +1,18 @@
+export interface SubtitleSettings {
+  enabled: boolean;
+  /** Translation font size in px; the original is rendered smaller */
+  fontSize: number;
+  /** Number of caption pairs kept on screen */
+  lineCount: number;
+  /** Seconds after which older lines fade out (0 keeps them) */
+  fadeSeconds: number;
+}
+
+export interface SubtitleLine {
+  id: string;
+  source: string;
+  translation: string;
+  timestamp: number;
+  speakerId?: string;
+  isTranslating?: boolean;
+}
@@ -0,0 +1,29 @@
+import { MessageUsage } from "./usage";
+
+export interface ActionItem {
+  task: string;
+  owner?: string;
+  due?: string;
+}
+
+/**
+ * Post-meeting summary stored with a conversation
+ */
+export interface MeetingSummary {
+  overview: string;
+  actionItems: ActionItem[];
+  decisions: string[];
+  openQuestions: string[];
+  generatedAt: number;
+  /** Combined token usage of all summary requests */
+  usage?: MessageUsage;
+}
+
+export interface MeetingSummarySettings {
+  /** Generate a summary automatically when system audio capture stops */
+  enabled: boolean;
+  /** Instructions for the summary; the output format is added automatically */
+  prompt: string;
+  /** Transcript segments needed before a summary is worth generating */
+  minSegments: number;
+}
@@ -0,0 +1,27 @@
+export type TranscriptExportFormat = "markdown" | "srt" | "vtt" | "json" | "txt";
+
+/** Which text goes into subtitle cues; "both" exports one file per track */
+export type SubtitleTrack = "original" | "translation" | "both";
+
+export interface TranscriptExportOptions {
+  format: TranscriptExportFormat;
+  track?: SubtitleTrack;
+}
+
+/** One spoken segment on the conversation timeline, in ms from its start */
+export interface TranscriptSegment {
+  start: number;
+  end: number;
+  source?: "system_audio" | "microphone";
+  speakerId?: string;
+  speakerName?: string;
+  original: string;
+  /** Paired assistant message (translation or answer) */
+  translation?: string;
+}
+
+export interface ExportedFile {
+  filename: string;
+  content: string;
+  mimeType: string;
+}
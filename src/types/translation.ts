@@ -0,0 +1,53 @@
+import { AIProviderAnswer } from "./failover";
+import { TokenUsage, TYPE_PROVIDER } from "./provider.type";
+
+export type TranslationBackendId = "llm" | "deepl" | "libretranslate";
+
+export interface GlossaryEntry {
+  source: string;
+  target: string;
+}
+
+export interface TranslationSettings {
+  backend: TranslationBackendId;
+  /** LANGUAGES id, or "auto" to let the backend detect it */
+  sourceLanguage: string;
+  /** LANGUAGES id */
+  targetLanguage: string;
+  /** Terms that must always be translated the same way */
+  glossary: GlossaryEntry[];
+  /** Previous segments sent along as context (not translated) */
+  contextSegments: number;
+  deeplApiKey: string;
+  /** Overrides the free/pro endpoint picked from the key */
+  deeplEndpoint?: string;
+  libreTranslateUrl: string;
+  libreTranslateApiKey?: string;
+}
+
+export interface TranslationRequest {
+  text: string;
+  sourceLanguage: string;
+  targetLanguage: string;
+  glossary: GlossaryEntry[];
+  /** Previous source segments, oldest first */
+  context: string[];
+  settings: TranslationSettings;
+  /** Chat provider used by the LLM backend */
+  llm?: {
+    provider: TYPE_PROVIDER | undefined;
+    selectedProvider: { provider: string; variables: Record<string, string> };
+  };
+  signal?: AbortSignal;
+  /** Called with the translation so far while it streams (LLM backend) */
+  onChunk?: (translation: string) => void;
+  /** Called with provider-reported token counts (LLM backend) */
+  onUsage?: (usage: TokenUsage) => void;
+  /** Called with the chat provider that answered (LLM backend) */
+  onProvider?: (answer: AIProviderAnswer) => void;
+}
+
+export interface TranslationBackend {
+  id: TranslationBackendId;
+  translate: (request: TranslationRequest) => Promise<string>;
+}
@@ -0,0 +1,34 @@
+/**
+ * What a message cost to produce: LLM tokens for assistant replies, audio
+ * length for transcribed user turns.
+ */
+export interface MessageUsage {
+  provider?: string;
+  model?: string;
+  promptTokens?: number;
+  completionTokens?: number;
+  audioSeconds?: number;
+}
+
+/**
+ * Price of one provider/model pair in USD. `model` may be "*" to cover every
+ * model of the provider.
+ */
+export interface PricingEntry {
+  id: string;
+  provider: string;
+  model: string;
+  inputPerMillion: number;
+  outputPerMillion: number;
+  audioPerMinute: number;
+}
+
+export interface UsageTotals {
+  promptTokens: number;
+  completionTokens: number;
+  audioSeconds: number;
+  /** USD, summed over the messages that have a matching price */
+  cost: number;
+  /** Messages with usage but no price entry, left out of `cost` */
+  unpricedCount: number;
+}
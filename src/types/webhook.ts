@@ -0,0 +1,62 @@
+export type WebhookEventType =
+  | "session.started"
+  | "session.stopped"
+  | "transcript"
+  | "response"
+  | "summary";
+
+/**
+ * An event as delivered in `{{PAYLOAD}}`; the other template variables are
+ * taken from its fields
+ */
+export interface WebhookEvent {
+  event: WebhookEventType | "test";
+  timestamp: string;
+  conversation: { id: string; title: string } | null;
+  data: Record<string, unknown>;
+}
+
+export interface Webhook {
+  id: string;
+  name: string;
+  enabled: boolean;
+  url: string;
+  /** One `Name: value` per line, like curl's -H */
+  headers: string;
+  /** Events sent to this webhook */
+  events: WebhookEventType[];
+  /** Request body; `{{VAR}}` placeholders are filled in per event */
+  payloadTemplate: string;
+}
+
+export interface WebhookSettings {
+  webhooks: Webhook[];
+  /** Attempts per delivery, including the first one */
+  maxAttempts: number;
+}
+
+export type WebhookDeliveryStatus = "pending" | "delivered" | "failed";
+
+/**
+ * One event sent to one webhook. Pending deliveries are the retry queue and
+ * survive restarts.
+ */
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  webhookName: string;
+  event: WebhookEvent["event"];
+  url: string;
+  /**
+   * Rendered payload, dropped once delivered; retention removes deliveries
+   * that still hold one
+   */
+  body?: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  createdAt: number;
+  lastAttemptAt?: number;
+  nextAttemptAt?: number;
+  statusCode?: number;
+  error?: string;
+}